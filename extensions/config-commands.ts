@@ -12,198 +12,18 @@
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
-import { expandHome, readJsonSafe } from "../src/utils.js";
-
-/** Patterns that indicate a value should be masked in output. */
-const SECRET_KEY_PATTERNS = [
-  /api[_-]?key/i,
-  /secret/i,
-  /token/i,
-  /password/i,
-  /credential/i,
-  /auth/i,
-  /private[_-]?key/i,
-];
-
-/** Check whether a key name looks like it holds a secret. */
-function isSecretKey(key: string): boolean {
-  return SECRET_KEY_PATTERNS.some((re) => re.test(key));
-}
-
-/** Mask a string value, showing only the first 4 chars if long enough. */
-function maskValue(value: string): string {
-  if (value.length <= 4) return "****";
-  return value.slice(0, 4) + "****";
-}
-
-/**
- * Recursively walk a config object and mask values whose keys match
- * secret patterns. Returns a new object (does not mutate the original).
- */
-function maskSecrets(obj: any): any {
-  if (obj === null || obj === undefined) return obj;
-  if (typeof obj !== "object") return obj;
-  if (Array.isArray(obj)) return obj.map((v) => maskSecrets(v));
-
-  const result: Record<string, any> = {};
-  for (const [key, value] of Object.entries(obj)) {
-    if (isSecretKey(key) && typeof value === "string" && value.length > 0) {
-      result[key] = maskValue(value);
-    } else if (typeof value === "object" && value !== null) {
-      result[key] = maskSecrets(value);
-    } else {
-      result[key] = value;
-    }
-  }
-  return result;
-}
-
-/**
- * Extract default values from a JSON Schema `properties` block.
- * Returns a flat object of { propertyName: defaultValue }.
- */
-function extractDefaults(properties: Record<string, any>): Record<string, any> {
-  const defaults: Record<string, any> = {};
-  for (const [key, schema] of Object.entries(properties)) {
-    if (schema && "default" in schema) {
-      defaults[key] = schema.default;
-    }
-  }
-  return defaults;
-}
-
-/**
- * Compare actual config values against schema defaults and return
- * lines describing each property's state (default, overridden, or extra).
- */
-function diffAgainstDefaults(
-  config: Record<string, any>,
-  defaults: Record<string, any>,
-  schemaProps: Record<string, any>,
-): string[] {
-  const lines: string[] = [];
-  const allKeys = new Set([...Object.keys(defaults), ...Object.keys(config)]);
-
-  for (const key of [...allKeys].sort()) {
-    const hasDefault = key in defaults;
-    const hasValue = key in config;
-    const inSchema = key in schemaProps;
-
-    if (hasValue && hasDefault) {
-      const actual = config[key];
-      const def = defaults[key];
-      if (JSON.stringify(actual) === JSON.stringify(def)) {
-        lines.push(`  ${key}: ${JSON.stringify(actual)} (default)`);
-      } else {
-        lines.push(`  ${key}: ${JSON.stringify(actual)} (overridden, default: ${JSON.stringify(def)})`);
-      }
-    } else if (hasValue && !hasDefault && inSchema) {
-      lines.push(`  ${key}: ${JSON.stringify(config[key])} (no default in schema)`);
-    } else if (hasValue && !inSchema) {
-      lines.push(`  ${key}: ${JSON.stringify(config[key])} (extra - not in schema)`);
-    } else if (!hasValue && hasDefault) {
-      lines.push(`  ${key}: (not set, default: ${JSON.stringify(defaults[key])})`);
-    }
-  }
-
-  return lines;
-}
-
-/**
- * Validate config against schema properties. Returns a list of warnings.
- * This is a lightweight check - validates types and required-ness, not a
- * full JSON Schema validator.
- */
-function validateConfig(
-  config: Record<string, any>,
-  schemaProps: Record<string, any>,
-  additionalProperties: boolean,
-): string[] {
-  const warnings: string[] = [];
-
-  // Check for unknown keys (when additionalProperties is false)
-  if (!additionalProperties) {
-    for (const key of Object.keys(config)) {
-      if (!(key in schemaProps)) {
-        warnings.push(`Unknown property "${key}" (not in schema)`);
-      }
-    }
-  }
-
-  // Type-check known properties
-  for (const [key, schema] of Object.entries(schemaProps)) {
-    if (!(key in config)) continue;
-    const value = config[key];
-    const expectedType = (schema as any)?.type;
-    if (!expectedType) continue;
-
-    const actualType = Array.isArray(value) ? "array" : typeof value;
-    if (expectedType !== actualType) {
-      warnings.push(`"${key}": expected ${expectedType}, got ${actualType}`);
-    }
-  }
-
-  return warnings;
-}
-
-/**
- * Find and read the plugin config for a given plugin name.
- * Searches the openclaw config directory for plugin configs.
- */
-function loadPluginConfig(
-  pluginName: string,
-  workspace: string,
-): { config: Record<string, any> | null; source: string } {
-  // Check the main openclaw config file
-  const mainConfigPath = expandHome("~/.openclaw/config.json");
-  const mainConfig = readJsonSafe<Record<string, any> | null>(mainConfigPath, null);
-
-  if (mainConfig?.plugins?.[pluginName]) {
-    return { config: mainConfig.plugins[pluginName], source: mainConfigPath };
-  }
-
-  // Check plugin's own config
-  const pluginDir = path.join(workspace, pluginName);
-  const pluginConfigPath = path.join(pluginDir, "openclaw.plugin.json");
-  if (fs.existsSync(pluginConfigPath)) {
-    const manifest = readJsonSafe<Record<string, any>>(pluginConfigPath, {});
-    return { config: manifest, source: pluginConfigPath };
-  }
-
-  return { config: null, source: "(not found)" };
-}
-
-/**
- * Load the plugin manifest (openclaw.plugin.json) for a specific plugin
- * from the workspace.
- */
-function loadPluginManifest(
-  pluginName: string,
-  workspace: string,
-): Record<string, any> | null {
-  // Direct match
-  const direct = path.join(workspace, pluginName, "openclaw.plugin.json");
-  if (fs.existsSync(direct)) {
-    return readJsonSafe<Record<string, any> | null>(direct, null);
-  }
-
-  // Scan workspace for matching plugin
-  try {
-    const dirs = fs.readdirSync(workspace).filter((d) => d.startsWith("openclaw-"));
-    for (const dir of dirs) {
-      const manifestPath = path.join(workspace, dir, "openclaw.plugin.json");
-      if (!fs.existsSync(manifestPath)) continue;
-      const manifest = readJsonSafe<Record<string, any> | null>(manifestPath, null);
-      if (manifest?.id === pluginName || dir === pluginName) {
-        return manifest;
-      }
-    }
-  } catch {
-    // workspace not readable
-  }
-
-  return null;
-}
+import { readJsonSafe, getProfile, discoverProfiles } from "../src/utils.js";
+import { isSecretKey, maskValue, maskSecrets } from "../src/secrets.js";
+import {
+  extractDefaults,
+  diffAgainstDefaults,
+  validateConfig,
+  loadPluginConfig,
+  loadPluginManifest,
+  findPluginDir,
+  MANIFEST_FIELDS,
+  stripManifestFields,
+} from "../src/plugin-config.js";
 
 export function registerConfigCommands(api: any, workspace: string) {
   // ========================================
@@ -234,14 +54,23 @@ export function registerConfigCommands(api: any, workspace: string) {
       lines.push(`  Home: ${os.homedir()}`);
       lines.push(`  Workspace: ${workspace}`);
 
-      const openclawDir = expandHome("~/.openclaw");
-      lines.push(`  OpenClaw dir: ${openclawDir}`);
-      lines.push(`  Config file: ${path.join(openclawDir, "config.json")}`);
+      const defaultProfile = getProfile("default");
+      lines.push(`  OpenClaw dir: ${defaultProfile.stateDir}`);
+      lines.push(`  Config file: ${defaultProfile.configPath}`);
+
+      const profiles = discoverProfiles();
+      if (profiles.length > 1) {
+        lines.push("");
+        lines.push(`PROFILES (${profiles.length})`);
+        for (const p of profiles) {
+          lines.push(`  ${p.name}: ${p.configPath}${fs.existsSync(p.configPath) ? "" : " (missing)"}`);
+        }
+      }
 
       // 2. Main config file
       lines.push("");
       lines.push("MAIN CONFIG");
-      const mainConfigPath = path.join(openclawDir, "config.json");
+      const mainConfigPath = defaultProfile.configPath;
       const mainConfig = readJsonSafe<Record<string, any> | null>(mainConfigPath, null);
 
       if (mainConfig) {
@@ -387,7 +216,7 @@ function showPluginConfig(
     const masked = maskSecrets(activeConfig);
     for (const [key, value] of Object.entries(masked)) {
       // Skip manifest-level fields that aren't config
-      if (["id", "name", "version", "description", "configSchema", "$schema"].includes(key)) continue;
+      if (MANIFEST_FIELDS.includes(key)) continue;
       lines.push(`  ${key}: ${JSON.stringify(value)}`);
     }
   } else {
@@ -402,12 +231,7 @@ function showPluginConfig(
     const configToValidate = activeConfig ?? {};
 
     // Filter out manifest-level fields for validation
-    const configValues: Record<string, any> = {};
-    for (const [key, value] of Object.entries(configToValidate)) {
-      if (!["id", "name", "version", "description", "configSchema", "$schema"].includes(key)) {
-        configValues[key] = value;
-      }
-    }
+    const configValues = stripManifestFields(configToValidate);
 
     lines.push("");
     lines.push("SCHEMA VALIDATION");
@@ -456,27 +280,3 @@ function showPluginConfig(
 
   return { text: lines.join("\n") };
 }
-
-/** Find the absolute path for a plugin directory in the workspace. */
-function findPluginDir(pluginName: string, workspace: string): string | null {
-  const direct = path.join(workspace, pluginName);
-  if (fs.existsSync(path.join(direct, "openclaw.plugin.json"))) {
-    return direct;
-  }
-
-  try {
-    const dirs = fs.readdirSync(workspace).filter((d) => d.startsWith("openclaw-"));
-    for (const dir of dirs) {
-      const manifestPath = path.join(workspace, dir, "openclaw.plugin.json");
-      if (!fs.existsSync(manifestPath)) continue;
-      const manifest = readJsonSafe<Record<string, any> | null>(manifestPath, null);
-      if (manifest?.id === pluginName) {
-        return path.join(workspace, dir);
-      }
-    }
-  } catch {
-    // workspace not readable
-  }
-
-  return null;
-}
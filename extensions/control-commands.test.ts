@@ -0,0 +1,105 @@
+/**
+ * Tests for control commands (/restart, /service).
+ *
+ * The openclaw CLI is not available in the test environment, so restarts
+ * fail at the restart command. Restarts target a throwaway profile and
+ * /service a unit that does not exist, so a developer machine's real
+ * gateway and units are never touched.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createMockApi, invokeCommand, type MockApi } from "../src/test-helpers.js";
+import { registerControlCommands } from "./control-commands.js";
+
+describe("control-commands registration", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerControlCommands(api);
+  });
+
+  it("registers /restart with auth", () => {
+    const cmd = api.commands.get("restart")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(true);
+    expect(cmd.requireAuth).toBe(true);
+  });
+
+  it("registers /service with auth", () => {
+    const cmd = api.commands.get("service")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(true);
+    expect(cmd.requireAuth).toBe(true);
+  });
+
+  it("registers exactly 2 commands", () => {
+    expect(api.commands.size).toBe(2);
+  });
+});
+
+describe("/restart handler", () => {
+  let api: MockApi;
+  const profile = "ops-test-restart-" + process.pid;
+  const stateDir = path.join(os.homedir(), `.openclaw-${profile}`);
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerControlCommands(api);
+    fs.mkdirSync(stateDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(stateDir, { recursive: true, force: true }); } catch {}
+  });
+
+  it("rejects bad arguments and unknown profiles", async () => {
+    expect(await invokeCommand(api, "restart", { args: "a b" })).toBe("Usage: /restart [profile] [--force]");
+    expect(await invokeCommand(api, "restart", { args: "--now" })).toBe("Usage: /restart [profile] [--force]");
+    expect(await invokeCommand(api, "restart", { args: "nope-ops-test" })).toContain("Unknown profile: nope-ops-test");
+  });
+
+  it("reports a failed restart clearly", async () => {
+    const text = await invokeCommand(api, "restart", { args: profile });
+    expect(text).toContain(`Restart: ${profile} (graceful)`);
+    expect(text).toContain("Before: ");
+    expect(text).toContain("✗ gateway restart failed");
+  });
+});
+
+describe("/service handler", () => {
+  const unit = `openclaw-ops-test-${process.pid}.service`;
+
+  it("rejects bad arguments", async () => {
+    const api = createMockApi();
+    registerControlCommands(api, { allowedUnits: [unit] });
+    const usage = "Usage: /service start|stop|restart|enable|disable <unit>";
+    expect(await invokeCommand(api, "service", { args: "" })).toBe(usage);
+    expect(await invokeCommand(api, "service", { args: `reload ${unit}` })).toBe(usage);
+    expect(await invokeCommand(api, "service", { args: `start ${unit} --now` })).toBe(usage);
+  });
+
+  it("refuses units outside the allowlist", async () => {
+    const api = createMockApi();
+    registerControlCommands(api);
+    expect(await invokeCommand(api, "service", { args: `start ${unit}` })).toContain("No units are allowed");
+
+    const restricted = createMockApi();
+    registerControlCommands(restricted, { allowedUnits: ["openclaw-gateway"] });
+    expect(await invokeCommand(restricted, "service", { args: `stop ${unit}` })).toContain(
+      `${unit} is not in serviceControl.allowedUnits (allowed: openclaw-gateway.service)`,
+    );
+    expect(await invokeCommand(restricted, "service", { args: "stop sshd" })).toContain("Only openclaw* user units");
+  });
+
+  it("reports a failed action for an allowlisted unit", async () => {
+    const api = createMockApi();
+    registerControlCommands(api, { allowedUnits: [unit] });
+    const text = await invokeCommand(api, "service", { args: `start ${unit.replace(/\.service$/, "")}` });
+    expect(text).toContain(`Service: start ${unit}`);
+    expect(text).toContain("✗ systemctl start failed");
+  });
+});
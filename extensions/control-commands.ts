@@ -0,0 +1,80 @@
+/**
+ * openclaw-ops-elvatis Control Commands
+ *
+ * /restart - Restart a profile's gateway and verify it comes back
+ * /service - Start, stop, restart, enable or disable an allowlisted systemd user unit
+ */
+
+import { getCommandArgs, parseCommandFlags, discoverProfiles, findProfile } from "../src/utils.js";
+import { restartGateway, renderRestartText, formatGatewayStatusLine } from "../src/gateway-restart.js";
+import {
+  UNIT_ACTIONS,
+  isUnitAction,
+  normalizeUnitName,
+  checkUnitAllowed,
+  controlUserUnit,
+  renderUnitControlText,
+} from "../src/systemd.js";
+import type { ServiceControlConfig } from "../src/systemd.js";
+
+const SERVICE_USAGE = `Usage: /service ${UNIT_ACTIONS.join("|")} <unit>`;
+
+export function registerControlCommands(api: any, serviceControl: ServiceControlConfig = {}) {
+  // ========================================
+  // /restart [profile] [--force] - Validated gateway restart
+  // ========================================
+  api.registerCommand({
+    name: "restart",
+    description: "Restart a gateway and verify it is healthy again. Usage: /restart [profile] [--force]",
+    usage: "/restart [profile] [--force]",
+    requireAuth: true,
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const { positional, flags } = parseCommandFlags(getCommandArgs(ctx));
+      if (positional.length > 1 || Object.keys(flags).some((f) => f !== "force")) {
+        return { text: "Usage: /restart [profile] [--force]" };
+      }
+
+      const name = positional[0] ?? "default";
+      if (!findProfile(name)) {
+        return { text: `Unknown profile: ${name} (profiles: ${discoverProfiles().map((p) => p.name).join(", ")})` };
+      }
+
+      const mode = flags.force ? "force" : "graceful";
+      api.logger?.info?.(`[restart] ${name} (${mode}) requested`);
+      const outcome = await restartGateway(name, { mode });
+      api.logger?.info?.(
+        `[restart] ${name} ${outcome.detached ? "detached" : outcome.ok ? "ok" : "FAILED"}: ${formatGatewayStatusLine(outcome.before)} -> ` +
+          `${outcome.after ? formatGatewayStatusLine(outcome.after) : "-"}${outcome.error ? ` (${outcome.error})` : ""}`,
+      );
+      return { text: renderRestartText(outcome) };
+    },
+  });
+
+  // ========================================
+  // /service <action> <unit> - Allowlisted systemd user unit control
+  // ========================================
+  api.registerCommand({
+    name: "service",
+    description: `Start, stop, restart, enable or disable an allowlisted openclaw* systemd user unit. ${SERVICE_USAGE}`,
+    usage: `/service ${UNIT_ACTIONS.join("|")} <unit>`,
+    requireAuth: true,
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const { positional, flags } = parseCommandFlags(getCommandArgs(ctx));
+      if (positional.length !== 2 || Object.keys(flags).length > 0 || !isUnitAction(positional[0])) {
+        return { text: SERVICE_USAGE };
+      }
+
+      const action = positional[0];
+      const unit = normalizeUnitName(positional[1]);
+      const denied = checkUnitAllowed(unit, serviceControl);
+      if (denied) return { text: denied };
+
+      api.logger?.info?.(`[service] ${action} ${unit} requested`);
+      const outcome = await controlUserUnit(unit, action);
+      api.logger?.info?.(`[service] ${action} ${unit} ${outcome.detached ? "detached" : outcome.ok ? "ok" : "FAILED"}${outcome.error ? ` (${outcome.error})` : ""}`);
+      return { text: renderUnitControlText(outcome) };
+    },
+  });
+}
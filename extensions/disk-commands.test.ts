@@ -0,0 +1,102 @@
+/**
+ * Tests for disk commands (/disk, /cleanup).
+ *
+ * Uses a temp workspace with backdated cron reports.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { createMockApi, invokeCommand, type MockApi } from "../src/test-helpers.js";
+import { registerDiskCommands } from "./disk-commands.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-disk-cmd-" + process.pid);
+const oldReport = path.join(tmpWorkspace, "cron", "reports", "smoke_old.txt");
+
+function seedWorkspace() {
+  fs.mkdirSync(path.join(tmpWorkspace, "openclaw-foo", "node_modules"), { recursive: true });
+  fs.writeFileSync(path.join(tmpWorkspace, "openclaw-foo", "node_modules", "big.js"), "x".repeat(4096));
+  fs.mkdirSync(path.dirname(oldReport), { recursive: true });
+  fs.writeFileSync(oldReport, "report");
+  const t = new Date(Date.now() - 60 * 86_400_000);
+  fs.utimesSync(oldReport, t, t);
+}
+
+describe("disk-commands registration", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerDiskCommands(api, tmpWorkspace);
+  });
+
+  it("registers /disk as read-only", () => {
+    const cmd = api.commands.get("disk")!;
+    expect(cmd.requireAuth).toBe(false);
+    expect(cmd.acceptsArgs).toBe(false);
+  });
+
+  it("registers /cleanup behind auth", () => {
+    const cmd = api.commands.get("cleanup")!;
+    expect(cmd.requireAuth).toBe(true);
+    expect(cmd.acceptsArgs).toBe(true);
+  });
+
+  it("registers exactly 2 commands", () => {
+    expect(api.commands.size).toBe(2);
+  });
+});
+
+describe("/disk and /cleanup handlers", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    seedWorkspace();
+    api = createMockApi();
+    registerDiskCommands(api, tmpWorkspace);
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+  });
+
+  it("lists the largest consumers first", async () => {
+    const text = await invokeCommand(api, "disk");
+    expect(text).toContain("Disk Usage");
+    expect(text.indexOf("openclaw-foo/node_modules")).toBeLessThan(text.indexOf("cron/reports"));
+    expect(text).toContain("Reclaimable by /cleanup");
+  });
+
+  it("defaults to a dry run", async () => {
+    const text = await invokeCommand(api, "cleanup", { args: "" });
+    expect(text).toContain("Cleanup (dry run)");
+    expect(text).toContain("Cron reports older than 30d: 1 files");
+    expect(text).toContain("Run /cleanup --apply to delete.");
+    expect(fs.existsSync(oldReport)).toBe(true);
+  });
+
+  it("lists candidates without absolute paths", async () => {
+    const text = await invokeCommand(api, "cleanup", { args: "" });
+    expect(text).toContain("  - cron/reports/smoke_old.txt (");
+    expect(text).not.toContain(tmpWorkspace);
+  });
+
+  it("deletes with --apply", async () => {
+    const text = await invokeCommand(api, "cleanup", { args: "--apply" });
+    expect(text).toContain("✓ Removed");
+    expect(fs.existsSync(oldReport)).toBe(false);
+  });
+
+  it("honours configured retention", async () => {
+    const strict = createMockApi();
+    registerDiskCommands(strict, tmpWorkspace, { reportsRetention: "90d" });
+    const text = await invokeCommand(strict, "cleanup", { args: "--dry-run" });
+    expect(text).toContain("Cron reports older than 90d: 0 files");
+  });
+
+  it("rejects unknown or conflicting flags", async () => {
+    expect(await invokeCommand(api, "cleanup", { args: "--force" })).toBe("Usage: /cleanup [--dry-run|--apply]");
+    expect(await invokeCommand(api, "cleanup", { args: "--dry-run --apply" })).toBe("Usage: /cleanup [--dry-run|--apply]");
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * openclaw-ops-elvatis Disk Commands
+ *
+ * /disk    - Largest disk consumers in the workspace and profile logs
+ * /cleanup - Prune old cron reports and rotated logs (dry run by default)
+ */
+
+import { getCommandArgs, formatBytes, formatIsoCompact, parseDuration } from "../src/utils.js";
+import {
+  collectDiskUsage,
+  planCleanup,
+  applyCleanup,
+  DEFAULT_REPORTS_RETENTION,
+  DEFAULT_LOGS_RETENTION,
+} from "../src/disk-usage.js";
+import type { CleanupConfig, CleanupRule } from "../src/disk-usage.js";
+
+export function registerDiskCommands(api: any, workspace: string, cleanup: CleanupConfig = {}) {
+  // ========================================
+  // /disk - Workspace disk-usage breakdown
+  // ========================================
+  api.registerCommand({
+    name: "disk",
+    description: "Show the largest disk consumers (node_modules, reports, observer log, logs)",
+    requireAuth: false,
+    acceptsArgs: false,
+    handler: async () => {
+      const usage = collectDiskUsage(workspace);
+      const total = usage.reduce((sum, loc) => sum + loc.bytes, 0);
+
+      const lines: string[] = [];
+      lines.push(`Disk Usage (${formatBytes(total)} in ${usage.length} locations)`);
+      lines.push("");
+
+      if (usage.length === 0) {
+        lines.push("- (nothing found)");
+        return { text: lines.join("\n") };
+      }
+
+      for (const loc of usage.slice(0, 15)) {
+        const share = total > 0 ? ((loc.bytes / total) * 100).toFixed(0) : "0";
+        lines.push(`- ${loc.label}: ${formatBytes(loc.bytes)} (${loc.files} files, ${share}%)`);
+      }
+      if (usage.length > 15) lines.push(`... and ${usage.length - 15} more`);
+
+      const reclaimable = planCleanup(workspace, cleanup).reduce((sum, c) => sum + c.bytes, 0);
+      lines.push("");
+      lines.push(`Reclaimable by /cleanup: ${formatBytes(reclaimable)}`);
+      if (usage.some((loc) => loc.label.endsWith("node_modules"))) {
+        lines.push("node_modules can be rebuilt with npm install if space is tight.");
+      }
+      return { text: lines.join("\n") };
+    },
+  });
+
+  // ========================================
+  // /cleanup [--dry-run|--apply] - Retention-based pruning
+  // ========================================
+  api.registerCommand({
+    name: "cleanup",
+    description: "Prune old cron reports and rotated logs. Usage: /cleanup [--dry-run|--apply]",
+    usage: "/cleanup [--dry-run|--apply]",
+    requireAuth: true,
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const flags = getCommandArgs(ctx).split(/\s+/).filter(Boolean);
+      const unknown = flags.filter((f) => f !== "--dry-run" && f !== "--apply");
+      if (unknown.length > 0 || (flags.includes("--dry-run") && flags.includes("--apply"))) {
+        return { text: "Usage: /cleanup [--dry-run|--apply]" };
+      }
+      const apply = flags.includes("--apply");
+
+      const candidates = planCleanup(workspace, cleanup);
+      const total = candidates.reduce((sum, c) => sum + c.bytes, 0);
+
+      const lines: string[] = [];
+      lines.push(apply ? "Cleanup" : "Cleanup (dry run)");
+      lines.push("");
+
+      const window = (value: string | undefined, fallback: string) =>
+        value && parseDuration(value) !== null ? value : fallback;
+      const rules: Array<[CleanupRule, string]> = [
+        ["reports", `Cron reports older than ${window(cleanup.reportsRetention, DEFAULT_REPORTS_RETENTION)}`],
+        ["logs", `Rotated logs older than ${window(cleanup.logsRetention, DEFAULT_LOGS_RETENTION)}`],
+      ];
+      for (const [rule, label] of rules) {
+        const matched = candidates.filter((c) => c.rule === rule);
+        const bytes = matched.reduce((sum, c) => sum + c.bytes, 0);
+        lines.push(`${label}: ${matched.length} files, ${formatBytes(bytes)}`);
+        for (const c of matched.slice(0, 5)) {
+          lines.push(`  - ${c.label} (${formatBytes(c.bytes)}, ${formatIsoCompact(c.mtimeMs)})`);
+        }
+        if (matched.length > 5) lines.push(`  ... and ${matched.length - 5} more`);
+      }
+
+      lines.push("");
+      if (candidates.length === 0) {
+        lines.push("✓ Nothing to clean up");
+        return { text: lines.join("\n") };
+      }
+      if (!apply) {
+        lines.push(`Would free ${formatBytes(total)}. Run /cleanup --apply to delete.`);
+        return { text: lines.join("\n") };
+      }
+
+      const result = applyCleanup(candidates);
+      lines.push(`✓ Removed ${result.removed} files, freed ${formatBytes(result.freedBytes)}`);
+      if (result.errors.length > 0) {
+        lines.push(`⚠ ${result.errors.length} files could not be removed:`);
+        for (const e of result.errors.slice(0, 5)) lines.push(`  - ${e}`);
+      }
+      api.logger?.info?.(`[cleanup] removed ${result.removed} files (${formatBytes(result.freedBytes)})`);
+      return { text: lines.join("\n") };
+    },
+  });
+}
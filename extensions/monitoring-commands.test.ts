@@ -0,0 +1,308 @@
+/**
+ * Tests for monitoring commands (/alerts, /watch, /errors, /watchdog).
+ *
+ * Uses a temp workspace for the alert state file.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { createMockApi, invokeCommand, type MockApi } from "../src/test-helpers.js";
+import { registerMonitoringCommands } from "./monitoring-commands.js";
+import { loadAlertState, saveAlertState, evaluateAlerts, DEFAULT_ALERT_THRESHOLDS } from "../src/alerts.js";
+import { loadWatchState } from "../src/watches.js";
+import { appendWatchdogEvent, saveWatchdogState } from "../src/watchdog.js";
+import { getProfile } from "../src/utils.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-monitoring-" + process.pid);
+
+function seedDiskAlert() {
+  const state = loadAlertState(tmpWorkspace);
+  evaluateAlerts(state, { cpu: 1, memory: 1, disk: 97, cooldowns: 0, errors: 0 }, DEFAULT_ALERT_THRESHOLDS);
+  saveAlertState(tmpWorkspace, state);
+}
+
+describe("monitoring-commands registration", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerMonitoringCommands(api, tmpWorkspace);
+  });
+
+  it("registers /alerts with args", () => {
+    const cmd = api.commands.get("alerts")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(true);
+    expect(cmd.requireAuth).toBe(false);
+  });
+
+  it("registers /watch with args", () => {
+    const cmd = api.commands.get("watch")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(true);
+    expect(cmd.requireAuth).toBe(false);
+  });
+
+  it("registers /errors with args", () => {
+    const cmd = api.commands.get("errors")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(true);
+    expect(cmd.requireAuth).toBe(false);
+  });
+
+  it("registers /watchdog with args", () => {
+    const cmd = api.commands.get("watchdog")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(true);
+    expect(cmd.requireAuth).toBe(false);
+  });
+
+  it("registers exactly 4 commands", () => {
+    expect(api.commands.size).toBe(4);
+  });
+});
+
+describe("/alerts handler", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    api = createMockApi();
+    // Thresholds far above anything real so on-demand evaluation stays quiet
+    registerMonitoringCommands(api, tmpWorkspace, {
+      alerting: { thresholds: { cpu: 1e9, memory: 1e9, disk: 1e9, cooldowns: 1e9, errors: 1e9 } },
+    });
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+  });
+
+  it("lists alerts and persists state", async () => {
+    const text = await invokeCommand(api, "alerts", { args: "" });
+    expect(text).toContain("Alerts (0 active)");
+    expect(fs.existsSync(path.join(tmpWorkspace, "monitoring", "alerts.json"))).toBe(true);
+  });
+
+  it("resolves alerts whose metric recovered on demand", async () => {
+    seedDiskAlert();
+    const text = await invokeCommand(api, "alerts", { args: "" });
+    expect(text).toContain("RECENTLY RESOLVED");
+    expect(text).toContain("#1 Disk at 97.0%");
+  });
+
+  it("acknowledges an alert by id", async () => {
+    seedDiskAlert();
+    const text = await invokeCommand(api, "alerts", { args: "ack #1" });
+    expect(text).toContain("Acknowledged #1");
+    expect(loadAlertState(tmpWorkspace).alerts[0].acknowledgedAt).toBeDefined();
+  });
+
+  it("reports unknown alert ids", async () => {
+    const text = await invokeCommand(api, "alerts", { args: "ack 99" });
+    expect(text).toContain("No active alert #99");
+  });
+
+  it("silences a rule by name or alert id", async () => {
+    seedDiskAlert();
+    expect(await invokeCommand(api, "alerts", { args: "silence 1 2h" })).toContain("Silenced disk until");
+    expect(await invokeCommand(api, "alerts", { args: "silence cpu 30m" })).toContain("Silenced cpu until");
+    expect(Object.keys(loadAlertState(tmpWorkspace).silences).sort()).toEqual(["cpu", "disk"]);
+  });
+
+  it("rejects a silence without a valid duration", async () => {
+    const text = await invokeCommand(api, "alerts", { args: "silence disk forever" });
+    expect(text).toContain("Usage: /alerts silence");
+  });
+
+  it("unsilences a rule", async () => {
+    await invokeCommand(api, "alerts", { args: "silence disk 1h" });
+    expect(await invokeCommand(api, "alerts", { args: "unsilence disk" })).toBe("Unsilenced disk");
+    expect(loadAlertState(tmpWorkspace).silences).toEqual({});
+  });
+
+  it("shows resolved alerts in history", async () => {
+    seedDiskAlert();
+    await invokeCommand(api, "alerts", { args: "" });
+    const text = await invokeCommand(api, "alerts", { args: "history" });
+    expect(text).toContain("Alert history (1 resolved)");
+  });
+
+  it("prints usage for unknown subcommands", async () => {
+    const text = await invokeCommand(api, "alerts", { args: "bogus" });
+    expect(text).toContain("Usage: /alerts");
+  });
+});
+
+describe("/watch handler", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerMonitoringCommands(api, tmpWorkspace);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+  });
+
+  it("lists no watches by default", async () => {
+    expect(await invokeCommand(api, "watch", { args: "" })).toContain("Watches (0)");
+    expect(await invokeCommand(api, "watch", { args: "list" })).toContain("Watches (0)");
+  });
+
+  it("adds a watch bound to the creating channel", async () => {
+    const text = await invokeCommand(api, "watch", {
+      args: "disk > 90 for 5m",
+      channel: "telegram",
+      from: "12345",
+      sessionId: "s1",
+    });
+    expect(text).toContain("Watching #1 disk > 90 for 5m");
+    const [watch] = loadWatchState(tmpWorkspace).watches;
+    expect(watch.target).toEqual({ channel: "telegram", to: "12345", sessionId: "s1" });
+    expect(await invokeCommand(api, "watch", { args: "list" })).toContain("#1 disk > 90 for 5m");
+  });
+
+  it("reports parse errors with usage", async () => {
+    const text = await invokeCommand(api, "watch", { args: "swap > 10" });
+    expect(text).toContain('Unknown metric "swap"');
+    expect(text).toContain("Usage: /watch");
+  });
+
+  it("removes a watch by id", async () => {
+    await invokeCommand(api, "watch", { args: "cpu > 80" });
+    expect(await invokeCommand(api, "watch", { args: "remove #1" })).toBe("Removed #1 cpu > 80");
+    expect(await invokeCommand(api, "watch", { args: "remove 1" })).toBe("No watch #1");
+    expect(await invokeCommand(api, "watch", { args: "remove" })).toBe("Usage: /watch remove <id>");
+  });
+
+  it("says where trips are reported", async () => {
+    expect(await invokeCommand(api, "watch", { args: "cpu > 80", channel: "discord", from: "u1" })).toContain(
+      "This host offers no way to message discord from a plugin, so trips only go to the gateway log and /watch list.",
+    );
+
+    const sending = { ...createMockApi(), runtime: { channel: { discord: { sendMessageDiscord: vi.fn() } } } };
+    registerMonitoringCommands(sending, tmpWorkspace);
+    expect(await invokeCommand(sending, "watch", { args: "cpu > 90", channel: "discord", from: "u1" })).toContain(
+      "When it trips, a message is sent to this chat.",
+    );
+  });
+
+  it("messages the chat that created a tripped watch", async () => {
+    vi.useFakeTimers();
+    const info = vi.fn();
+    const sendMessageDiscord = vi.fn(async () => ({ ok: true }));
+    const sendApi = { ...createMockApi(), logger: { info }, runtime: { channel: { discord: { sendMessageDiscord } } } };
+    registerMonitoringCommands(sendApi, tmpWorkspace);
+
+    await invokeCommand(sendApi, "watch", { args: "cooldowns >= 0", channel: "discord", from: "u1" });
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(sendMessageDiscord).toHaveBeenCalledTimes(1);
+    expect(sendMessageDiscord).toHaveBeenCalledWith("u1", "⚠ Watch #1 cooldowns >= 0 tripped (now 0)");
+    const logged = info.mock.calls.map(([msg]) => String(msg)).filter((msg) => msg.startsWith("[watch] ⚠"));
+    expect(logged).toEqual(["[watch] ⚠ Watch #1 cooldowns >= 0 tripped (now 0); sent to discord u1"]);
+  });
+
+  it("logs a tripped watch when the chat cannot be messaged", async () => {
+    vi.useFakeTimers();
+    const info = vi.fn();
+    const sendMessageDiscord = vi.fn(async () => {
+      throw new Error("rate limited");
+    });
+    const logApi = { ...createMockApi(), logger: { info }, runtime: { channel: { discord: { sendMessageDiscord } } } };
+    registerMonitoringCommands(logApi, tmpWorkspace);
+
+    await invokeCommand(logApi, "watch", { args: "cooldowns >= 0", channel: "discord", from: "u1" });
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    const logged = info.mock.calls.map(([msg]) => String(msg)).filter((msg) => msg.startsWith("[watch]"));
+    expect(logged).toEqual([
+      "[watch] sending to discord u1 failed: Error: rate limited",
+      "[watch] ⚠ Watch #1 cooldowns >= 0 tripped (now 0); created from discord u1",
+    ]);
+  });
+});
+
+describe("/errors handler", () => {
+  let api: MockApi;
+  const logDir = getProfile("default").logDir;
+  const logFile = path.join(logDir, `ops-test-errors-${process.pid}.log`);
+  let createdDir = false;
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerMonitoringCommands(api, tmpWorkspace);
+    createdDir = !fs.existsSync(logDir);
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+    fs.rmSync(logFile, { force: true });
+    if (createdDir) fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  it("rejects unknown arguments and bad --since", async () => {
+    expect(await invokeCommand(api, "errors", { args: "now" })).toBe("Usage: /errors [--since 24h]");
+    expect(await invokeCommand(api, "errors", { args: "--until 1h" })).toBe("Usage: /errors [--since 24h]");
+    expect(await invokeCommand(api, "errors", { args: "--since soon" })).toContain("Invalid --since: soon");
+  });
+
+  it("groups errors and flags fingerprints new since the last run", async () => {
+    const now = Date.now();
+    const at = (offsetMs: number) => new Date(now - offsetMs).toISOString();
+    fs.mkdirSync(logDir, { recursive: true });
+    fs.writeFileSync(logFile, [
+      `${at(3000)} ERROR ops-test-${process.pid} request 41 timed out`,
+      `${at(2000)} ERROR ops-test-${process.pid} request 42 timed out`,
+    ].join("\n") + "\n");
+
+    const first = await invokeCommand(api, "errors", { args: "--since 1m" });
+    expect(first).toContain("Errors, last 1m");
+    expect(first).toContain("First run");
+    expect(first).toContain("x2");
+    expect(first).toContain("request 42 timed out");
+    expect(first).not.toContain("🆕");
+
+    fs.appendFileSync(logFile, `${at(1000)} ERROR ops-test-${process.pid} disk /var/data/x full\n`);
+    const second = await invokeCommand(api, "errors", { args: "--since 1m" });
+    expect(second).toMatch(/🆕 \w{8} x1/);
+    expect(second).toContain("disk /var/data/x full");
+    expect(second).toContain("New = not reported by /errors before");
+  });
+});
+
+describe("/watchdog handler", () => {
+  afterEach(() => {
+    try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+  });
+
+  it("reports a disabled watchdog and rejects unknown subcommands", async () => {
+    const api = createMockApi();
+    registerMonitoringCommands(api, tmpWorkspace);
+    const text = await invokeCommand(api, "watchdog");
+    expect(text).toContain("Watchdog: disabled");
+    expect(text).toContain("- (none; list profiles in watchdog.profiles)");
+    expect(await invokeCommand(api, "watchdog", { args: "restart" })).toBe("Usage: /watchdog [status]");
+  });
+
+  it("shows per-profile state and recent events", async () => {
+    const api = createMockApi();
+    registerMonitoringCommands(api, tmpWorkspace, {}, { enabled: true, profiles: ["default", "staging"], maxRestartsPerHour: 2 });
+    const ts = new Date().toISOString();
+    saveWatchdogState(tmpWorkspace, {
+      profiles: { staging: { consecutiveFailures: 0, restartStreak: 1, nextRestartAt: 0, restarts: [ts], lastCheck: { ts, state: "running" } } },
+    });
+    appendWatchdogEvent(tmpWorkspace, { ts, profile: "staging", action: "restart", detail: "graceful restart after 3 failed checks" });
+
+    const text = await invokeCommand(api, "watchdog", { args: "status" });
+    expect(text).toContain("Watchdog: enabled (every 60s, restart after 3 failed checks, max 2/h)");
+    expect(text).toContain("- default: not watched (hosts this plugin");
+    expect(text).toContain("- staging: healthy");
+    expect(text).toContain("Restarts last hour: 1/2");
+    expect(text).toContain("staging restart: graceful restart after 3 failed checks");
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * openclaw-ops-elvatis Monitoring Commands
+ *
+ * /alerts - Threshold alerts (list, acknowledge, silence)
+ * /watch  - Ad-hoc metric watches that notify the creating chat
+ * /errors - Log errors grouped by fingerprint, flagging new ones
+ * /watchdog - Gateway watchdog state and restart log
+ *
+ * Alerts are evaluated on every background health sample (when
+ * `monitoring.enabled` is set) and on demand whenever /alerts is run.
+ * Watches run on their own evaluator, started only while watches exist.
+ */
+
+import {
+  getCommandArgs,
+  parseCommandFlags,
+  parseDuration,
+  formatIsoCompact,
+} from "../src/utils.js";
+import {
+  ALERT_RULES,
+  collectAlertMetrics,
+  runAlertEvaluation,
+  loadAlertState,
+  saveAlertState,
+  acknowledgeAlert,
+  silenceRule,
+  renderAlertsText,
+  formatAlertLine,
+} from "../src/alerts.js";
+import type { AlertRule } from "../src/alerts.js";
+import { resolveSamplerOptions } from "../src/health-history.js";
+import type { MonitoringConfig } from "../src/health-history.js";
+import {
+  parseWatchSpec,
+  loadWatchState,
+  saveWatchState,
+  addWatch,
+  removeWatch,
+  formatWatch,
+  formatWatchTarget,
+  renderWatchesText,
+  startWatchEvaluator,
+} from "../src/watches.js";
+import type { Watch, WatchTarget } from "../src/watches.js";
+import { parseTimeBound } from "../src/log-query.js";
+import { scanErrorGroups, loadErrorState, saveErrorState, recordErrorScan, renderErrorsText } from "../src/error-fingerprints.js";
+import {
+  resolveWatchdogConfig,
+  loadWatchdogState,
+  readWatchdogEvents,
+  renderWatchdogStatus,
+} from "../src/watchdog.js";
+import type { WatchdogConfig } from "../src/watchdog.js";
+
+export function registerMonitoringCommands(
+  api: any,
+  workspace: string,
+  monitoring: MonitoringConfig = {},
+  watchdog: WatchdogConfig = {},
+) {
+  const alerting = monitoring.alerting ?? {};
+
+  // ========================================
+  // /alerts [ack <id> | silence <rule> <duration> | unsilence <rule> | history]
+  // ========================================
+  api.registerCommand({
+    name: "alerts",
+    description: "Show threshold alerts. Usage: /alerts [ack <id> | silence <rule|id> <duration> | unsilence <rule> | history]",
+    usage: "/alerts [ack <id> | silence <rule|id> <duration> | unsilence <rule> | history]",
+    requireAuth: false,
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const [sub, ...rest] = getCommandArgs(ctx).split(/\s+/).filter(Boolean);
+
+      if (sub === "ack") {
+        const id = parseInt(String(rest[0] ?? "").replace(/^#/, ""), 10);
+        if (isNaN(id)) return { text: "Usage: /alerts ack <id>" };
+        const state = loadAlertState(workspace);
+        const alert = acknowledgeAlert(state, id);
+        if (!alert) return { text: `No active alert #${id}` };
+        saveAlertState(workspace, state);
+        return { text: `Acknowledged ${formatAlertLine(alert)}` };
+      }
+
+      if (sub === "silence") {
+        const state = loadAlertState(workspace);
+        const rule = resolveRule(rest[0], state.alerts);
+        const durationMs = parseDuration(rest[1] ?? "");
+        if (!rule || durationMs === null) {
+          return { text: `Usage: /alerts silence <rule|id> <duration>\nRules: ${ALERT_RULES.join(", ")}` };
+        }
+        const until = silenceRule(state, rule, durationMs);
+        saveAlertState(workspace, state);
+        return { text: `Silenced ${rule} until ${formatIsoCompact(new Date(until))} UTC` };
+      }
+
+      if (sub === "unsilence") {
+        const state = loadAlertState(workspace);
+        const rule = resolveRule(rest[0], state.alerts);
+        if (!rule) return { text: `Usage: /alerts unsilence <rule>\nRules: ${ALERT_RULES.join(", ")}` };
+        delete state.silences[rule];
+        saveAlertState(workspace, state);
+        return { text: `Unsilenced ${rule}` };
+      }
+
+      if (sub === "history") {
+        const resolved = loadAlertState(workspace).alerts.filter((a) => a.status === "resolved");
+        const lines: string[] = [`Alert history (${resolved.length} resolved)`, ""];
+        if (resolved.length === 0) lines.push("- (none)");
+        for (const a of resolved.slice().reverse()) {
+          lines.push(`✓ ${formatAlertLine(a)}`);
+          lines.push(`  ${formatIsoCompact(new Date(a.firstSeen))} to ${formatIsoCompact(new Date(a.resolvedAt ?? a.lastSeen))} UTC`);
+        }
+        return { text: lines.join("\n") };
+      }
+
+      if (sub) {
+        return { text: "Usage: /alerts [ack <id> | silence <rule|id> <duration> | unsilence <rule> | history]" };
+      }
+
+      // Default: evaluate now so the list reflects current state
+      const { state } = runAlertEvaluation(workspace, alerting, collectAlertMetrics(workspace));
+      return { text: renderAlertsText(state) };
+    },
+  });
+
+  // Watch evaluator: shares the sampler interval and runs only while watches exist
+  const { intervalMs } = resolveSamplerOptions(monitoring);
+  let stopEvaluator: (() => void) | null = null;
+  const ensureEvaluator = () => {
+    if (stopEvaluator) return;
+    stopEvaluator = startWatchEvaluator(workspace, {
+      intervalMs,
+      onTrip: (watch) => notifyWatch(api, watch),
+      onError: (err) => api.logger?.info?.(`[watch] evaluation failed: ${String(err)}`),
+      onIdle: () => {
+        stopEvaluator = null;
+      },
+    });
+  };
+  if (loadWatchState(workspace).watches.length > 0) ensureEvaluator();
+
+  // ========================================
+  // /watch <metric> <op> <threshold> [for <duration>] | list | remove <id>
+  // ========================================
+  api.registerCommand({
+    name: "watch",
+    description: "Watch a metric and get notified here when it trips. Usage: /watch <metric> <op> <threshold> [for <duration>] | list | remove <id>",
+    usage: "/watch <metric> <op> <threshold> [for <duration>] | list | remove <id>",
+    requireAuth: false,
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const args = getCommandArgs(ctx);
+      const [sub, ...rest] = args.split(/\s+/).filter(Boolean);
+
+      if (!sub || sub === "list") {
+        return { text: renderWatchesText(loadWatchState(workspace)) };
+      }
+
+      if (sub === "remove") {
+        const id = parseInt(String(rest[0] ?? "").replace(/^#/, ""), 10);
+        if (isNaN(id)) return { text: "Usage: /watch remove <id>" };
+        const state = loadWatchState(workspace);
+        const watch = removeWatch(state, id);
+        if (!watch) return { text: `No watch #${id}` };
+        saveWatchState(workspace, state);
+        return { text: `Removed ${formatWatch(watch)}` };
+      }
+
+      const spec = parseWatchSpec(args);
+      if (typeof spec === "string") {
+        return { text: `${spec}\nUsage: /watch <metric> <op> <threshold> [for <duration>] | list | remove <id>` };
+      }
+
+      const state = loadWatchState(workspace);
+      const watch = addWatch(state, spec, {
+        channel: ctx?.messageProvider ?? ctx?.channel,
+        to: ctx?.from ?? ctx?.senderId,
+        sessionId: ctx?.sessionId ?? ctx?.conversationId,
+      });
+      saveWatchState(workspace, state);
+      ensureEvaluator();
+      const delivery = watchSender(api, watch.target)
+        ? "When it trips, a message is sent to this chat."
+        : `This host offers no way to message ${watch.target.channel ?? "this chat"} from a plugin, so trips only go to the gateway log and /watch list.`;
+      return { text: [`Watching ${formatWatch(watch)} (checked every ${intervalMs / 1000}s)`, delivery].join("\n") };
+    },
+  });
+
+  // ========================================
+  // /errors [--since 24h] - Fingerprinted error groups
+  // ========================================
+  api.registerCommand({
+    name: "errors",
+    description: "Group log errors by fingerprint and flag new ones. Usage: /errors [--since 24h]",
+    usage: "/errors [--since 24h]",
+    requireAuth: false,
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const { positional, flags } = parseCommandFlags(getCommandArgs(ctx), ["since"]);
+      if (positional.length > 0 || Object.keys(flags).some((f) => f !== "since")) {
+        return { text: "Usage: /errors [--since 24h]" };
+      }
+      const sinceLabel = typeof flags.since === "string" ? flags.since : "24h";
+      const sinceMs = parseTimeBound(sinceLabel);
+      if (sinceMs === null) return { text: `Invalid --since: ${sinceLabel} (use e.g. 24h or 2026-03-01)` };
+
+      const scan = await scanErrorGroups(sinceMs);
+      const state = loadErrorState(workspace);
+      const lastRunAt = state.lastRunAt;
+      const fresh = recordErrorScan(state, scan);
+      saveErrorState(workspace, state);
+      const windowLabel = parseDuration(sinceLabel) !== null ? `last ${sinceLabel}` : `since ${sinceLabel}`;
+      return { text: renderErrorsText(scan, fresh, { windowLabel, lastRunAt }) };
+    },
+  });
+
+  // ========================================
+  // /watchdog [status] - Watchdog state and restart log
+  // ========================================
+  api.registerCommand({
+    name: "watchdog",
+    description: "Show the gateway watchdog's per-profile state and recent restarts. Usage: /watchdog [status]",
+    usage: "/watchdog [status]",
+    requireAuth: false,
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const sub = getCommandArgs(ctx);
+      if (sub && sub !== "status") return { text: "Usage: /watchdog [status]" };
+      const text = renderWatchdogStatus(
+        watchdog.enabled === true,
+        resolveWatchdogConfig(watchdog),
+        loadWatchdogState(workspace),
+        readWatchdogEvents(workspace),
+      );
+      return { text };
+    },
+  });
+}
+
+/**
+ * The host's send function for the chat that created a watch, if the
+ * runtime exposes one: `api.runtime.channel.<channel>.sendMessage<Channel>(to, text)`,
+ * as registered by the channel plugins. `null` without a channel and
+ * recipient, or when the host has no sender for that channel.
+ */
+function watchSender(api: any, target: WatchTarget): ((text: string) => Promise<unknown>) | null {
+  const { channel, to } = target;
+  if (!channel || !to) return null;
+  const provider = api?.runtime?.channel?.[channel];
+  if (!provider || typeof provider !== "object") return null;
+  const key = Object.keys(provider).find((k) => k.toLowerCase() === `sendmessage${channel.toLowerCase()}`);
+  const send = key ? provider[key] : null;
+  return typeof send === "function" ? async (text) => send.call(provider, to, text) : null;
+}
+
+/**
+ * Report a tripped watch to the chat that created it. Every trip is also
+ * written to the gateway log, which is all that happens when the host
+ * cannot message that chat or the send fails.
+ */
+async function notifyWatch(api: any, watch: Watch): Promise<void> {
+  const text = `⚠ Watch ${formatWatch(watch)} tripped (now ${watch.lastValue})`;
+  const send = watchSender(api, watch.target);
+  if (send) {
+    try {
+      await send(text);
+      api.logger?.info?.(`[watch] ${text}; sent to ${formatWatchTarget(watch.target)}`);
+      return;
+    } catch (err) {
+      api.logger?.info?.(`[watch] sending to ${formatWatchTarget(watch.target)} failed: ${String(err)}`);
+    }
+  }
+  api.logger?.info?.(`[watch] ${text}; created from ${formatWatchTarget(watch.target)}`);
+}
+
+/** Resolve a rule name, or an alert id (`3` / `#3`) to its rule. */
+function resolveRule(input: string | undefined, alerts: Array<{ id: number; rule: AlertRule }>): AlertRule | null {
+  if (!input) return null;
+  if ((ALERT_RULES as string[]).includes(input)) return input as AlertRule;
+  const id = parseInt(input.replace(/^#/, ""), 10);
+  return alerts.find((a) => a.id === id)?.rule ?? null;
+}
@@ -13,143 +13,8 @@
 import fs from "node:fs";
 import path from "node:path";
 import { expandHome } from "../src/utils.js";
-
-// ---------------------------------------------------------------------------
-// Types
-// ---------------------------------------------------------------------------
-
-type EventType = "message" | "tool_call" | "command" | "memory_write";
-
-interface EventLogEntry {
-  ts: string;
-  type: EventType;
-  sessionId: string;
-  from?: string;
-  channel?: string;
-  /** Tool name (tool_call events) */
-  tool?: string;
-  /** Command name (command events) */
-  command?: string;
-  /** Truncated content preview (all types) */
-  preview?: string;
-  /** Memory item kind (memory_write events) */
-  memoryKind?: string;
-  /** Memory item id (memory_write events) */
-  memoryId?: string;
-  /** Plugin tags (memory_write events) */
-  tags?: string[];
-}
-
-interface MemoryItem {
-  id: string;
-  kind: string;
-  text: string;
-  createdAt: string;
-  tags?: string[];
-  source?: {
-    channel?: string;
-    from?: string;
-    conversationId?: string;
-    messageId?: string;
-  };
-}
-
-// ---------------------------------------------------------------------------
-// Event log helpers
-// ---------------------------------------------------------------------------
-
-const MAX_EVENTS = 5000;
-
-function openEventLog(observerDir: string): string {
-  fs.mkdirSync(observerDir, { recursive: true });
-  const logPath = path.join(observerDir, "events.jsonl");
-  if (!fs.existsSync(logPath)) fs.writeFileSync(logPath, "", "utf-8");
-  return logPath;
-}
-
-function readEventLog(logPath: string): EventLogEntry[] {
-  try {
-    const raw = fs.readFileSync(logPath, "utf-8");
-    const entries: EventLogEntry[] = [];
-    for (const line of raw.split("\n")) {
-      if (!line.trim()) continue;
-      try {
-        entries.push(JSON.parse(line) as EventLogEntry);
-      } catch {
-        // skip malformed
-      }
-    }
-    return entries;
-  } catch {
-    return [];
-  }
-}
-
-function appendEvent(logPath: string, entry: EventLogEntry): void {
-  try {
-    // Rotate if at limit
-    const existing = readEventLog(logPath);
-    if (existing.length >= MAX_EVENTS) {
-      const trimmed = existing.slice(existing.length - MAX_EVENTS + 1);
-      fs.writeFileSync(
-        logPath,
-        trimmed.map((e) => JSON.stringify(e)).join("\n") + "\n",
-        "utf-8",
-      );
-    }
-    fs.appendFileSync(logPath, JSON.stringify(entry) + "\n", "utf-8");
-  } catch {
-    // best-effort
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Memory JSONL helpers (reads brain + docs stores)
-// ---------------------------------------------------------------------------
-
-function readMemoryFiles(workspace: string): EventLogEntry[] {
-  const memDir = path.join(workspace, "memory");
-  const results: EventLogEntry[] = [];
-  if (!fs.existsSync(memDir)) return results;
-
-  let files: string[];
-  try {
-    files = fs.readdirSync(memDir).filter((f) => f.endsWith(".jsonl"));
-  } catch {
-    return results;
-  }
-
-  for (const file of files) {
-    try {
-      const raw = fs.readFileSync(path.join(memDir, file), "utf-8");
-      for (const line of raw.split("\n")) {
-        if (!line.trim()) continue;
-        try {
-          const parsed = JSON.parse(line) as { item?: MemoryItem; embedding?: unknown };
-          const item = parsed.item;
-          if (!item?.id || !item.createdAt || !item.text) continue;
-          results.push({
-            ts: item.createdAt,
-            type: "memory_write",
-            sessionId: item.source?.conversationId ?? "unknown",
-            from: item.source?.from,
-            channel: item.source?.channel,
-            memoryId: item.id,
-            memoryKind: item.kind,
-            tags: item.tags,
-            preview: item.text.slice(0, 80) + (item.text.length > 80 ? "…" : ""),
-          });
-        } catch {
-          // skip
-        }
-      }
-    } catch {
-      // skip
-    }
-  }
-
-  return results;
-}
+import { openEventLog, readEventLog, appendEvent, readMemoryFiles } from "../src/observer-log.js";
+import type { EventType, EventLogEntry } from "../src/observer-log.js";
 
 // ---------------------------------------------------------------------------
 // Formatting helpers
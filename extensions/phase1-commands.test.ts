@@ -11,6 +11,7 @@ import path from "node:path";
 import os from "node:os";
 import { createMockApi, invokeCommand, type MockApi } from "../src/test-helpers.js";
 import { registerPhase1Commands } from "./phase1-commands.js";
+import { discoverProfiles } from "../src/utils.js";
 
 // Use a temp workspace that exists on disk (for commands that check filesystem)
 const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-phase1-" + process.pid);
@@ -29,7 +30,7 @@ describe("phase1-commands registration", () => {
     expect(cmd.name).toBe("health");
     expect(cmd.description).toContain("health");
     expect(cmd.requireAuth).toBe(false);
-    expect(cmd.acceptsArgs).toBe(false);
+    expect(cmd.acceptsArgs).toBe(true);
   });
 
   it("registers /services command", () => {
@@ -91,6 +92,97 @@ describe("/health handler", () => {
     const text = await invokeCommand(api, "health");
     expect(text).toContain("ERRORS");
   });
+
+  it("returns a parseable JSON report with --json", async () => {
+    const text = await invokeCommand(api, "health", { args: "--json" });
+    const report = JSON.parse(text);
+    expect(report.gateways.map((g: any) => g.profile)).toEqual(discoverProfiles().map((p) => p.name));
+    expect(typeof report.resources.cpu.load1).toBe("number");
+    expect(typeof report.resources.memory.percent).toBe("number");
+    expect(Array.isArray(report.cooldowns)).toBe(true);
+    expect(report.errors).toHaveProperty("readable");
+    expect(["ok", "warn", "critical"]).toContain(report.status);
+    expect(report.checks.map((c: any) => c.id)).toEqual(
+      expect.arrayContaining(["gateway", "disk", "memory", "cooldowns", "errors"]),
+    );
+  });
+
+  it("includes CHECKS section with overall status", async () => {
+    const text = await invokeCommand(api, "health");
+    expect(text).toMatch(/System Health: [✓⚠✗] (OK|WARN|CRITICAL)/);
+    expect(text).toContain("CHECKS");
+  });
+
+  it("limits the report to one profile with --profile", async () => {
+    const text = await invokeCommand(api, "health", { args: "--profile default --json" });
+    const report = JSON.parse(text);
+    expect(report.profile).toBe("default");
+    expect(report.gateways.map((g: any) => g.profile)).toEqual(["default"]);
+    expect(await invokeCommand(api, "health", { args: "--profile default" })).toMatch(/^System Health \(default\): /);
+  });
+
+  it("reports a stopped gateway of a non-default profile as critical", async () => {
+    // The openclaw CLI is not available in tests, so every gateway reads as stopped
+    const profile = "ops-test-health-" + process.pid;
+    const stateDir = path.join(os.homedir(), `.openclaw-${profile}`);
+    fs.mkdirSync(stateDir, { recursive: true });
+    try {
+      const text = await invokeCommand(api, "health", { args: `--profile ${profile}` });
+      expect(text).toMatch(new RegExp(`^System Health \\(${profile}\\): ✗ CRITICAL`));
+      expect(text).toContain(`✗ Gateway: ${profile} gateway is not running`);
+      expect(text).toContain("✗ Stopped");
+    } finally {
+      fs.rmSync(stateDir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects unknown profiles", async () => {
+    const text = await invokeCommand(api, "health", { args: "--profile nope-ops-test" });
+    expect(text).toContain("Unknown profile: nope-ops-test (profiles: default");
+  });
+});
+
+describe("/health history", () => {
+  let api: MockApi;
+  const historyFile = path.join(tmpWorkspace, "monitoring", "health-history.jsonl");
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerPhase1Commands(api, tmpWorkspace);
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+  });
+
+  it("reports when no samples exist", async () => {
+    const text = await invokeCommand(api, "health", { args: "history" });
+    expect(text).toContain("Health History (last 24h)");
+    expect(text).toContain("No samples recorded");
+  });
+
+  it("summarises recorded samples over the requested window", async () => {
+    fs.mkdirSync(path.dirname(historyFile), { recursive: true });
+    const ts = new Date(Date.now() - 3 * 86_400_000).toISOString();
+    const recent = new Date().toISOString();
+    fs.writeFileSync(
+      historyFile,
+      [
+        { ts, cpuLoad1: 9, cpuPercent: 90, memPercent: 90, diskPercent: 90, gateways: { default: false } },
+        { ts: recent, cpuLoad1: 1, cpuPercent: 10, memPercent: 20, diskPercent: 30, gateways: { default: true } },
+      ].map((s) => JSON.stringify(s)).join("\n") + "\n",
+    );
+    const day = await invokeCommand(api, "health", { args: "history 24h" });
+    expect(day).toContain("Samples: 1");
+    const week = await invokeCommand(api, "health", { args: "history 7d" });
+    expect(week).toContain("Samples: 2");
+    expect(week).toContain("down -> up");
+  });
+
+  it("rejects an invalid window", async () => {
+    const text = await invokeCommand(api, "health", { args: "history forever" });
+    expect(text).toContain("Invalid window");
+  });
 });
 
 describe("/services handler", () => {
@@ -115,6 +207,11 @@ describe("/services handler", () => {
     const text = await invokeCommand(api, "services");
     expect(text).toContain("default");
   });
+
+  it("shows each profile's effective port", async () => {
+    const text = await invokeCommand(api, "services");
+    expect(text).toMatch(/Port: \d+/);
+  });
 });
 
 describe("/logs handler", () => {
@@ -131,9 +228,48 @@ describe("/logs handler", () => {
     expect(text).toContain("Logs:");
   });
 
-  it("defaults to gateway service", async () => {
+  it("defaults to gateway service when only flags are given", async () => {
+    const text = await invokeCommand(api, "logs", "--lines 5");
+    expect(text).toContain("Logs: gateway (last 5 lines)");
+  });
+
+  it("lists log sources by profile without arguments", async () => {
     const text = await invokeCommand(api, "logs", "");
-    expect(text).toContain("gateway");
+    expect(text).toContain("Log Sources");
+    expect(text).toContain(`DEFAULT (${path.join(os.homedir(), ".openclaw", "logs")})`);
+  });
+
+  describe("--profile", () => {
+    const profile = "ops-test-logs-" + process.pid;
+    const profileLogs = path.join(os.homedir(), `.openclaw-${profile}`, "logs");
+
+    beforeEach(() => {
+      fs.mkdirSync(profileLogs, { recursive: true });
+      fs.writeFileSync(path.join(profileLogs, "gateway.log"), "2026-03-01T10:00:00Z ERROR staging only\n");
+      fs.writeFileSync(path.join(profileLogs, "gateway.log.1"), "2026-03-01T09:00:00Z INFO older\n");
+    });
+
+    afterEach(() => {
+      try { fs.rmSync(path.dirname(profileLogs), { recursive: true, force: true }); } catch {}
+    });
+
+    it("reads the profile's log directory", async () => {
+      const text = await invokeCommand(api, "logs", { args: `gateway --profile ${profile}` });
+      expect(text).toContain(`Logs: gateway [${profile}] (last 50 lines)`);
+      expect(text).toContain("ERROR staging only");
+    });
+
+    it("groups sources under each profile", async () => {
+      const text = await invokeCommand(api, "logs", "");
+      const section = text.slice(text.indexOf(profile.toUpperCase()));
+      expect(section).toMatch(/- gateway: 2 files, /);
+    });
+
+    it("rejects unknown profiles", async () => {
+      const text = await invokeCommand(api, "logs", { args: "gateway --profile nope-ops-test" });
+      expect(text).toContain("Unknown profile: nope-ops-test");
+      expect(text).toContain(profile);
+    });
   });
 
   it("respects custom service name", async () => {
@@ -146,6 +282,105 @@ describe("/logs handler", () => {
     // Should either show "No log file found" or an error, not throw
     expect(typeof text).toBe("string");
   });
+
+  it("reads systemd units from journald", async () => {
+    const text = await invokeCommand(api, "logs", "ops-test-unit.service --lines 5");
+    expect(text).toContain("Logs: ops-test-unit.service");
+    // journalctl may be missing on the test host
+    expect(text).toMatch(/Source: journald \(ops-test-unit\.service\)|journalctl unavailable/);
+    expect(text).not.toContain("No log file found");
+  });
+
+  describe("filters", () => {
+    const service = "ops-test-logs-" + process.pid;
+    const logFile = path.join(logsDir, `${service}.log`);
+    const rotated = path.join(logsDir, `${service}.log.1`);
+    let createdDir = false;
+
+    beforeEach(() => {
+      createdDir = !fs.existsSync(logsDir);
+      fs.mkdirSync(logsDir, { recursive: true });
+      fs.writeFileSync(rotated, "2026-03-01T09:00:00Z ERROR disk full\n");
+      const old = new Date(Date.now() - 3_600_000);
+      fs.utimesSync(rotated, old, old);
+      fs.writeFileSync(
+        logFile,
+        [
+          "2026-03-01T10:00:00Z INFO started",
+          "2026-03-01T10:01:00Z WARN slow response",
+          "2026-03-01T10:02:00Z ERROR request timed out",
+          "    at handler (gw.js:10:5)",
+        ].join("\n") + "\n",
+      );
+    });
+
+    afterEach(() => {
+      for (const f of [logFile, rotated]) try { fs.rmSync(f, { force: true }); } catch {}
+      try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+      if (createdDir) try { fs.rmSync(logsDir, { recursive: true, force: true }); } catch {}
+    });
+
+    it("filters by minimum level across rotated files", async () => {
+      const text = await invokeCommand(api, "logs", { args: `${service} --level error` });
+      expect(text).toContain("Filter: level >= error");
+      expect(text).toContain(`Files: ${service}.log, ${service}.log.1`);
+      expect(text).toContain("ERROR disk full");
+      expect(text).toContain("ERROR request timed out");
+      expect(text).toContain("at handler");
+      expect(text).not.toContain("WARN slow");
+    });
+
+    it("filters by grep pattern and line count", async () => {
+      const text = await invokeCommand(api, "logs", { args: `${service} --grep "timed out" --lines 1` });
+      expect(text).toContain("Logs: " + service + " (last 1 lines)");
+      expect(text).toContain("ERROR request timed out");
+      expect(text).not.toContain("INFO started");
+    });
+
+    it("matches --grep literally unless --regex is given", async () => {
+      expect(await invokeCommand(api, "logs", { args: `${service} --grep "timed? out"` })).toContain("No matching lines");
+      const text = await invokeCommand(api, "logs", { args: `${service} --grep "timed? out" --regex` });
+      expect(text).toContain('Filter: regex "timed? out"');
+      expect(text).toContain("ERROR request timed out");
+      expect(await invokeCommand(api, "logs", { args: `${service} --grep "(a+)+$" --regex` })).toMatch(/^Regex with nested quantifiers refused/);
+    });
+
+    it("filters by time range", async () => {
+      const text = await invokeCommand(api, "logs", {
+        args: `${service} --since 2026-03-01T10:00:30Z --until 2026-03-01T10:01:30Z`,
+      });
+      expect(text).toContain("WARN slow response");
+      expect(text).not.toContain("ERROR request timed out");
+    });
+
+    it("reports when nothing matches", async () => {
+      const text = await invokeCommand(api, "logs", { args: `${service} --grep nothing-like-this` });
+      expect(text).toContain("No matching lines");
+    });
+
+    it("rejects invalid level and time values", async () => {
+      expect(await invokeCommand(api, "logs", { args: `${service} --level loud` })).toContain("Invalid level: loud");
+      expect(await invokeCommand(api, "logs", { args: `${service} --since soon` })).toContain("Invalid --since: soon");
+    });
+
+    it("follows a log per session with /logs more", async () => {
+      const other = { args: "more", sessionId: "ops-test-other" };
+      expect(await invokeCommand(api, "logs", other)).toContain("Not following any log here");
+
+      const started = await invokeCommand(api, "logs", { args: `${service} --follow --level warn`, sessionId: "ops-test-s1" });
+      expect(started).toContain(`Following ${service}`);
+
+      fs.appendFileSync(logFile, "2026-03-01T10:05:00Z INFO quiet\n2026-03-01T10:06:00Z WARN fresh warning\n");
+      const more = await invokeCommand(api, "logs", { args: "more", sessionId: "ops-test-s1" });
+      expect(more).toContain("Filter: level >= warn");
+      expect(more).toContain("WARN fresh warning");
+      expect(more).not.toContain("slow response");
+      expect(more).not.toContain("INFO quiet");
+
+      expect(await invokeCommand(api, "logs", { args: "more", sessionId: "ops-test-s1" })).toContain("No new lines");
+      expect(await invokeCommand(api, "logs", other)).toContain("Not following any log here");
+    });
+  });
 });
 
 describe("/plugins handler", () => {
@@ -162,4 +397,42 @@ describe("/plugins handler", () => {
     expect(typeof text).toBe("string");
     expect(text.length).toBeGreaterThan(0);
   });
+  describe("with an installed workspace plugin", () => {
+    const profile = "ops-test-plugins-" + process.pid;
+    const stateDir = path.join(os.homedir(), `.openclaw-${profile}`);
+
+    function writePlugin(dir: string, version: string): void {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, "openclaw.plugin.json"), JSON.stringify({ id: "openclaw-ops-test-demo" }));
+      fs.writeFileSync(path.join(dir, "package.json"), JSON.stringify({ version }));
+    }
+
+    beforeEach(() => {
+      writePlugin(path.join(tmpWorkspace, "openclaw-ops-test-demo"), "1.3.0");
+      writePlugin(path.join(stateDir, "extensions", "openclaw-ops-test-demo"), "1.2.0");
+    });
+
+    afterEach(() => {
+      try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+      try { fs.rmSync(stateDir, { recursive: true, force: true }); } catch {}
+    });
+
+    it("flags a workspace version ahead of the installed one", async () => {
+      const text = await invokeCommand(api, "plugins", { args: "" });
+      expect(text).toContain("- openclaw-ops-test-demo v1.3.0 (no git)");
+      expect(text).toContain(`  ${profile}: v1.2.0 ⚠ workspace ahead of installed`);
+      expect(text).toContain("differ from their workspace version (/plugins outdated)");
+    });
+
+    it("lists only outdated installs with /plugins outdated", async () => {
+      const text = await invokeCommand(api, "plugins", { args: "outdated" });
+      expect(text).toMatch(/^Outdated plugins \(1\)/);
+      expect(text).toContain(`Profiles checked: `);
+      expect(text).toContain(`  ${profile}: v1.2.0 ⚠ workspace ahead of installed`);
+    });
+
+    it("rejects unknown modes", async () => {
+      expect(await invokeCommand(api, "plugins", { args: "newest" })).toBe("Usage: /plugins [outdated]");
+    });
+  });
 });
@@ -9,109 +9,91 @@ import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
 import {
-  expandHome,
-  safeExec,
-  runCmd,
-  getSystemResources,
   checkGatewayStatus,
-  loadActiveCooldowns,
-  formatCooldownLine,
-  readJsonSafe,
-  listWorkspacePluginDirs,
+  getConfiguredGatewayPort,
+  discoverProfiles,
+  findProfile,
+  getCommandArgs,
+  parseCommandFlags,
+  parseDuration,
+  formatIsoCompact,
+  formatBytes,
 } from "../src/utils.js";
+import type { OpenClawProfile } from "../src/utils.js";
+import { buildHealthReport, renderHealthText } from "../src/health.js";
+import { loadPluginInventory } from "../src/plugin-inventory.js";
+import type { PluginInventory } from "../src/plugin-inventory.js";
+import {
+  collectPluginVersions,
+  isOutdated,
+  renderWorkspaceVersions,
+  renderOutdatedPlugins,
+} from "../src/plugin-versions.js";
+import {
+  readHealthHistory,
+  summarizeHealthHistory,
+  renderHealthHistoryText,
+} from "../src/health-history.js";
+import {
+  LOG_LEVELS,
+  normalizeLogLevel,
+  parseTimeBound,
+  buildGrepPattern,
+  listServiceLogFiles,
+  listLogSources,
+  queryLogs,
+  LOG_QUERY_MAX_BYTES,
+} from "../src/log-query.js";
+import { isGzipLog } from "../src/log-tail.js";
+import type { LogQuery, LogQueryResult } from "../src/log-query.js";
+import { isUnitName, listUserUnits, showUserUnits, formatUnitStatus, queryJournal } from "../src/systemd.js";
+import {
+  loadLogCursors,
+  saveLogCursors,
+  followSessionKey,
+  startFileCursor,
+  startJournalCursor,
+  readSinceCursor,
+} from "../src/log-follow.js";
+import type { LogCursor, LogFollowFilters, LogFollowResult } from "../src/log-follow.js";
+import { hasProcfs, listListeningSockets } from "../src/procfs.js";
+import { checkPortBindings, formatPortBinding } from "../src/ports.js";
+import type { ProfilePortInput } from "../src/ports.js";
+
+/** /logs flags that take a value. */
+const LOG_VALUE_FLAGS = ["grep", "level", "since", "until", "lines", "profile"];
 
 export function registerPhase1Commands(api: any, workspace: string) {
   
   // ========================================
-  // /health - System Health Overview
+  // /health [--json] [--profile name] | /health history [24h|7d] - System Health Overview
   // ========================================
   api.registerCommand({
     name: "health",
-    description: "Quick system health check (gateway, resources, plugins)",
+    description: "Quick system health check with ok/warn/critical checks. Usage: /health [--json] [--profile name] | /health history [24h|7d]",
     requireAuth: false,
-    acceptsArgs: false,
-    handler: async () => {
-      const lines: string[] = [];
-      lines.push("System Health");
-      lines.push("");
-      
-      // Gateway Status
-      lines.push("GATEWAY");
-      const defaultStatus = checkGatewayStatus("default");
-      const statusIcon = defaultStatus.running ? "✓" : "✗";
-      lines.push(`- Default: ${statusIcon} ${defaultStatus.running ? "Running" : "Stopped"}`);
-      if (defaultStatus.pid) lines.push(`  PID ${defaultStatus.pid}`);
-      if (defaultStatus.uptime) lines.push(`  Uptime: ${defaultStatus.uptime}`);
-      
-      const stagingStatus = checkGatewayStatus("staging");
-      const stageIcon = stagingStatus.running ? "✓" : "○";
-      lines.push(`- Staging: ${stageIcon} ${stagingStatus.running ? "Running" : "Stopped"}`);
-      
-      // System Resources
-      lines.push("");
-      lines.push("RESOURCES");
-      const resources = getSystemResources(workspace);
-      lines.push(`- CPU load: ${resources.cpu}`);
-      lines.push(`- Memory: ${resources.memory}`);
-      lines.push(`- Disk: ${resources.disk}`);
-      
-      // Plugin Count
-      lines.push("");
-      lines.push("PLUGINS");
-      const pluginList = runCmd("openclaw", ["plugins", "list"], 10000);
-      if (pluginList.code === 0) {
-        const count = pluginList.out.split("\n").filter(l => l.trim() && !l.startsWith("Installed")).length;
-        lines.push(`- Installed: ${count}`);
-      } else {
-        lines.push("- Unable to count plugins");
-      }
-      
-      // Cooldown Detection (model-failover state)
-      lines.push("");
-      lines.push("COOLDOWNS");
-      const cooldowns = loadActiveCooldowns(workspace);
-      if (cooldowns.length === 0) {
-        lines.push("✓ None active");
-      } else {
-        lines.push(`⚠ ${cooldowns.length} model${cooldowns.length > 1 ? "s" : ""} in cooldown`);
-        for (const cd of cooldowns.slice(0, 5)) {
-          lines.push(`  ${formatCooldownLine(cd)}`);
-          if (cd.reason) lines.push(`  Reason: ${cd.reason}`);
-        }
-        if (cooldowns.length > 5) {
-          lines.push(`  ... and ${cooldowns.length - 5} more (use /limits for full list)`);
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const { positional, flags } = parseCommandFlags(getCommandArgs(ctx), ["profile"]);
+
+      if (positional[0] === "history") {
+        const window = positional[1] || "24h";
+        const windowMs = parseDuration(window);
+        if (windowMs === null) {
+          return { text: `Invalid window: ${window} (use e.g. 24h or 7d)` };
         }
+        const samples = readHealthHistory(workspace, Date.now() - windowMs);
+        return { text: renderHealthHistoryText(summarizeHealthHistory(samples), window) };
       }
 
-      // Last Error Check
-      lines.push("");
-      lines.push("ERRORS");
-      const logDir = path.join(expandHome("~/.openclaw"), "logs");
-      let lastError = "None detected";
-      try {
-        if (fs.existsSync(logDir)) {
-          const logFiles = fs.readdirSync(logDir)
-            .filter((f: string) => f.endsWith(".log"))
-            .map((f: string) => path.join(logDir, f));
-          
-          for (const logFile of logFiles.slice(-3)) {
-            const content = fs.readFileSync(logFile, "utf-8");
-            const errorLines = content.split("\n").filter((l: string) => 
-              l.toLowerCase().includes("error") || l.toLowerCase().includes("fatal")
-            );
-            if (errorLines.length > 0) {
-              const lastLine = errorLines[errorLines.length - 1];
-              lastError = `${path.basename(logFile)}: ${lastLine.slice(0, 60)}...`;
-              break;
-            }
-          }
-        }
-      } catch {
-        lastError = "Error reading logs";
+      const profile = flags.profile !== undefined ? resolveProfileFlag(flags.profile) : null;
+      if (typeof profile === "string") return { text: profile };
+      const report = await buildHealthReport(workspace, profile ? { profile: profile.name } : {});
+
+      if (flags.json) {
+        return { text: JSON.stringify(report, null, 2) };
       }
-      lines.push(`- Last error: ${lastError}`);
-      
-      return { text: lines.join("\n") };
+      return { text: renderHealthText(report) };
     },
   });
 
@@ -128,67 +110,53 @@ export function registerPhase1Commands(api: any, workspace: string) {
       lines.push("Services Status");
       lines.push("");
       
-      // Detect available profiles
-      const openclawDir = expandHome("~/.openclaw");
-      const profiles: string[] = ["default"];
-      
-      try {
-        const entries = fs.readdirSync(path.dirname(openclawDir));
-        for (const entry of entries) {
-          if (entry.startsWith(".openclaw-") && entry !== ".openclaw-staging") {
-            const profileName = entry.replace(".openclaw-", "");
-            profiles.push(profileName);
-          }
-        }
-        if (fs.existsSync(expandHome("~/.openclaw-staging"))) {
-          profiles.push("staging");
-        }
-      } catch {
-        // Continue with default only
-      }
-      
+      const profiles = discoverProfiles().map((p) => p.name);
+
       lines.push(`PROFILES (${profiles.length})`);
       
+      const inputs: ProfilePortInput[] = [];
       for (const profile of profiles) {
-        const status = checkGatewayStatus(profile);
-        const icon = status.running ? "▶" : "■";
-        const state = status.running ? "Running" : "Stopped";
+        const status = await checkGatewayStatus(profile);
+        inputs.push({ profile, status, configured: getConfiguredGatewayPort(profile) !== null });
+      }
+
+      // Port bindings need every profile's port and PID before conflicts can be judged
+      const procfs = hasProcfs();
+      const bindings = checkPortBindings(inputs, procfs ? listListeningSockets() : []);
+      for (const [i, { profile, status }] of inputs.entries()) {
+        const icon = status.state === "running" ? "▶" : status.state === "unresponsive" ? "⚠" : "■";
+        const state = { running: "Running", unresponsive: "Unresponsive", stopped: "Stopped" }[status.state];
         lines.push(`${icon} ${profile}: ${state}`);
-        if (status.running) {
+        if (status.state !== "stopped") {
           if (status.pid) lines.push(`  PID: ${status.pid}`);
           if (status.uptime) lines.push(`  Uptime: ${status.uptime}`);
-          
-          // Try to get port binding
-          const configPath = profile === "default" 
-            ? expandHome("~/.openclaw/config.json")
-            : expandHome(`~/.openclaw-${profile}/config.json`);
-          
-          const config = readJsonSafe<{ gateway?: { port?: string }; port?: string } | null>(configPath, null);
-          if (config) {
-            const port = config.gateway?.port || config.port || "default";
-            lines.push(`  Port: ${port}`);
-          }
         }
+        if (procfs) {
+          lines.push(...formatPortBinding(bindings[i]));
+        } else {
+          lines.push(`  Port: ${bindings[i].port}${bindings[i].configured ? "" : " (default)"}`);
+        }
+        if (status.responseMs !== undefined) lines.push(`  Response time: ${status.responseMs}ms`);
+        if (status.probeError) lines.push(`  Probe: ${status.probeError} (port ${status.port})`);
+      }
+
+      const conflicts = bindings.reduce((n, b) => n + b.conflicts.length, 0);
+      if (conflicts > 0) {
+        lines.push("");
+        lines.push(`⚠ ${conflicts} port conflict${conflicts === 1 ? "" : "s"}`);
       }
       
       // Check for systemd services (Linux only)
       if (os.platform() === "linux") {
         lines.push("");
         lines.push("SYSTEMD SERVICES");
-        const systemdOut = safeExec("systemctl --user list-units 'openclaw*' --no-pager");
-        if (systemdOut) {
-          const services = systemdOut.split("\n")
-            .filter(l => l.includes("openclaw"))
-            .slice(0, 5);
-          if (services.length > 0) {
-            for (const svc of services) {
-              lines.push(`- ${svc.trim()}`);
-            }
-          } else {
-            lines.push("- (none)");
-          }
-        } else {
+        const units = listUserUnits();
+        if (units === null) {
           lines.push("- (unable to check)");
+        } else {
+          const statuses = await showUserUnits(units);
+          if (statuses.length === 0) lines.push("- (none)");
+          for (const status of statuses) lines.push(...formatUnitStatus(status));
         }
       }
       
@@ -197,42 +165,88 @@ export function registerPhase1Commands(api: any, workspace: string) {
   });
 
   // ========================================
-  // /logs [service] [lines] - Unified Log Viewer
+  // /logs [service|unit] [--profile name] [--grep p [--regex]] [--level l] [--since t] [--until t] [--lines N] [--follow] | /logs more - Unified Log Viewer
   // ========================================
   api.registerCommand({
     name: "logs",
-    description: "View gateway or plugin logs (usage: /logs [service] [lines])",
+    description: "View gateway, plugin or systemd unit logs with filters; no arguments lists log sources (usage: /logs [service|unit] [--profile name] [--grep text [--regex]] [--level error|warn] [--since 2h] [--until time] [--lines N] [--follow] | /logs more)",
+    usage: "/logs [service|unit] [--profile name] [--grep text [--regex]] [--level error|warn] [--since 2h] [--until time] [--lines N] [--follow] | /logs more [--lines N]",
     requireAuth: false,
     acceptsArgs: true,
-    handler: async (args: string) => {
-      const parts = args.trim().split(/\s+/);
-      const service = parts[0] || "gateway";
-      const numLines = parseInt(parts[1] || "50");
-      
+    handler: async (ctx: any) => {
+      const args = getCommandArgs(ctx);
+      if (!args) return { text: renderLogSources() };
+
+      const { positional, flags } = parseCommandFlags(args, LOG_VALUE_FLAGS);
+      if (positional[0] === "more" && positional.length === 1) {
+        const numLines = parseInt(String(flags.lines ?? "50"), 10);
+        return { text: await renderLogsMore(workspace, followSessionKey(ctx), numLines > 0 ? numLines : 50) };
+      }
+
+      const service = positional[0] || "gateway";
+      const profile = resolveProfileFlag(flags.profile ?? "default");
+      if (typeof profile === "string") return { text: profile };
+      // e.g. "gateway [staging]"; plain service name for the default profile
+      const label = profile.name === "default" ? service : `${service} [${profile.name}]`;
+      // `/logs gateway 100` is still accepted as the line count
+      const numLines = parseInt(String(flags.lines ?? positional[1] ?? "50"), 10);
+
+      const query: LogQuery = { lines: numLines > 0 ? numLines : 50 };
+      const filters: string[] = [];
+      // Kept with a --follow cursor for /logs more
+      const followFilters: LogFollowFilters = {};
+      if (typeof flags.grep === "string") {
+        const grep = buildGrepPattern(flags.grep, { regex: flags.regex === true });
+        if (typeof grep === "string") return { text: grep };
+        query.grep = grep;
+        followFilters.grep = flags.grep;
+        if (flags.regex === true) followFilters.regex = true;
+        filters.push(`${flags.regex === true ? "regex" : "grep"} "${flags.grep}"`);
+      }
+      if (flags.level !== undefined) {
+        const level = normalizeLogLevel(flags.level);
+        if (!level) return { text: `Invalid level: ${flags.level} (use ${LOG_LEVELS.join(", ")})` };
+        query.level = level;
+        followFilters.level = level;
+        filters.push(`level >= ${level}`);
+      }
+      for (const bound of ["since", "until"] as const) {
+        if (flags[bound] === undefined) continue;
+        const ms = parseTimeBound(String(flags[bound]));
+        if (ms === null) return { text: `Invalid --${bound}: ${flags[bound]} (use e.g. 2h or 2026-03-01T12:00)` };
+        query[bound === "since" ? "sinceMs" : "untilMs"] = ms;
+        filters.push(`${bound} ${formatIsoCompact(ms)} UTC`);
+      }
+
       const lines: string[] = [];
-      lines.push(`Logs: ${service} (last ${numLines} lines)`);
+      lines.push(`Logs: ${label} (last ${query.lines} lines)`);
+      if (filters.length > 0) lines.push(`Filter: ${filters.join(", ")}`);
       lines.push("");
-      
-      const logDir = expandHome("~/.openclaw/logs");
-      
+
+      const logDir = profile.logDir;
+      let cursor: LogCursor | null = null;
+
       try {
-        let targetLog: string | null = null;
-        
-        if (service === "gateway") {
-          // Find latest gateway log
-          const files = fs.readdirSync(logDir).filter((f: string) => f.startsWith("gateway")).sort();
-          if (files.length > 0) {
-            targetLog = path.join(logDir, files[files.length - 1]);
-          }
-        } else {
-          // Find plugin log
-          const files = fs.readdirSync(logDir).filter((f: string) => f.includes(service)).sort();
-          if (files.length > 0) {
-            targetLog = path.join(logDir, files[files.length - 1]);
+        const files = isUnitName(service) ? [] : listServiceLogFiles(logDir, service);
+        // A systemd unit: `openclaw-gateway.service`, or a bare unit name with no log file
+        const unit = isUnitName(service)
+          ? service
+          : files.length === 0 && (listUserUnits() ?? []).includes(`${service}.service`)
+            ? `${service}.service`
+            : null;
+
+        if (unit) {
+          let result: LogQueryResult;
+          try {
+            result = await queryJournal(unit, query);
+          } catch (e: any) {
+            lines.push(`journalctl unavailable: ${e.message}`);
+            return { text: lines.join("\n") };
           }
-        }
-        
-        if (!targetLog || !fs.existsSync(targetLog)) {
+          lines.push(`Source: journald (${unit})`);
+          pushLogMatches(lines, result);
+          if (flags.follow) cursor = await startJournalCursor(label, unit, followFilters);
+        } else if (files.length === 0) {
           lines.push(`No log file found for: ${service}`);
           lines.push("");
           lines.push("Available logs:");
@@ -241,107 +255,180 @@ export function registerPhase1Commands(api: any, workspace: string) {
             lines.push(`- ${log}`);
           }
         } else {
-          const content = fs.readFileSync(targetLog, "utf-8");
-          const logLines = content.split("\n").filter((l: string) => l.trim());
-          const tail = logLines.slice(-numLines);
-          
-          lines.push(`File: ${path.basename(targetLog)}`);
-          lines.push("```text");
-          for (const line of tail) {
-            lines.push(line);
+          const result = await queryLogs(files, query);
+          const searched = result.files.map((f) => path.basename(f));
+          lines.push(searched.length > 1 ? `Files: ${searched.join(", ")}` : `File: ${searched[0] ?? path.basename(files[0])}`);
+          pushLogMatches(lines, result);
+          // The newest file is the one being written to
+          if (flags.follow && isGzipLog(files[0])) {
+            lines.push("");
+            lines.push(`Cannot follow compressed file ${path.basename(files[0])}`);
+          } else if (flags.follow) {
+            cursor = startFileCursor(label, files[0], followFilters);
           }
-          lines.push("```");
         }
       } catch (e: any) {
         lines.push(`Error reading logs: ${e.message}`);
       }
-      
+
+      if (cursor) {
+        const state = loadLogCursors(workspace);
+        state.cursors[followSessionKey(ctx)] = cursor;
+        saveLogCursors(workspace, state);
+        lines.push("");
+        lines.push(`Following ${label}. Use /logs more for lines written from now on.`);
+      }
+
       return { text: lines.join("\n") };
     },
   });
 
   // ========================================
-  // /plugins - Enhanced Plugin Dashboard
+  // /plugins [outdated] - Enhanced Plugin Dashboard
   // ========================================
   api.registerCommand({
     name: "plugins",
-    description: "Show detailed plugin dashboard (installed, status, versions)",
+    description: "Show detailed plugin dashboard (installed, status, versions). Usage: /plugins [outdated]",
+    usage: "/plugins [outdated]",
     requireAuth: false,
-    acceptsArgs: false,
-    handler: async () => {
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const mode = getCommandArgs(ctx).trim();
+      if (mode && mode !== "outdated") return { text: "Usage: /plugins [outdated]" };
+
+      const inventories = discoverProfiles()
+        .map((p) => loadPluginInventory(p.name))
+        .filter((inv): inv is PluginInventory => inv !== null);
+      const versions = collectPluginVersions(workspace, inventories);
+      if (mode === "outdated") {
+        return { text: renderOutdatedPlugins(versions, inventories.map((inv) => inv.profile)) };
+      }
+
       const lines: string[] = [];
       lines.push("Plugins Dashboard");
       lines.push("");
-      
-      // Get plugin list
-      const result = runCmd("openclaw", ["plugins", "list"], 15000);
-      
-      if (result.code !== 0) {
-        lines.push("Failed to list plugins");
-        lines.push("```text");
-        lines.push(result.out);
-        lines.push("```");
-        return { text: lines.join("\n") };
-      }
-      
-      // Parse plugin list
-      const pluginLines = result.out.split("\n").filter(l => l.trim() && !l.startsWith("Installed"));
-      
-      lines.push(`INSTALLED (${pluginLines.length})`);
-      
-      // Try to get more details by checking workspace
-      const pluginDetails: Array<{ name: string; version?: string; path?: string }> = [];
-      
-      for (const line of pluginLines) {
-        const match = line.match(/^[\s-]*(.+?)(?:\s+\((.+?)\))?$/);
-        if (match) {
-          const name = match[1].trim();
-          const info = match[2];
-          pluginDetails.push({ name, version: info });
+
+      const inventory = inventories.find((inv) => inv.profile === "default");
+      if (!inventory) {
+        lines.push("Failed to list plugins: `openclaw plugins list` unavailable and no installed-plugin state found");
+      } else {
+        lines.push(`INSTALLED (${inventory.plugins.length})`);
+        if (inventory.source === "disk") {
+          lines.push(`(from on-disk state; CLI: ${inventory.cliError})`);
         }
-      }
-      
-      // Enhanced details from workspace
-      const dirs = listWorkspacePluginDirs(workspace);
-
-      for (const plugin of pluginDetails) {
-        const pluginDir = dirs.find((d: string) => d === plugin.name || d.endsWith(plugin.name));
-        if (pluginDir) {
-          const pkg = readJsonSafe<{ version?: string } | null>(path.join(workspace, pluginDir, "package.json"), null);
-          if (pkg?.version) plugin.version = pkg.version;
-          plugin.path = pluginDir;
+        for (const plugin of inventory.plugins) {
+          let display = `- ${plugin.id}`;
+          if (plugin.version) display += ` (v${plugin.version})`;
+          if (!plugin.enabled) display += " [disabled]";
+          lines.push(display);
+          if (plugin.sourcePath) lines.push(`  Source: ${plugin.sourcePath}`);
         }
-      }
-      
-      // Display formatted
-      for (const plugin of pluginDetails) {
-        let display = `- ${plugin.name}`;
-        if (plugin.version) display += ` (v${plugin.version})`;
-        lines.push(display);
-        if (plugin.path) {
-          lines.push(`  Path: ~/.openclaw/workspace/${plugin.path}`);
+        if (inventory.plugins.length === 0) {
+          lines.push("- (none installed)");
         }
       }
-      
-      if (pluginDetails.length === 0) {
-        lines.push("- (none installed)");
-      }
-      
-      // Check for available but not installed
-      lines.push("");
-      lines.push("AVAILABLE IN WORKSPACE");
-      const installedNames = new Set(pluginDetails.map((p: any) => p.name));
-      const available = dirs.filter((wp: string) => !installedNames.has(wp));
 
-      if (available.length > 0) {
-        for (const avail of available) {
-          lines.push(`- ${avail} (not installed)`);
-        }
-      } else {
-        lines.push("- (all workspace plugins installed)");
+      // Workspace repos against what each profile has installed
+      lines.push("");
+      lines.push(...renderWorkspaceVersions(versions));
+      const outdated = versions.filter((p) => p.installs.some(isOutdated)).length;
+      if (outdated > 0) {
+        lines.push("");
+        lines.push(`⚠ ${outdated} plugin(s) differ from their workspace version (/plugins outdated)`);
       }
-      
+
       return { text: lines.join("\n") };
     },
   });
 }
+
+/**
+ * Resolve a `--profile` flag value to a discovered profile, or return the
+ * message to show for a missing or unknown name.
+ */
+function resolveProfileFlag(value: string | true): OpenClawProfile | string {
+  const known = discoverProfiles().map((p) => p.name);
+  if (value === true) return `Usage: --profile <name> (profiles: ${known.join(", ")})`;
+  return findProfile(value) ?? `Unknown profile: ${value} (profiles: ${known.join(", ")})`;
+}
+
+/** `/logs` without arguments: log sources of every profile, plus systemd units. */
+function renderLogSources(): string {
+  const lines: string[] = [];
+  lines.push("Log Sources");
+
+  for (const profile of discoverProfiles()) {
+    lines.push("");
+    lines.push(`${profile.name.toUpperCase()} (${profile.logDir})`);
+    const sources = listLogSources(profile.logDir);
+    if (sources.length === 0) lines.push("- (no logs)");
+    for (const src of sources) {
+      const files = src.files > 1 ? `${src.files} files, ` : "";
+      lines.push(`- ${src.service}: ${files}${formatBytes(src.bytes)}, last write ${formatIsoCompact(src.lastWriteMs)} UTC`);
+    }
+  }
+
+  const units = os.platform() === "linux" ? listUserUnits() : null;
+  if (units && units.length > 0) {
+    lines.push("");
+    lines.push("SYSTEMD UNITS");
+    for (const unit of units) lines.push(`- ${unit}`);
+  }
+
+  lines.push("");
+  lines.push("Use /logs <service> [--profile name] [--level error] [--since 2h]");
+  return lines.join("\n");
+}
+
+/** `/logs more`: new lines since this session's --follow cursor, advancing it. */
+async function renderLogsMore(workspace: string, sessionKey: string, numLines: number): Promise<string> {
+  const state = loadLogCursors(workspace);
+  const cursor = state.cursors[sessionKey];
+  if (!cursor) return "Not following any log here. Start with /logs <service> --follow";
+
+  const lines: string[] = [];
+  lines.push(`Logs: ${cursor.service} (new since ${formatIsoCompact(new Date(cursor.updatedAt))} UTC)`);
+  const filters = [
+    cursor.filters.grep !== undefined ? `${cursor.filters.regex ? "regex" : "grep"} "${cursor.filters.grep}"` : "",
+    cursor.filters.level ? `level >= ${cursor.filters.level}` : "",
+  ].filter(Boolean);
+  if (filters.length > 0) lines.push(`Filter: ${filters.join(", ")}`);
+  lines.push("");
+
+  let result: LogFollowResult;
+  try {
+    result = await readSinceCursor(cursor, numLines);
+  } catch (e: any) {
+    lines.push(`Error reading logs: ${e.message}`);
+    return lines.join("\n");
+  }
+  for (const note of result.notes) lines.push(`⚠ ${note}`);
+
+  if (result.matches.length === 0) {
+    lines.push("No new lines");
+  } else {
+    lines.push("```text");
+    for (const match of result.matches) lines.push(match.raw);
+    lines.push("```");
+    if (result.truncated) lines.push(`Older new lines skipped; use /logs more --lines N for a bigger window`);
+  }
+
+  state.cursors[sessionKey] = result.cursor;
+  saveLogCursors(workspace, state);
+  return lines.join("\n");
+}
+
+/** Append a /logs query result as a code block, shared by file and journald sources. */
+function pushLogMatches(lines: string[], result: LogQueryResult): void {
+  if (result.matches.length === 0) {
+    lines.push("No matching lines");
+    return;
+  }
+  lines.push("```text");
+  for (const match of result.matches) {
+    lines.push(match.raw);
+  }
+  lines.push("```");
+  if (result.truncated) lines.push(`More matches exist; use --lines or narrow --since`);
+  if (result.capped) lines.push(`Only the last ${formatBytes(LOG_QUERY_MAX_BYTES)} of each file was searched`);
+}
@@ -0,0 +1,167 @@
+/**
+ * Tests for plugin commands (/plugin-health, /plugin, /deps).
+ *
+ * Uses a temp workspace with one mock plugin directory, and a throwaway
+ * profile for plugins.allow changes.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createMockApi, invokeCommand, type MockApi } from "../src/test-helpers.js";
+import { registerPluginCommands } from "./plugin-commands.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-plugin-cmds-" + process.pid);
+
+describe("plugin-commands registration", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerPluginCommands(api, tmpWorkspace);
+  });
+
+  it("registers /plugin-health without auth", () => {
+    const cmd = api.commands.get("plugin-health")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(true);
+    expect(cmd.requireAuth).toBe(false);
+  });
+
+  it("registers /plugin with auth", () => {
+    const cmd = api.commands.get("plugin")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(true);
+    expect(cmd.requireAuth).toBe(true);
+  });
+
+  it("registers /deps without auth or args", () => {
+    const cmd = api.commands.get("deps")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(false);
+    expect(cmd.requireAuth).toBe(false);
+  });
+
+  it("registers exactly 3 commands", () => {
+    expect(api.commands.size).toBe(3);
+  });
+});
+
+describe("/plugin-health handler", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerPluginCommands(api, tmpWorkspace);
+    const dir = path.join(tmpWorkspace, "openclaw-demo");
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, "openclaw.plugin.json"), JSON.stringify({ id: "openclaw-demo", version: "0.1.0" }));
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+  });
+
+  it("shows usage without a name", async () => {
+    expect(await invokeCommand(api, "plugin-health", { args: "" })).toBe("Usage: /plugin-health <name>");
+  });
+
+  it("shows one line per area", async () => {
+    const text = await invokeCommand(api, "plugin-health", { args: "openclaw-demo" });
+    expect(text).toContain("Plugin health: openclaw-demo");
+    expect(text).toContain("✓ manifest: openclaw-demo v0.1.0");
+    expect(text).toContain("⚠ config: no configSchema defined in manifest");
+    expect(text).toContain("⚠ commands: no registerCommand() calls found in source");
+    for (const area of ["install", "logs", "activity"]) expect(text).toContain(` ${area}: `);
+  });
+});
+
+describe("/plugin handler", () => {
+  let api: MockApi;
+  const profile = "ops-test-plugin-cmd-" + process.pid;
+  const stateDir = path.join(os.homedir(), `.openclaw-${profile}`);
+  const historyPath = path.join(tmpWorkspace, "monitoring", "plugin-allow.json");
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerPluginCommands(api, tmpWorkspace);
+    fs.mkdirSync(stateDir, { recursive: true });
+    fs.writeFileSync(path.join(stateDir, "config.json"), JSON.stringify({ plugins: { allow: ["openclaw-a", "openclaw-b"] } }));
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+    try { fs.rmSync(stateDir, { recursive: true, force: true }); } catch {}
+  });
+
+  it("shows usage for bad arguments", async () => {
+    for (const args of ["", "enable", "toggle x", "undo x", "enable x --profile", "enable x --now"]) {
+      expect(await invokeCommand(api, "plugin", { args })).toMatch(/^Usage: \/plugin enable\|disable/);
+    }
+  });
+
+  it("rejects unknown profiles", async () => {
+    expect(await invokeCommand(api, "plugin", { args: "enable x --profile nope-ops-test" })).toContain("Unknown profile: nope-ops-test");
+  });
+
+  it("reports no change without writing", async () => {
+    const text = await invokeCommand(api, "plugin", { args: `enable openclaw-a --profile ${profile}` });
+    expect(text).toContain("No change: openclaw-a is already in plugins.allow");
+    expect(fs.existsSync(historyPath)).toBe(false);
+  });
+
+  it("keeps no snapshot when the write fails", async () => {
+    // The openclaw CLI is not available in tests
+    const text = await invokeCommand(api, "plugin", { args: `disable openclaw-b --profile ${profile}` });
+    expect(text).toContain(`Plugin disable: openclaw-b (profile ${profile})`);
+    expect(text).toContain("✗ openclaw config set failed");
+    expect(fs.existsSync(historyPath)).toBe(false);
+  });
+
+  it("refuses to disable itself with --restart", async () => {
+    fs.writeFileSync(path.join(stateDir, "config.json"), JSON.stringify({ plugins: { allow: ["openclaw-a", "openclaw-ops-elvatis"] } }));
+    const text = await invokeCommand(api, "plugin", { args: `disable openclaw-ops-elvatis --profile ${profile} --restart` });
+    expect(text).toContain("Refusing --restart: this change removes openclaw-ops-elvatis from plugins.allow");
+    expect(fs.existsSync(historyPath)).toBe(false);
+  });
+
+  it("undoes nothing without history, and refuses when the list moved on", async () => {
+    expect(await invokeCommand(api, "plugin", { args: `undo --profile ${profile}` })).toBe(`Nothing to undo for profile ${profile}`);
+
+    fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+    fs.writeFileSync(
+      historyPath,
+      JSON.stringify({
+        snapshots: [{ ts: "2026-03-01T10:00:00Z", profile, action: "enable", plugin: "openclaw-c", previous: ["openclaw-a"], next: ["openclaw-a", "openclaw-c"] }],
+      }),
+    );
+    const text = await invokeCommand(api, "plugin", { args: `undo --profile ${profile}` });
+    expect(text).toContain("changed since /plugin enable openclaw-c; not undoing.");
+    expect(text).toContain("Now:      openclaw-a, openclaw-b");
+  });
+});
+
+describe("/deps handler", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerPluginCommands(api, tmpWorkspace);
+    const dir = path.join(tmpWorkspace, "openclaw-demo");
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, "openclaw.plugin.json"), JSON.stringify({ id: "openclaw-demo" }));
+    fs.writeFileSync(path.join(dir, "package.json"), JSON.stringify({ name: "openclaw-demo", dependencies: { zod: "^3.22.0" } }));
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+  });
+
+  it("audits the workspace plugins", async () => {
+    const text = await invokeCommand(api, "deps");
+    expect(text).toContain(`Dependency audit (1 plugin(s), Node ${process.version})`);
+    expect(text).toContain("- openclaw-demo: node_modules missing (run npm ci)");
+    expect(text).toContain("- openclaw-demo: no package-lock.json");
+  });
+});
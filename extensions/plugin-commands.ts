@@ -0,0 +1,156 @@
+/**
+ * openclaw-ops-elvatis Plugin Commands
+ *
+ * /plugin-health <name> - Install, manifest, config, commands, log errors
+ *                         and observer activity for one plugin
+ * /plugin enable|disable <id> | undo - Edit plugins.allow with undo
+ * /deps                   - Offline dependency audit across workspace plugins
+ */
+
+import { getCommandArgs, parseCommandFlags, discoverProfiles, findProfile } from "../src/utils.js";
+import { collectPluginHealth, renderPluginHealth } from "../src/plugin-health.js";
+import { loadPluginInventory, findInstalledPlugin } from "../src/plugin-inventory.js";
+import { restartGateway, renderRestartText } from "../src/gateway-restart.js";
+import { auditWorkspaceDeps, renderDepsAudit } from "../src/deps-audit.js";
+import {
+  isAllowAction,
+  readProfileAllowList,
+  planAllowChange,
+  writeAllowList,
+  loadAllowHistory,
+  saveAllowHistory,
+  lastSnapshot,
+  formatAllowList,
+  removesOpsPlugin,
+  OPS_PLUGIN_ID,
+} from "../src/plugin-allow.js";
+
+const SELF_DISABLE_REFUSAL =
+  `Refusing --restart: this change removes ${OPS_PLUGIN_ID} from plugins.allow, so after the restart /plugin undo would no longer exist. ` +
+  "Run it without --restart and restart the gateway yourself once you are sure, or edit plugins.allow from a shell.";
+
+const PLUGIN_USAGE = "Usage: /plugin enable|disable <id> [--profile name] [--restart] | /plugin undo [--profile name] [--restart]";
+
+export function registerPluginCommands(api: any, workspace: string) {
+  // ========================================
+  // /plugin-health <name> - Single-plugin diagnostics
+  // ========================================
+  api.registerCommand({
+    name: "plugin-health",
+    description: "Diagnose one plugin: install status, manifest, config schema, commands, log errors and observer activity. Usage: /plugin-health <name>",
+    usage: "/plugin-health <name>",
+    requireAuth: false,
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const name = getCommandArgs(ctx).trim();
+      if (!name) return { text: "Usage: /plugin-health <name>" };
+      const report = await collectPluginHealth(name, workspace);
+      return { text: renderPluginHealth(report) };
+    },
+  });
+
+  // ========================================
+  // /plugin enable|disable <id> | undo - plugins.allow management
+  // ========================================
+  api.registerCommand({
+    name: "plugin",
+    description: `Enable or disable a plugin in plugins.allow, or undo the last change. ${PLUGIN_USAGE}`,
+    usage: "/plugin enable|disable <id> [--profile name] [--restart] | /plugin undo [--profile name] [--restart]",
+    requireAuth: true,
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const { positional, flags } = parseCommandFlags(getCommandArgs(ctx), ["profile"]);
+      const action = positional[0] ?? "";
+      const allowAction = isAllowAction(action) ? action : null;
+      const validArgs = allowAction ? positional.length === 2 : action === "undo" && positional.length === 1;
+      if (!validArgs || Object.keys(flags).some((f) => f !== "profile" && f !== "restart") || flags.profile === true) {
+        return { text: PLUGIN_USAGE };
+      }
+
+      const profile = typeof flags.profile === "string" ? flags.profile : "default";
+      if (!findProfile(profile)) {
+        return { text: `Unknown profile: ${profile} (profiles: ${discoverProfiles().map((p) => p.name).join(", ")})` };
+      }
+
+      const current = readProfileAllowList(profile);
+      const history = loadAllowHistory(workspace);
+      const lines: string[] = [];
+      let next: string[] | null;
+
+      if (!allowAction) {
+        const last = lastSnapshot(history, profile);
+        if (!last) return { text: `Nothing to undo for profile ${profile}` };
+        const { snapshot, index } = last;
+        if (JSON.stringify(current) !== JSON.stringify(snapshot.next)) {
+          return {
+            text: [
+              `plugins.allow in profile ${profile} changed since /plugin ${snapshot.action} ${snapshot.plugin}; not undoing.`,
+              `Now:      ${formatAllowList(current)}`,
+              `Expected: ${formatAllowList(snapshot.next)}`,
+            ].join("\n"),
+          };
+        }
+        lines.push(`Plugin undo: ${snapshot.action} ${snapshot.plugin} (profile ${profile})`);
+        next = snapshot.previous;
+        if (flags.restart && removesOpsPlugin(current, next)) return { text: SELF_DISABLE_REFUSAL };
+        const written = writeAllowList(profile, next);
+        if (!written.ok) return { text: [...lines, `✗ ${written.error}`].join("\n") };
+        history.snapshots.splice(index, 1);
+        saveAllowHistory(workspace, history);
+      } else {
+        const id = positional[1];
+        const plan = planAllowChange(current, allowAction, id);
+        if (!plan.ok) return { text: plan.error };
+        lines.push(`Plugin ${action}: ${id} (profile ${profile})`);
+        if (!plan.changed) return { text: [...lines, `No change: ${plan.note}`].join("\n") };
+        if (flags.restart && removesOpsPlugin(current, plan.next)) return { text: SELF_DISABLE_REFUSAL };
+
+        const inventory = allowAction === "enable" ? loadPluginInventory(profile) : null;
+        if (inventory && !findInstalledPlugin(inventory, [id])) {
+          lines.push(`⚠ ${id} is not installed in profile ${profile}`);
+        }
+        next = plan.next;
+        const written = writeAllowList(profile, next);
+        if (!written.ok) return { text: [...lines, `✗ ${written.error}`].join("\n") };
+        history.snapshots.push({
+          ts: new Date().toISOString(),
+          profile,
+          action: allowAction,
+          plugin: id,
+          previous: current,
+          next,
+        });
+        saveAllowHistory(workspace, history);
+      }
+
+      api.logger?.info?.(`[plugin] ${action} in ${profile}: ${formatAllowList(current)} -> ${formatAllowList(next)}`);
+      const profileFlag = profile === "default" ? "" : ` --profile ${profile}`;
+      lines.push(`plugins.allow: ${formatAllowList(current)} -> ${formatAllowList(next)}`);
+      lines.push(!allowAction ? "✓ Restored" : `✓ Saved. Undo with /plugin undo${profileFlag}`);
+
+      if (!flags.restart) {
+        lines.push(`Restart the gateway to apply: /restart${profile === "default" ? "" : ` ${profile}`}`);
+        return { text: lines.join("\n") };
+      }
+      // Graceful only: for the gateway hosting this plugin, restartGateway detaches instead of waiting
+      const outcome = await restartGateway(profile, { mode: "graceful" });
+      api.logger?.info?.(`[plugin] restart ${profile} ${outcome.detached ? "detached" : outcome.ok ? "ok" : "FAILED"}`);
+      lines.push("");
+      lines.push(renderRestartText(outcome));
+      return { text: lines.join("\n") };
+    },
+  });
+
+  // ========================================
+  // /deps - Dependency audit across workspace plugins
+  // ========================================
+  api.registerCommand({
+    name: "deps",
+    description: "Audit workspace plugin dependencies from package.json, package-lock.json and node_modules: version conflicts, peer mismatches, missing packages and engines.node",
+    requireAuth: false,
+    acceptsArgs: false,
+    handler: async () => {
+      return { text: renderDepsAudit(auditWorkspaceDeps(workspace)) };
+    },
+  });
+}
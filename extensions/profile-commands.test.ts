@@ -0,0 +1,78 @@
+/**
+ * Tests for profile commands (/profiles).
+ *
+ * A throwaway profile directory is created in the home directory so drift
+ * is always compared against whatever the default profile holds.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createMockApi, invokeCommand, type MockApi } from "../src/test-helpers.js";
+import { registerProfileCommands } from "./profile-commands.js";
+
+describe("profile-commands registration", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerProfileCommands(api);
+  });
+
+  it("registers /profiles without auth", () => {
+    const cmd = api.commands.get("profiles")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(true);
+    expect(cmd.requireAuth).toBe(false);
+  });
+
+  it("registers exactly 1 command", () => {
+    expect(api.commands.size).toBe(1);
+  });
+});
+
+describe("/profiles handler", () => {
+  let api: MockApi;
+  const profile = "ops-test-profiles-" + process.pid;
+  const stateDir = path.join(os.homedir(), `.openclaw-${profile}`);
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerProfileCommands(api);
+    fs.mkdirSync(path.join(stateDir, "logs"), { recursive: true });
+    fs.writeFileSync(
+      path.join(stateDir, "config.json"),
+      JSON.stringify({ opsTest: { apiToken: "sk-secret-value", level: 3 }, plugins: { allow: ["ops-test-a"] } }),
+    );
+    fs.writeFileSync(path.join(stateDir, "logs", "gateway.log"), "started\n");
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(path.join(stateDir, "logs", "gateway.log"), later, later);
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(stateDir, { recursive: true, force: true }); } catch {}
+  });
+
+  it("lists every profile including the default", async () => {
+    const text = await invokeCommand(api, "profiles");
+    expect(text).toMatch(/^Profiles \(\d+\)/);
+    expect(text).toContain(" default: ");
+    expect(text).toContain(` ${profile}: `);
+    expect(text).toContain(`State dir: ${stateDir}`);
+  });
+
+  it("shows drift against default with secrets masked", async () => {
+    const text = await invokeCommand(api, "profiles", profile);
+    expect(text).toContain("Config drift vs default");
+    expect(text).toContain('+ opsTest: {"apiToken":"sk-s****","level":3}');
+    expect(text).not.toContain("sk-secret-value");
+    expect(text).toContain("plugins.allow: ops-test-a");
+    expect(text).toContain("(logs/gateway.log)");
+    expect(text).not.toContain(" default: ");
+  });
+
+  it("rejects unknown profiles", async () => {
+    expect(await invokeCommand(api, "profiles", "nope-ops-test")).toContain("Unknown profile: nope-ops-test");
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * openclaw-ops-elvatis Profile Commands
+ *
+ * /profiles [name] - Profile dashboard with config drift against default
+ */
+
+import { getCommandArgs, discoverProfiles, findProfile } from "../src/utils.js";
+import { collectProfileSummaries, renderProfilesText } from "../src/profiles.js";
+
+export function registerProfileCommands(api: any) {
+  // ========================================
+  // /profiles [name] - Profile dashboard and config drift
+  // ========================================
+  api.registerCommand({
+    name: "profiles",
+    description: "List OpenClaw profiles with gateway state, plugins and config drift against default. Usage: /profiles [name]",
+    usage: "/profiles [name]",
+    requireAuth: false,
+    acceptsArgs: true,
+    handler: async (ctx: any) => {
+      const name = getCommandArgs(ctx).trim();
+      if (name && !findProfile(name)) {
+        return { text: `Unknown profile: ${name} (profiles: ${discoverProfiles().map((p) => p.name).join(", ")})` };
+      }
+      const summaries = await collectProfileSummaries(name || undefined);
+      return { text: renderProfilesText(summaries, { full: Boolean(name) }) };
+    },
+  });
+}
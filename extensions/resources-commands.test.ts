@@ -0,0 +1,49 @@
+/**
+ * Tests for resource commands (/resources).
+ *
+ * The openclaw CLI is not available in the test environment, so every
+ * profile reports no gateway PID.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { createMockApi, invokeCommand, type MockApi } from "../src/test-helpers.js";
+import { registerResourcesCommands } from "./resources-commands.js";
+
+describe("resources-commands registration", () => {
+  let api: MockApi;
+
+  beforeEach(() => {
+    api = createMockApi();
+    registerResourcesCommands(api);
+  });
+
+  it("registers /resources without args", () => {
+    const cmd = api.commands.get("resources")!;
+    expect(cmd).toBeDefined();
+    expect(cmd.acceptsArgs).toBe(false);
+    expect(cmd.requireAuth).toBe(false);
+  });
+
+  it("registers exactly 1 command", () => {
+    expect(api.commands.size).toBe(1);
+  });
+});
+
+describe("/resources handler", () => {
+  it("lists the default profile", async () => {
+    const api = createMockApi();
+    registerResourcesCommands(api);
+    const text = await invokeCommand(api, "resources");
+    expect(text).toContain("Process Resources");
+    if (!text.includes("Linux only")) expect(text).toMatch(/default: /);
+  });
+
+  it("explains when /proc is unavailable", async () => {
+    const api = createMockApi();
+    registerResourcesCommands(api, path.join(os.tmpdir(), "openclaw-ops-elvatis-no-proc-" + process.pid));
+    const text = await invokeCommand(api, "resources");
+    expect(text).toContain("Per-process stats need /proc (Linux only).");
+  });
+});
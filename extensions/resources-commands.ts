@@ -0,0 +1,70 @@
+/**
+ * openclaw-ops-elvatis Resource Commands
+ *
+ * /resources - Per-profile gateway process breakdown (RSS, CPU time, fds,
+ *              threads, child processes) read from /proc
+ */
+
+import os from "node:os";
+import { checkGatewayStatus, discoverProfiles, formatBytes, formatCpuTime } from "../src/utils.js";
+import { hasProcfs, readProcessTree, DEFAULT_PROC_ROOT } from "../src/procfs.js";
+import type { ProcessTreeStats } from "../src/procfs.js";
+
+export function registerResourcesCommands(api: any, procRoot = DEFAULT_PROC_ROOT) {
+  // ========================================
+  // /resources - Per-process resource breakdown
+  // ========================================
+  api.registerCommand({
+    name: "resources",
+    description: "Per-profile gateway process resources (RSS, CPU time, fds, threads, children)",
+    requireAuth: false,
+    acceptsArgs: false,
+    handler: async () => {
+      const lines: string[] = [];
+      lines.push("Process Resources");
+      lines.push("");
+
+      if (!hasProcfs(procRoot)) {
+        lines.push("Per-process stats need /proc (Linux only).");
+        return { text: lines.join("\n") };
+      }
+
+      const totalMem = os.totalmem();
+      const measured: Array<{ profile: string; tree: ProcessTreeStats }> = [];
+
+      for (const { name: profile } of discoverProfiles()) {
+        const status = await checkGatewayStatus(profile);
+        if (!status.pid) {
+          lines.push(`■ ${profile}: not running`);
+          continue;
+        }
+        const tree = readProcessTree(status.pid, procRoot);
+        if (!tree) {
+          lines.push(`⚠ ${profile}: PID ${status.pid} not found in /proc`);
+          continue;
+        }
+        measured.push({ profile, tree });
+
+        const share = totalMem > 0 ? ` (${((tree.treeRssBytes / totalMem) * 100).toFixed(1)}% of host)` : "";
+        lines.push(`▶ ${profile}: PID ${tree.pid} (${tree.name})`);
+        lines.push(`  RSS: ${formatBytes(tree.rssBytes)}${tree.children.length ? `, with children ${formatBytes(tree.treeRssBytes)}` : ""}${share}`);
+        lines.push(`  CPU time: ${formatCpuTime(tree.userSec + tree.systemSec)} (user ${formatCpuTime(tree.userSec)}, sys ${formatCpuTime(tree.systemSec)})`);
+        lines.push(`  Threads: ${tree.threads}`);
+        lines.push(`  Open FDs: ${tree.fds ?? "N/A (permission denied)"}`);
+        lines.push(`  Children: ${tree.children.length}`);
+        for (const child of tree.children.slice(0, 10)) {
+          lines.push(`    - ${child.pid} ${child.name}: ${formatBytes(child.rssBytes)}, CPU ${formatCpuTime(child.userSec + child.systemSec)}`);
+        }
+        if (tree.children.length > 10) lines.push(`    ... and ${tree.children.length - 10} more`);
+      }
+
+      if (measured.length > 1) {
+        const top = measured.reduce((a, b) => (b.tree.treeRssBytes > a.tree.treeRssBytes ? b : a));
+        lines.push("");
+        lines.push(`Largest: ${top.profile} (${formatBytes(top.tree.treeRssBytes)})`);
+      }
+
+      return { text: lines.join("\n") };
+    },
+  });
+}
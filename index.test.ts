@@ -41,6 +41,31 @@ describe("register (entry point)", () => {
 
     // Config commands
     expect(api.commands.has("config")).toBe(true);
+
+    // Monitoring commands
+    expect(api.commands.has("alerts")).toBe(true);
+    expect(api.commands.has("watch")).toBe(true);
+    expect(api.commands.has("errors")).toBe(true);
+    expect(api.commands.has("watchdog")).toBe(true);
+
+    // Resource commands
+    expect(api.commands.has("resources")).toBe(true);
+
+    // Disk commands
+    expect(api.commands.has("disk")).toBe(true);
+    expect(api.commands.has("cleanup")).toBe(true);
+
+    // Control commands
+    expect(api.commands.has("restart")).toBe(true);
+    expect(api.commands.has("service")).toBe(true);
+
+    // Profile commands
+    expect(api.commands.has("profiles")).toBe(true);
+
+    // Plugin commands
+    expect(api.commands.has("plugin-health")).toBe(true);
+    expect(api.commands.has("plugin")).toBe(true);
+    expect(api.commands.has("deps")).toBe(true);
   });
 
   it("does not register commands when enabled is false", () => {
@@ -69,10 +94,22 @@ describe("register (entry point)", () => {
     expect(api.eventHandlers.get("message_received")!.length).toBeGreaterThan(0);
   });
 
-  it("registers exactly 18 commands total", () => {
+  it("starts the health sampler only when monitoring is enabled", () => {
+    const off = createMockApi();
+    const offInfo = vi.spyOn(off.logger!, "info");
+    register(off);
+    expect(offInfo.mock.calls.some((c) => String(c[0]).includes("health sampler"))).toBe(false);
+
+    const on = createMockApi({ workspacePath: "/tmp/test-workspace", monitoring: { enabled: true } });
+    const onInfo = vi.spyOn(on.logger!, "info");
+    register(on);
+    expect(onInfo.mock.calls.some((c) => String(c[0]).includes("health sampler enabled"))).toBe(true);
+  });
+
+  it("registers exactly 31 commands total", () => {
     const api = createMockApi();
     register(api);
-    // 4 phase1 + 6 legacy + 5 observer + 2 skills + 1 config = 18
-    expect(api.commands.size).toBe(18);
+    // 4 phase1 + 6 legacy + 5 observer + 2 skills + 1 config + 4 monitoring + 1 resources + 2 disk + 2 control + 1 profiles + 3 plugin = 31
+    expect(api.commands.size).toBe(31);
   });
 });
@@ -4,10 +4,34 @@ import { registerObserverCommands } from "./extensions/observer-commands.js";
 import { registerSkillsCommands } from "./extensions/skills-commands.js";
 import { registerConfigCommands } from "./extensions/config-commands.js";
 import { registerLegacyCommands } from "./extensions/legacy-commands.js";
+import { registerMonitoringCommands } from "./extensions/monitoring-commands.js";
+import { registerResourcesCommands } from "./extensions/resources-commands.js";
+import { registerDiskCommands } from "./extensions/disk-commands.js";
+import { registerControlCommands } from "./extensions/control-commands.js";
+import { registerProfileCommands } from "./extensions/profile-commands.js";
+import { registerPluginCommands } from "./extensions/plugin-commands.js";
 import { expandHome } from "./src/utils.js";
+import { startHealthSampler, resolveSamplerOptions, type MonitoringConfig } from "./src/health-history.js";
+import { collectAlertMetrics, runAlertEvaluation, formatAlertLine } from "./src/alerts.js";
+import type { CleanupConfig } from "./src/disk-usage.js";
+import type { ServiceControlConfig } from "./src/systemd.js";
+import {
+  startWatchdog,
+  resolveWatchdogConfig,
+  watchedProfiles,
+  formatWatchdogEvent,
+  type WatchdogConfig,
+} from "./src/watchdog.js";
 
 export default function register(api: any) {
-  const cfg = (api.pluginConfig ?? {}) as { enabled?: boolean; workspacePath?: string };
+  const cfg = (api.pluginConfig ?? {}) as {
+    enabled?: boolean;
+    workspacePath?: string;
+    monitoring?: MonitoringConfig;
+    cleanup?: CleanupConfig;
+    serviceControl?: ServiceControlConfig;
+    watchdog?: WatchdogConfig;
+  };
   if (cfg.enabled === false) return;
 
   const workspace = expandHome(cfg.workspacePath ?? "~/.openclaw/workspace");
@@ -29,4 +53,56 @@ export default function register(api: any) {
 
   // Config management commands (/config)
   registerConfigCommands(api, workspace);
+
+  // Monitoring commands (/alerts, /watch, /errors, /watchdog)
+  registerMonitoringCommands(api, workspace, cfg.monitoring, cfg.watchdog);
+
+  // Per-process resource breakdown (/resources)
+  registerResourcesCommands(api);
+
+  // Disk usage and retention cleanup (/disk, /cleanup)
+  registerDiskCommands(api, workspace, cfg.cleanup);
+
+  // Gateway and systemd unit control (/restart, /service)
+  registerControlCommands(api, cfg.serviceControl);
+
+  // Profile dashboard and config drift (/profiles)
+  registerProfileCommands(api);
+
+  // Plugin diagnostics and allowlist management (/plugin-health, /plugin)
+  registerPluginCommands(api, workspace);
+
+  // Background health sampler (opt-in, feeds /health history and alerting)
+  if (cfg.monitoring?.enabled) {
+    const alerting = cfg.monitoring.alerting ?? {};
+    const { intervalMs, retentionMs } = resolveSamplerOptions(cfg.monitoring);
+    startHealthSampler(workspace, {
+      intervalMs,
+      retentionMs,
+      onSample: (sample) => {
+        if (alerting.enabled === false) return;
+        const { fired, resolved } = runAlertEvaluation(workspace, alerting, collectAlertMetrics(workspace, sample));
+        for (const a of fired) api.logger?.info?.(`[alerts] FIRING ${formatAlertLine(a)}`);
+        for (const a of resolved) api.logger?.info?.(`[alerts] RESOLVED ${formatAlertLine(a)}`);
+      },
+      onError: (err) => api.logger?.info?.(`[monitoring] health sample failed: ${String(err)}`),
+    });
+    api.logger?.info?.(`[monitoring] health sampler enabled. interval=${intervalMs / 1000}s`);
+  }
+
+  // Gateway watchdog (opt-in, restarts unhealthy gateways, logged for /watchdog)
+  if (cfg.watchdog?.enabled) {
+    const watchdog = resolveWatchdogConfig(cfg.watchdog);
+    const skipped = watchdog.profiles.filter((p) => !watchedProfiles(watchdog).includes(p));
+    if (skipped.length > 0) {
+      api.logger?.info?.(`[watchdog] not watching ${skipped.join(",")}: a watchdog cannot restart the gateway it runs in`);
+    }
+    startWatchdog(workspace, watchdog, {
+      onEvent: (event) => api.logger?.info?.(`[watchdog] ${formatWatchdogEvent(event)}`),
+      onError: (err) => api.logger?.info?.(`[watchdog] check failed: ${String(err)}`),
+    });
+    api.logger?.info?.(
+      `[watchdog] enabled. profiles=${watchedProfiles(watchdog).join(",") || "(none)"} interval=${watchdog.checkInterval}s`,
+    );
+  }
 }
@@ -0,0 +1,166 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  resolveAlertThresholds,
+  evaluateAlerts,
+  loadAlertState,
+  saveAlertState,
+  acknowledgeAlert,
+  silenceRule,
+  isSilenced,
+  collectAlertMetrics,
+  renderAlertsText,
+} from "./alerts.js";
+import type { AlertMetrics, AlertState } from "./alerts.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-alerts-" + process.pid);
+
+const calm: AlertMetrics = { cpu: 10, memory: 40, disk: 50, cooldowns: 0, errors: 0 };
+const empty = (): AlertState => ({ nextId: 1, alerts: [], silences: {} });
+
+afterEach(() => {
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+});
+
+// ---------------------------------------------------------------------------
+// Thresholds / metrics
+// ---------------------------------------------------------------------------
+describe("resolveAlertThresholds", () => {
+  it("returns defaults for an empty config", () => {
+    expect(resolveAlertThresholds()).toEqual(DEFAULT_ALERT_THRESHOLDS);
+  });
+
+  it("overrides configured rules and ignores invalid values", () => {
+    const t = resolveAlertThresholds({ thresholds: { disk: 75, cpu: "high" as any } });
+    expect(t.disk).toBe(75);
+    expect(t.cpu).toBe(DEFAULT_ALERT_THRESHOLDS.cpu);
+  });
+});
+
+describe("collectAlertMetrics", () => {
+  it("uses sample figures when given", () => {
+    const m = collectAlertMetrics(tmpWorkspace, {
+      ts: new Date().toISOString(),
+      cpuLoad1: 1,
+      cpuPercent: 12,
+      memPercent: 34,
+      diskPercent: 56,
+      gateways: {},
+    });
+    expect(m).toMatchObject({ cpu: 12, memory: 34, disk: 56, cooldowns: 0 });
+    expect(typeof m.errors).toBe("number");
+  });
+
+  it("reads resources fresh without a sample", () => {
+    const m = collectAlertMetrics(tmpWorkspace);
+    expect(typeof m.cpu).toBe("number");
+    expect(typeof m.memory).toBe("number");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+describe("evaluateAlerts", () => {
+  it("does nothing while metrics are below thresholds", () => {
+    const { fired, resolved, state } = evaluateAlerts(empty(), calm, DEFAULT_ALERT_THRESHOLDS);
+    expect(fired).toEqual([]);
+    expect(resolved).toEqual([]);
+    expect(state.alerts).toEqual([]);
+  });
+
+  it("fires once per breach and refreshes the ongoing alert", () => {
+    const state = empty();
+    const first = evaluateAlerts(state, { ...calm, disk: 93 }, DEFAULT_ALERT_THRESHOLDS);
+    expect(first.fired).toHaveLength(1);
+    expect(first.fired[0]).toMatchObject({ id: 1, rule: "disk", status: "active", value: 93 });
+    expect(first.fired[0].message).toContain("Disk at 93.0%");
+
+    const second = evaluateAlerts(state, { ...calm, disk: 95 }, DEFAULT_ALERT_THRESHOLDS);
+    expect(second.fired).toEqual([]);
+    expect(state.alerts).toHaveLength(1);
+    expect(state.alerts[0].value).toBe(95);
+  });
+
+  it("resolves an alert when the metric recovers", () => {
+    const state = empty();
+    evaluateAlerts(state, { ...calm, cooldowns: 4 }, DEFAULT_ALERT_THRESHOLDS);
+    const { resolved } = evaluateAlerts(state, calm, DEFAULT_ALERT_THRESHOLDS);
+    expect(resolved).toHaveLength(1);
+    expect(state.alerts[0].status).toBe("resolved");
+    expect(state.alerts[0].resolvedAt).toBeDefined();
+  });
+
+  it("skips unknown metrics", () => {
+    const { state } = evaluateAlerts(empty(), { ...calm, disk: null }, { ...DEFAULT_ALERT_THRESHOLDS, disk: 0 });
+    expect(state.alerts).toEqual([]);
+  });
+
+  it("opens but does not report alerts for silenced rules", () => {
+    const state = empty();
+    silenceRule(state, "errors", 3_600_000);
+    const { fired } = evaluateAlerts(state, { ...calm, errors: 50 }, DEFAULT_ALERT_THRESHOLDS);
+    expect(fired).toEqual([]);
+    expect(state.alerts[0].status).toBe("active");
+  });
+
+  it("drops expired silences", () => {
+    const state = empty();
+    silenceRule(state, "cpu", 1000, new Date(Date.now() - 10_000));
+    evaluateAlerts(state, calm, DEFAULT_ALERT_THRESHOLDS);
+    expect(state.silences).toEqual({});
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Ack / silence / persistence
+// ---------------------------------------------------------------------------
+describe("acknowledgeAlert and silenceRule", () => {
+  it("acknowledges active alerts only", () => {
+    const state = empty();
+    evaluateAlerts(state, { ...calm, memory: 99 }, DEFAULT_ALERT_THRESHOLDS);
+    expect(acknowledgeAlert(state, 1)?.acknowledgedAt).toBeDefined();
+    expect(acknowledgeAlert(state, 42)).toBeNull();
+  });
+
+  it("silences a rule until the given time", () => {
+    const state = empty();
+    silenceRule(state, "disk", 60_000);
+    expect(isSilenced(state, "disk")).toBe(true);
+    expect(isSilenced(state, "disk", Date.now() + 120_000)).toBe(false);
+  });
+});
+
+describe("alert state persistence", () => {
+  it("returns empty state when no file exists", () => {
+    expect(loadAlertState(tmpWorkspace)).toEqual(empty());
+  });
+
+  it("round-trips state through the workspace file", () => {
+    const state = empty();
+    evaluateAlerts(state, { ...calm, cpu: 99 }, DEFAULT_ALERT_THRESHOLDS);
+    saveAlertState(tmpWorkspace, state);
+    expect(loadAlertState(tmpWorkspace)).toEqual(state);
+  });
+});
+
+describe("renderAlertsText", () => {
+  it("shows none active for empty state", () => {
+    const text = renderAlertsText(empty());
+    expect(text).toContain("Alerts (0 active)");
+    expect(text).toContain("✓ None");
+  });
+
+  it("marks acknowledged and silenced alerts", () => {
+    const state = empty();
+    evaluateAlerts(state, { ...calm, disk: 95 }, DEFAULT_ALERT_THRESHOLDS);
+    acknowledgeAlert(state, 1);
+    silenceRule(state, "disk", 60_000);
+    const text = renderAlertsText(state);
+    expect(text).toContain("#1 Disk at 95.0% (threshold 90%) [acked, silenced]");
+    expect(text).toContain("SILENCED");
+  });
+});
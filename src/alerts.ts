@@ -0,0 +1,322 @@
+/**
+ * Threshold-based alert engine.
+ *
+ * Evaluates `monitoring.alerting.thresholds` against current metrics (CPU,
+ * memory, and disk from health samples, active cooldown count, and recent
+ * log errors). Each breached rule opens an alert; an alert resolves once its
+ * metric drops back below the threshold. Alerts can be acknowledged, and
+ * rules can be silenced for a while so they do not notify.
+ *
+ * State file: <workspace>/monitoring/alerts.json
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { getSystemResourceStats, loadActiveCooldowns, formatIsoCompact } from "./utils.js";
+import { countRecentLogErrors } from "./health.js";
+import type { HealthSample } from "./health-history.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AlertRule = "cpu" | "memory" | "disk" | "cooldowns" | "errors";
+
+export const ALERT_RULES: AlertRule[] = ["cpu", "memory", "disk", "cooldowns", "errors"];
+
+/** Alerting section of the monitoring config. */
+export interface AlertingConfig {
+  /** Evaluate alerts on every background sample (default true). */
+  enabled?: boolean;
+  /** Per-rule thresholds; a rule fires when its metric is >= the threshold. */
+  thresholds?: Partial<Record<AlertRule, number>>;
+}
+
+/** Current value of every alert metric. `null` means unknown. */
+export type AlertMetrics = Record<AlertRule, number | null>;
+
+export interface AlertRecord {
+  /** Short numeric id used by `/alerts ack <id>`. */
+  id: number;
+  rule: AlertRule;
+  status: "active" | "resolved";
+  message: string;
+  value: number;
+  threshold: number;
+  firstSeen: string;
+  lastSeen: string;
+  resolvedAt?: string;
+  acknowledgedAt?: string;
+}
+
+export interface AlertState {
+  nextId: number;
+  alerts: AlertRecord[];
+  /** Rule -> ISO time until which it is silenced. */
+  silences: Partial<Record<AlertRule, string>>;
+}
+
+export interface AlertEvaluation {
+  /** Alerts that opened during this evaluation (excluding silenced rules). */
+  fired: AlertRecord[];
+  /** Alerts that resolved during this evaluation. */
+  resolved: AlertRecord[];
+  state: AlertState;
+}
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+/** Default thresholds: percent used for cpu/memory/disk, counts otherwise. */
+export const DEFAULT_ALERT_THRESHOLDS: Record<AlertRule, number> = {
+  cpu: 80,
+  memory: 85,
+  disk: 90,
+  cooldowns: 3,
+  errors: 10,
+};
+
+/** Log errors are counted over this trailing window. */
+export const ALERT_ERROR_WINDOW_MS = 60 * 60 * 1000;
+
+/** Resolved alerts kept for `/alerts history`. */
+const MAX_RESOLVED = 100;
+
+const RULE_LABELS: Record<AlertRule, string> = {
+  cpu: "CPU",
+  memory: "Memory",
+  disk: "Disk",
+  cooldowns: "Cooldowns",
+  errors: "Log errors",
+};
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** Path of the alert state file for a workspace. */
+export function alertStatePath(workspace: string): string {
+  return path.join(workspace, "monitoring", "alerts.json");
+}
+
+export function loadAlertState(workspace: string): AlertState {
+  try {
+    const st = JSON.parse(fs.readFileSync(alertStatePath(workspace), "utf-8")) as Partial<AlertState>;
+    return {
+      nextId: typeof st.nextId === "number" ? st.nextId : 1,
+      alerts: Array.isArray(st.alerts) ? st.alerts : [],
+      silences: st.silences ?? {},
+    };
+  } catch {
+    return { nextId: 1, alerts: [], silences: {} };
+  }
+}
+
+export function saveAlertState(workspace: string, state: AlertState): void {
+  const file = alertStatePath(workspace);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(state, null, 2) + "\n", "utf-8");
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+/** Merge configured thresholds over the defaults, ignoring invalid values. */
+export function resolveAlertThresholds(cfg: AlertingConfig = {}): Record<AlertRule, number> {
+  const thresholds = { ...DEFAULT_ALERT_THRESHOLDS };
+  for (const rule of ALERT_RULES) {
+    const v = cfg.thresholds?.[rule];
+    if (typeof v === "number" && Number.isFinite(v)) thresholds[rule] = v;
+  }
+  return thresholds;
+}
+
+/**
+ * Gather alert metrics. Resource figures come from `sample` when given
+ * (background sampler), otherwise they are read fresh.
+ */
+export function collectAlertMetrics(workspace: string, sample?: HealthSample): AlertMetrics {
+  let cpu: number | null;
+  let memory: number | null;
+  let disk: number | null;
+  if (sample) {
+    ({ cpuPercent: cpu, memPercent: memory, diskPercent: disk } = sample);
+  } else {
+    const res = getSystemResourceStats(workspace);
+    cpu = res.cpu.percent;
+    memory = res.memory.percent;
+    disk = res.disk?.percent ?? null;
+  }
+
+  return {
+    cpu,
+    memory,
+    disk,
+    cooldowns: loadActiveCooldowns(workspace).length,
+    errors: countRecentLogErrors(Date.now() - ALERT_ERROR_WINDOW_MS),
+  };
+}
+
+function describeBreach(rule: AlertRule, value: number, threshold: number): string {
+  if (rule === "cooldowns") return `${value} models in cooldown (threshold ${threshold})`;
+  if (rule === "errors") return `${value} log errors in the last hour (threshold ${threshold})`;
+  return `${RULE_LABELS[rule]} at ${value.toFixed(1)}% (threshold ${threshold}%)`;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/** Whether a rule is silenced at `now`. */
+export function isSilenced(state: AlertState, rule: AlertRule, now = Date.now()): boolean {
+  const until = state.silences[rule];
+  return !!until && new Date(until).getTime() > now;
+}
+
+/**
+ * Evaluate metrics against thresholds and update alert state in place:
+ * open alerts for new breaches, refresh ongoing ones, and resolve alerts
+ * whose metric has recovered. Expired silences are dropped.
+ */
+export function evaluateAlerts(
+  state: AlertState,
+  metrics: AlertMetrics,
+  thresholds: Record<AlertRule, number>,
+  now = new Date(),
+): AlertEvaluation {
+  const ts = now.toISOString();
+  const fired: AlertRecord[] = [];
+  const resolved: AlertRecord[] = [];
+
+  for (const rule of ALERT_RULES) {
+    const value = metrics[rule];
+    if (value === null) continue;
+    const threshold = thresholds[rule];
+    const active = state.alerts.find((a) => a.rule === rule && a.status === "active");
+
+    if (value >= threshold) {
+      const message = describeBreach(rule, value, threshold);
+      if (active) {
+        Object.assign(active, { value, threshold, message, lastSeen: ts });
+      } else {
+        const alert: AlertRecord = {
+          id: state.nextId++,
+          rule,
+          status: "active",
+          message,
+          value,
+          threshold,
+          firstSeen: ts,
+          lastSeen: ts,
+        };
+        state.alerts.push(alert);
+        if (!isSilenced(state, rule, now.getTime())) fired.push(alert);
+      }
+    } else if (active) {
+      Object.assign(active, { status: "resolved", value, resolvedAt: ts });
+      resolved.push(active);
+    }
+  }
+
+  for (const rule of Object.keys(state.silences) as AlertRule[]) {
+    if (!isSilenced(state, rule, now.getTime())) delete state.silences[rule];
+  }
+
+  // Keep every active alert but only the most recent resolved ones
+  const resolvedAll = state.alerts.filter((a) => a.status === "resolved");
+  if (resolvedAll.length > MAX_RESOLVED) {
+    const drop = new Set(resolvedAll.slice(0, resolvedAll.length - MAX_RESOLVED));
+    state.alerts = state.alerts.filter((a) => !drop.has(a));
+  }
+
+  return { fired, resolved, state };
+}
+
+/**
+ * Load state, evaluate the given metrics, and persist the result.
+ * Convenience wrapper used by the sampler and `/alerts`.
+ */
+export function runAlertEvaluation(
+  workspace: string,
+  cfg: AlertingConfig,
+  metrics: AlertMetrics,
+): AlertEvaluation {
+  const result = evaluateAlerts(loadAlertState(workspace), metrics, resolveAlertThresholds(cfg));
+  saveAlertState(workspace, result.state);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Acknowledge / silence
+// ---------------------------------------------------------------------------
+
+/** Acknowledge an active alert by id. Returns the alert, or null if not found. */
+export function acknowledgeAlert(state: AlertState, id: number, now = new Date()): AlertRecord | null {
+  const alert = state.alerts.find((a) => a.id === id && a.status === "active");
+  if (!alert) return null;
+  alert.acknowledgedAt = now.toISOString();
+  return alert;
+}
+
+/** Silence a rule for `durationMs`. */
+export function silenceRule(state: AlertState, rule: AlertRule, durationMs: number, now = new Date()): string {
+  const until = new Date(now.getTime() + durationMs).toISOString();
+  state.silences[rule] = until;
+  return until;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/** One-line summary of an alert, e.g. `#3 Disk at 93.0% (threshold 90%)`. */
+export function formatAlertLine(alert: AlertRecord): string {
+  return `#${alert.id} ${alert.message}`;
+}
+
+/** Render active alerts, silences, and the most recent resolved alerts. */
+export function renderAlertsText(state: AlertState, now = Date.now()): string {
+  const lines: string[] = [];
+  const active = state.alerts.filter((a) => a.status === "active");
+  const resolved = state.alerts.filter((a) => a.status === "resolved");
+
+  lines.push(`Alerts (${active.length} active)`);
+  lines.push("");
+
+  lines.push("ACTIVE");
+  if (active.length === 0) {
+    lines.push("✓ None");
+  }
+  for (const a of active) {
+    const silenced = isSilenced(state, a.rule, now);
+    const icon = a.acknowledgedAt || silenced ? "○" : "⚠";
+    const tags = [a.acknowledgedAt ? "acked" : "", silenced ? "silenced" : ""].filter(Boolean);
+    lines.push(`${icon} ${formatAlertLine(a)}${tags.length ? ` [${tags.join(", ")}]` : ""}`);
+    lines.push(`  Since ${formatIsoCompact(new Date(a.firstSeen))} UTC`);
+  }
+
+  const silences = (Object.entries(state.silences) as Array<[AlertRule, string]>).filter(([rule]) =>
+    isSilenced(state, rule, now),
+  );
+  if (silences.length > 0) {
+    lines.push("");
+    lines.push("SILENCED");
+    for (const [rule, until] of silences) {
+      lines.push(`- ${rule} until ${formatIsoCompact(new Date(until))} UTC`);
+    }
+  }
+
+  lines.push("");
+  lines.push("RECENTLY RESOLVED");
+  if (resolved.length === 0) lines.push("- (none)");
+  for (const a of resolved.slice(-5).reverse()) {
+    lines.push(`✓ ${formatAlertLine(a)}`);
+    lines.push(`  ${formatIsoCompact(new Date(a.firstSeen))} to ${formatIsoCompact(new Date(a.resolvedAt ?? a.lastSeen))} UTC`);
+  }
+
+  lines.push("");
+  lines.push("Use /alerts ack <id> or /alerts silence <rule> <duration>");
+  return lines.join("\n");
+}
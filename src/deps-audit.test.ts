@@ -0,0 +1,186 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { packageNameFromKey, resolveLockedPackage, auditWorkspaceDeps, renderDepsAudit } from "./deps-audit.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-deps-audit-" + process.pid);
+
+afterEach(() => {
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+});
+
+function writeJson(file: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value));
+}
+
+/** A plugin repo with package.json, an optional lockfile and the given installed packages. */
+function writePlugin(
+  dir: string,
+  pkg: Record<string, unknown>,
+  lock: Record<string, unknown> | null,
+  installed: Record<string, string> | null,
+): string {
+  const full = path.join(tmpWorkspace, dir);
+  writeJson(path.join(full, "openclaw.plugin.json"), { id: dir });
+  writeJson(path.join(full, "package.json"), { name: dir, version: "1.0.0", ...pkg });
+  if (lock) writeJson(path.join(full, "package-lock.json"), lock);
+  if (installed) {
+    fs.mkdirSync(path.join(full, "node_modules"), { recursive: true });
+    for (const [name, version] of Object.entries(installed)) {
+      writeJson(path.join(full, "node_modules", name, "package.json"), { name, version });
+    }
+  }
+  return full;
+}
+
+describe("lockfile helpers", () => {
+  it("derives package names from install paths", () => {
+    expect(packageNameFromKey("node_modules/zod")).toBe("zod");
+    expect(packageNameFromKey("node_modules/a/node_modules/@scope/b")).toBe("@scope/b");
+  });
+
+  it("resolves from the nearest node_modules up to the root", () => {
+    const packages = {
+      "": {},
+      "node_modules/a": { version: "1.0.0" },
+      "node_modules/a/node_modules/react": { version: "17.0.2" },
+      "node_modules/react": { version: "18.2.0" },
+    };
+    expect(resolveLockedPackage(packages, "node_modules/a", "react")).toBe("node_modules/a/node_modules/react");
+    expect(resolveLockedPackage(packages, "node_modules/b", "react")).toBe("node_modules/react");
+    expect(resolveLockedPackage(packages, "", "a")).toBe("node_modules/a");
+    expect(resolveLockedPackage(packages, "node_modules/a", "missing")).toBeNull();
+  });
+});
+
+describe("auditWorkspaceDeps", () => {
+  it("reports nothing for a consistent plugin", () => {
+    writePlugin(
+      "openclaw-a",
+      { dependencies: { zod: "^3.22.0" }, engines: { node: ">=18" } },
+      { lockfileVersion: 3, packages: { "": {}, "node_modules/zod": { version: "3.22.4" } } },
+      { zod: "3.22.4" },
+    );
+    const audit = auditWorkspaceDeps(tmpWorkspace, "v20.19.5");
+    expect(audit.plugins).toEqual([{ dir: "openclaw-a", lockfileVersion: 3, locked: { zod: "3.22.4" } }]);
+    expect(audit.issues).toEqual([]);
+    expect(renderDepsAudit(audit)).toContain("✓ No dependency issues found");
+  });
+
+  it("separates conflicting from compatible versions across plugins", () => {
+    const lock = (zod: string, undici: string) => ({
+      lockfileVersion: 3,
+      packages: { "": {}, "node_modules/zod": { version: zod }, "node_modules/undici": { version: undici } },
+    });
+    const pkg = { dependencies: { zod: "*", undici: "*" } };
+    writePlugin("openclaw-a", pkg, lock("3.22.4", "6.19.0"), { zod: "3.22.4", undici: "6.19.0" });
+    writePlugin("openclaw-b", pkg, lock("4.0.1", "6.21.0"), { zod: "4.0.1", undici: "6.21.0" });
+
+    const issues = auditWorkspaceDeps(tmpWorkspace, "v20.19.5").issues;
+    expect(issues).toEqual([
+      { kind: "duplicate", plugin: null, package: "undici", detail: "undici: openclaw-a 6.19.0, openclaw-b 6.21.0" },
+      { kind: "conflict", plugin: null, package: "zod", detail: "zod: openclaw-a 3.22.4, openclaw-b 4.0.1" },
+    ]);
+  });
+
+  it("checks peers of locked packages, skipping optional and dev ones", () => {
+    writePlugin(
+      "openclaw-a",
+      { dependencies: { "react-dom": "^18.2.0" }, peerDependencies: { openclaw: "*" } },
+      {
+        lockfileVersion: 3,
+        packages: {
+          "": { peerDependencies: { openclaw: "*" } },
+          "node_modules/react-dom": { version: "18.2.0", peerDependencies: { react: "^18.2.0", scheduler: "*" }, peerDependenciesMeta: { scheduler: { optional: true } } },
+          "node_modules/react": { version: "17.0.2" },
+          "node_modules/plugin-x": { version: "1.0.0", peerDependencies: { eslint: "^9" } },
+          "node_modules/tooling": { version: "1.0.0", dev: true, peerDependencies: { typescript: "^5" } },
+        },
+      },
+      { "react-dom": "18.2.0" },
+    );
+    const details = auditWorkspaceDeps(tmpWorkspace, "v20.19.5").issues.filter((i) => i.kind === "peer").map((i) => i.detail);
+    expect(details).toEqual([
+      "react-dom@18.2.0 wants react ^18.2.0, found 17.0.2",
+      "plugin-x@1.0.0 wants eslint ^9, not installed",
+    ]);
+  });
+
+  it("reports missing node_modules, missing packages and lockfile drift", () => {
+    const lock = { lockfileVersion: 3, packages: { "": {}, "node_modules/zod": { version: "3.22.4" }, "node_modules/ws": { version: "8.18.0" } } };
+    const pkg = { dependencies: { zod: "^3.22.0", ws: "^8.0.0" } };
+    writePlugin("openclaw-a", pkg, lock, null);
+    writePlugin("openclaw-b", pkg, lock, { zod: "3.22.0" });
+
+    const details = auditWorkspaceDeps(tmpWorkspace, "v20.19.5").issues.filter((i) => i.kind === "missing").map((i) => `${i.plugin}: ${i.detail}`);
+    expect(details).toEqual([
+      "openclaw-a: node_modules missing (run npm ci)",
+      "openclaw-b: zod installed 3.22.0, lockfile 3.22.4",
+      "openclaw-b: ws not installed",
+    ]);
+  });
+
+  it("checks engines.node of the plugin and runtime packages", () => {
+    writePlugin(
+      "openclaw-a",
+      { dependencies: { undici: "^7.0.0" }, engines: { node: ">=22" } },
+      {
+        lockfileVersion: 3,
+        packages: {
+          "": {},
+          "node_modules/undici": { version: "7.0.0", engines: { node: ">=20.18.1" } },
+          "node_modules/vitest": { version: "4.0.0", dev: true, engines: { node: ">=99" } },
+          "node_modules/legacy": { version: "1.0.0", engines: ["node >= 0.8"] },
+        },
+      },
+      { undici: "7.0.0" },
+    );
+    const details = auditWorkspaceDeps(tmpWorkspace, "v20.10.0").issues.filter((i) => i.kind === "engines").map((i) => i.detail);
+    expect(details).toEqual(["requires node >=22", "undici@7.0.0 requires node >=20.18.1"]);
+  });
+
+  it("flags absent and v1 lockfiles, still comparing v1 versions", () => {
+    writePlugin("openclaw-a", { dependencies: { zod: "^3.0.0" } }, null, { zod: "3.22.4" });
+    writePlugin("openclaw-b", { dependencies: { zod: "^3.0.0" } }, { lockfileVersion: 1, dependencies: { zod: { version: "3.21.0" } } }, { zod: "3.21.0" });
+    writePlugin("openclaw-c", {}, null, null);
+
+    const audit = auditWorkspaceDeps(tmpWorkspace, "v20.19.5");
+    expect(audit.plugins.map((p) => p.lockfileVersion)).toEqual([null, 1, null]);
+    expect(audit.issues.filter((i) => i.kind === "lockfile").map((i) => `${i.plugin}: ${i.detail}`)).toEqual([
+      "openclaw-a: no package-lock.json",
+      "openclaw-b: lockfileVersion 1: peer and engines checks need 2 or later (npm 7+)",
+    ]);
+  });
+});
+
+describe("renderDepsAudit", () => {
+  it("groups issues by section with a total", () => {
+    const text = renderDepsAudit({
+      nodeVersion: "v20.19.5",
+      plugins: [{ dir: "openclaw-a", lockfileVersion: 3, locked: {} }],
+      issues: [
+        { kind: "engines", plugin: "openclaw-a", package: null, detail: "requires node >=22" },
+        { kind: "conflict", plugin: null, package: "zod", detail: "zod: openclaw-a 3.22.4, openclaw-b 4.0.1" },
+      ],
+    });
+    expect(text).toBe(
+      [
+        "Dependency audit (1 plugin(s), Node v20.19.5)",
+        "",
+        "CONFLICTS (1)",
+        "- zod: openclaw-a 3.22.4, openclaw-b 4.0.1",
+        "",
+        "ENGINES (1)",
+        "- openclaw-a: requires node >=22",
+        "",
+        "⚠ 2 issue(s)",
+      ].join("\n"),
+    );
+  });
+
+  it("says when there is nothing to audit", () => {
+    expect(renderDepsAudit({ nodeVersion: "v20.19.5", plugins: [], issues: [] })).toContain("No openclaw-* plugins with a package.json in workspace.");
+  });
+});
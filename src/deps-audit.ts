@@ -0,0 +1,291 @@
+/**
+ * Offline dependency audit for /deps.
+ *
+ * Reads package.json, package-lock.json and node_modules of every openclaw-*
+ * repo in the workspace and reports what would otherwise surface as a
+ * gateway failing to load a plugin:
+ *
+ *   conflict   a shared direct dependency locked at incompatible versions
+ *              (different caret range) in two plugins
+ *   duplicate  the same, but at compatible versions
+ *   peer       a locked package whose peer dependency is missing or out of range
+ *   missing    a dependency absent from node_modules, or installed at a
+ *              different version than the lockfile
+ *   engines    engines.node of the plugin or a locked package that the
+ *              running Node does not satisfy
+ *   lockfile   no package-lock.json, or one too old for peer/engines checks
+ *
+ * Nothing is fetched: packages the lockfile marks `dev` are skipped, since
+ * they are not loaded at runtime, and ranges semver.ts does not understand
+ * are left alone rather than reported.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { readJsonSafe, listWorkspacePluginDirs } from "./utils.js";
+import { isCaretCompatible, satisfiesRange } from "./semver.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DepsIssueKind = "conflict" | "duplicate" | "peer" | "missing" | "engines" | "lockfile";
+
+export interface DepsIssue {
+  kind: DepsIssueKind;
+  /** Workspace directory, or `null` for issues spanning plugins. */
+  plugin: string | null;
+  /** Package the issue is about, or `null` for plugin-level issues. */
+  package: string | null;
+  detail: string;
+}
+
+export interface PluginDeps {
+  dir: string;
+  /** `lockfileVersion` of package-lock.json, or `null` without one. */
+  lockfileVersion: number | null;
+  /** Locked top-level versions of the plugin's runtime dependencies. */
+  locked: Record<string, string>;
+}
+
+export interface DepsAudit {
+  nodeVersion: string;
+  plugins: PluginDeps[];
+  issues: DepsIssue[];
+}
+
+interface PackageJson {
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+  engines?: { node?: string } | string[];
+}
+
+interface LockPackage extends PackageJson {
+  dev?: boolean;
+  link?: boolean;
+}
+
+interface Lockfile {
+  lockfileVersion?: number;
+  /** lockfileVersion 2 and 3, keyed by install path ("" is the root). */
+  packages?: Record<string, LockPackage>;
+  /** lockfileVersion 1. */
+  dependencies?: Record<string, { version?: string; dev?: boolean }>;
+}
+
+const KIND_SECTIONS: [DepsIssueKind, string][] = [
+  ["conflict", "CONFLICTS"],
+  ["duplicate", "DUPLICATES"],
+  ["peer", "PEER DEPENDENCIES"],
+  ["missing", "NODE_MODULES"],
+  ["engines", "ENGINES"],
+  ["lockfile", "LOCKFILES"],
+];
+
+// ---------------------------------------------------------------------------
+// Lockfile helpers
+// ---------------------------------------------------------------------------
+
+/** Package name of a lockfile `packages` key, e.g. `node_modules/a/node_modules/@s/b` -> `@s/b`. */
+export function packageNameFromKey(key: string): string {
+  const idx = key.lastIndexOf("node_modules/");
+  return idx === -1 ? key : key.slice(idx + "node_modules/".length);
+}
+
+/**
+ * Resolve `name` as Node would from the package installed at `fromKey`:
+ * its own node_modules first, then each parent's, up to the root.
+ */
+export function resolveLockedPackage(packages: Record<string, LockPackage>, fromKey: string, name: string): string | null {
+  let base = fromKey;
+  for (;;) {
+    const candidate = `${base ? `${base}/` : ""}node_modules/${name}`;
+    if (packages[candidate] && !packages[candidate].link) return candidate;
+    if (!base) return null;
+    const idx = base.lastIndexOf("node_modules/");
+    base = idx <= 0 ? "" : base.slice(0, idx - 1);
+  }
+}
+
+function enginesNode(pkg: PackageJson): string | null {
+  const engines = pkg.engines;
+  return engines && !Array.isArray(engines) && typeof engines.node === "string" ? engines.node : null;
+}
+
+/** Runtime dependencies of a plugin: dependencies, optional and peer. */
+function runtimeDependencies(pkg: PackageJson): Record<string, string> {
+  return { ...pkg.peerDependencies, ...pkg.optionalDependencies, ...pkg.dependencies };
+}
+
+/** Top-level locked versions of the given dependency names. */
+function lockedVersions(lock: Lockfile, names: string[]): Record<string, string> {
+  const locked: Record<string, string> = {};
+  for (const name of names) {
+    const version = lock.packages ? lock.packages[`node_modules/${name}`]?.version : lock.dependencies?.[name]?.version;
+    if (version) locked[name] = version;
+  }
+  return locked;
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+function checkPeers(dir: string, packages: Record<string, LockPackage>): DepsIssue[] {
+  const issues: DepsIssue[] = [];
+  for (const [key, entry] of Object.entries(packages)) {
+    if (entry.dev || entry.link || !entry.peerDependencies) continue;
+    const owner = key === "" ? dir : `${entry.name ?? packageNameFromKey(key)}@${entry.version ?? "?"}`;
+    for (const [peer, range] of Object.entries(entry.peerDependencies)) {
+      const resolved = resolveLockedPackage(packages, key, peer);
+      if (!resolved) {
+        // Optional peers may be absent, and the plugin's own peers are provided by the host
+        if (key === "" || entry.peerDependenciesMeta?.[peer]?.optional) continue;
+        issues.push({ kind: "peer", plugin: dir, package: peer, detail: `${owner} wants ${peer} ${range}, not installed` });
+        continue;
+      }
+      const version = packages[resolved].version ?? "";
+      if (satisfiesRange(version, range) === false) {
+        issues.push({ kind: "peer", plugin: dir, package: peer, detail: `${owner} wants ${peer} ${range}, found ${version}` });
+      }
+    }
+  }
+  return issues;
+}
+
+function checkEngines(dir: string, pkg: PackageJson, packages: Record<string, LockPackage>, nodeVersion: string): DepsIssue[] {
+  const issues: DepsIssue[] = [];
+  const own = enginesNode(pkg);
+  if (own && satisfiesRange(nodeVersion, own) === false) {
+    issues.push({ kind: "engines", plugin: dir, package: null, detail: `requires node ${own}` });
+  }
+  for (const [key, entry] of Object.entries(packages)) {
+    if (key === "" || entry.dev || entry.link) continue;
+    const range = enginesNode(entry);
+    if (range && satisfiesRange(nodeVersion, range) === false) {
+      const name = entry.name ?? packageNameFromKey(key);
+      issues.push({ kind: "engines", plugin: dir, package: name, detail: `${name}@${entry.version ?? "?"} requires node ${range}` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Dependencies missing from node_modules, or installed at a different
+ * version than the lockfile. A missing node_modules is one issue, not one
+ * per dependency.
+ */
+function checkInstalled(dir: string, full: string, pkg: PackageJson, locked: Record<string, string>): DepsIssue[] {
+  const names = Object.keys(pkg.dependencies ?? {});
+  if (names.length === 0) return [];
+  if (!fs.existsSync(path.join(full, "node_modules"))) {
+    return [{ kind: "missing", plugin: dir, package: null, detail: "node_modules missing (run npm ci)" }];
+  }
+  const issues: DepsIssue[] = [];
+  for (const name of names) {
+    const installed = readJsonSafe<PackageJson | null>(path.join(full, "node_modules", name, "package.json"), null);
+    if (!installed) {
+      issues.push({ kind: "missing", plugin: dir, package: name, detail: `${name} not installed` });
+    } else if (locked[name] && installed.version && installed.version !== locked[name]) {
+      issues.push({ kind: "missing", plugin: dir, package: name, detail: `${name} installed ${installed.version}, lockfile ${locked[name]}` });
+    }
+  }
+  return issues;
+}
+
+/** Shared direct dependencies locked at different versions in different plugins. */
+function checkAcrossPlugins(plugins: PluginDeps[]): DepsIssue[] {
+  const byPackage = new Map<string, { dir: string; version: string }[]>();
+  for (const p of plugins) {
+    for (const [name, version] of Object.entries(p.locked)) {
+      byPackage.set(name, [...(byPackage.get(name) ?? []), { dir: p.dir, version }]);
+    }
+  }
+
+  const issues: DepsIssue[] = [];
+  for (const [name, uses] of [...byPackage.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const versions = [...new Set(uses.map((u) => u.version))];
+    if (versions.length < 2) continue;
+    const compatible = versions.every((v) => isCaretCompatible(v, versions[0]) === true);
+    issues.push({
+      kind: compatible ? "duplicate" : "conflict",
+      plugin: null,
+      package: name,
+      detail: `${name}: ${uses.map((u) => `${u.dir} ${u.version}`).join(", ")}`,
+    });
+  }
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Audit
+// ---------------------------------------------------------------------------
+
+/** Audit every workspace plugin against its lockfile, node_modules and `nodeVersion`. */
+export function auditWorkspaceDeps(workspace: string, nodeVersion: string = process.version): DepsAudit {
+  const plugins: PluginDeps[] = [];
+  const issues: DepsIssue[] = [];
+
+  for (const dir of listWorkspacePluginDirs(workspace)) {
+    const full = path.join(workspace, dir);
+    const pkg = readJsonSafe<PackageJson | null>(path.join(full, "package.json"), null);
+    if (!pkg) continue;
+    const deps = runtimeDependencies(pkg);
+    const lock = readJsonSafe<Lockfile | null>(path.join(full, "package-lock.json"), null);
+    const locked = lock ? lockedVersions(lock, Object.keys(deps)) : {};
+    plugins.push({ dir, lockfileVersion: lock ? (lock.lockfileVersion ?? 1) : null, locked });
+
+    if (!lock) {
+      if (Object.keys(deps).length > 0) {
+        issues.push({ kind: "lockfile", plugin: dir, package: null, detail: "no package-lock.json" });
+      }
+    } else if (!lock.packages) {
+      issues.push({
+        kind: "lockfile",
+        plugin: dir,
+        package: null,
+        detail: `lockfileVersion ${lock.lockfileVersion ?? 1}: peer and engines checks need 2 or later (npm 7+)`,
+      });
+    }
+
+    const packages = lock?.packages ?? {};
+    issues.push(...checkPeers(dir, packages));
+    issues.push(...checkInstalled(dir, full, pkg, locked));
+    issues.push(...checkEngines(dir, pkg, packages, nodeVersion));
+  }
+
+  return { nodeVersion, plugins, issues: [...checkAcrossPlugins(plugins), ...issues] };
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+export function renderDepsAudit(audit: DepsAudit): string {
+  const lines: string[] = [];
+  lines.push(`Dependency audit (${audit.plugins.length} plugin(s), Node ${audit.nodeVersion})`);
+  lines.push("");
+
+  if (audit.plugins.length === 0) {
+    lines.push("No openclaw-* plugins with a package.json in workspace.");
+    return lines.join("\n");
+  }
+  if (audit.issues.length === 0) {
+    lines.push("✓ No dependency issues found");
+    return lines.join("\n");
+  }
+
+  for (const [kind, title] of KIND_SECTIONS) {
+    const matching = audit.issues.filter((i) => i.kind === kind);
+    if (matching.length === 0) continue;
+    lines.push(`${title} (${matching.length})`);
+    for (const issue of matching) lines.push(`- ${issue.plugin ? `${issue.plugin}: ` : ""}${issue.detail}`);
+    lines.push("");
+  }
+  lines.push(`⚠ ${audit.issues.length} issue(s)`);
+  return lines.join("\n");
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  measurePath,
+  listDiskLocations,
+  collectDiskUsage,
+  isRotatedLog,
+  activeLogFiles,
+  resolveCleanupRetention,
+  planCleanup,
+  applyCleanup,
+} from "./disk-usage.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-disk-" + process.pid);
+const profile = "ops-test-cleanup-" + process.pid;
+const profileLogs = path.join(os.homedir(), `.openclaw-${profile}`, "logs");
+
+const DAY = 86_400_000;
+
+function writeFile(file: string, bytes: number, ageMs = 0) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, "x".repeat(bytes));
+  const t = new Date(Date.now() - ageMs);
+  fs.utimesSync(file, t, t);
+}
+
+afterEach(() => {
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+  try { fs.rmSync(path.dirname(profileLogs), { recursive: true, force: true }); } catch {}
+});
+
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+describe("measurePath", () => {
+  it("sums file sizes recursively", () => {
+    writeFile(path.join(tmpWorkspace, "a", "one.txt"), 100);
+    writeFile(path.join(tmpWorkspace, "a", "b", "two.txt"), 50);
+    expect(measurePath(path.join(tmpWorkspace, "a"))).toEqual({ bytes: 150, files: 2 });
+  });
+
+  it("returns zero for a missing path", () => {
+    expect(measurePath(path.join(tmpWorkspace, "missing"))).toEqual({ bytes: 0, files: 0 });
+  });
+});
+
+describe("listDiskLocations", () => {
+  it("includes node_modules of openclaw-* repos and fixed locations", () => {
+    fs.mkdirSync(path.join(tmpWorkspace, "openclaw-foo"), { recursive: true });
+    fs.mkdirSync(path.join(tmpWorkspace, "other"), { recursive: true });
+    const labels = listDiskLocations(tmpWorkspace).map((l) => l.label);
+    expect(labels).toContain("openclaw-foo/node_modules");
+    expect(labels).not.toContain("other/node_modules");
+    expect(labels).toEqual(expect.arrayContaining(["cron/reports", "observer", "monitoring", "logs (default)"]));
+  });
+});
+
+describe("collectDiskUsage", () => {
+  it("lists existing locations largest first", () => {
+    writeFile(path.join(tmpWorkspace, "openclaw-foo", "node_modules", "big.js"), 5000);
+    writeFile(path.join(tmpWorkspace, "cron", "reports", "r.txt"), 10);
+    const usage = collectDiskUsage(tmpWorkspace).filter((l) => l.path.startsWith(tmpWorkspace));
+    expect(usage.map((l) => l.label)).toEqual(["openclaw-foo/node_modules", "cron/reports"]);
+    expect(usage[0].bytes).toBe(5000);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Cleanup
+// ---------------------------------------------------------------------------
+describe("isRotatedLog", () => {
+  it("recognises numbered, compressed and dated logs", () => {
+    expect(isRotatedLog("gateway.log.1")).toBe(true);
+    expect(isRotatedLog("gateway.log.2.gz")).toBe(true);
+    expect(isRotatedLog("gateway-2026-03-01.log")).toBe(true);
+  });
+
+  it("leaves active logs alone", () => {
+    expect(isRotatedLog("gateway.log")).toBe(false);
+    expect(isRotatedLog("audit.log")).toBe(false);
+  });
+});
+
+describe("resolveCleanupRetention", () => {
+  it("uses defaults and ignores invalid values", () => {
+    expect(resolveCleanupRetention()).toEqual({ reports: 30 * DAY, logs: 14 * DAY });
+    expect(resolveCleanupRetention({ reportsRetention: "7d", logsRetention: "soon" })).toEqual({
+      reports: 7 * DAY,
+      logs: 14 * DAY,
+    });
+  });
+});
+
+describe("planCleanup and applyCleanup", () => {
+  it("plans old reports and old rotated logs only", () => {
+    writeFile(path.join(tmpWorkspace, "cron", "reports", "old.txt"), 100, 40 * DAY);
+    writeFile(path.join(tmpWorkspace, "cron", "reports", "new.txt"), 100, 1 * DAY);
+    writeFile(path.join(profileLogs, "gateway.log.1"), 200, 20 * DAY);
+    writeFile(path.join(profileLogs, "gateway.log"), 300, 20 * DAY);
+    writeFile(path.join(profileLogs, "gateway.log.2"), 200, 2 * DAY);
+
+    const plan = planCleanup(tmpWorkspace).filter((c) => c.path.includes(String(process.pid)));
+    expect(plan.map((c) => [c.rule, c.label])).toEqual([
+      ["reports", "cron/reports/old.txt"],
+      ["logs", `logs (${profile})/gateway.log.1`],
+    ]);
+  });
+
+  it("keeps the newest date-named log of each service, however old", () => {
+    writeFile(path.join(profileLogs, "openclaw-2026-03-01.log"), 100, 30 * DAY);
+    writeFile(path.join(profileLogs, "openclaw-2026-03-02.log"), 100, 20 * DAY);
+    writeFile(path.join(profileLogs, "openclaw-foo-2026-03-01.log"), 100, 40 * DAY);
+
+    expect([...activeLogFiles(profileLogs)].sort()).toEqual(["openclaw-2026-03-02.log", "openclaw-foo-2026-03-01.log"]);
+    const plan = planCleanup(tmpWorkspace).filter((c) => c.path.includes(String(process.pid)));
+    expect(plan.map((c) => path.basename(c.path))).toEqual(["openclaw-2026-03-01.log"]);
+  });
+
+  it("deletes planned files and reports freed space", () => {
+    writeFile(path.join(tmpWorkspace, "cron", "reports", "old.txt"), 100, 40 * DAY);
+    const plan = planCleanup(tmpWorkspace, { reportsRetention: "30d" }).filter((c) => c.path.startsWith(tmpWorkspace));
+    const result = applyCleanup(plan);
+    expect(result).toEqual({ removed: 1, freedBytes: 100, errors: [] });
+    expect(fs.existsSync(path.join(tmpWorkspace, "cron", "reports", "old.txt"))).toBe(false);
+  });
+
+  it("collects errors instead of throwing", () => {
+    const result = applyCleanup([
+      { path: path.join(tmpWorkspace, "gone.txt"), label: "cron/reports/gone.txt", rule: "reports", bytes: 1, mtimeMs: 0 },
+    ]);
+    expect(result.removed).toBe(0);
+    expect(result.errors).toEqual(["cron/reports/gone.txt: ENOENT"]);
+  });
+});
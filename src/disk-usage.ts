@@ -0,0 +1,225 @@
+/**
+ * Workspace disk-usage breakdown and retention-based cleanup.
+ *
+ * /disk walks the locations that actually fill the disk on an OpenClaw host
+ * (node_modules in each openclaw-* repo, cron reports, the observer event
+ * log, monitoring state, and each profile's logs) and lists the largest.
+ *
+ * /cleanup prunes what is safe to delete according to the `cleanup` config:
+ * cron reports older than `reportsRetention` and rotated log files older
+ * than `logsRetention`. Active log files are never touched, including the
+ * newest file of a date-named log (`openclaw-2026-03-02.log`), which is the
+ * one still being written.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { discoverProfiles, parseDuration } from "./utils.js";
+import { logServiceName } from "./log-query.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Cleanup section of the plugin config. */
+export interface CleanupConfig {
+  /** Delete cron reports older than this, e.g. "30d" (default "30d"). */
+  reportsRetention?: string;
+  /** Delete rotated logs older than this, e.g. "14d" (default "14d"). */
+  logsRetention?: string;
+}
+
+export interface DiskLocation {
+  label: string;
+  path: string;
+  bytes: number;
+  files: number;
+}
+
+export type CleanupRule = "reports" | "logs";
+
+export interface CleanupCandidate {
+  path: string;
+  /** Location for display, relative to the workspace or a profile's log directory. */
+  label: string;
+  rule: CleanupRule;
+  bytes: number;
+  mtimeMs: number;
+}
+
+export interface CleanupResult {
+  removed: number;
+  freedBytes: number;
+  errors: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_REPORTS_RETENTION = "30d";
+export const DEFAULT_LOGS_RETENTION = "14d";
+
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+
+/**
+ * Total size of a file or directory tree in bytes. Symlinks are not
+ * followed; unreadable entries are skipped.
+ */
+export function measurePath(target: string): { bytes: number; files: number } {
+  let bytes = 0;
+  let files = 0;
+  const stack = [target];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    let st: fs.Stats;
+    try {
+      st = fs.lstatSync(current);
+    } catch {
+      continue;
+    }
+    if (st.isDirectory()) {
+      try {
+        for (const entry of fs.readdirSync(current)) stack.push(path.join(current, entry));
+      } catch {
+        // unreadable directory
+      }
+    } else if (st.isFile()) {
+      bytes += st.size;
+      files++;
+    }
+  }
+  return { bytes, files };
+}
+
+/** Known disk consumers for a workspace, with labels for display. */
+export function listDiskLocations(workspace: string): Array<{ label: string; path: string }> {
+  const locations: Array<{ label: string; path: string }> = [];
+
+  try {
+    for (const entry of fs.readdirSync(workspace).sort()) {
+      if (!entry.startsWith("openclaw-")) continue;
+      locations.push({ label: `${entry}/node_modules`, path: path.join(workspace, entry, "node_modules") });
+    }
+  } catch {
+    // workspace missing
+  }
+
+  locations.push({ label: "cron/reports", path: path.join(workspace, "cron", "reports") });
+  locations.push({ label: "observer", path: path.join(workspace, "observer") });
+  locations.push({ label: "monitoring", path: path.join(workspace, "monitoring") });
+
+  for (const profile of discoverProfiles()) {
+    locations.push({ label: `logs (${profile.name})`, path: profile.logDir });
+  }
+  return locations;
+}
+
+/** Measure every known location that exists, largest first. */
+export function collectDiskUsage(workspace: string): DiskLocation[] {
+  return listDiskLocations(workspace)
+    .filter((loc) => fs.existsSync(loc.path))
+    .map((loc) => ({ ...loc, ...measurePath(loc.path) }))
+    .sort((a, b) => b.bytes - a.bytes);
+}
+
+// ---------------------------------------------------------------------------
+// Cleanup
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a log file name is a rotated (inactive) log: numbered
+ * (`gateway.log.1`), compressed (`.gz`), or dated (`gateway-2026-03-01.log`).
+ */
+export function isRotatedLog(name: string): boolean {
+  return /\.log\.\d+$/.test(name) || name.endsWith(".gz") || /\d{4}-\d{2}-\d{2}/.test(name);
+}
+
+/**
+ * Names of the files in `logDir` still being written: the most recently
+ * modified plain `.log` of each service (by `logServiceName`).
+ */
+export function activeLogFiles(logDir: string): Set<string> {
+  const newest = new Map<string, { name: string; mtimeMs: number }>();
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(logDir);
+  } catch {
+    return new Set();
+  }
+  for (const name of entries) {
+    if (!name.endsWith(".log")) continue;
+    try {
+      const st = fs.statSync(path.join(logDir, name));
+      const service = logServiceName(name);
+      const current = newest.get(service);
+      if (st.isFile() && (!current || st.mtimeMs > current.mtimeMs)) newest.set(service, { name, mtimeMs: st.mtimeMs });
+    } catch {
+      // vanished while scanning
+    }
+  }
+  return new Set([...newest.values()].map((n) => n.name));
+}
+
+/** Resolve retention windows from config, falling back to the defaults. */
+export function resolveCleanupRetention(cfg: CleanupConfig = {}): Record<CleanupRule, number> {
+  return {
+    reports: parseDuration(cfg.reportsRetention ?? "") ?? parseDuration(DEFAULT_REPORTS_RETENTION)!,
+    logs: parseDuration(cfg.logsRetention ?? "") ?? parseDuration(DEFAULT_LOGS_RETENTION)!,
+  };
+}
+
+function filesOlderThan(dir: string, cutoffMs: number, filter: (name: string) => boolean = () => true) {
+  const result: Array<{ path: string; bytes: number; mtimeMs: number }> = [];
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(dir);
+  } catch {
+    return result;
+  }
+  for (const name of entries) {
+    if (!filter(name)) continue;
+    const full = path.join(dir, name);
+    try {
+      const st = fs.lstatSync(full);
+      if (st.isFile() && st.mtimeMs < cutoffMs) result.push({ path: full, bytes: st.size, mtimeMs: st.mtimeMs });
+    } catch {
+      // vanished while scanning
+    }
+  }
+  return result;
+}
+
+/** List the files /cleanup would delete, oldest first. Nothing is removed. */
+export function planCleanup(workspace: string, cfg: CleanupConfig = {}, now = Date.now()): CleanupCandidate[] {
+  const retention = resolveCleanupRetention(cfg);
+  const candidates: CleanupCandidate[] = [];
+
+  for (const f of filesOlderThan(path.join(workspace, "cron", "reports"), now - retention.reports)) {
+    candidates.push({ ...f, label: `cron/reports/${path.basename(f.path)}`, rule: "reports" });
+  }
+  for (const profile of discoverProfiles()) {
+    const active = activeLogFiles(profile.logDir);
+    for (const f of filesOlderThan(profile.logDir, now - retention.logs, (name) => isRotatedLog(name) && !active.has(name))) {
+      candidates.push({ ...f, label: `logs (${profile.name})/${path.basename(f.path)}`, rule: "logs" });
+    }
+  }
+  return candidates.sort((a, b) => a.mtimeMs - b.mtimeMs);
+}
+
+/** Delete planned files. Failures are collected rather than thrown. */
+export function applyCleanup(candidates: CleanupCandidate[]): CleanupResult {
+  const result: CleanupResult = { removed: 0, freedBytes: 0, errors: [] };
+  for (const c of candidates) {
+    try {
+      fs.unlinkSync(c.path);
+      result.removed++;
+      result.freedBytes += c.bytes;
+    } catch (err: any) {
+      result.errors.push(`${c.label}: ${err?.code ?? err?.message ?? err}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  normalizeErrorLine,
+  fingerprintError,
+  loadErrorState,
+  saveErrorState,
+  recordErrorScan,
+  renderErrorsText,
+  scanErrorGroups,
+} from "./error-fingerprints.js";
+import type { ErrorGroup, ErrorScan } from "./error-fingerprints.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-errors-" + process.pid);
+
+afterEach(() => {
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+});
+
+function group(fingerprint: string, overrides: Partial<ErrorGroup> = {}): ErrorGroup {
+  return {
+    fingerprint,
+    pattern: "ERROR boom",
+    count: 1,
+    firstSeen: Date.parse("2026-03-01T10:00:00Z"),
+    lastSeen: Date.parse("2026-03-01T11:00:00Z"),
+    sample: "2026-03-01T11:00:00Z ERROR boom",
+    profiles: ["default"],
+    ...overrides,
+  };
+}
+
+function scanOf(...groups: ErrorGroup[]): ErrorScan {
+  return { groups, total: groups.reduce((n, g) => n + g.count, 0), truncated: false };
+}
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+describe("normalizeErrorLine", () => {
+  it("strips timestamps, ids, paths and numbers", () => {
+    expect(
+      normalizeErrorLine(
+        "2026-03-01T12:00:00.123Z [ERROR] session 3f2b8c1e-1a2b-4c3d-8e9f-0123456789ab failed at /home/u/.openclaw/x.json line 42 (ptr 0xdeadbeef)",
+      ),
+    ).toBe("[ERROR] session <id> failed at <path> line <n> (ptr <id>)");
+  });
+
+  it("maps variants of the same failure to one fingerprint", () => {
+    const a = normalizeErrorLine("[2026-03-01 12:00:00] ERROR request 41 to 10.0.0.1:8080 timed out after 5000ms");
+    const b = normalizeErrorLine("[2026-03-02 08:30:12] ERROR request 977 to 10.0.0.7:8080 timed out after 5001ms");
+    expect(a).toBe(b);
+    expect(fingerprintError(a)).toBe(fingerprintError(b));
+    expect(fingerprintError(a)).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it("uses the message of JSON lines", () => {
+    expect(normalizeErrorLine('{"time":1772366400000,"level":50,"msg":"job 12 crashed","pid":991}')).toBe("job <n> crashed");
+  });
+
+  it("keeps different messages apart", () => {
+    expect(fingerprintError(normalizeErrorLine("ERROR disk full"))).not.toBe(
+      fingerprintError(normalizeErrorLine("ERROR auth failed")),
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+describe("scanErrorGroups", () => {
+  const profile = "ops-test-errors-" + process.pid;
+  const logDir = path.join(os.homedir(), `.openclaw-${profile}`, "logs");
+
+  afterEach(() => {
+    try { fs.rmSync(path.dirname(logDir), { recursive: true, force: true }); } catch {}
+  });
+
+  it("reads every service, not just the most recently written one", async () => {
+    const now = Date.now();
+    const iso = (hoursAgo: number) => new Date(now - hoursAgo * 3_600_000).toISOString();
+    fs.mkdirSync(logDir, { recursive: true });
+    const foo = path.join(logDir, "openclaw-foo.log");
+    fs.writeFileSync(foo, `${iso(1)} ERROR foo lost its socket\n`);
+    fs.utimesSync(foo, new Date(now - 3_600_000), new Date(now - 3_600_000));
+    fs.writeFileSync(path.join(logDir, "gateway.log"), Array.from({ length: 48 }, (_, i) => `${iso(48 - i)} INFO tick\n`).join(""));
+
+    const scan = await scanErrorGroups(now - 2 * 3_600_000);
+    const mine = scan.groups.filter((g) => g.profiles.includes(profile));
+    expect(mine.map((g) => g.sample)).toEqual([`${iso(1)} ERROR foo lost its socket`]);
+  });
+});
+
+describe("recordErrorScan", () => {
+  it("flags nothing on the first run, then only unseen fingerprints", () => {
+    const state = loadErrorState(tmpWorkspace);
+    expect(recordErrorScan(state, scanOf(group("aaaaaaaa"))).size).toBe(0);
+    expect(state.lastRunAt).not.toBeNull();
+
+    const fresh = recordErrorScan(state, scanOf(group("aaaaaaaa"), group("bbbbbbbb")));
+    expect([...fresh]).toEqual(["bbbbbbbb"]);
+  });
+
+  it("forgets fingerprints not seen for 30 days", () => {
+    const state = loadErrorState(tmpWorkspace);
+    recordErrorScan(state, scanOf(group("aaaaaaaa")), new Date("2026-01-01T00:00:00Z"));
+    recordErrorScan(state, scanOf(), new Date("2026-03-01T00:00:00Z"));
+    expect(state.fingerprints).toEqual({});
+  });
+
+  it("round-trips through the state file", () => {
+    const state = loadErrorState(tmpWorkspace);
+    recordErrorScan(state, scanOf(group("aaaaaaaa")));
+    saveErrorState(tmpWorkspace, state);
+    expect(Object.keys(loadErrorState(tmpWorkspace).fingerprints)).toEqual(["aaaaaaaa"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+describe("renderErrorsText", () => {
+  it("lists new fingerprints first with counts and times", () => {
+    const text = renderErrorsText(
+      scanOf(group("aaaaaaaa", { count: 9 }), group("bbbbbbbb", { sample: "ERROR brand new" })),
+      new Set(["bbbbbbbb"]),
+      { windowLabel: "last 24h", lastRunAt: "2026-03-01T09:00:00Z" },
+    );
+    expect(text).toContain("Errors, last 24h (10 lines, 2 fingerprints, 1 new)");
+    expect(text).toContain("last run 2026-03-01 09:00 UTC");
+    expect(text.indexOf("🆕 bbbbbbbb x1")).toBeLessThan(text.indexOf("- aaaaaaaa x9"));
+    expect(text).toContain("First 2026-03-01 10:00, last 2026-03-01 11:00 UTC");
+  });
+
+  it("names profiles only when several are involved", () => {
+    const single = renderErrorsText(scanOf(group("aaaaaaaa")), new Set(), { windowLabel: "last 24h", lastRunAt: null });
+    expect(single).toContain("- aaaaaaaa x1\n");
+    const multi = renderErrorsText(
+      scanOf(group("aaaaaaaa"), group("bbbbbbbb", { profiles: ["staging"] })),
+      new Set(),
+      { windowLabel: "last 24h", lastRunAt: null },
+    );
+    expect(multi).toContain("- aaaaaaaa x1 [default]");
+  });
+
+  it("reports a clean window", () => {
+    const text = renderErrorsText(scanOf(), new Set(), { windowLabel: "last 1h", lastRunAt: null });
+    expect(text).toContain("✓ No errors logged");
+    expect(text).toContain("First run");
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Error fingerprinting for /errors.
+ *
+ * Error lines from every profile's logs are normalised (timestamps, ids,
+ * paths and numbers replaced by placeholders) so repeats of the same
+ * failure collapse into one fingerprint. Each group keeps a count, first and
+ * last occurrence, and one raw sample.
+ *
+ * Fingerprints seen by earlier runs are remembered, so /errors can point out
+ * which ones are new: a fresh regression rather than background noise.
+ *
+ * State file: <workspace>/monitoring/errors.json
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { discoverProfiles, formatIsoCompact } from "./utils.js";
+import { listServiceLogFiles, groupLogFilesByService, parseLogLine, queryLogs } from "./log-query.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ErrorGroup {
+  fingerprint: string;
+  /** Normalised message the fingerprint is derived from. */
+  pattern: string;
+  count: number;
+  /** Epoch ms of the first and last occurrence in the scanned window. */
+  firstSeen: number;
+  lastSeen: number;
+  /** Most recent raw line of the group. */
+  sample: string;
+  /** Profiles the group occurred in. */
+  profiles: string[];
+}
+
+export interface ErrorScan {
+  groups: ErrorGroup[];
+  /** Error lines grouped. */
+  total: number;
+  /** `true` when a profile had more than MAX_ERROR_LINES error lines. */
+  truncated: boolean;
+}
+
+export interface ErrorFingerprintState {
+  lastRunAt: string | null;
+  /** Fingerprint -> first and last time it was reported by /errors. */
+  fingerprints: Record<string, { firstSeen: string; lastSeen: string }>;
+}
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+/** Error lines read per profile; older ones are not grouped. */
+export const MAX_ERROR_LINES = 5000;
+
+/** Fingerprints not reported for this long are forgotten. */
+const FINGERPRINT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+const NORMALIZERS: Array<[RegExp, string]> = [
+  [/\[?\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?\]?/g, ""],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<id>"],
+  [/\b0x[0-9a-f]+\b/gi, "<id>"],
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, "<id>"],
+  [/(?:[a-z]:)?(?:[\\/][\w.@~-]+){2,}[\\/]?/gi, "<path>"],
+  [/\d+(?:\.\d+)*/g, "<n>"],
+];
+
+/**
+ * Reduce an error line to its stable part. JSON lines use their message
+ * field; timestamps, uuids, hex ids, paths and numbers become placeholders.
+ */
+export function normalizeErrorLine(raw: string): string {
+  let text = raw.trim();
+  if (text.startsWith("{")) {
+    try {
+      const obj = JSON.parse(text) as Record<string, any>;
+      const msg = obj.msg ?? obj.message ?? obj.err?.message ?? obj.error?.message ?? obj.error;
+      if (typeof msg === "string") text = msg;
+    } catch {
+      // not JSON
+    }
+  }
+  for (const [re, replacement] of NORMALIZERS) text = text.replace(re, replacement);
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Short stable id for a normalised error message. */
+export function fingerprintError(pattern: string): string {
+  return crypto.createHash("sha1").update(pattern).digest("hex").slice(0, 8);
+}
+
+// ---------------------------------------------------------------------------
+// Scanning
+// ---------------------------------------------------------------------------
+
+/**
+ * Group error and fatal lines logged since `sinceMs` across every profile,
+ * most frequent first. Stack-trace lines under an error are not counted on
+ * their own; only lines that carry an error level themselves are.
+ */
+export async function scanErrorGroups(sinceMs: number): Promise<ErrorScan> {
+  const groups = new Map<string, ErrorGroup>();
+  let total = 0;
+  let truncated = false;
+
+  for (const profile of discoverProfiles()) {
+    // One query per service, so a busy gateway log cannot crowd out a plugin's
+    for (const files of groupLogFilesByService(listServiceLogFiles(profile.logDir, ".log"))) {
+      const result = await queryLogs(files, { level: "error", sinceMs, lines: MAX_ERROR_LINES });
+      truncated = truncated || result.truncated;
+
+      for (const line of result.matches) {
+        const own = parseLogLine(line.raw).level;
+        if (own !== "error" && own !== "fatal") continue;
+        const pattern = normalizeErrorLine(line.raw);
+        const fingerprint = fingerprintError(pattern);
+        const ts = line.ts ?? sinceMs;
+        total++;
+
+        const group = groups.get(fingerprint);
+        if (!group) {
+          groups.set(fingerprint, {
+            fingerprint,
+            pattern,
+            count: 1,
+            firstSeen: ts,
+            lastSeen: ts,
+            sample: line.raw,
+            profiles: [profile.name],
+          });
+          continue;
+        }
+        group.count++;
+        group.firstSeen = Math.min(group.firstSeen, ts);
+        if (ts >= group.lastSeen) {
+          group.lastSeen = ts;
+          group.sample = line.raw;
+        }
+        if (!group.profiles.includes(profile.name)) group.profiles.push(profile.name);
+      }
+    }
+  }
+
+  const sorted = [...groups.values()].sort((a, b) => b.count - a.count || b.lastSeen - a.lastSeen);
+  return { groups: sorted, total, truncated };
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** Path of the fingerprint state file for a workspace. */
+export function errorStatePath(workspace: string): string {
+  return path.join(workspace, "monitoring", "errors.json");
+}
+
+export function loadErrorState(workspace: string): ErrorFingerprintState {
+  try {
+    const st = JSON.parse(fs.readFileSync(errorStatePath(workspace), "utf-8")) as Partial<ErrorFingerprintState>;
+    return {
+      lastRunAt: typeof st.lastRunAt === "string" ? st.lastRunAt : null,
+      fingerprints: st.fingerprints && typeof st.fingerprints === "object" ? st.fingerprints : {},
+    };
+  } catch {
+    return { lastRunAt: null, fingerprints: {} };
+  }
+}
+
+export function saveErrorState(workspace: string, state: ErrorFingerprintState): void {
+  const file = errorStatePath(workspace);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(state, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Record a scan's fingerprints and return the ones no earlier run has
+ * reported. On the very first run nothing counts as new. Fingerprints not
+ * seen for FINGERPRINT_RETENTION_MS are dropped.
+ */
+export function recordErrorScan(state: ErrorFingerprintState, scan: ErrorScan, now = new Date()): Set<string> {
+  const nowIso = now.toISOString();
+  const fresh = new Set<string>();
+  for (const group of scan.groups) {
+    const known = state.fingerprints[group.fingerprint];
+    if (known) {
+      known.lastSeen = nowIso;
+    } else {
+      if (state.lastRunAt !== null) fresh.add(group.fingerprint);
+      state.fingerprints[group.fingerprint] = { firstSeen: nowIso, lastSeen: nowIso };
+    }
+  }
+  for (const [fp, seen] of Object.entries(state.fingerprints)) {
+    if (now.getTime() - Date.parse(seen.lastSeen) > FINGERPRINT_RETENTION_MS) delete state.fingerprints[fp];
+  }
+  state.lastRunAt = nowIso;
+  return fresh;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 3) + "..." : text;
+}
+
+/** Render grouped errors, new fingerprints first. */
+export function renderErrorsText(
+  scan: ErrorScan,
+  fresh: Set<string>,
+  opts: { windowLabel: string; lastRunAt: string | null; limit?: number },
+): string {
+  const limit = opts.limit ?? 15;
+  const lines: string[] = [];
+  lines.push(`Errors, ${opts.windowLabel} (${scan.total} lines, ${scan.groups.length} fingerprints, ${fresh.size} new)`);
+  lines.push(
+    opts.lastRunAt
+      ? `New = not reported by /errors before (last run ${formatIsoCompact(new Date(opts.lastRunAt))} UTC)`
+      : "First run: fingerprints recorded, later runs will flag new ones",
+  );
+  lines.push("");
+
+  if (scan.groups.length === 0) {
+    lines.push("✓ No errors logged");
+    return lines.join("\n");
+  }
+
+  const multiProfile = new Set(scan.groups.flatMap((g) => g.profiles)).size > 1;
+  const ordered = [...scan.groups].sort((a, b) => Number(fresh.has(b.fingerprint)) - Number(fresh.has(a.fingerprint)));
+  for (const g of ordered.slice(0, limit)) {
+    const icon = fresh.has(g.fingerprint) ? "🆕" : "-";
+    const where = multiProfile ? ` [${g.profiles.join(", ")}]` : "";
+    lines.push(`${icon} ${g.fingerprint} x${g.count}${where}`);
+    lines.push(`  First ${formatIsoCompact(g.firstSeen)}, last ${formatIsoCompact(g.lastSeen)} UTC`);
+    lines.push(`  ${truncate(g.sample, 160)}`);
+  }
+  if (scan.groups.length > limit) lines.push(`... and ${scan.groups.length - limit} more`);
+  if (scan.truncated) {
+    lines.push("");
+    lines.push(`Only the newest ${MAX_ERROR_LINES} error lines per profile were grouped; narrow --since`);
+  }
+  return lines.join("\n");
+}
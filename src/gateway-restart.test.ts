@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import {
+  isGatewayBack,
+  isHostGateway,
+  waitForGatewayBack,
+  restartGateway,
+  renderRestartText,
+  formatGatewayStatusLine,
+} from "./gateway-restart.js";
+import type { RestartOutcome } from "./gateway-restart.js";
+import type { GatewayStatus } from "./utils.js";
+import { installFakeOpenclaw, countTicksDuring } from "./test-helpers.js";
+
+const running = (pid: number): GatewayStatus => ({ running: true, state: "running", pid, port: 18789, responseMs: 12 });
+const stopped: GatewayStatus = { running: false, state: "stopped", port: 18789 };
+const unresponsive: GatewayStatus = { running: false, state: "unresponsive", pid: 7, port: 18789, probeError: "ECONNREFUSED" };
+
+/** A status check returning the given statuses in turn, then the last one forever. */
+function sequence(...statuses: GatewayStatus[]) {
+  let i = 0;
+  return async () => statuses[Math.min(i++, statuses.length - 1)];
+}
+
+describe("isGatewayBack", () => {
+  it("needs a running gateway under a new PID", () => {
+    expect(isGatewayBack(running(1), running(2))).toBe(true);
+    expect(isGatewayBack(running(1), running(1))).toBe(false);
+    expect(isGatewayBack(running(1), unresponsive)).toBe(false);
+    expect(isGatewayBack(stopped, running(2))).toBe(true);
+  });
+});
+
+describe("isHostGateway", () => {
+  it("matches our own PID or the host profile", () => {
+    expect(isHostGateway("ops-test-other", running(process.pid))).toBe(true);
+    expect(isHostGateway("ops-test-other", running(1))).toBe(false);
+    expect(isHostGateway("default")).toBe(true);
+  });
+});
+
+describe("waitForGatewayBack", () => {
+  it("polls until the gateway is healthy", async () => {
+    const result = await waitForGatewayBack("default", running(1), { timeoutMs: 1000, pollMs: 1 }, sequence(stopped, unresponsive, running(2)));
+    expect(result.back).toBe(true);
+    expect(result.status.pid).toBe(2);
+  });
+
+  it("keeps the event loop running while it polls the CLI", async () => {
+    const restore = installFakeOpenclaw("sleep 0.2; echo 'Gateway stopped'");
+    try {
+      let back: boolean | undefined;
+      const ticks = await countTicksDuring(async () => {
+        back = (await waitForGatewayBack("ops-test-poll", running(1), { timeoutMs: 700, pollMs: 100 })).back;
+      });
+      expect(back).toBe(false);
+      // At least two 200 ms CLI calls ran; a blocking call would hold the 10 ms timer for each
+      expect(ticks).toBeGreaterThan(25);
+    } finally {
+      restore();
+    }
+  });
+
+  it("gives up after the timeout with the last status", async () => {
+    const result = await waitForGatewayBack("default", running(1), { timeoutMs: 20, pollMs: 5 }, sequence(unresponsive));
+    expect(result.back).toBe(false);
+    expect(result.status.state).toBe("unresponsive");
+  });
+});
+
+describe("restartGateway", () => {
+  it("hands the host gateway to a detached restart without waiting", async () => {
+    const detached: string[] = [];
+    const outcome = await restartGateway(`ops-test-${process.pid}`, { mode: "graceful" }, sequence(running(process.pid)), (p) => detached.push(p));
+    expect(detached).toEqual([`ops-test-${process.pid}`]);
+    expect(outcome.ok).toBe(true);
+    expect(outcome.detached).toBe(true);
+    expect(outcome.after).toBeNull();
+  });
+
+  it("refuses to force-restart the host gateway", async () => {
+    const detached: string[] = [];
+    const outcome = await restartGateway(`ops-test-${process.pid}`, { mode: "force" }, sequence(running(process.pid)), (p) => detached.push(p));
+    expect(detached).toEqual([]);
+    expect(outcome.ok).toBe(false);
+    expect(outcome.steps).toEqual([]);
+    expect(outcome.error).toContain("--force would kill the gateway running this command");
+  });
+
+  it("reports a failed restart command without waiting", async () => {
+    // The openclaw CLI is not installed in the test environment
+    const outcome = await restartGateway(`ops-test-${process.pid}`, { mode: "graceful", timeoutMs: 10, pollMs: 1 }, sequence(running(1)));
+    expect(outcome.ok).toBe(false);
+    expect(outcome.after).toBeNull();
+    expect(outcome.error).toMatch(/^gateway restart failed \(exit \d+\)$/);
+    expect(outcome.steps.map((s) => s.step)).toEqual(["gateway restart"]);
+  });
+});
+
+describe("renderRestartText", () => {
+  const base: RestartOutcome = {
+    profile: "staging",
+    mode: "graceful",
+    before: running(1),
+    after: running(2),
+    steps: [{ step: "gateway restart", code: 0, out: "" }],
+    ok: true,
+    waitedMs: 8_200,
+  };
+
+  it("shows the before/after comparison", () => {
+    const text = renderRestartText(base);
+    expect(text).toContain("Restart: staging (graceful)");
+    expect(text).toContain("Before: Running (PID 1, 12ms)");
+    expect(text).toContain("After:  Running (PID 2, 12ms)");
+    expect(text).toContain("✓ Gateway back after 8.2s");
+  });
+
+  it("explains failures with the failing step output", () => {
+    const text = renderRestartText({
+      ...base,
+      ok: false,
+      after: unresponsive,
+      steps: [{ step: "gateway restart", code: 1, out: "boom" }],
+      error: "Gateway did not come back within 60s: process is up but not answering on port 18789",
+    });
+    expect(text).toContain("✗ Gateway did not come back within 60s");
+    expect(text).toContain("gateway restart:\n```text\nboom\n```");
+    expect(text).toContain("/logs gateway --profile staging --since 10m");
+  });
+
+  it("says a detached restart was not verified", () => {
+    const text = renderRestartText({ ...base, after: null, detached: true, waitedMs: 0 });
+    expect(text).toContain("After:  (not checked)");
+    expect(text).toContain("cannot check its own restart");
+    expect(text).not.toContain("✓ Gateway back");
+  });
+
+  it("formats stopped gateways without details", () => {
+    expect(formatGatewayStatusLine(stopped)).toBe("Stopped");
+  });
+});
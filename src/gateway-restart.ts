@@ -0,0 +1,277 @@
+/**
+ * Gateway restart with before/after validation for /restart.
+ *
+ * A restart records the gateway's state first, runs the restart, then polls
+ * checkGatewayStatus() (process check plus liveness probe) until the gateway
+ * is healthy again or the timeout passes. The gateway only counts as back
+ * when it is running, answering on its port, and, when both PIDs are known,
+ * running under a new PID.
+ *
+ * Graceful mode runs `openclaw gateway restart`. Force mode runs
+ * `openclaw gateway stop`, kills the old process if it is still alive, then
+ * runs `openclaw gateway start`, for gateways that hang on shutdown.
+ *
+ * The gateway this plugin runs in cannot be verified that way: the restart
+ * ends the process before the command can reply. For that gateway a
+ * graceful restart is handed to a detached process a few seconds later, so
+ * the reply goes out first, and force mode is refused.
+ */
+
+import { runCmdAsync, spawnDetachedLater, checkGatewayStatus, hostGatewayProfile } from "./utils.js";
+import type { GatewayStatus } from "./utils.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RestartMode = "graceful" | "force";
+
+export interface RestartOptions {
+  mode: RestartMode;
+  /** How long to wait for the gateway to come back (default 60s). */
+  timeoutMs?: number;
+  /** Delay between status checks while waiting (default 2s). */
+  pollMs?: number;
+}
+
+export interface RestartOutcome {
+  profile: string;
+  mode: RestartMode;
+  before: GatewayStatus;
+  /** Last status seen after the restart; `null` if the restart command failed. */
+  after: GatewayStatus | null;
+  /** Exit code and output of the CLI steps, in order. */
+  steps: Array<{ step: string; code: number; out: string }>;
+  ok: boolean;
+  /** Time from issuing the restart until the gateway was back (or gave up). */
+  waitedMs: number;
+  /** Why the restart failed, when `ok` is false. */
+  error?: string;
+  /** The target hosts this plugin: the restart was handed to a detached process and not verified. */
+  detached?: boolean;
+}
+
+/** Status check used while waiting; replaceable in tests. */
+export type GatewayStatusCheck = (profile: string) => Promise<GatewayStatus>;
+
+/** Starts the detached restart of the host gateway; replaceable in tests. */
+export type DetachedRestart = (profile: string) => void;
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_RESTART_TIMEOUT_MS = 60_000;
+const DEFAULT_RESTART_POLL_MS = 2_000;
+
+/** Time the old process gets to exit after `gateway stop` in force mode. */
+const FORCE_KILL_GRACE_MS = 5_000;
+
+/** Delay before the detached restart of the host gateway, so the reply is sent first. */
+export const DETACHED_RESTART_DELAY_MS = 3_000;
+
+// ---------------------------------------------------------------------------
+// Restart
+// ---------------------------------------------------------------------------
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Whether `after` is a healthy gateway that replaced `before`. */
+export function isGatewayBack(before: GatewayStatus, after: GatewayStatus): boolean {
+  if (after.state !== "running") return false;
+  return before.pid === undefined || after.pid === undefined || after.pid !== before.pid;
+}
+
+/**
+ * Whether `profile` is the gateway this plugin runs in: its PID is ours, or
+ * it is the profile the host gateway runs as.
+ */
+export function isHostGateway(profile: string, status?: GatewayStatus): boolean {
+  return status?.pid === process.pid || profile === hostGatewayProfile();
+}
+
+/**
+ * Run `openclaw gateway restart` for the host gateway in a detached process
+ * after DETACHED_RESTART_DELAY_MS. The child outlives the gateway it stops.
+ */
+export function startDetachedRestart(profile: string): void {
+  const profileArg = profile === "default" ? [] : ["--profile", profile];
+  spawnDetachedLater("openclaw", [...profileArg, "gateway", "restart"], DETACHED_RESTART_DELAY_MS);
+}
+
+/**
+ * Poll until the gateway is back or `timeoutMs` has passed. Returns the
+ * last status seen and how long the wait took.
+ */
+export async function waitForGatewayBack(
+  profile: string,
+  before: GatewayStatus,
+  opts: { timeoutMs?: number; pollMs?: number } = {},
+  check: GatewayStatusCheck = checkGatewayStatus,
+): Promise<{ status: GatewayStatus; back: boolean; waitedMs: number }> {
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_RESTART_TIMEOUT_MS;
+  const pollMs = opts.pollMs ?? DEFAULT_RESTART_POLL_MS;
+  const started = Date.now();
+  for (;;) {
+    const status = await check(profile);
+    const waitedMs = Date.now() - started;
+    if (isGatewayBack(before, status)) return { status, back: true, waitedMs };
+    if (waitedMs + pollMs > timeoutMs) return { status, back: false, waitedMs };
+    await sleep(pollMs);
+  }
+}
+
+/** Run the CLI steps for a restart. Stops at the first failing step. */
+async function runRestartSteps(profile: string, before: GatewayStatus, mode: RestartMode): Promise<RestartOutcome["steps"]> {
+  const profileArg = profile === "default" ? [] : ["--profile", profile];
+  const gateway = async (action: string) => {
+    const res = await runCmdAsync("openclaw", [...profileArg, "gateway", action], 120_000);
+    return { step: `gateway ${action}`, ...res };
+  };
+
+  if (mode === "graceful") return [await gateway("restart")];
+
+  // Force: stop may fail on a hung gateway, so carry on regardless
+  const steps = [await gateway("stop")];
+  if (before.pid !== undefined && isProcessAlive(before.pid)) {
+    await sleep(FORCE_KILL_GRACE_MS);
+    if (isProcessAlive(before.pid)) {
+      try {
+        process.kill(before.pid, "SIGKILL");
+        steps.push({ step: `kill -9 ${before.pid}`, code: 0, out: "" });
+      } catch (err: any) {
+        steps.push({ step: `kill -9 ${before.pid}`, code: 1, out: String(err?.message ?? err) });
+      }
+    }
+  }
+  steps.push(await gateway("start"));
+  return steps;
+}
+
+/**
+ * Restart a profile's gateway and validate that it comes back. The host
+ * gateway gets a detached graceful restart instead, without validation.
+ */
+export async function restartGateway(
+  profile: string,
+  opts: RestartOptions,
+  check: GatewayStatusCheck = checkGatewayStatus,
+  detach: DetachedRestart = startDetachedRestart,
+): Promise<RestartOutcome> {
+  const before = await check(profile);
+
+  if (isHostGateway(profile, before)) {
+    const base = { profile, mode: opts.mode, before, after: null, waitedMs: 0 };
+    if (opts.mode === "force") {
+      return {
+        ...base,
+        steps: [],
+        ok: false,
+        error: `--force would kill the gateway running this command (profile ${profile}). Run openclaw gateway stop, then openclaw gateway start, from a shell.`,
+      };
+    }
+    detach(profile);
+    return { ...base, steps: [{ step: "gateway restart (detached)", code: 0, out: "" }], ok: true, detached: true };
+  }
+
+  const issued = Date.now();
+  const steps = await runRestartSteps(profile, before, opts.mode);
+  const last = steps[steps.length - 1];
+
+  if (last.code !== 0) {
+    return {
+      profile,
+      mode: opts.mode,
+      before,
+      after: null,
+      steps,
+      ok: false,
+      waitedMs: Date.now() - issued,
+      error: `${last.step} failed (exit ${last.code})`,
+    };
+  }
+
+  const wait = await waitForGatewayBack(profile, before, opts, check);
+  const waitedMs = Date.now() - issued;
+  if (wait.back) {
+    return { profile, mode: opts.mode, before, after: wait.status, steps, ok: true, waitedMs };
+  }
+  const timeoutS = Math.round((opts.timeoutMs ?? DEFAULT_RESTART_TIMEOUT_MS) / 1000);
+  const reason =
+    wait.status.state === "unresponsive"
+      ? `process is up but not answering on port ${wait.status.port}${wait.status.probeError ? ` (${wait.status.probeError})` : ""}`
+      : wait.status.state === "running"
+        ? `still the old process (PID ${wait.status.pid})`
+        : "gateway is stopped";
+  return {
+    profile,
+    mode: opts.mode,
+    before,
+    after: wait.status,
+    steps,
+    ok: false,
+    waitedMs,
+    error: `Gateway did not come back within ${timeoutS}s: ${reason}`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/** One-line gateway state, e.g. `Running (PID 123, up 2h, 12ms)`. */
+export function formatGatewayStatusLine(status: GatewayStatus): string {
+  const state = { running: "Running", unresponsive: "Unresponsive", stopped: "Stopped" }[status.state];
+  const details = [
+    status.pid !== undefined ? `PID ${status.pid}` : "",
+    status.uptime ? `up ${status.uptime}` : "",
+    status.responseMs !== undefined ? `${status.responseMs}ms` : "",
+    status.probeError ? status.probeError : "",
+  ].filter(Boolean);
+  return details.length > 0 ? `${state} (${details.join(", ")})` : state;
+}
+
+/** Render a restart outcome with the before/after comparison. */
+export function renderRestartText(outcome: RestartOutcome): string {
+  const lines: string[] = [];
+  lines.push(`Restart: ${outcome.profile} (${outcome.mode})`);
+  lines.push("");
+  lines.push(`Before: ${formatGatewayStatusLine(outcome.before)}`);
+  lines.push(`After:  ${outcome.after ? formatGatewayStatusLine(outcome.after) : "(not checked)"}`);
+  lines.push("");
+
+  if (outcome.detached) {
+    lines.push(`↻ This gateway runs this command, so it cannot check its own restart.`);
+    lines.push(`openclaw gateway restart starts in ${DETACHED_RESTART_DELAY_MS / 1000}s in a detached process; check /health once it is back.`);
+    return lines.join("\n");
+  }
+
+  if (outcome.ok) {
+    lines.push(`✓ Gateway back after ${(outcome.waitedMs / 1000).toFixed(1)}s`);
+    return lines.join("\n");
+  }
+
+  lines.push(`✗ ${outcome.error}`);
+  const failed = outcome.steps.filter((s) => s.code !== 0 && s.out);
+  for (const step of failed) {
+    lines.push("");
+    lines.push(`${step.step}:`);
+    lines.push("```text");
+    lines.push(...step.out.split("\n").slice(-15));
+    lines.push("```");
+  }
+  lines.push("");
+  lines.push(`Check /logs gateway${outcome.profile === "default" ? "" : ` --profile ${outcome.profile}`} --since 10m`);
+  return lines.join("\n");
+}
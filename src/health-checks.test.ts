@@ -0,0 +1,156 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  registerHealthCheck,
+  unregisterHealthCheck,
+  listHealthChecks,
+  runHealthChecks,
+  worstSeverity,
+} from "./health-checks.js";
+import type { HealthSnapshot } from "./health.js";
+
+function snapshot(overrides: Partial<HealthSnapshot> = {}): HealthSnapshot {
+  return {
+    generatedAt: new Date().toISOString(),
+    gateways: [
+      { profile: "default", running: true, state: "running", pid: 100, errors: { readable: true, last: null } },
+      { profile: "staging", running: false, state: "stopped", errors: { readable: true, last: null } },
+    ],
+    resources: {
+      cpu: { load1: 0.1, load5: 0.1, load15: 0.1, cores: 4, percent: 2.5 },
+      memory: { usedBytes: 1, totalBytes: 4, percent: 25 },
+      disk: { usedBytes: 40, totalBytes: 100, percent: 40, root: "/" },
+    },
+    plugins: { installed: 3 },
+    cooldowns: [],
+    errors: { readable: true, last: null },
+    ...overrides,
+  };
+}
+
+const ctx = (overrides: Partial<HealthSnapshot> = {}) => ({
+  workspace: "/tmp/unused",
+  snapshot: snapshot(overrides),
+});
+
+afterEach(() => {
+  for (const check of listHealthChecks()) unregisterHealthCheck(check.id);
+});
+
+// ---------------------------------------------------------------------------
+// worstSeverity
+// ---------------------------------------------------------------------------
+describe("worstSeverity", () => {
+  it("returns ok for an empty list", () => {
+    expect(worstSeverity([])).toBe("ok");
+  });
+
+  it("returns the most severe status", () => {
+    expect(worstSeverity(["ok", "warn", "ok"])).toBe("warn");
+    expect(worstSeverity(["warn", "critical", "ok"])).toBe("critical");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Built-in checks
+// ---------------------------------------------------------------------------
+describe("built-in checks", () => {
+  it("all pass for a healthy snapshot", async () => {
+    const results = await runHealthChecks(ctx());
+    expect(results.map((r) => r.id)).toEqual(["gateway", "disk", "memory", "cooldowns", "errors"]);
+    expect(results.every((r) => r.status === "ok")).toBe(true);
+  });
+
+  it("flags a stopped default gateway as critical", async () => {
+    const results = await runHealthChecks(ctx({ gateways: [{ profile: "default", running: false, state: "stopped", errors: { readable: true, last: null } }] }));
+    expect(results.find((r) => r.id === "gateway")!.status).toBe("critical");
+  });
+
+  it("flags an unresponsive default gateway as critical", async () => {
+    const results = await runHealthChecks(
+      ctx({ gateways: [{ profile: "default", running: false, state: "unresponsive", port: 18789, errors: { readable: true, last: null } }] }),
+    );
+    const check = results.find((r) => r.id === "gateway")!;
+    expect(check.status).toBe("critical");
+    expect(check.message).toContain("not responding on port 18789");
+  });
+
+  it("judges the requested profile's gateway under --profile", async () => {
+    const results = await runHealthChecks(
+      ctx({ profile: "staging", gateways: [{ profile: "staging", running: false, state: "stopped", errors: { readable: true, last: null } }] }),
+    );
+    const check = results.find((r) => r.id === "gateway")!;
+    expect(check.status).toBe("critical");
+    expect(check.message).toBe("staging gateway is not running");
+  });
+
+  it("grades disk usage against thresholds", async () => {
+    const disk = (percent: number) => ({ usedBytes: percent, totalBytes: 100, percent, root: "/" });
+    const at = async (percent: number) =>
+      (await runHealthChecks(ctx({ resources: { ...snapshot().resources, disk: disk(percent) } })))
+        .find((r) => r.id === "disk")!.status;
+    expect(await at(50)).toBe("ok");
+    expect(await at(85)).toBe("warn");
+    expect(await at(95)).toBe("critical");
+  });
+
+  it("warns on active cooldowns", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const results = await runHealthChecks(
+      ctx({ cooldowns: [{ model: "a/b", lastHitAt: now, nextAvailableAt: now + 60 }] }),
+    );
+    const check = results.find((r) => r.id === "cooldowns")!;
+    expect(check.status).toBe("warn");
+    expect(check.message).toBe("1 model in cooldown");
+  });
+
+  it("only warns about log errors from recently written logs", async () => {
+    const last = (modifiedAt: number) => ({ readable: true, last: { file: "gateway.log", line: "ERROR x", modifiedAt } });
+    const recent = await runHealthChecks(ctx({ errors: last(Date.now()) }));
+    expect(recent.find((r) => r.id === "errors")!.status).toBe("warn");
+    const old = await runHealthChecks(ctx({ errors: last(Date.now() - 3 * 86_400_000) }));
+    expect(old.find((r) => r.id === "errors")!.status).toBe("ok");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+describe("health-check registry", () => {
+  it("runs contributed checks after the built-in ones", async () => {
+    registerHealthCheck({ id: "vpn", label: "VPN", run: () => ({ status: "warn", message: "degraded" }) });
+    const results = await runHealthChecks(ctx());
+    const last = results[results.length - 1];
+    expect(last).toMatchObject({ id: "vpn", label: "VPN", status: "warn", contributed: true });
+  });
+
+  it("supports async checks", async () => {
+    registerHealthCheck({ id: "async", run: async () => ({ status: "ok", message: "fine" }) });
+    const results = await runHealthChecks(ctx());
+    expect(results.find((r) => r.id === "async")).toMatchObject({ label: "async", message: "fine" });
+  });
+
+  it("lets a contributed check replace a built-in one by id", async () => {
+    registerHealthCheck({ id: "disk", label: "Disk (site)", run: () => ({ status: "critical", message: "raid degraded" }) });
+    const results = await runHealthChecks(ctx());
+    expect(results.filter((r) => r.id === "disk")).toHaveLength(1);
+    expect(results.find((r) => r.id === "disk")).toMatchObject({ status: "critical", contributed: true });
+  });
+
+  it("reports a throwing check as a warning", async () => {
+    registerHealthCheck({ id: "broken", run: () => { throw new Error("boom"); } });
+    const results = await runHealthChecks(ctx());
+    expect(results.find((r) => r.id === "broken")).toMatchObject({ status: "warn", message: "check failed: boom" });
+  });
+
+  it("is reachable through the global symbol without importing this module", async () => {
+    const reg = (globalThis as any)[Symbol.for("openclaw-ops-elvatis.healthChecks")] as Map<string, any>;
+    reg.set("external", { id: "external", run: () => ({ status: "ok", message: "hi" }) });
+    expect(listHealthChecks().map((c) => c.id)).toContain("external");
+  });
+
+  it("unregisters checks", () => {
+    registerHealthCheck({ id: "tmp", run: () => ({ status: "ok", message: "" }) });
+    expect(unregisterHealthCheck("tmp")).toBe(true);
+    expect(unregisterHealthCheck("tmp")).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Health-check registry for /health.
+ *
+ * Each check evaluates the gathered HealthSnapshot (plus anything it wants
+ * to inspect itself) and returns ok/warn/critical with a short message.
+ * /health runs the built-in checks followed by every contributed check and
+ * aggregates them into an overall status.
+ *
+ * Other plugins running in the same gateway can contribute checks without
+ * importing this package: the registry is a Map stored on `globalThis`
+ * under `Symbol.for("openclaw-ops-elvatis.healthChecks")`, keyed by check id.
+ * A contributed check with the same id as a built-in one replaces it.
+ */
+
+import { formatBytes } from "./utils.js";
+import type { HealthSnapshot } from "./health.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type HealthSeverity = "ok" | "warn" | "critical";
+
+/** What a check returns. */
+export interface HealthCheckOutcome {
+  status: HealthSeverity;
+  message: string;
+  /** Optional extra lines shown under the check. */
+  details?: string[];
+}
+
+/** A check result as it appears in the HealthReport. */
+export interface HealthCheckResult extends HealthCheckOutcome {
+  id: string;
+  label: string;
+  /** `true` for checks contributed through the registry. */
+  contributed: boolean;
+}
+
+export interface HealthCheckContext {
+  workspace: string;
+  snapshot: HealthSnapshot;
+}
+
+export interface HealthCheck {
+  /** Unique id, e.g. "disk" or "acme-vpn". */
+  id: string;
+  /** Display label, e.g. "Disk". Defaults to the id. */
+  label?: string;
+  run: (ctx: HealthCheckContext) => HealthCheckOutcome | Promise<HealthCheckOutcome>;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const REGISTRY_KEY = Symbol.for("openclaw-ops-elvatis.healthChecks");
+
+/** Return the process-wide registry of contributed checks. */
+function registry(): Map<string, HealthCheck> {
+  const g = globalThis as Record<symbol, unknown>;
+  if (!(g[REGISTRY_KEY] instanceof Map)) g[REGISTRY_KEY] = new Map<string, HealthCheck>();
+  return g[REGISTRY_KEY] as Map<string, HealthCheck>;
+}
+
+/** Register (or replace) a contributed health check. */
+export function registerHealthCheck(check: HealthCheck): void {
+  registry().set(check.id, check);
+}
+
+/** Remove a contributed health check. Returns `true` if it existed. */
+export function unregisterHealthCheck(id: string): boolean {
+  return registry().delete(id);
+}
+
+/** List contributed health checks in registration order. */
+export function listHealthChecks(): HealthCheck[] {
+  return [...registry().values()];
+}
+
+// ---------------------------------------------------------------------------
+// Built-in checks
+// ---------------------------------------------------------------------------
+
+/** Percent-used thresholds for the built-in resource checks. */
+export const DEFAULT_HEALTH_THRESHOLDS = {
+  disk: { warn: 80, critical: 90 },
+  memory: { warn: 85, critical: 95 },
+};
+
+/** Errors from logs written to within this window raise a warning. */
+const RECENT_ERROR_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+function severityFor(percent: number, limits: { warn: number; critical: number }): HealthSeverity {
+  if (percent >= limits.critical) return "critical";
+  if (percent >= limits.warn) return "warn";
+  return "ok";
+}
+
+export const BUILTIN_HEALTH_CHECKS: HealthCheck[] = [
+  {
+    id: "gateway",
+    label: "Gateway",
+    run: ({ snapshot }) => {
+      const details = snapshot.gateways.map(
+        (gw) => `${gw.profile}: ${gw.state}${gw.pid ? ` (PID ${gw.pid})` : ""}`,
+      );
+      // The requested profile under --profile, else default
+      const primaryProfile = snapshot.profile ?? "default";
+      const primary = snapshot.gateways.find((gw) => gw.profile === primaryProfile);
+      if (primary?.state === "unresponsive") {
+        return { status: "critical", message: `${primaryProfile} gateway is not responding on port ${primary.port}`, details };
+      }
+      if (primary && primary.state !== "running") {
+        return { status: "critical", message: `${primaryProfile} gateway is not running`, details };
+      }
+      const running = snapshot.gateways.filter((gw) => gw.running).length;
+      return { status: "ok", message: `${running}/${snapshot.gateways.length} running`, details };
+    },
+  },
+  {
+    id: "disk",
+    label: "Disk",
+    run: ({ snapshot }) => {
+      const disk = snapshot.resources.disk;
+      if (!disk) return { status: "warn", message: "disk usage unavailable" };
+      return {
+        status: severityFor(disk.percent, DEFAULT_HEALTH_THRESHOLDS.disk),
+        message: `${disk.percent.toFixed(1)}% used (${formatBytes(disk.totalBytes - disk.usedBytes)} free)`,
+      };
+    },
+  },
+  {
+    id: "memory",
+    label: "Memory",
+    run: ({ snapshot }) => {
+      const mem = snapshot.resources.memory;
+      return {
+        status: severityFor(mem.percent, DEFAULT_HEALTH_THRESHOLDS.memory),
+        message: `${mem.percent.toFixed(1)}% used`,
+      };
+    },
+  },
+  {
+    id: "cooldowns",
+    label: "Cooldowns",
+    run: ({ snapshot }) => {
+      const n = snapshot.cooldowns.length;
+      if (n === 0) return { status: "ok", message: "none active" };
+      return { status: "warn", message: `${n} model${n > 1 ? "s" : ""} in cooldown` };
+    },
+  },
+  {
+    id: "errors",
+    label: "Log errors",
+    run: ({ snapshot }) => {
+      const { readable, last } = snapshot.errors;
+      if (!readable) return { status: "warn", message: "unable to read logs" };
+      if (!last) return { status: "ok", message: "none detected" };
+      const recent = Date.now() - last.modifiedAt < RECENT_ERROR_WINDOW_MS;
+      return {
+        status: recent ? "warn" : "ok",
+        message: recent ? `recent error in ${last.file}` : `last error in ${last.file} is older than 24h`,
+      };
+    },
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+const SEVERITY_RANK: Record<HealthSeverity, number> = { ok: 0, warn: 1, critical: 2 };
+
+/** Return the most severe status in the list ("ok" for an empty list). */
+export function worstSeverity(statuses: HealthSeverity[]): HealthSeverity {
+  return statuses.reduce<HealthSeverity>(
+    (worst, s) => (SEVERITY_RANK[s] > SEVERITY_RANK[worst] ? s : worst),
+    "ok",
+  );
+}
+
+/**
+ * Run built-in and contributed checks against a snapshot. A check that
+ * throws (or returns something malformed) is reported as a warning rather
+ * than failing the whole /health run.
+ */
+export async function runHealthChecks(ctx: HealthCheckContext): Promise<HealthCheckResult[]> {
+  const contributed = registry();
+  const checks: Array<{ check: HealthCheck; contributed: boolean }> = [
+    ...BUILTIN_HEALTH_CHECKS.map((check) => ({
+      check: contributed.get(check.id) ?? check,
+      contributed: contributed.has(check.id),
+    })),
+    ...[...contributed.values()]
+      .filter((check) => !BUILTIN_HEALTH_CHECKS.some((b) => b.id === check.id))
+      .map((check) => ({ check, contributed: true })),
+  ];
+
+  const results: HealthCheckResult[] = [];
+  for (const { check, contributed: isContributed } of checks) {
+    const base = { id: check.id, label: check.label ?? check.id, contributed: isContributed };
+    try {
+      const outcome = await check.run(ctx);
+      if (!outcome || !(outcome.status in SEVERITY_RANK)) {
+        results.push({ ...base, status: "warn", message: "check returned an invalid result" });
+        continue;
+      }
+      results.push({ ...base, ...outcome, message: String(outcome.message ?? "") });
+    } catch (err: unknown) {
+      results.push({ ...base, status: "warn", message: `check failed: ${(err as Error)?.message ?? err}` });
+    }
+  }
+  return results;
+}
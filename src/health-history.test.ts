@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  healthHistoryPath,
+  appendHealthSample,
+  readHealthHistory,
+  pruneHealthHistory,
+  resolveSamplerOptions,
+  startHealthSampler,
+  summarizeHealthHistory,
+  renderHealthHistoryText,
+} from "./health-history.js";
+import type { HealthSample } from "./health-history.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-history-" + process.pid);
+
+function sample(minutesAgo: number, overrides: Partial<HealthSample> = {}): HealthSample {
+  return {
+    ts: new Date(Date.now() - minutesAgo * 60_000).toISOString(),
+    cpuLoad1: 1,
+    cpuPercent: 25,
+    memPercent: 50,
+    diskPercent: 70,
+    gateways: { default: true },
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+});
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+describe("health history persistence", () => {
+  it("returns empty list when no history exists", () => {
+    expect(readHealthHistory(tmpWorkspace)).toEqual([]);
+  });
+
+  it("appends and reads samples in order", () => {
+    appendHealthSample(tmpWorkspace, sample(2));
+    appendHealthSample(tmpWorkspace, sample(1));
+    const samples = readHealthHistory(tmpWorkspace);
+    expect(samples).toHaveLength(2);
+    expect(samples[0].ts < samples[1].ts).toBe(true);
+  });
+
+  it("filters by start time and skips malformed lines", () => {
+    appendHealthSample(tmpWorkspace, sample(120));
+    fs.appendFileSync(healthHistoryPath(tmpWorkspace), "not-json\n");
+    appendHealthSample(tmpWorkspace, sample(5));
+    expect(readHealthHistory(tmpWorkspace, Date.now() - 60 * 60_000)).toHaveLength(1);
+  });
+
+  it("prunes samples older than the retention window", () => {
+    appendHealthSample(tmpWorkspace, sample(3 * 24 * 60));
+    appendHealthSample(tmpWorkspace, sample(10));
+    expect(pruneHealthHistory(tmpWorkspace, 24 * 3_600_000)).toBe(1);
+    expect(readHealthHistory(tmpWorkspace)).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Sampler
+// ---------------------------------------------------------------------------
+describe("resolveSamplerOptions", () => {
+  it("uses defaults for an empty config", () => {
+    expect(resolveSamplerOptions({})).toEqual({ intervalMs: 60_000, retentionMs: 7 * 86_400_000 });
+  });
+
+  it("reads interval and retention", () => {
+    expect(resolveSamplerOptions({ healthCheckInterval: 300, metricsRetention: "24h" })).toEqual({
+      intervalMs: 300_000,
+      retentionMs: 86_400_000,
+    });
+  });
+
+  it("falls back on invalid values", () => {
+    expect(resolveSamplerOptions({ healthCheckInterval: 1, metricsRetention: "forever" })).toEqual({
+      intervalMs: 60_000,
+      retentionMs: 7 * 86_400_000,
+    });
+  });
+});
+
+describe("startHealthSampler", () => {
+  it("records a sample per interval until stopped", async () => {
+    vi.useFakeTimers();
+    const onSample = vi.fn();
+    const stop = startHealthSampler(tmpWorkspace, { intervalMs: 1000, retentionMs: 86_400_000, onSample });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onSample).toHaveBeenCalledTimes(2);
+    expect(readHealthHistory(tmpWorkspace)).toHaveLength(2);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onSample).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Summaries
+// ---------------------------------------------------------------------------
+describe("summarizeHealthHistory", () => {
+  it("computes min / avg / max", () => {
+    const summary = summarizeHealthHistory([
+      sample(3, { cpuLoad1: 1, memPercent: 40, diskPercent: 60 }),
+      sample(2, { cpuLoad1: 3, memPercent: 60, diskPercent: null }),
+    ]);
+    expect(summary.cpuLoad1).toEqual({ min: 1, avg: 2, max: 3 });
+    expect(summary.memPercent).toEqual({ min: 40, avg: 50, max: 60 });
+    expect(summary.diskPercent).toEqual({ min: 60, avg: 60, max: 60 });
+  });
+
+  it("records gateway up/down transitions and uptime", () => {
+    const summary = summarizeHealthHistory([
+      sample(4, { gateways: { default: true } }),
+      sample(3, { gateways: { default: false } }),
+      sample(2, { gateways: { default: false } }),
+      sample(1, { gateways: { default: true } }),
+    ]);
+    expect(summary.transitions.map((t) => t.up)).toEqual([false, true]);
+    expect(summary.gatewayUptime.default).toBe(50);
+  });
+
+  it("handles an empty window", () => {
+    const summary = summarizeHealthHistory([]);
+    expect(summary.samples).toBe(0);
+    expect(summary.cpuLoad1).toBeNull();
+  });
+});
+
+describe("renderHealthHistoryText", () => {
+  it("explains how to enable the sampler when there is no data", () => {
+    const text = renderHealthHistoryText(summarizeHealthHistory([]), "24h");
+    expect(text).toContain("Health History (last 24h)");
+    expect(text).toContain("monitoring.enabled");
+  });
+
+  it("renders resources and gateway transitions", () => {
+    const text = renderHealthHistoryText(
+      summarizeHealthHistory([
+        sample(2, { gateways: { default: true } }),
+        sample(1, { gateways: { default: false } }),
+      ]),
+      "7d",
+    );
+    expect(text).toContain("RESOURCES (min / avg / max)");
+    expect(text).toContain("- Memory: 50.0% / 50.0% / 50.0%");
+    expect(text).toContain("⚠ default: up 50.0% (1 transition)");
+    expect(text).toContain("up -> down");
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Background health sampler and persisted health history.
+ *
+ * When `monitoring.enabled` is set in the plugin config, register() starts
+ * a sampler that records a compact HealthSample (resource usage plus
+ * gateway up/down per profile) every `monitoring.healthCheckInterval`
+ * seconds. Samples are appended to a JSONL file in the workspace and
+ * pruned to `monitoring.metricsRetention`.
+ *
+ * History file: <workspace>/monitoring/health-history.jsonl
+ *
+ * `/health history [24h|7d]` reads the file back and summarises it.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import {
+  getSystemResourceStats,
+  checkGatewayStatus,
+  formatIsoCompact,
+  parseDuration,
+  discoverProfiles,
+} from "./utils.js";
+import type { AlertingConfig } from "./alerts.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Monitoring section of the plugin config. */
+export interface MonitoringConfig {
+  /** Start the background sampler (default false). */
+  enabled?: boolean;
+  /** Seconds between samples (default 60). */
+  healthCheckInterval?: number;
+  /** How long samples are kept, e.g. "7d" (default "7d"). */
+  metricsRetention?: string;
+  /** Threshold alerting evaluated on each sample (see src/alerts.ts). */
+  alerting?: AlertingConfig;
+}
+
+export interface HealthSample {
+  /** ISO timestamp. */
+  ts: string;
+  cpuLoad1: number;
+  cpuPercent: number;
+  memPercent: number;
+  /** `null` when disk usage could not be determined. */
+  diskPercent: number | null;
+  /** Gateway running state per profile. */
+  gateways: Record<string, boolean>;
+}
+
+/** min / avg / max of one metric across a window. */
+export interface MetricSummary {
+  min: number;
+  avg: number;
+  max: number;
+}
+
+export interface GatewayTransition {
+  ts: string;
+  profile: string;
+  up: boolean;
+}
+
+export interface HealthHistorySummary {
+  samples: number;
+  from: string | null;
+  to: string | null;
+  cpuLoad1: MetricSummary | null;
+  memPercent: MetricSummary | null;
+  diskPercent: MetricSummary | null;
+  /** Share of samples (0-100) in which each profile's gateway was up. */
+  gatewayUptime: Record<string, number>;
+  transitions: GatewayTransition[];
+}
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_SAMPLE_INTERVAL_SEC = 60;
+export const DEFAULT_METRICS_RETENTION = "7d";
+
+/** The history file is pruned at most this often. */
+const PRUNE_EVERY_MS = 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** Path of the health history file for a workspace. */
+export function healthHistoryPath(workspace: string): string {
+  return path.join(workspace, "monitoring", "health-history.jsonl");
+}
+
+/**
+ * Take a single health sample (resources + gateway state per profile).
+ * A gateway counts as up only when it is running and responsive.
+ */
+export async function takeHealthSample(workspace: string): Promise<HealthSample> {
+  const res = getSystemResourceStats(workspace);
+  const gateways: Record<string, boolean> = {};
+  for (const { name } of discoverProfiles()) {
+    gateways[name] = (await checkGatewayStatus(name)).running;
+  }
+  return {
+    ts: new Date().toISOString(),
+    cpuLoad1: res.cpu.load1,
+    cpuPercent: res.cpu.percent,
+    memPercent: res.memory.percent,
+    diskPercent: res.disk?.percent ?? null,
+    gateways,
+  };
+}
+
+/** Append a sample to the workspace history file. */
+export function appendHealthSample(workspace: string, sample: HealthSample): void {
+  const file = healthHistoryPath(workspace);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(sample) + "\n", "utf-8");
+}
+
+/**
+ * Read samples recorded at or after `sinceMs` (epoch ms), oldest first.
+ * Malformed lines are skipped; a missing file yields an empty list.
+ */
+export function readHealthHistory(workspace: string, sinceMs = 0): HealthSample[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(healthHistoryPath(workspace), "utf-8");
+  } catch {
+    return [];
+  }
+
+  const samples: HealthSample[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const sample = JSON.parse(line) as HealthSample;
+      if (new Date(sample.ts).getTime() >= sinceMs) samples.push(sample);
+    } catch {
+      // skip malformed
+    }
+  }
+  return samples;
+}
+
+/**
+ * Drop samples older than `retentionMs`. Returns the number removed.
+ * The file is only rewritten when something was actually pruned.
+ */
+export function pruneHealthHistory(workspace: string, retentionMs: number): number {
+  const file = healthHistoryPath(workspace);
+  if (!fs.existsSync(file)) return 0;
+
+  const cutoff = Date.now() - retentionMs;
+  const all = readHealthHistory(workspace);
+  const kept = all.filter((s) => new Date(s.ts).getTime() >= cutoff);
+  const removed = all.length - kept.length;
+  if (removed > 0) {
+    fs.writeFileSync(file, kept.map((s) => JSON.stringify(s) + "\n").join(""), "utf-8");
+  }
+  return removed;
+}
+
+// ---------------------------------------------------------------------------
+// Sampler
+// ---------------------------------------------------------------------------
+
+export interface HealthSamplerOptions {
+  intervalMs: number;
+  retentionMs: number;
+  /** Called after every recorded sample (used by alerting and watches). */
+  onSample?: (sample: HealthSample) => void;
+  /** Called when a tick fails; the sampler keeps running. */
+  onError?: (err: unknown) => void;
+}
+
+/**
+ * Resolve sampler interval and retention from the monitoring config.
+ * Invalid values fall back to the defaults.
+ */
+export function resolveSamplerOptions(cfg: MonitoringConfig = {}): { intervalMs: number; retentionMs: number } {
+  const intervalSec =
+    typeof cfg.healthCheckInterval === "number" && cfg.healthCheckInterval >= 10
+      ? cfg.healthCheckInterval
+      : DEFAULT_SAMPLE_INTERVAL_SEC;
+  const retentionMs =
+    parseDuration(cfg.metricsRetention ?? "") ?? parseDuration(DEFAULT_METRICS_RETENTION)!;
+  return { intervalMs: intervalSec * 1000, retentionMs };
+}
+
+/**
+ * Start recording health samples in the background. The timer is unref'd so
+ * it never keeps the process alive. Returns a function that stops it.
+ */
+export function startHealthSampler(workspace: string, opts: HealthSamplerOptions): () => void {
+  let lastPrune = 0;
+
+  let busy = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap when probes are slow
+    if (busy) return;
+    busy = true;
+    try {
+      const sample = await takeHealthSample(workspace);
+      appendHealthSample(workspace, sample);
+      if (Date.now() - lastPrune >= PRUNE_EVERY_MS) {
+        pruneHealthHistory(workspace, opts.retentionMs);
+        lastPrune = Date.now();
+      }
+      opts.onSample?.(sample);
+    } catch (err) {
+      opts.onError?.(err);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const timer = setInterval(tick, opts.intervalMs);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+// ---------------------------------------------------------------------------
+// Summaries
+// ---------------------------------------------------------------------------
+
+function summarize(values: number[]): MetricSummary | null {
+  if (values.length === 0) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+    sum += v;
+  }
+  return { min, avg: sum / values.length, max };
+}
+
+/** Summarise samples (oldest first) into min/avg/max and gateway transitions. */
+export function summarizeHealthHistory(samples: HealthSample[]): HealthHistorySummary {
+  const transitions: GatewayTransition[] = [];
+  const upCounts: Record<string, { up: number; total: number }> = {};
+  const lastState: Record<string, boolean> = {};
+
+  for (const sample of samples) {
+    for (const [profile, up] of Object.entries(sample.gateways ?? {})) {
+      const counts = (upCounts[profile] ??= { up: 0, total: 0 });
+      counts.total++;
+      if (up) counts.up++;
+      if (profile in lastState && lastState[profile] !== up) {
+        transitions.push({ ts: sample.ts, profile, up });
+      }
+      lastState[profile] = up;
+    }
+  }
+
+  const gatewayUptime: Record<string, number> = {};
+  for (const [profile, c] of Object.entries(upCounts)) {
+    gatewayUptime[profile] = (c.up / c.total) * 100;
+  }
+
+  return {
+    samples: samples.length,
+    from: samples[0]?.ts ?? null,
+    to: samples[samples.length - 1]?.ts ?? null,
+    cpuLoad1: summarize(samples.map((s) => s.cpuLoad1)),
+    memPercent: summarize(samples.map((s) => s.memPercent)),
+    diskPercent: summarize(samples.map((s) => s.diskPercent).filter((v): v is number => v !== null)),
+    gatewayUptime,
+    transitions,
+  };
+}
+
+/** Render a history summary as the `/health history` text block. */
+export function renderHealthHistoryText(summary: HealthHistorySummary, windowLabel: string): string {
+  const lines: string[] = [];
+  lines.push(`Health History (last ${windowLabel})`);
+  lines.push("");
+
+  if (summary.samples === 0) {
+    lines.push("No samples recorded in this window.");
+    lines.push("Set monitoring.enabled in the plugin config to start the background sampler.");
+    return lines.join("\n");
+  }
+
+  lines.push(`Samples: ${summary.samples} (${formatIsoCompact(new Date(summary.from!))} to ${formatIsoCompact(new Date(summary.to!))} UTC)`);
+
+  const fmt = (m: MetricSummary | null, digits: number, suffix: string) =>
+    m
+      ? `${m.min.toFixed(digits)}${suffix} / ${m.avg.toFixed(digits)}${suffix} / ${m.max.toFixed(digits)}${suffix}`
+      : "N/A";
+
+  lines.push("");
+  lines.push("RESOURCES (min / avg / max)");
+  lines.push(`- CPU load (1m): ${fmt(summary.cpuLoad1, 2, "")}`);
+  lines.push(`- Memory: ${fmt(summary.memPercent, 1, "%")}`);
+  lines.push(`- Disk: ${fmt(summary.diskPercent, 1, "%")}`);
+
+  lines.push("");
+  lines.push("GATEWAY");
+  for (const [profile, uptime] of Object.entries(summary.gatewayUptime)) {
+    const changes = summary.transitions.filter((t) => t.profile === profile);
+    const icon = uptime === 100 ? "✓" : uptime === 0 ? "✗" : "⚠";
+    lines.push(`${icon} ${profile}: up ${uptime.toFixed(1)}% (${changes.length} transition${changes.length === 1 ? "" : "s"})`);
+    for (const t of changes.slice(-10)) {
+      lines.push(`  ${formatIsoCompact(new Date(t.ts))} UTC ${t.up ? "down -> up" : "up -> down"}`);
+    }
+    if (changes.length > 10) lines.push(`  ... and ${changes.length - 10} earlier`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,206 @@
+import { describe, it, expect } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buildHealthReport, renderHealthText, countRecentLogErrors } from "./health.js";
+import { discoverProfiles } from "./utils.js";
+import type { HealthReport } from "./health.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-health-" + process.pid);
+
+function sampleReport(overrides: Partial<HealthReport> = {}): HealthReport {
+  return {
+    generatedAt: "2026-03-01T12:00:00.000Z",
+    gateways: [
+      { profile: "default", running: true, state: "running", pid: 4242, uptime: "3h", responseMs: 12, errors: { readable: true, last: null } },
+      { profile: "staging", running: false, state: "stopped", errors: { readable: true, last: null } },
+    ],
+    resources: {
+      cpu: { load1: 0.5, load5: 0.4, load15: 0.3, cores: 2, percent: 25 },
+      memory: { usedBytes: 1024 ** 3, totalBytes: 4 * 1024 ** 3, percent: 25 },
+      disk: { usedBytes: 5 * 1024 ** 3, totalBytes: 10 * 1024 ** 3, percent: 50, root: "/" },
+    },
+    plugins: { installed: 7 },
+    cooldowns: [],
+    errors: { readable: true, last: null },
+    status: "ok",
+    checks: [],
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// buildHealthReport
+// ---------------------------------------------------------------------------
+describe("buildHealthReport", () => {
+  it("reports a gateway for every discovered profile", async () => {
+    const report = await buildHealthReport(tmpWorkspace);
+    expect(report.gateways.map((g) => g.profile)).toEqual(discoverProfiles().map((p) => p.name));
+    expect(report.gateways[0].profile).toBe("default");
+    for (const gw of report.gateways) {
+      expect(typeof gw.running).toBe("boolean");
+      expect(typeof gw.errors.readable).toBe("boolean");
+    }
+  });
+
+  it("is JSON-serialisable without losing fields", async () => {
+    const report = await buildHealthReport(tmpWorkspace);
+    const roundTrip = JSON.parse(JSON.stringify(report));
+    expect(Object.keys(roundTrip).sort()).toEqual(
+      ["checks", "cooldowns", "errors", "gateways", "generatedAt", "plugins", "resources", "status"],
+    );
+  });
+
+  it("returns no cooldowns for an empty workspace", async () => {
+    expect((await buildHealthReport(tmpWorkspace)).cooldowns).toEqual([]);
+  });
+
+  it("derives the overall status from the worst check", async () => {
+    const report = await buildHealthReport(tmpWorkspace);
+    const rank = { ok: 0, warn: 1, critical: 2 };
+    const worst = Math.max(...report.checks.map((c) => rank[c.status]));
+    expect(rank[report.status]).toBe(worst);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderHealthText
+// ---------------------------------------------------------------------------
+describe("renderHealthText", () => {
+  it("renders gateway state with PID and uptime for default", () => {
+    const text = renderHealthText(sampleReport());
+    expect(text).toContain("- Default: ✓ Running (12ms)");
+    expect(text).toContain("  PID 4242");
+    expect(text).toContain("  Uptime: 3h");
+    expect(text).toContain("- Staging: ○ Stopped");
+  });
+
+  it("renders PID, port and last error for every profile", () => {
+    const text = renderHealthText(
+      sampleReport({
+        gateways: [
+          { profile: "default", running: true, state: "running", pid: 4242, port: 18789, errors: { readable: true, last: null } },
+          {
+            profile: "work",
+            running: true,
+            state: "running",
+            pid: 5151,
+            port: 19001,
+            errors: { readable: true, last: { file: "gateway.log", line: "ERROR boom", modifiedAt: Date.now() } },
+          },
+        ],
+      }),
+    );
+    expect(text).toContain("- Work: ✓ Running");
+    expect(text).toContain("  PID 5151");
+    expect(text).toContain("  Port: 19001");
+    expect(text).toContain("  Last error: gateway.log: ERROR boom...");
+  });
+
+  it("marks the requested profile's stopped gateway as a failure", () => {
+    const text = renderHealthText(
+      sampleReport({
+        profile: "staging",
+        gateways: [{ profile: "staging", running: false, state: "stopped", errors: { readable: true, last: null } }],
+      }),
+    );
+    expect(text).toContain("- Staging: ✗ Stopped");
+  });
+
+  it("renders an unresponsive gateway separately from a stopped one", () => {
+    const text = renderHealthText(
+      sampleReport({
+        gateways: [
+          { profile: "default", running: false, state: "unresponsive", pid: 4242, port: 18789, probeError: "no response within 3000ms", errors: { readable: true, last: null } },
+        ],
+      }),
+    );
+    expect(text).toContain("- Default: ⚠ Unresponsive (port 18789: no response within 3000ms)");
+  });
+
+  it("renders the plugin count or a fallback", () => {
+    expect(renderHealthText(sampleReport())).toContain("- Installed: 7");
+    expect(renderHealthText(sampleReport({ plugins: { installed: null } }))).toContain(
+      "- Unable to count plugins",
+    );
+    expect(renderHealthText(sampleReport({ plugins: { installed: 7, enabled: 5, source: "disk" } }))).toContain(
+      "- Installed: 7 (5 enabled, from on-disk state)",
+    );
+  });
+
+  it("renders cooldowns with reasons", () => {
+    const now = Math.floor(Date.now() / 1000);
+    const text = renderHealthText(
+      sampleReport({
+        cooldowns: [{ model: "openai/gpt-5", lastHitAt: now, nextAvailableAt: now + 600, reason: "rate limit" }],
+      }),
+    );
+    expect(text).toContain("⚠ 1 model in cooldown");
+    expect(text).toContain("Reason: rate limit");
+  });
+
+  it("renders the last error truncated to 60 characters", () => {
+    const line = "ERROR " + "x".repeat(100);
+    const text = renderHealthText(
+      sampleReport({ errors: { readable: true, last: { file: "gateway.log", line, modifiedAt: Date.now() } } }),
+    );
+    expect(text).toContain(`- Last error: gateway.log: ${line.slice(0, 60)}...`);
+  });
+
+  it("renders the overall status and each check", () => {
+    const text = renderHealthText(
+      sampleReport({
+        status: "warn",
+        checks: [
+          { id: "disk", label: "Disk", status: "warn", message: "85.0% used", contributed: false },
+          {
+            id: "vpn",
+            label: "VPN",
+            status: "ok",
+            message: "tunnel up",
+            details: ["peer: 10.0.0.1"],
+            contributed: true,
+          },
+        ],
+      }),
+    );
+    expect(text).toContain("System Health: ⚠ WARN");
+    expect(text).toContain("⚠ Disk: 85.0% used");
+    expect(text).toContain("✓ VPN: tunnel up");
+    expect(text).toContain("  peer: 10.0.0.1");
+  });
+
+  it("reports unreadable logs", () => {
+    const text = renderHealthText(sampleReport({ errors: { readable: false, last: null } }));
+    expect(text).toContain("- Last error: Error reading logs");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// countRecentLogErrors
+// ---------------------------------------------------------------------------
+describe("countRecentLogErrors", () => {
+  it("returns zero for a window in the future", () => {
+    expect(countRecentLogErrors(Date.now() + 86_400_000)).toBe(0);
+  });
+
+  it("stops reading at lines older than the window", () => {
+    const logDir = discoverProfiles()[0].logDir;
+    const createdDir = !fs.existsSync(logDir);
+    const logFile = path.join(logDir, `ops-test-health-${process.pid}.log`);
+    const since = Date.now() - 60_000;
+    const before = countRecentLogErrors(since);
+    try {
+      fs.mkdirSync(logDir, { recursive: true });
+      fs.writeFileSync(logFile, [
+        `${new Date(since - 3_600_000).toISOString()} ERROR old`,
+        `${new Date().toISOString()} ERROR new`,
+        "  at stack (index.js:1) error",
+      ].join("\n") + "\n");
+      expect(countRecentLogErrors(since) - before).toBe(2);
+    } finally {
+      fs.rmSync(logFile, { force: true });
+      if (createdDir) fs.rmSync(logDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Health report model for /health.
+ *
+ * buildHealthReport() gathers everything /health shows into a typed,
+ * JSON-serialisable HealthReport, then runs the health-check registry over
+ * it to derive per-check severities and an overall status.
+ * renderHealthText() turns that report into the WhatsApp-friendly text
+ * block, while `/health --json` emits the report as-is so monitoring
+ * scripts can consume it without parsing text.
+ *
+ * Gateways and log errors are reported for every profile found by
+ * discoverProfiles(), or for a single one with `/health --profile <name>`.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import {
+  discoverProfiles,
+  getSystemResourceStats,
+  formatSystemResources,
+  checkGatewayStatus,
+  loadActiveCooldowns,
+  formatCooldownLine,
+} from "./utils.js";
+import type { CooldownEntry, SystemResourceStats, GatewayStatus } from "./utils.js";
+import { runHealthChecks, worstSeverity } from "./health-checks.js";
+import { readLinesReverse } from "./log-tail.js";
+import { parseLogLine } from "./log-query.js";
+import { loadPluginInventory } from "./plugin-inventory.js";
+import type { InventorySource } from "./plugin-inventory.js";
+import type { HealthCheckResult, HealthSeverity } from "./health-checks.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Most recent error line found in the gateway logs. */
+export interface LastErrorInfo {
+  file: string;
+  line: string;
+  /** Modification time (epoch ms) of the log file the error came from. */
+  modifiedAt: number;
+}
+
+/** Log error scan result for one log directory (or all profiles combined). */
+export interface LogErrorsInfo {
+  /** `false` when the log directory exists but could not be read. */
+  readable: boolean;
+  last: LastErrorInfo | null;
+}
+
+/** Gateway state for a single OpenClaw profile. */
+export interface GatewayHealth extends GatewayStatus {
+  profile: string;
+  /** Last error in this profile's logs. */
+  errors: LogErrorsInfo;
+}
+
+/** Raw health data, before any checks are evaluated. */
+export interface HealthSnapshot {
+  /** ISO timestamp of when the report was built. */
+  generatedAt: string;
+  /** Set when the report covers a single profile. */
+  profile?: string;
+  gateways: GatewayHealth[];
+  resources: SystemResourceStats;
+  /**
+   * Installed and enabled plugin counts and where they came from; `installed`
+   * is `null` when neither the CLI nor the profile's state could be read.
+   */
+  plugins: { installed: number | null; enabled?: number; source?: InventorySource };
+  /** Active model cooldowns, soonest-to-expire first. */
+  cooldowns: CooldownEntry[];
+  /** Most recent error across the reported profiles. */
+  errors: LogErrorsInfo;
+}
+
+export interface HealthReport extends HealthSnapshot {
+  /** Worst severity across all checks. */
+  status: HealthSeverity;
+  checks: HealthCheckResult[];
+}
+
+// ---------------------------------------------------------------------------
+// Data gathering
+// ---------------------------------------------------------------------------
+
+/** Plugin counts for a profile from the shared plugin inventory. */
+function countInstalledPlugins(profile: string): HealthSnapshot["plugins"] {
+  const inventory = loadPluginInventory(profile);
+  if (!inventory) return { installed: null };
+  return {
+    installed: inventory.plugins.length,
+    enabled: inventory.plugins.filter((p) => p.enabled).length,
+    source: inventory.source,
+  };
+}
+
+/** How far back from the end of each log file the error scans read. */
+const LOG_SCAN_MAX_BYTES = 8 * 1024 * 1024;
+
+function isErrorLine(line: string): boolean {
+  const lower = line.toLowerCase();
+  return lower.includes("error") || lower.includes("fatal");
+}
+
+/**
+ * Find the last error/fatal line in the newest gateway log files.
+ * Checks up to three `.log` files in a profile's log directory, reading
+ * each backwards from the end and at most LOG_SCAN_MAX_BYTES of it.
+ */
+function findLastError(logDir: string): LogErrorsInfo {
+  try {
+    if (!fs.existsSync(logDir)) return { readable: true, last: null };
+    const logFiles = fs
+      .readdirSync(logDir)
+      .filter((f: string) => f.endsWith(".log"))
+      .map((f: string) => path.join(logDir, f));
+
+    for (const logFile of logFiles.slice(-3)) {
+      let line: string | undefined;
+      for (const l of readLinesReverse(logFile, { maxBytes: LOG_SCAN_MAX_BYTES })) {
+        if (isErrorLine(l)) {
+          line = l;
+          break;
+        }
+      }
+      if (line !== undefined) {
+        return {
+          readable: true,
+          last: { file: path.basename(logFile), line, modifiedAt: fs.statSync(logFile).mtimeMs },
+        };
+      }
+    }
+    return { readable: true, last: null };
+  } catch {
+    return { readable: false, last: null };
+  }
+}
+
+/** Pick the most recent error across several log scans. */
+function latestLogError(scans: LogErrorsInfo[]): LogErrorsInfo {
+  let last: LastErrorInfo | null = null;
+  for (const scan of scans) {
+    if (scan.last && (!last || scan.last.modifiedAt > last.modifiedAt)) last = scan.last;
+  }
+  return { readable: scans.every((s) => s.readable), last };
+}
+
+/**
+ * Count error/fatal lines in the gateway logs of every profile written to
+ * since `sinceMs` (epoch ms). Only `.log` files modified within the window
+ * are read, backwards from the end until the first line timestamped before
+ * the window.
+ */
+export function countRecentLogErrors(sinceMs: number): number {
+  let count = 0;
+  for (const { logDir } of discoverProfiles()) {
+    try {
+      for (const f of fs.readdirSync(logDir)) {
+        if (!f.endsWith(".log")) continue;
+        const logFile = path.join(logDir, f);
+        if (fs.statSync(logFile).mtimeMs < sinceMs) continue;
+        for (const l of readLinesReverse(logFile, { maxBytes: LOG_SCAN_MAX_BYTES })) {
+          const { ts } = parseLogLine(l);
+          if (ts !== null && ts < sinceMs) break;
+          if (isErrorLine(l)) count++;
+        }
+      }
+    } catch {
+      // Missing or unreadable log dir counts as no errors
+    }
+  }
+  return count;
+}
+
+/**
+ * Gather all health data for the host and workspace. With `opts.profile`,
+ * gateway and log data cover only that profile.
+ */
+export async function collectHealthSnapshot(
+  workspace: string,
+  opts: { profile?: string } = {},
+): Promise<HealthSnapshot> {
+  const profiles = discoverProfiles().filter((p) => !opts.profile || p.name === opts.profile);
+  const gateways: GatewayHealth[] = [];
+  for (const profile of profiles) {
+    gateways.push({
+      profile: profile.name,
+      ...(await checkGatewayStatus(profile.name)),
+      errors: findLastError(profile.logDir),
+    });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    ...(opts.profile ? { profile: opts.profile } : {}),
+    gateways,
+    resources: getSystemResourceStats(workspace),
+    plugins: countInstalledPlugins(opts.profile ?? "default"),
+    cooldowns: loadActiveCooldowns(workspace),
+    errors: latestLogError(gateways.map((gw) => gw.errors)),
+  };
+}
+
+/**
+ * Gather health data and evaluate every registered health check against it.
+ */
+export async function buildHealthReport(workspace: string, opts: { profile?: string } = {}): Promise<HealthReport> {
+  const snapshot = await collectHealthSnapshot(workspace, opts);
+  const checks = await runHealthChecks({ workspace, snapshot });
+  return { ...snapshot, status: worstSeverity(checks.map((c) => c.status)), checks };
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const SEVERITY_ICONS: Record<HealthSeverity, string> = { ok: "✓", warn: "⚠", critical: "✗" };
+
+/** Capitalize a profile name for display ("staging" -> "Staging"). */
+function profileLabel(profile: string): string {
+  return profile.charAt(0).toUpperCase() + profile.slice(1);
+}
+
+/** `file: first 60 chars of the line...` */
+function formatLastError(last: LastErrorInfo): string {
+  return `${last.file}: ${last.line.slice(0, 60)}...`;
+}
+
+/** Icon + state + probe detail for one gateway line. */
+function gatewayStateText(gw: GatewayHealth, primaryProfile: string): string {
+  if (gw.state === "running") {
+    return `✓ Running${gw.responseMs !== undefined ? ` (${gw.responseMs}ms)` : ""}`;
+  }
+  if (gw.state === "unresponsive") {
+    return `⚠ Unresponsive (port ${gw.port}${gw.probeError ? `: ${gw.probeError}` : ""})`;
+  }
+  // A stopped primary gateway (the requested profile, else default) is a failure; other profiles are optional
+  return `${gw.profile === primaryProfile ? "✗" : "○"} Stopped`;
+}
+
+/** Render a HealthReport as the WhatsApp-friendly /health text block. */
+export function renderHealthText(report: HealthReport): string {
+  const lines: string[] = [];
+  const scope = report.profile ? ` (${report.profile})` : "";
+  lines.push(`System Health${scope}: ${SEVERITY_ICONS[report.status]} ${report.status.toUpperCase()}`);
+  lines.push("");
+
+  // Check summary
+  lines.push("CHECKS");
+  for (const check of report.checks) {
+    lines.push(`${SEVERITY_ICONS[check.status]} ${check.label}: ${check.message}`);
+    if (check.contributed) {
+      for (const detail of check.details ?? []) lines.push(`  ${detail}`);
+    }
+  }
+
+  // Gateway Status
+  lines.push("");
+  lines.push("GATEWAY");
+  for (const gw of report.gateways) {
+    lines.push(`- ${profileLabel(gw.profile)}: ${gatewayStateText(gw, report.profile ?? "default")}`);
+    if (gw.pid) lines.push(`  PID ${gw.pid}`);
+    if (gw.uptime) lines.push(`  Uptime: ${gw.uptime}`);
+    if (gw.port) lines.push(`  Port: ${gw.port}`);
+    if (gw.errors.last) lines.push(`  Last error: ${formatLastError(gw.errors.last)}`);
+  }
+
+  // System Resources
+  lines.push("");
+  lines.push("RESOURCES");
+  const resources = formatSystemResources(report.resources);
+  lines.push(`- CPU load: ${resources.cpu}`);
+  lines.push(`- Memory: ${resources.memory}`);
+  lines.push(`- Disk: ${resources.disk}`);
+
+  // Plugin Count
+  lines.push("");
+  lines.push("PLUGINS");
+  if (report.plugins.installed !== null) {
+    const { installed, enabled, source } = report.plugins;
+    const notes = [
+      ...(enabled !== undefined && enabled !== installed ? [`${enabled} enabled`] : []),
+      ...(source === "disk" ? ["from on-disk state"] : []),
+    ];
+    lines.push(`- Installed: ${installed}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`);
+  } else {
+    lines.push("- Unable to count plugins");
+  }
+
+  // Cooldown Detection (model-failover state)
+  lines.push("");
+  lines.push("COOLDOWNS");
+  const cooldowns = report.cooldowns;
+  if (cooldowns.length === 0) {
+    lines.push("✓ None active");
+  } else {
+    lines.push(`⚠ ${cooldowns.length} model${cooldowns.length > 1 ? "s" : ""} in cooldown`);
+    for (const cd of cooldowns.slice(0, 5)) {
+      lines.push(`  ${formatCooldownLine(cd)}`);
+      if (cd.reason) lines.push(`  Reason: ${cd.reason}`);
+    }
+    if (cooldowns.length > 5) {
+      lines.push(`  ... and ${cooldowns.length - 5} more (use /limits for full list)`);
+    }
+  }
+
+  // Last Error Check
+  lines.push("");
+  lines.push("ERRORS");
+  let lastError = "None detected";
+  if (!report.errors.readable) {
+    lastError = "Error reading logs";
+  } else if (report.errors.last) {
+    lastError = formatLastError(report.errors.last);
+  }
+  lines.push(`- Last error: ${lastError}`);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  loadLogCursors,
+  saveLogCursors,
+  followSessionKey,
+  startFileCursor,
+  readSinceCursor,
+} from "./log-follow.js";
+import type { FileLogCursor } from "./log-follow.js";
+
+const tmpDir = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-logfollow-" + process.pid);
+const logFile = path.join(tmpDir, "gateway.log");
+
+function write(file: string, content: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+afterEach(() => {
+  try { fs.rmSync(tmpDir, { recursive: true, force: true }); } catch {}
+});
+
+describe("readSinceCursor (files)", () => {
+  it("returns only lines written after the cursor and advances it", async () => {
+    write(logFile, "old 1\nold 2\n");
+    const cursor = startFileCursor("gateway", logFile, {});
+    fs.appendFileSync(logFile, "new 1\nnew 2\n");
+
+    const first = await readSinceCursor(cursor, 50);
+    expect(first.matches.map((m) => m.raw)).toEqual(["new 1", "new 2"]);
+
+    fs.appendFileSync(logFile, "new 3\n");
+    const second = await readSinceCursor(first.cursor, 50);
+    expect(second.matches.map((m) => m.raw)).toEqual(["new 3"]);
+    expect(second.notes).toEqual([]);
+  });
+
+  it("leaves a half-written line for the next read", async () => {
+    write(logFile, "");
+    const cursor = startFileCursor("gateway", logFile, {});
+    fs.appendFileSync(logFile, "done\npart");
+    const first = await readSinceCursor(cursor, 50);
+    expect(first.matches.map((m) => m.raw)).toEqual(["done"]);
+
+    fs.appendFileSync(logFile, "ial\n");
+    const second = await readSinceCursor(first.cursor, 50);
+    expect(second.matches.map((m) => m.raw)).toEqual(["partial"]);
+  });
+
+  it("applies the follow filters and keeps the newest lines", async () => {
+    write(logFile, "");
+    const cursor = startFileCursor("gateway", logFile, { level: "error" });
+    fs.appendFileSync(logFile, [
+      "2026-03-01T10:00:00Z ERROR one",
+      "2026-03-01T10:01:00Z INFO skip",
+      "2026-03-01T10:02:00Z ERROR two",
+      "2026-03-01T10:03:00Z ERROR three",
+    ].join("\n") + "\n");
+    const result = await readSinceCursor(cursor, 2);
+    expect(result.matches.map((m) => m.raw)).toEqual(["2026-03-01T10:02:00Z ERROR two", "2026-03-01T10:03:00Z ERROR three"]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("finishes the rotated file before reading the new one", async () => {
+    write(logFile, "before\n");
+    const cursor = startFileCursor("gateway", logFile, {});
+    fs.appendFileSync(logFile, "tail of old\n");
+    fs.renameSync(logFile, logFile + ".1");
+    write(logFile, "head of new\n");
+
+    const result = await readSinceCursor(cursor, 50);
+    expect(result.matches.map((m) => m.raw)).toEqual(["tail of old", "head of new"]);
+    expect(result.notes).toEqual(["Log rotated to gateway.log.1"]);
+    expect((result.cursor as FileLogCursor).inode).toBe(fs.statSync(logFile).ino);
+
+    fs.appendFileSync(logFile, "more\n");
+    expect((await readSinceCursor(result.cursor, 50)).matches.map((m) => m.raw)).toEqual(["more"]);
+  });
+
+  it("waits on the old inode while the new file does not exist", async () => {
+    write(logFile, "");
+    const cursor = startFileCursor("gateway", logFile, {});
+    fs.appendFileSync(logFile, "last words\n");
+    fs.renameSync(logFile, logFile + ".1");
+
+    const result = await readSinceCursor(cursor, 50);
+    expect(result.matches.map((m) => m.raw)).toEqual(["last words"]);
+    expect(result.notes).toContain("gateway.log does not exist (yet)");
+
+    write(logFile, "fresh\n");
+    expect((await readSinceCursor(result.cursor, 50)).matches.map((m) => m.raw)).toEqual(["fresh"]);
+  });
+
+  it("moves on to the next date-named log once it appears", async () => {
+    const day1 = path.join(tmpDir, "openclaw-2026-03-01.log");
+    const day2 = path.join(tmpDir, "openclaw-2026-03-02.log");
+    write(day1, "monday\n");
+    const cursor = startFileCursor("openclaw", day1, {});
+    fs.appendFileSync(day1, "monday night\n");
+    fs.utimesSync(day1, new Date("2026-03-01T23:59:59Z"), new Date("2026-03-01T23:59:59Z"));
+    write(day2, "tuesday\n");
+    fs.utimesSync(day2, new Date("2026-03-02T00:00:05Z"), new Date("2026-03-02T00:00:05Z"));
+
+    const result = await readSinceCursor(cursor, 50);
+    expect(result.matches.map((m) => m.raw)).toEqual(["monday night", "tuesday"]);
+    expect(result.notes).toEqual(["Log continued in openclaw-2026-03-02.log"]);
+    expect((result.cursor as FileLogCursor).file).toBe(day2);
+
+    fs.appendFileSync(day2, "tuesday noon\n");
+    const again = await readSinceCursor(result.cursor, 50);
+    expect(again.matches.map((m) => m.raw)).toEqual(["tuesday noon"]);
+    expect(again.notes).toEqual([]);
+  });
+
+  it("skips ahead when more than maxBytes was written since the cursor", async () => {
+    write(logFile, "");
+    const cursor = startFileCursor("gateway", logFile, {});
+    const lines = Array.from({ length: 100 }, (_, i) => `line ${String(i).padStart(3, "0")}`);
+    fs.appendFileSync(logFile, lines.join("\n") + "\n");
+
+    // 9 bytes per line: the last 50 bytes hold five whole lines and the tail of a sixth
+    const result = await readSinceCursor(cursor, 50, 50);
+    expect(result.matches.map((m) => m.raw)).toEqual(lines.slice(-5));
+    expect(result.notes).toEqual(["Skipped 855B of gateway.log; /logs more reads at most the last 50B"]);
+    expect((result.cursor as FileLogCursor).offset).toBe(fs.statSync(logFile).size);
+  });
+
+  it("reads from the start after copytruncate", async () => {
+    write(logFile, "a long line that was here\n");
+    const cursor = startFileCursor("gateway", logFile, {});
+    fs.truncateSync(logFile, 0);
+    fs.appendFileSync(logFile, "short\n");
+
+    const result = await readSinceCursor(cursor, 50);
+    expect(result.matches.map((m) => m.raw)).toEqual(["short"]);
+    expect(result.notes).toEqual(["Log was truncated; reading from the start"]);
+  });
+});
+
+describe("followSessionKey", () => {
+  it("prefers the session, then channel and sender", () => {
+    expect(followSessionKey({ sessionId: "s1", channel: "discord" })).toBe("s1");
+    expect(followSessionKey({ channel: "discord", from: "u1" })).toBe("discord:u1");
+    expect(followSessionKey("gateway")).toBe("default");
+  });
+});
+
+describe("log cursor persistence", () => {
+  it("round-trips and drops stale cursors", () => {
+    write(logFile, "x\n");
+    const state = loadLogCursors(tmpDir);
+    state.cursors.fresh = startFileCursor("gateway", logFile, {});
+    state.cursors.stale = { ...startFileCursor("gateway", logFile, {}), updatedAt: "2020-01-01T00:00:00Z" };
+    saveLogCursors(tmpDir, state);
+    expect(Object.keys(loadLogCursors(tmpDir).cursors)).toEqual(["fresh"]);
+  });
+});
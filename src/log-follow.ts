@@ -0,0 +1,332 @@
+/**
+ * Incremental log cursors for `/logs --follow` and `/logs more`.
+ *
+ * `/logs <service> --follow` records where the log currently ends for the
+ * chat session: a byte offset plus the file's inode, or a journald cursor
+ * for systemd units. `/logs more` then returns only what was written since
+ * and moves the cursor forward.
+ *
+ * Rotation is detected by the inode changing. The rest of the old file is
+ * read under its rotated name (found by inode) before the new file is read
+ * from the start, so no lines are lost unless the old file was already
+ * compressed or deleted. A file that shrank in place (copytruncate) is read
+ * from the start. Date-named logs (`openclaw-2026-03-02.log`) are not
+ * renamed; once a newer `.log` of the same service appears beside the
+ * followed one, the cursor moves on to it. Reads are capped like /logs
+ * queries (LOG_QUERY_MAX_BYTES per file): a cursor that fell further
+ * behind skips ahead to the last whole line inside the cap.
+ *
+ * State file: <workspace>/monitoring/log-cursors.json
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { createLogLineParser, matchesLogQuery, buildGrepPattern, logServiceName, LOG_QUERY_MAX_BYTES } from "./log-query.js";
+import type { LogLevel, LogQuery, ParsedLogLine } from "./log-query.js";
+import { readLinesFrom, isGzipLog, TAIL_CHUNK_SIZE } from "./log-tail.js";
+import { readJournalReverse, readJournalForward } from "./systemd.js";
+import { formatBytes } from "./utils.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Filters given with `--follow` that `/logs more` keeps applying. */
+export interface LogFollowFilters {
+  grep?: string;
+  /** `grep` is a regex (`--regex`) rather than literal text. */
+  regex?: boolean;
+  level?: LogLevel;
+}
+
+interface LogCursorBase {
+  /** Source as typed, e.g. "gateway". */
+  service: string;
+  filters: LogFollowFilters;
+  updatedAt: string;
+}
+
+export interface FileLogCursor extends LogCursorBase {
+  kind: "file";
+  file: string;
+  inode: number;
+  offset: number;
+}
+
+export interface JournalLogCursor extends LogCursorBase {
+  kind: "journal";
+  unit: string;
+  /** Last entry seen; `null` if the journal was empty when following began. */
+  cursor: string | null;
+  /** When following began, used while there is no cursor yet. */
+  sinceMs: number;
+}
+
+export type LogCursor = FileLogCursor | JournalLogCursor;
+
+export interface LogCursorState {
+  /** Session key -> cursor. */
+  cursors: Record<string, LogCursor>;
+}
+
+export interface LogFollowResult {
+  /** New matching lines, oldest first (the newest `lines` of them). */
+  matches: ParsedLogLine[];
+  /** `true` when more new lines matched than were returned. */
+  truncated: boolean;
+  /** Cursor to store for the next read. */
+  cursor: LogCursor;
+  /** Rotation or truncation notices for the user. */
+  notes: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+/** Cursors unused for this long are dropped. */
+const CURSOR_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** Path of the log cursor state file for a workspace. */
+export function logCursorPath(workspace: string): string {
+  return path.join(workspace, "monitoring", "log-cursors.json");
+}
+
+export function loadLogCursors(workspace: string): LogCursorState {
+  try {
+    const st = JSON.parse(fs.readFileSync(logCursorPath(workspace), "utf-8")) as Partial<LogCursorState>;
+    return { cursors: st.cursors && typeof st.cursors === "object" ? st.cursors : {} };
+  } catch {
+    return { cursors: {} };
+  }
+}
+
+/** Save cursors, dropping ones unused for CURSOR_RETENTION_MS. */
+export function saveLogCursors(workspace: string, state: LogCursorState, now = Date.now()): void {
+  for (const [key, cursor] of Object.entries(state.cursors)) {
+    if (now - Date.parse(cursor.updatedAt) > CURSOR_RETENTION_MS) delete state.cursors[key];
+  }
+  const file = logCursorPath(workspace);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(state, null, 2) + "\n", "utf-8");
+}
+
+/** Key identifying the chat session a command came from. */
+export function followSessionKey(ctx: any): string {
+  if (ctx && typeof ctx === "object") {
+    const session = ctx.sessionId ?? ctx.conversationId;
+    if (session) return String(session);
+    const channel = ctx.messageProvider ?? ctx.channel;
+    const from = ctx.from ?? ctx.senderId;
+    if (channel || from) return `${channel ?? ""}:${from ?? ""}`;
+  }
+  return "default";
+}
+
+// ---------------------------------------------------------------------------
+// Starting
+// ---------------------------------------------------------------------------
+
+/** Cursor at the current end of a log file. */
+export function startFileCursor(service: string, file: string, filters: LogFollowFilters): FileLogCursor {
+  const st = fs.statSync(file);
+  return {
+    kind: "file",
+    service,
+    filters,
+    file,
+    inode: st.ino,
+    offset: st.size,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/** Cursor at the newest entry of a unit's journal. */
+export async function startJournalCursor(
+  service: string,
+  unit: string,
+  filters: LogFollowFilters,
+): Promise<JournalLogCursor> {
+  let cursor: string | null = null;
+  for await (const entry of readJournalReverse(unit)) {
+    cursor = entry.cursor;
+    break;
+  }
+  return {
+    kind: "journal",
+    service,
+    filters,
+    unit,
+    cursor,
+    sinceMs: Date.now(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+function statOrNull(file: string): fs.Stats | null {
+  try {
+    return fs.statSync(file);
+  } catch {
+    return null;
+  }
+}
+
+/** Find the file in `dir` that now carries `inode`, i.e. the rotated log. */
+function findByInode(dir: string, inode: number): string | null {
+  try {
+    for (const name of fs.readdirSync(dir)) {
+      const full = path.join(dir, name);
+      if (statOrNull(full)?.ino === inode) return full;
+    }
+  } catch {
+    // directory gone
+  }
+  return null;
+}
+
+/**
+ * Plain `.log` files of the same service beside `file` that were written
+ * after `afterMs`, oldest first: the files a date-named log continued in.
+ */
+function findNewerLogs(file: string, afterMs: number): string[] {
+  const dir = path.dirname(file);
+  const service = logServiceName(file);
+  const newer: { file: string; mtimeMs: number }[] = [];
+  try {
+    for (const name of fs.readdirSync(dir)) {
+      const full = path.join(dir, name);
+      if (full === file || !name.endsWith(".log") || logServiceName(name) !== service) continue;
+      const st = statOrNull(full);
+      if (st?.isFile() && st.mtimeMs > afterMs) newer.push({ file: full, mtimeMs: st.mtimeMs });
+    }
+  } catch {
+    // directory gone
+  }
+  return newer.sort((a, b) => a.mtimeMs - b.mtimeMs).map((n) => n.file);
+}
+
+/** Pattern for a cursor's grep filter; one refused since it was saved falls back to literal text. */
+function followGrep(filters: LogFollowFilters): RegExp {
+  const grep = buildGrepPattern(filters.grep ?? "", { regex: filters.regex });
+  return typeof grep === "string" ? (buildGrepPattern(filters.grep ?? "") as RegExp) : grep;
+}
+
+/** Rebuild the query `/logs more` applies from a cursor's filters. */
+export function followQuery(cursor: LogCursor, lines: number): LogQuery {
+  return {
+    lines,
+    ...(cursor.filters.grep !== undefined ? { grep: followGrep(cursor.filters) } : {}),
+    ...(cursor.filters.level ? { level: cursor.filters.level } : {}),
+  };
+}
+
+/** The first line start at or after `offset` in `file`: `offset` itself, or just past the next newline. */
+function lineStartFrom(file: string, offset: number): number {
+  if (offset === 0) return 0;
+  const fd = fs.openSync(file, "r");
+  try {
+    const buf = Buffer.alloc(TAIL_CHUNK_SIZE);
+    // Start one byte early: a newline right before `offset` means it already starts a line
+    for (let pos = offset - 1; ; pos += buf.length) {
+      const read = fs.readSync(fd, buf, 0, buf.length, pos);
+      if (read === 0) return pos;
+      const idx = buf.subarray(0, read).indexOf(0x0a);
+      if (idx !== -1) return pos + idx + 1;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Read everything written since a cursor, keeping the newest `lines`
+ * matches. The returned cursor points past what was read. No more than
+ * the last `maxBytes` of a file are read; a cursor left behind further
+ * than that skips ahead, with a note.
+ */
+export async function readSinceCursor(cursor: LogCursor, lines: number, maxBytes = LOG_QUERY_MAX_BYTES): Promise<LogFollowResult> {
+  const query = followQuery(cursor, lines);
+  // Ring buffer of the newest `lines` matches; `seen` counts all of them
+  const ring: ParsedLogLine[] = [];
+  let seen = 0;
+  const collect = (line: ParsedLogLine) => {
+    if (!matchesLogQuery(line, query) || lines <= 0) return;
+    ring[seen % lines] = line;
+    seen++;
+  };
+  const result = (next: LogCursor, notes: string[]): LogFollowResult => {
+    const matches: ParsedLogLine[] = [];
+    for (let i = Math.max(0, seen - lines); i < seen; i++) matches.push(ring[i % lines]);
+    return { matches, truncated: seen > lines, cursor: next, notes };
+  };
+  const updatedAt = new Date().toISOString();
+
+  if (cursor.kind === "journal") {
+    let last = cursor.cursor;
+    for await (const entry of readJournalForward(cursor.unit, { afterCursor: cursor.cursor, sinceMs: cursor.sinceMs })) {
+      if (entry.cursor) last = entry.cursor;
+      collect(entry);
+    }
+    return result({ ...cursor, cursor: last, updatedAt }, []);
+  }
+
+  const notes: string[] = [];
+  const readFrom = (file: string, offset: number) => {
+    const parse = createLogLineParser(path.basename(file));
+    const size = statOrNull(file)?.size ?? 0;
+    let start = offset;
+    if (size - offset > maxBytes) {
+      // Skip ahead to the first whole line in the last maxBytes
+      start = lineStartFrom(file, size - maxBytes);
+      notes.push(`Skipped ${formatBytes(start - offset)} of ${path.basename(file)}; /logs more reads at most the last ${formatBytes(maxBytes)}`);
+    }
+    return readLinesFrom(file, start, (raw) => collect(parse(raw)));
+  };
+
+  const st = statOrNull(cursor.file);
+  if (!st || st.ino !== cursor.inode) {
+    // Rotated: finish the old file under its new name first
+    const moved = findByInode(path.dirname(cursor.file), cursor.inode);
+    let movedOffset = cursor.offset;
+    if (moved && !isGzipLog(moved)) {
+      movedOffset = readFrom(moved, cursor.offset);
+    } else {
+      notes.push("Log rotated; lines written just before rotation may be missing");
+    }
+    if (!st) {
+      // No new file yet: stay on the old inode
+      notes.push(`${path.basename(cursor.file)} does not exist (yet)`);
+      return result({ ...cursor, offset: movedOffset, updatedAt }, notes);
+    }
+    if (moved) notes.push(`Log rotated to ${path.basename(moved)}`);
+    const offset = readFrom(cursor.file, 0);
+    return result({ ...cursor, inode: st.ino, offset, updatedAt }, notes);
+  }
+
+  let start = cursor.offset;
+  if (st.size < start) {
+    notes.push("Log was truncated; reading from the start");
+    start = 0;
+  }
+  const offset = readFrom(cursor.file, start);
+
+  // Date-named logs are never renamed; the next day's file just appears beside the old one
+  const newer = findNewerLogs(cursor.file, st.mtimeMs);
+  if (newer.length === 0) return result({ ...cursor, offset, updatedAt }, notes);
+  let next = { file: cursor.file, inode: cursor.inode, offset };
+  for (const file of newer) {
+    const nst = statOrNull(file);
+    if (!nst) continue;
+    next = { file, inode: nst.ino, offset: readFrom(file, 0) };
+  }
+  if (next.file !== cursor.file) notes.push(`Log continued in ${path.basename(next.file)}`);
+  return result({ ...cursor, ...next, updatedAt }, notes);
+}
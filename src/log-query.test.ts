@@ -0,0 +1,306 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import zlib from "node:zlib";
+import {
+  normalizeLogLevel,
+  parseLogLine,
+  parseLogContent,
+  parseTimeBound,
+  buildGrepPattern,
+  listServiceLogFiles,
+  listLogSources,
+  logServiceName,
+  groupLogFilesByService,
+  matchesLogQuery,
+  queryLogs,
+} from "./log-query.js";
+
+const tmpLogs = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-logquery-" + process.pid);
+
+function writeLog(name: string, lines: string[], mtime?: Date) {
+  fs.mkdirSync(tmpLogs, { recursive: true });
+  const file = path.join(tmpLogs, name);
+  fs.writeFileSync(file, lines.join("\n") + "\n");
+  if (mtime) fs.utimesSync(file, mtime, mtime);
+  return file;
+}
+
+afterEach(() => {
+  try { fs.rmSync(tmpLogs, { recursive: true, force: true }); } catch {}
+});
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+describe("normalizeLogLevel", () => {
+  it("maps names and aliases", () => {
+    expect(normalizeLogLevel("WARNING")).toBe("warn");
+    expect(normalizeLogLevel("err")).toBe("error");
+    expect(normalizeLogLevel("bogus")).toBeNull();
+  });
+
+  it("maps pino numeric levels", () => {
+    expect(normalizeLogLevel(50)).toBe("error");
+    expect(normalizeLogLevel(30)).toBe("info");
+    expect(normalizeLogLevel(5)).toBeNull();
+  });
+});
+
+describe("parseLogLine", () => {
+  it("parses ISO timestamps and bracketed levels", () => {
+    expect(parseLogLine("2026-03-01T12:00:00.000Z [ERROR] boom")).toEqual({
+      ts: Date.parse("2026-03-01T12:00:00.000Z"),
+      level: "error",
+    });
+  });
+
+  it("parses bracketed timestamps with a space separator", () => {
+    const { ts, level } = parseLogLine("[2026-03-01 12:00:00] WARN slow");
+    expect(ts).toBe(Date.parse("2026-03-01 12:00:00"));
+    expect(level).toBe("warn");
+  });
+
+  it("parses JSON lines with string or numeric levels", () => {
+    expect(parseLogLine('{"time":"2026-03-01T12:00:00Z","level":"error","msg":"x"}')).toEqual({
+      ts: Date.parse("2026-03-01T12:00:00Z"),
+      level: "error",
+    });
+    expect(parseLogLine('{"time":1772366400000,"level":40,"msg":"x"}')).toEqual({ ts: 1772366400000, level: "warn" });
+  });
+
+  it("returns nulls for plain text", () => {
+    expect(parseLogLine("hello world")).toEqual({ ts: null, level: null });
+  });
+});
+
+describe("parseLogContent", () => {
+  it("lets continuation lines inherit timestamp and level", () => {
+    const lines = parseLogContent(
+      ["2026-03-01T12:00:00Z ERROR failed", "    at run (gw.js:1:1)", "", "2026-03-01T12:01:00Z INFO ok"].join("\n"),
+      "gateway.log",
+    );
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toMatchObject({ level: "error", ts: Date.parse("2026-03-01T12:00:00Z"), file: "gateway.log" });
+    expect(lines[2].level).toBe("info");
+  });
+});
+
+describe("parseTimeBound", () => {
+  const now = Date.parse("2026-03-01T12:00:00Z");
+
+  it("treats durations as relative to now", () => {
+    expect(parseTimeBound("2h", now)).toBe(now - 2 * 3_600_000);
+  });
+
+  it("parses absolute dates", () => {
+    expect(parseTimeBound("2026-02-28T00:00:00Z", now)).toBe(Date.parse("2026-02-28T00:00:00Z"));
+  });
+
+  it("rejects anything else", () => {
+    expect(parseTimeBound("yesterday", now)).toBeNull();
+  });
+});
+
+describe("buildGrepPattern", () => {
+  const pattern = (input: string, opts?: { regex?: boolean }) => buildGrepPattern(input, opts) as RegExp;
+
+  it("matches literal text case-insensitively by default", () => {
+    expect(pattern("Timed Out").test("request TIMED OUT")).toBe(true);
+    expect(pattern("foo(").test("call foo( bar")).toBe(true);
+    expect(pattern("(a+)+$").test("aaaa")).toBe(false);
+  });
+
+  it("builds regexes with --regex", () => {
+    expect(pattern("time(d)? out", { regex: true }).test("TIMED OUT")).toBe(true);
+  });
+
+  it("refuses invalid, overlong and nested-quantifier regexes", () => {
+    expect(buildGrepPattern("foo(", { regex: true })).toMatch(/^Invalid regex: /);
+    expect(buildGrepPattern("a".repeat(201), { regex: true })).toBe("Regex too long (201 characters, max 200)");
+    for (const evil of ["(a+)+$", "(\\w*x)*", "(a|b+){2,}"]) {
+      expect(buildGrepPattern(evil, { regex: true })).toMatch(/^Regex with nested quantifiers refused/);
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Files / query
+// ---------------------------------------------------------------------------
+describe("listServiceLogFiles", () => {
+  it("includes rotated and compressed files newest first", () => {
+    writeLog("gateway.log.1", ["a"], new Date(Date.now() - 3_600_000));
+    writeLog("gateway.log", ["b"]);
+    writeLog("gateway.log.2.gz", ["c"], new Date(Date.now() - 7_200_000));
+    writeLog("my-plugin.log", ["d"]);
+    expect(listServiceLogFiles(tmpLogs, "gateway").map((f) => path.basename(f))).toEqual([
+      "gateway.log",
+      "gateway.log.1",
+      "gateway.log.2.gz",
+    ]);
+    expect(listServiceLogFiles(tmpLogs, "my-plugin").map((f) => path.basename(f))).toEqual(["my-plugin.log"]);
+  });
+
+  it("returns an empty list for a missing directory", () => {
+    expect(listServiceLogFiles(path.join(tmpLogs, "missing"), "gateway")).toEqual([]);
+  });
+});
+
+describe("matchesLogQuery", () => {
+  const line = { raw: "ERROR db timeout", ts: 1000, level: "error" as const, file: "gateway.log" };
+
+  it("applies minimum level, time range and grep", () => {
+    expect(matchesLogQuery(line, { lines: 10, level: "warn" })).toBe(true);
+    expect(matchesLogQuery(line, { lines: 10, level: "fatal" })).toBe(false);
+    expect(matchesLogQuery(line, { lines: 10, sinceMs: 2000 })).toBe(false);
+    expect(matchesLogQuery(line, { lines: 10, untilMs: 500 })).toBe(false);
+    expect(matchesLogQuery(line, { lines: 10, grep: /timeout/i })).toBe(true);
+  });
+
+  it("excludes lines without a level or timestamp from those filters", () => {
+    const bare = { raw: "x", ts: null, level: null, file: "f" };
+    expect(matchesLogQuery(bare, { lines: 10, level: "info" })).toBe(false);
+    expect(matchesLogQuery(bare, { lines: 10, sinceMs: 0 })).toBe(false);
+  });
+});
+
+describe("logServiceName / listLogSources / groupLogFilesByService", () => {
+  it("strips rotation suffixes", () => {
+    expect(logServiceName("gateway.log")).toBe("gateway");
+    expect(logServiceName("gateway.log.2.gz")).toBe("gateway");
+    expect(logServiceName("gateway-2026-03-01.log")).toBe("gateway");
+    expect(logServiceName("my-plugin.log.1")).toBe("my-plugin");
+  });
+
+  it("groups files per service", () => {
+    writeLog("gateway.log", ["a"]);
+    writeLog("gateway.log.1", ["bb"]);
+    writeLog("my-plugin.log", ["c"]);
+    const sources = listLogSources(tmpLogs);
+    expect(sources.map((s) => [s.service, s.files])).toEqual([["gateway", 2], ["my-plugin", 1]]);
+    expect(sources[0].bytes).toBe(5);
+    expect(listLogSources(path.join(tmpLogs, "missing"))).toEqual([]);
+  });
+
+  it("splits a file list per service, keeping its order", () => {
+    expect(groupLogFilesByService(["/l/gateway.log", "/l/foo.log", "/l/gateway.log.1", "/l/foo-2026-03-01.log"])).toEqual([
+      ["/l/gateway.log", "/l/gateway.log.1"],
+      ["/l/foo.log", "/l/foo-2026-03-01.log"],
+    ]);
+  });
+});
+
+describe("queryLogs", () => {
+  it("searches across rotated files and returns lines oldest first", async () => {
+    const older = writeLog("gateway.log.1", [
+      "2026-03-01T10:00:00Z ERROR old failure",
+      "2026-03-01T10:05:00Z INFO fine",
+    ], new Date(Date.now() - 3_600_000));
+    const newer = writeLog("gateway.log", [
+      "2026-03-01T11:00:00Z ERROR new failure",
+      "2026-03-01T11:05:00Z INFO fine",
+    ]);
+    const result = await queryLogs([newer, older], { lines: 10, level: "error" });
+    expect(result.matches.map((m) => m.raw)).toEqual([
+      "2026-03-01T10:00:00Z ERROR old failure",
+      "2026-03-01T11:00:00Z ERROR new failure",
+    ]);
+    expect(result.files).toEqual([newer, older]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it("stops at the line limit and flags truncation", async () => {
+    const file = writeLog("gateway.log", ["one", "two", "three"]);
+    const result = await queryLogs([file], { lines: 2 });
+    expect(result.matches.map((m) => m.raw)).toEqual(["two", "three"]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("skips files last written before --since", async () => {
+    const old = writeLog("gateway.log.1", ["2020-01-01T00:00:00Z ERROR ancient"], new Date("2020-01-01T00:00:00Z"));
+    const result = await queryLogs([old], { lines: 10, sinceMs: Date.parse("2025-01-01T00:00:00Z") });
+    expect(result.files).toEqual([]);
+    expect(result.matches).toEqual([]);
+  });
+
+  it("stops reading at the first line older than --since", async () => {
+    const newer = writeLog("gateway.log", [
+      "2026-03-01T09:00:00Z ERROR before the window",
+      "2026-03-01T11:00:00Z ERROR inside the window",
+    ]);
+    const older = writeLog("gateway.log.1", ["2026-03-01T08:00:00Z ERROR older file"]);
+    const result = await queryLogs([newer, older], { lines: 10, sinceMs: Date.parse("2026-03-01T10:00:00Z") });
+    expect(result.matches.map((m) => m.raw)).toEqual(["2026-03-01T11:00:00Z ERROR inside the window"]);
+    // The older file is not opened once the window has been passed
+    expect(result.files).toEqual([newer]);
+  });
+
+  it("keeps reading other services after one has passed --since", async () => {
+    const now = Date.now();
+    const iso = (hoursAgo: number) => new Date(now - hoursAgo * 3_600_000).toISOString();
+    const gateway = writeLog("gateway.log", Array.from({ length: 48 }, (_, i) => `${iso(48 - i)} INFO tick`));
+    const rotated = writeLog("gateway.log.1", [`${iso(50)} ERROR older gateway file`]);
+    const plugin = writeLog("openclaw-foo.log", [`${iso(1)} ERROR foo broke`], new Date(now - 3_600_000));
+    const result = await queryLogs([gateway, rotated, plugin], { lines: 10, level: "error", sinceMs: now - 2 * 3_600_000 });
+    expect(result.matches.map((m) => m.raw)).toEqual([`${iso(1)} ERROR foo broke`]);
+    expect(result.files).toEqual([gateway, plugin]);
+  });
+
+  it("reads no further back than maxBytes and says so", async () => {
+    const file = writeLog("gateway.log", ["2026-03-01T10:00:00Z ERROR far back", ...Array(50).fill("2026-03-01T11:00:00Z INFO filler")]);
+    const result = await queryLogs([file], { lines: 100, level: "error", maxBytes: 512 });
+    expect(result.matches).toEqual([]);
+    expect(result.capped).toBe(true);
+    expect((await queryLogs([file], { lines: 100, level: "error" })).capped).toBeUndefined();
+  });
+
+  it("keeps continuation lines with their header when reading backwards", async () => {
+    const file = writeLog("gateway.log", [
+      "2026-03-01T11:00:00Z ERROR boom",
+      "    at handler (index.js:1)",
+      "    at main (index.js:2)",
+      "2026-03-01T11:05:00Z INFO fine",
+    ]);
+    const result = await queryLogs([file], { lines: 10, level: "error" });
+    expect(result.matches.map((m) => m.raw)).toEqual([
+      "2026-03-01T11:00:00Z ERROR boom",
+      "    at handler (index.js:1)",
+      "    at main (index.js:2)",
+    ]);
+  });
+
+  it("reads gzip-rotated files", async () => {
+    fs.mkdirSync(tmpLogs, { recursive: true });
+    const gz = path.join(tmpLogs, "gateway.log.2.gz");
+    const lines = ["2026-03-01T09:00:00Z ERROR one", "2026-03-01T09:01:00Z ERROR two", "2026-03-01T09:02:00Z ERROR three"];
+    fs.writeFileSync(gz, zlib.gzipSync(lines.join("\n") + "\n"));
+    expect(listServiceLogFiles(tmpLogs, "gateway")).toEqual([gz]);
+
+    const all = await queryLogs([gz], { lines: 10, level: "error" });
+    expect(all.matches.map((m) => m.raw)).toEqual(lines);
+    expect(all.truncated).toBe(false);
+
+    const tail = await queryLogs([gz], { lines: 2 });
+    expect(tail.matches.map((m) => m.raw)).toEqual(lines.slice(1));
+    expect(tail.truncated).toBe(true);
+  });
+
+  it("keeps the newest matches of a large gzip file in order", async () => {
+    fs.mkdirSync(tmpLogs, { recursive: true });
+    const gz = path.join(tmpLogs, "gateway.log.1.gz");
+    const lines = Array.from({ length: 5000 }, (_, i) => `2026-03-01T09:00:00Z INFO line ${i}`);
+    fs.writeFileSync(gz, zlib.gzipSync(lines.join("\n") + "\n"));
+
+    const result = await queryLogs([gz], { lines: 3 });
+    expect(result.matches.map((m) => m.raw)).toEqual(lines.slice(-3));
+    expect(result.truncated).toBe(true);
+  });
+
+  it("skips corrupt gzip files", async () => {
+    const bad = writeLog("gateway.log.3.gz", ["not gzip"]);
+    const result = await queryLogs([bad], { lines: 10 });
+    expect(result.files).toEqual([]);
+    expect(result.matches).toEqual([]);
+  });
+});
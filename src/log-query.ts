@@ -0,0 +1,430 @@
+/**
+ * Log query engine for /logs.
+ *
+ * Parses timestamps and levels out of gateway and plugin log lines, then
+ * filters them by pattern, minimum level, and time range. Queries search the
+ * service's rotated files too (`gateway.log.1`, `gateway-2026-03-01.log`,
+ * `gateway.log.2.gz`), newest first, until enough matching lines are found.
+ * Plain files are read backwards in chunks (see log-tail.ts), so only the
+ * tail that is actually needed is loaded: reading stops at the first line
+ * older than `--since`, and never goes further back than
+ * LOG_QUERY_MAX_BYTES per file.
+ *
+ * Supported line shapes:
+ *   2026-03-01T12:00:00.000Z [ERROR] message
+ *   [2026-03-01 12:00:00] WARN message
+ *   {"time":"2026-03-01T12:00:00Z","level":"error","msg":"..."}
+ *   {"time":1772366400000,"level":50,"msg":"..."}          (pino)
+ *
+ * Lines without their own timestamp (stack traces, wrapped output) inherit
+ * the timestamp, and unless they name one the level, of the line before.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { parseDuration } from "./utils.js";
+import { readLinesReverse, readLinesForward, isGzipLog } from "./log-tail.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "fatal";
+
+export const LOG_LEVELS: LogLevel[] = ["trace", "debug", "info", "warn", "error", "fatal"];
+
+export interface ParsedLogLine {
+  raw: string;
+  /** Epoch ms, or `null` when neither this line nor a previous one had one. */
+  ts: number | null;
+  level: LogLevel | null;
+  /** Base name of the file the line came from. */
+  file: string;
+}
+
+export interface LogQuery {
+  /** Case-insensitive pattern; matched against the raw line. */
+  grep?: RegExp;
+  /** Minimum level, e.g. "warn" matches warn, error and fatal. */
+  level?: LogLevel;
+  sinceMs?: number;
+  untilMs?: number;
+  /** Maximum number of lines to return (the most recent ones). */
+  lines: number;
+  /** How far back to read each plain file, in bytes (default LOG_QUERY_MAX_BYTES). */
+  maxBytes?: number;
+}
+
+/** A service's log files in one log directory, for the /logs source list. */
+export interface LogSource {
+  service: string;
+  files: number;
+  bytes: number;
+  lastWriteMs: number;
+}
+
+export interface LogQueryResult {
+  /** Files that were read, newest first. */
+  files: string[];
+  /** Matching lines, oldest first. */
+  matches: ParsedLogLine[];
+  /** `true` when more lines matched than `lines`. */
+  truncated: boolean;
+  /** `true` when a file was only searched back to the byte limit. */
+  capped?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  trace: "trace",
+  debug: "debug",
+  info: "info",
+  warn: "warn",
+  warning: "warn",
+  err: "error",
+  error: "error",
+  fatal: "fatal",
+  crit: "fatal",
+  critical: "fatal",
+};
+
+/** pino numeric levels. */
+const NUMERIC_LEVELS: Array<[number, LogLevel]> = [
+  [60, "fatal"],
+  [50, "error"],
+  [40, "warn"],
+  [30, "info"],
+  [20, "debug"],
+  [10, "trace"],
+];
+
+const TIMESTAMP_RE = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)\]?/;
+const LEVEL_RE = /\b(TRACE|DEBUG|INFO|WARN(?:ING)?|ERR(?:OR)?|FATAL|CRIT(?:ICAL)?)\b/i;
+
+/** Normalise a level name or pino number. Returns null if unrecognised. */
+export function normalizeLogLevel(value: unknown): LogLevel | null {
+  if (typeof value === "number") {
+    for (const [min, level] of NUMERIC_LEVELS) if (value >= min) return level;
+    return null;
+  }
+  if (typeof value !== "string") return null;
+  return LEVEL_ALIASES[value.toLowerCase()] ?? null;
+}
+
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === "number") return value > 1e12 ? value : value * 1000;
+  if (typeof value !== "string") return null;
+  const ms = Date.parse(value.replace(",", "."));
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Parse timestamp and level from a single line. Returns `null` for fields
+ * the line does not carry itself.
+ */
+export function parseLogLine(raw: string): { ts: number | null; level: LogLevel | null } {
+  const trimmed = raw.trim();
+
+  if (trimmed.startsWith("{")) {
+    try {
+      const obj = JSON.parse(trimmed) as Record<string, unknown>;
+      return {
+        ts: parseTimestamp(obj.time ?? obj.ts ?? obj.timestamp),
+        level: normalizeLogLevel(obj.level ?? obj.severity),
+      };
+    } catch {
+      // not JSON, fall through
+    }
+  }
+
+  const tsMatch = trimmed.match(TIMESTAMP_RE);
+  const levelMatch = trimmed.match(LEVEL_RE);
+  return {
+    ts: tsMatch ? parseTimestamp(tsMatch[1]) : null,
+    level: levelMatch ? normalizeLogLevel(levelMatch[1]) : null,
+  };
+}
+
+/**
+ * Create a parser for consecutive lines of one file, in file order. Lines
+ * without a timestamp of their own inherit timestamp and level from the
+ * previous line.
+ */
+export function createLogLineParser(file: string): (raw: string) => ParsedLogLine {
+  let ts: number | null = null;
+  let level: LogLevel | null = null;
+  return (raw) => {
+    const parsed = parseLogLine(raw);
+    if (parsed.ts !== null) {
+      ts = parsed.ts;
+      level = parsed.level;
+    } else if (parsed.level !== null) {
+      // Untimestamped formats still carry their own level
+      level = parsed.level;
+    }
+    return { raw, ts, level, file };
+  };
+}
+
+/** Parse a whole file's contents into lines (see createLogLineParser). */
+export function parseLogContent(content: string, file: string): ParsedLogLine[] {
+  const parse = createLogLineParser(file);
+  return content.split("\n").filter((raw) => raw.trim()).map(parse);
+}
+
+/**
+ * Parse a `--since` / `--until` bound: a duration back from now (`2h`, `30m`)
+ * or an absolute date/time (`2026-03-01`, `2026-03-01T12:00`).
+ */
+export function parseTimeBound(input: string, now = Date.now()): number | null {
+  const duration = parseDuration(input);
+  if (duration !== null) return now - duration;
+  if (!/^\d{4}-\d{2}-\d{2}/.test(input)) return null;
+  const ms = Date.parse(input);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/** Longest pattern `--regex` accepts. */
+export const MAX_GREP_PATTERN_LENGTH = 200;
+
+/**
+ * A quantified group that itself contains a quantifier, e.g. `(a+)+` or
+ * `(\w*x){2,}`: the shape behind catastrophic backtracking.
+ */
+const NESTED_QUANTIFIER_RE = /\((?:[^()\\]|\\.)*(?:[+*]|\{\d+,?\d*\})(?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,?\d*\})/;
+
+/**
+ * Build a case-insensitive pattern from user input. The input is matched
+ * literally unless `regex` is set; patterns run against every line inside
+ * the gateway process, so regexes longer than MAX_GREP_PATTERN_LENGTH or
+ * with nested quantifiers are refused. Returns an error message for
+ * patterns that are refused or invalid.
+ */
+export function buildGrepPattern(input: string, opts: { regex?: boolean } = {}): RegExp | string {
+  if (!opts.regex) return new RegExp(input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+  if (input.length > MAX_GREP_PATTERN_LENGTH) {
+    return `Regex too long (${input.length} characters, max ${MAX_GREP_PATTERN_LENGTH})`;
+  }
+  if (NESTED_QUANTIFIER_RE.test(input)) {
+    return `Regex with nested quantifiers refused: ${input} (it could stall the gateway; drop --regex to match literally)`;
+  }
+  try {
+    return new RegExp(input, "i");
+  } catch (err: any) {
+    return `Invalid regex: ${err?.message ?? input}`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+/**
+ * Log files for a service in `logDir`, newest first by mtime, including
+ * rotated ones. `gateway` matches files starting with "gateway"; any other
+ * service matches files containing its name.
+ */
+export function listServiceLogFiles(logDir: string, service: string): string[] {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(logDir);
+  } catch {
+    return [];
+  }
+  return entries
+    .filter((f) => (service === "gateway" ? f.startsWith("gateway") : f.includes(service)))
+    .map((f) => {
+      const full = path.join(logDir, f);
+      try {
+        const st = fs.statSync(full);
+        return st.isFile() ? { full, mtimeMs: st.mtimeMs } : null;
+      } catch {
+        return null;
+      }
+    })
+    .filter((f): f is { full: string; mtimeMs: number } => f !== null)
+    .sort((a, b) => b.mtimeMs - a.mtimeMs)
+    .map((f) => f.full);
+}
+
+/**
+ * Service a log file belongs to: the name without rotation suffixes, e.g.
+ * `gateway.log.2.gz` and `gateway-2026-03-01.log` are both `gateway`.
+ */
+export function logServiceName(file: string): string {
+  return path
+    .basename(file)
+    .replace(/\.gz$/, "")
+    .replace(/\.log(\.\d+)?$/, "")
+    .replace(/[-_.]?\d{4}-\d{2}-\d{2}.*$/, "");
+}
+
+/**
+ * Split a file list by `logServiceName`, keeping the given order within
+ * each service. `queryLogs` reads one service's rotation set at a time.
+ */
+export function groupLogFilesByService(files: string[]): string[][] {
+  const groups = new Map<string, string[]>();
+  for (const file of files) {
+    const service = logServiceName(file);
+    groups.set(service, [...(groups.get(service) ?? []), file]);
+  }
+  return [...groups.values()];
+}
+
+/** Services with log files in `logDir`, by name. */
+export function listLogSources(logDir: string): LogSource[] {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(logDir);
+  } catch {
+    return [];
+  }
+  const sources = new Map<string, LogSource>();
+  for (const name of entries) {
+    let st: fs.Stats;
+    try {
+      st = fs.statSync(path.join(logDir, name));
+    } catch {
+      continue;
+    }
+    if (!st.isFile()) continue;
+    const service = logServiceName(name) || name;
+    const source = sources.get(service) ?? { service, files: 0, bytes: 0, lastWriteMs: 0 };
+    source.files++;
+    source.bytes += st.size;
+    source.lastWriteMs = Math.max(source.lastWriteMs, st.mtimeMs);
+    sources.set(service, source);
+  }
+  return [...sources.values()].sort((a, b) => a.service.localeCompare(b.service));
+}
+
+// ---------------------------------------------------------------------------
+// Query
+// ---------------------------------------------------------------------------
+
+/** Whether a parsed line passes the query's filters. */
+export function matchesLogQuery(line: ParsedLogLine, query: LogQuery): boolean {
+  if (query.level) {
+    if (!line.level || LOG_LEVELS.indexOf(line.level) < LOG_LEVELS.indexOf(query.level)) return false;
+  }
+  if (query.sinceMs !== undefined && (line.ts === null || line.ts < query.sinceMs)) return false;
+  if (query.untilMs !== undefined && (line.ts === null || line.ts > query.untilMs)) return false;
+  if (query.grep && !query.grep.test(line.raw)) return false;
+  return true;
+}
+
+/** How far back a query reads each plain file; a query runs in the gateway process. */
+export const LOG_QUERY_MAX_BYTES = 64 * 1024 * 1024;
+
+/** Untimestamped lines buffered while reading backwards before giving up on a header. */
+const MAX_CONTINUATION_LINES = 1000;
+
+/**
+ * Yield parsed lines of a plain file, last first. Continuation lines are
+ * seen before the line they belong to, so they are held back until that
+ * line turns up and then parsed in file order to inherit its fields.
+ */
+function* parsedLinesReverse(file: string, maxBytes: number): Generator<ParsedLogLine> {
+  const name = path.basename(file);
+  // Continuation lines in reverse file order
+  let pending: string[] = [];
+
+  function* flush(header: string | null): Generator<ParsedLogLine> {
+    const parse = createLogLineParser(name);
+    const group = header !== null ? [header, ...pending.reverse()] : pending.reverse();
+    pending = [];
+    const parsed = group.map(parse);
+    for (let i = parsed.length - 1; i >= 0; i--) yield parsed[i];
+  }
+
+  for (const raw of readLinesReverse(file, { maxBytes })) {
+    if (parseLogLine(raw).ts === null) {
+      pending.push(raw);
+      if (pending.length >= MAX_CONTINUATION_LINES) yield* flush(null);
+      continue;
+    }
+    yield* flush(raw);
+  }
+  yield* flush(null);
+}
+
+/**
+ * Run a query over a service's log files, newest file first, stopping once
+ * `query.lines` matches are collected. Files last written before `sinceMs`
+ * are skipped without being read, and a plain file is read back only to its
+ * first line older than `sinceMs`. That also skips the older files of the
+ * same service (by `logServiceName`), which hold older lines still; files
+ * of other services are still read. Gzip files are streamed forwards
+ * keeping only the newest `query.lines` matches in memory.
+ */
+export async function queryLogs(files: string[], query: LogQuery): Promise<LogQueryResult> {
+  const searched: string[] = [];
+  // Collected newest first, reversed at the end
+  const collected: ParsedLogLine[] = [];
+  let truncated = false;
+  let capped = false;
+  // Services whose files have been read back past sinceMs
+  const reachedSince = new Set<string>();
+  const maxBytes = query.maxBytes ?? LOG_QUERY_MAX_BYTES;
+
+  for (const file of files) {
+    if (reachedSince.has(logServiceName(file))) continue;
+    if (query.sinceMs !== undefined) {
+      try {
+        if (fs.statSync(file).mtimeMs < query.sinceMs) continue;
+      } catch {
+        continue;
+      }
+    }
+
+    const remaining = query.lines - collected.length;
+    try {
+      if (isGzipLog(file)) {
+        const parse = createLogLineParser(path.basename(file));
+        // Ring buffer of the newest `remaining` matches; `seen` counts all of them
+        const ring: ParsedLogLine[] = [];
+        let seen = 0;
+        for await (const raw of readLinesForward(file)) {
+          const line = parse(raw);
+          if (!matchesLogQuery(line, query)) continue;
+          if (remaining === 0) {
+            truncated = true;
+            break;
+          }
+          ring[seen % remaining] = line;
+          seen++;
+        }
+        if (seen > remaining) truncated = true;
+        for (let i = seen - 1; i >= Math.max(0, seen - remaining); i--) collected.push(ring[i % remaining]);
+      } else {
+        let stopped = false;
+        for (const line of parsedLinesReverse(file, maxBytes)) {
+          // Newest first: everything further back is older still
+          if (query.sinceMs !== undefined && line.ts !== null && line.ts < query.sinceMs) {
+            reachedSince.add(logServiceName(file));
+            stopped = true;
+            break;
+          }
+          if (!matchesLogQuery(line, query)) continue;
+          if (collected.length >= query.lines) {
+            truncated = stopped = true;
+            break;
+          }
+          collected.push(line);
+        }
+        if (!stopped && fs.statSync(file).size > maxBytes) capped = true;
+      }
+    } catch {
+      // unreadable or corrupt file
+      continue;
+    }
+    searched.push(file);
+    if (truncated) break;
+  }
+
+  return { files: searched, matches: collected.reverse(), truncated, ...(capped ? { capped } : {}) };
+}
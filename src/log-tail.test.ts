@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import zlib from "node:zlib";
+import { readLinesReverse, readLinesForward, readLinesFrom, isGzipLog } from "./log-tail.js";
+
+const tmpDir = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-logtail-" + process.pid);
+
+function writeFile(name: string, content: string | Buffer) {
+  fs.mkdirSync(tmpDir, { recursive: true });
+  const file = path.join(tmpDir, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+afterEach(() => {
+  try { fs.rmSync(tmpDir, { recursive: true, force: true }); } catch {}
+});
+
+describe("readLinesReverse", () => {
+  it("yields lines last first, skipping blank ones", () => {
+    const file = writeFile("a.log", "one\ntwo\n\nthree\n");
+    expect([...readLinesReverse(file)]).toEqual(["three", "two", "one"]);
+  });
+
+  it("handles lines spanning several small chunks", () => {
+    const lines = Array.from({ length: 50 }, (_, i) => `line ${i} ${"x".repeat(i)}`);
+    const file = writeFile("b.log", lines.join("\n"));
+    expect([...readLinesReverse(file, { chunkSize: 7 })]).toEqual([...lines].reverse());
+  });
+
+  it("keeps multibyte characters split across chunks intact", () => {
+    const file = writeFile("c.log", "grüße ✓\nüber 🚀\n");
+    expect([...readLinesReverse(file, { chunkSize: 3 })]).toEqual(["über 🚀", "grüße ✓"]);
+  });
+
+  it("strips carriage returns", () => {
+    const file = writeFile("d.log", "one\r\ntwo\r\n");
+    expect([...readLinesReverse(file)]).toEqual(["two", "one"]);
+  });
+
+  it("stops after maxBytes and drops the cut-off line", () => {
+    const file = writeFile("e.log", "aaaa\nbbbb\ncccc\n");
+    expect([...readLinesReverse(file, { maxBytes: 8, chunkSize: 4 })]).toEqual(["cccc"]);
+  });
+
+  it("reads only what the caller consumes", () => {
+    const file = writeFile("f.log", "old\n".repeat(1000) + "newest\n");
+    const it = readLinesReverse(file, { chunkSize: 16 });
+    expect(it.next().value).toBe("newest");
+    it.return(undefined);
+  });
+
+  it("yields nothing for an empty file", () => {
+    const file = writeFile("g.log", "");
+    expect([...readLinesReverse(file)]).toEqual([]);
+  });
+});
+
+describe("readLinesFrom", () => {
+  it("reads complete lines from an offset and returns where it stopped", () => {
+    const file = writeFile("a.log", "skip\nkeep ✓\r\n\nlast\npartial");
+    const lines: string[] = [];
+    const end = readLinesFrom(file, 5, (l) => lines.push(l), 4);
+    expect(lines).toEqual(["keep ✓", "last"]);
+    expect(end).toBe(fs.statSync(file).size - "partial".length);
+  });
+
+  it("returns the start offset when nothing new was written", () => {
+    const file = writeFile("b.log", "one\n");
+    expect(readLinesFrom(file, 4, () => {})).toBe(4);
+  });
+});
+
+describe("readLinesForward", () => {
+  async function collect(file: string) {
+    const out: string[] = [];
+    for await (const line of readLinesForward(file)) out.push(line);
+    return out;
+  }
+
+  it("reads plain files in order", async () => {
+    const file = writeFile("a.log", "one\n\ntwo\n");
+    expect(await collect(file)).toEqual(["one", "two"]);
+  });
+
+  it("decompresses gzip files", async () => {
+    const file = writeFile("a.log.1.gz", zlib.gzipSync("one\ntwo\r\nthree\n"));
+    expect(isGzipLog(file)).toBe(true);
+    expect(await collect(file)).toEqual(["one", "two", "three"]);
+  });
+
+  it("rejects corrupt gzip files", async () => {
+    const file = writeFile("bad.log.gz", "not gzip");
+    await expect(collect(file)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Memory-efficient log readers shared by /logs and /health.
+ *
+ * readLinesReverse() walks a plain log file backwards from the end in fixed
+ * size chunks, so finding the last N lines (or the last error) costs about
+ * as much as those lines, not the whole file. Gzip-rotated logs cannot be
+ * read backwards; readLinesForward() streams them through gunzip instead so
+ * callers can keep a bounded window of lines in memory. readLinesFrom()
+ * picks up where an earlier read stopped, for `/logs --follow`.
+ */
+
+import fs from "node:fs";
+import zlib from "node:zlib";
+import readline from "node:readline";
+
+/** Bytes read per step when walking a file backwards. */
+export const TAIL_CHUNK_SIZE = 64 * 1024;
+
+/** Whether a log file is gzip-compressed (by extension). */
+export function isGzipLog(file: string): boolean {
+  return file.endsWith(".gz");
+}
+
+/**
+ * Yield the non-empty lines of an uncompressed file, last line first.
+ * Stops after `maxBytes` bytes from the end when given; a line cut off at
+ * that boundary is not yielded. Breaking out of the loop closes the file.
+ */
+export function* readLinesReverse(
+  file: string,
+  opts: { chunkSize?: number; maxBytes?: number } = {},
+): Generator<string> {
+  const chunkSize = opts.chunkSize ?? TAIL_CHUNK_SIZE;
+  const fd = fs.openSync(file, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    const stopAt = opts.maxBytes !== undefined ? Math.max(0, size - opts.maxBytes) : 0;
+    let pos = size;
+    // Bytes of a line that started in an earlier (lower) chunk
+    let partial = Buffer.alloc(0);
+
+    while (pos > stopAt) {
+      const length = Math.min(chunkSize, pos - stopAt);
+      pos -= length;
+      const chunk = Buffer.alloc(length);
+      fs.readSync(fd, chunk, 0, length, pos);
+
+      const buf = partial.length > 0 ? Buffer.concat([chunk, partial]) : chunk;
+      let end = buf.length;
+      for (let i = buf.length - 1; i >= 0; i--) {
+        if (buf[i] !== 0x0a) continue;
+        const line = buf.toString("utf-8", i + 1, end).replace(/\r$/, "");
+        if (line.trim()) yield line;
+        end = i;
+      }
+      partial = buf.subarray(0, end);
+    }
+
+    // The first line of the file (only complete if we reached the start)
+    if (pos === 0 && partial.length > 0) {
+      const line = partial.toString("utf-8").replace(/\r$/, "");
+      if (line.trim()) yield line;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Read the complete lines of a plain file from byte offset `start` to its
+ * current end, calling `onLine` for each non-empty one. Returns the offset
+ * just past the last complete line, so a line still being written is
+ * picked up by the next read.
+ */
+export function readLinesFrom(
+  file: string,
+  start: number,
+  onLine: (line: string) => void,
+  chunkSize = TAIL_CHUNK_SIZE,
+): number {
+  const fd = fs.openSync(file, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    let pos = start;
+    let consumed = start;
+    // Bytes of a line that continues into the next chunk
+    let partial = Buffer.alloc(0);
+
+    while (pos < size) {
+      const chunk = Buffer.alloc(Math.min(chunkSize, size - pos));
+      const read = fs.readSync(fd, chunk, 0, chunk.length, pos);
+      if (read === 0) break;
+      pos += read;
+
+      const buf = partial.length > 0 ? Buffer.concat([partial, chunk.subarray(0, read)]) : chunk.subarray(0, read);
+      let lineStart = 0;
+      for (let i = 0; i < buf.length; i++) {
+        if (buf[i] !== 0x0a) continue;
+        const line = buf.toString("utf-8", lineStart, i).replace(/\r$/, "");
+        if (line.trim()) onLine(line);
+        lineStart = i + 1;
+      }
+      partial = buf.subarray(lineStart);
+      consumed = pos - partial.length;
+    }
+    return consumed;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Yield the non-empty lines of a file in order, decompressing `.gz` files
+ * on the fly. Breaking out of the loop closes the stream.
+ */
+export async function* readLinesForward(file: string): AsyncGenerator<string> {
+  const source = fs.createReadStream(file);
+  const input = isGzipLog(file) ? source.pipe(zlib.createGunzip()) : source;
+  const rl = readline.createInterface({ input, crlfDelay: Infinity });
+  try {
+    for await (const line of rl) {
+      if (line.trim()) yield line;
+    }
+  } finally {
+    rl.close();
+    source.destroy();
+  }
+}
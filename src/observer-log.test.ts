@@ -0,0 +1,54 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { observerLogPath, openEventLog, readEventLog, appendEvent, readMemoryFiles } from "./observer-log.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-observer-log-" + process.pid);
+
+afterEach(() => {
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+});
+
+describe("event log", () => {
+  it("appends and reads entries, skipping malformed lines", () => {
+    const logPath = openEventLog(path.join(tmpWorkspace, "observer"));
+    expect(logPath).toBe(observerLogPath(tmpWorkspace));
+    appendEvent(logPath, { ts: "2026-03-01T10:00:00Z", type: "message", sessionId: "s1", preview: "hi" });
+    fs.appendFileSync(logPath, "not json\n");
+    appendEvent(logPath, { ts: "2026-03-01T10:01:00Z", type: "command", sessionId: "s1", command: "health" });
+    expect(readEventLog(logPath).map((e) => e.type)).toEqual(["message", "command"]);
+  });
+
+  it("returns nothing for a missing log", () => {
+    expect(readEventLog(observerLogPath(tmpWorkspace))).toEqual([]);
+  });
+});
+
+describe("readMemoryFiles", () => {
+  it("maps memory items to memory_write events", () => {
+    fs.mkdirSync(path.join(tmpWorkspace, "memory"), { recursive: true });
+    const item = {
+      id: "m1",
+      kind: "fact",
+      text: "remember this",
+      createdAt: "2026-03-01T10:00:00Z",
+      tags: ["openclaw-brain"],
+      source: { channel: "telegram", conversationId: "c1" },
+    };
+    fs.writeFileSync(path.join(tmpWorkspace, "memory", "brain.jsonl"), JSON.stringify({ item }) + "\n{}\n");
+    expect(readMemoryFiles(tmpWorkspace)).toEqual([
+      {
+        ts: "2026-03-01T10:00:00Z",
+        type: "memory_write",
+        sessionId: "c1",
+        from: undefined,
+        channel: "telegram",
+        memoryId: "m1",
+        memoryKind: "fact",
+        tags: ["openclaw-brain"],
+        preview: "remember this",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  planAllowChange,
+  readProfileAllowList,
+  writeAllowList,
+  loadAllowHistory,
+  saveAllowHistory,
+  lastSnapshot,
+  formatAllowList,
+  removesOpsPlugin,
+  OPS_PLUGIN_ID,
+} from "./plugin-allow.js";
+import type { AllowSnapshot } from "./plugin-allow.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-plugin-allow-" + process.pid);
+const profile = "ops-test-plugin-allow-" + process.pid;
+const stateDir = path.join(os.homedir(), `.openclaw-${profile}`);
+
+afterEach(() => {
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+  try { fs.rmSync(stateDir, { recursive: true, force: true }); } catch {}
+});
+
+function snapshot(profileName: string, plugin: string): AllowSnapshot {
+  return { ts: "2026-03-01T10:00:00Z", profile: profileName, action: "enable", plugin, previous: ["a"], next: ["a", plugin] };
+}
+
+describe("planAllowChange", () => {
+  it("appends on enable and removes on disable, keeping order", () => {
+    expect(planAllowChange(["a", "b"], "enable", "c")).toEqual({ ok: true, changed: true, next: ["a", "b", "c"], note: "add c" });
+    expect(planAllowChange(["a", "b", "c"], "disable", "b")).toEqual({ ok: true, changed: true, next: ["a", "c"], note: "remove b" });
+  });
+
+  it("is a no-op when the list already says so", () => {
+    expect(planAllowChange(["a"], "enable", "a")).toMatchObject({ ok: true, changed: false });
+    expect(planAllowChange(["a"], "disable", "b")).toMatchObject({ ok: true, changed: false });
+    expect(planAllowChange(null, "enable", "a")).toMatchObject({ ok: true, changed: false, next: null });
+  });
+
+  it("refuses to disable without an allowlist and rejects odd ids", () => {
+    expect(planAllowChange(null, "disable", "a")).toMatchObject({ ok: false });
+    expect(planAllowChange(["a"], "enable", "-rf")).toEqual({ ok: false, error: "Invalid plugin id: -rf" });
+    expect(planAllowChange(["a"], "enable", "@scope/openclaw-x")).toMatchObject({ ok: true, changed: true });
+  });
+});
+
+describe("removesOpsPlugin", () => {
+  it("is true only when the change takes this plugin out", () => {
+    expect(removesOpsPlugin([OPS_PLUGIN_ID, "a"], ["a"])).toBe(true);
+    expect(removesOpsPlugin(null, ["a"])).toBe(true);
+    expect(removesOpsPlugin([OPS_PLUGIN_ID, "a"], [OPS_PLUGIN_ID])).toBe(false);
+    expect(removesOpsPlugin(["a"], ["a", "b"])).toBe(false);
+    expect(removesOpsPlugin([OPS_PLUGIN_ID], null)).toBe(false);
+  });
+});
+
+describe("readProfileAllowList / writeAllowList", () => {
+  it("reads plugins.allow from config.json", () => {
+    expect(readProfileAllowList(profile)).toBeNull();
+    fs.mkdirSync(stateDir, { recursive: true });
+    fs.writeFileSync(path.join(stateDir, "config.json"), JSON.stringify({ plugins: { allow: ["a", "b"] } }));
+    expect(readProfileAllowList(profile)).toEqual(["a", "b"]);
+  });
+
+  it("reports a failed CLI write with the unchanged list", () => {
+    fs.mkdirSync(stateDir, { recursive: true });
+    fs.writeFileSync(path.join(stateDir, "config.json"), JSON.stringify({ plugins: { allow: ["a"] } }));
+    // The openclaw CLI is not available in tests
+    const outcome = writeAllowList(profile, ["a", "b"]);
+    expect(outcome.ok).toBe(false);
+    expect(outcome.after).toEqual(["a"]);
+    expect(outcome.error).toMatch(/^openclaw config set failed/);
+  });
+});
+
+describe("allow history", () => {
+  it("persists snapshots and finds the latest per profile", () => {
+    expect(loadAllowHistory(tmpWorkspace)).toEqual({ snapshots: [] });
+    saveAllowHistory(tmpWorkspace, { snapshots: [snapshot("default", "x"), snapshot("staging", "y"), snapshot("default", "z")] });
+    const history = loadAllowHistory(tmpWorkspace);
+    expect(lastSnapshot(history, "default")).toMatchObject({ index: 2, snapshot: { plugin: "z" } });
+    expect(lastSnapshot(history, "staging")?.index).toBe(1);
+    expect(lastSnapshot(history, "other")).toBeNull();
+  });
+
+  it("keeps only the newest 50 snapshots", () => {
+    const snapshots = Array.from({ length: 60 }, (_, i) => snapshot("default", `p${i}`));
+    saveAllowHistory(tmpWorkspace, { snapshots });
+    const saved = loadAllowHistory(tmpWorkspace).snapshots;
+    expect(saved).toHaveLength(50);
+    expect(saved[0].plugin).toBe("p10");
+  });
+});
+
+describe("formatAllowList", () => {
+  it("distinguishes unset and empty lists", () => {
+    expect(formatAllowList(null)).toBe("(not set)");
+    expect(formatAllowList([])).toBe("(empty)");
+    expect(formatAllowList(["a", "b"])).toBe("a, b");
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * plugins.allow management for /plugin enable|disable|undo.
+ *
+ * Changes are minimal: enabling appends one id to the existing allowlist,
+ * disabling removes one, and every other entry keeps its place. The list is
+ * written with `openclaw config set plugins.allow <json>` (as /staging-smoke
+ * does) and read back from config.json to verify it. Each change records
+ * the previous value in <workspace>/monitoring/plugin-allow.json so
+ * `/plugin undo` can put it back.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { runCmd, readJsonSafe, getProfile } from "./utils.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AllowAction = "enable" | "disable";
+
+export const ALLOW_ACTIONS: AllowAction[] = ["enable", "disable"];
+
+export interface AllowSnapshot {
+  ts: string;
+  profile: string;
+  action: AllowAction;
+  plugin: string;
+  /** plugins.allow before the change; `null` when it was not set. */
+  previous: string[] | null;
+  /** plugins.allow after the change. */
+  next: string[] | null;
+}
+
+export interface AllowHistory {
+  /** Oldest first. */
+  snapshots: AllowSnapshot[];
+}
+
+/** What a change would do, or why it cannot be made. */
+export type AllowChangePlan =
+  | { ok: true; changed: boolean; next: string[] | null; note: string }
+  | { ok: false; error: string };
+
+export interface AllowWriteOutcome {
+  ok: boolean;
+  /** plugins.allow read back from config.json after writing. */
+  after: string[] | null;
+  error?: string;
+}
+
+/** This plugin's id in plugins.allow. */
+export const OPS_PLUGIN_ID = "openclaw-ops-elvatis";
+
+/** Snapshots kept in the history file. */
+const MAX_SNAPSHOTS = 50;
+
+const PLUGIN_ID_RE = /^[A-Za-z0-9@][\w@./-]*$/;
+
+export function isAllowAction(value: string): value is AllowAction {
+  return (ALLOW_ACTIONS as string[]).includes(value);
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+/** `plugins.allow` from a profile's config.json; `null` when not set. */
+export function readProfileAllowList(profile: string): string[] | null {
+  const config = readJsonSafe<{ plugins?: { allow?: unknown } } | null>(getProfile(profile).configPath, null);
+  const allow = config?.plugins?.allow;
+  return Array.isArray(allow) ? allow.map(String) : null;
+}
+
+/**
+ * Plan enabling or disabling `id` against the current allowlist. Without
+ * an allowlist every installed plugin may load, so enabling is a no-op and
+ * disabling is refused: it would mean creating a list that blocks every
+ * plugin not named in it.
+ */
+export function planAllowChange(current: string[] | null, action: AllowAction, id: string): AllowChangePlan {
+  if (!PLUGIN_ID_RE.test(id)) return { ok: false, error: `Invalid plugin id: ${id}` };
+
+  if (action === "enable") {
+    if (current === null) {
+      return { ok: true, changed: false, next: null, note: "plugins.allow is not set, so every installed plugin is already allowed" };
+    }
+    if (current.includes(id)) return { ok: true, changed: false, next: current, note: `${id} is already in plugins.allow` };
+    return { ok: true, changed: true, next: [...current, id], note: `add ${id}` };
+  }
+
+  if (current === null) {
+    return {
+      ok: false,
+      error: `plugins.allow is not set, so every installed plugin may load. Disabling ${id} would need an allowlist of all the others; create one first with openclaw config set plugins.allow '["..."]'.`,
+    };
+  }
+  if (!current.includes(id)) return { ok: true, changed: false, next: current, note: `${id} is not in plugins.allow` };
+  return { ok: true, changed: true, next: current.filter((p) => p !== id), note: `remove ${id}` };
+}
+
+/**
+ * Whether a change takes this plugin out of the set allowed to load.
+ * After a restart with such a list, /plugin itself is gone, undo included.
+ */
+export function removesOpsPlugin(current: string[] | null, next: string[] | null): boolean {
+  return next !== null && !next.includes(OPS_PLUGIN_ID) && (current === null || current.includes(OPS_PLUGIN_ID));
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+function sameList(a: string[] | null, b: string[] | null): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Write plugins.allow for a profile (`null` unsets it) and read it back to
+ * confirm the CLI stored what was asked.
+ */
+export function writeAllowList(profile: string, next: string[] | null): AllowWriteOutcome {
+  const profileArg = profile === "default" ? [] : ["--profile", profile];
+  const res =
+    next === null
+      ? runCmd("openclaw", [...profileArg, "config", "unset", "plugins.allow"], 60_000)
+      : runCmd("openclaw", [...profileArg, "config", "set", "plugins.allow", JSON.stringify(next)], 60_000);
+  const after = readProfileAllowList(profile);
+  if (res.code !== 0) {
+    const detail = res.out ? `: ${res.out.split("\n")[0]}` : "";
+    return { ok: false, after, error: `openclaw config ${next === null ? "unset" : "set"} failed (exit ${res.code})${detail}` };
+  }
+  if (!sameList(after, next)) {
+    return { ok: false, after, error: `plugins.allow reads ${formatAllowList(after)} after writing ${formatAllowList(next)}` };
+  }
+  return { ok: true, after };
+}
+
+// ---------------------------------------------------------------------------
+// History
+// ---------------------------------------------------------------------------
+
+/** Path of the allowlist history for a workspace. */
+export function allowHistoryPath(workspace: string): string {
+  return path.join(workspace, "monitoring", "plugin-allow.json");
+}
+
+export function loadAllowHistory(workspace: string): AllowHistory {
+  try {
+    const st = JSON.parse(fs.readFileSync(allowHistoryPath(workspace), "utf-8")) as Partial<AllowHistory>;
+    return { snapshots: Array.isArray(st.snapshots) ? st.snapshots : [] };
+  } catch {
+    return { snapshots: [] };
+  }
+}
+
+export function saveAllowHistory(workspace: string, history: AllowHistory): void {
+  const file = allowHistoryPath(workspace);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const snapshots = history.snapshots.slice(-MAX_SNAPSHOTS);
+  fs.writeFileSync(file, JSON.stringify({ snapshots }, null, 2) + "\n", "utf-8");
+}
+
+/** Most recent snapshot for a profile, with its index in the history. */
+export function lastSnapshot(history: AllowHistory, profile: string): { snapshot: AllowSnapshot; index: number } | null {
+  for (let i = history.snapshots.length - 1; i >= 0; i--) {
+    if (history.snapshots[i].profile === profile) return { snapshot: history.snapshots[i], index: i };
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+export function formatAllowList(list: string[] | null): string {
+  if (list === null) return "(not set)";
+  return list.length > 0 ? list.join(", ") : "(empty)";
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  stripManifestFields,
+  extractDefaults,
+  diffAgainstDefaults,
+  validateConfig,
+  loadPluginManifest,
+  findPluginDir,
+} from "./plugin-config.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-plugin-config-" + process.pid);
+
+afterEach(() => {
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+});
+
+const schemaProps = {
+  enabled: { type: "boolean", default: true },
+  level: { type: "number" },
+};
+
+describe("stripManifestFields", () => {
+  it("drops manifest-level fields only", () => {
+    expect(stripManifestFields({ id: "x", version: "1", configSchema: {}, enabled: false })).toEqual({ enabled: false });
+  });
+});
+
+describe("extractDefaults / diffAgainstDefaults", () => {
+  it("marks defaults, overrides and extra keys", () => {
+    const defaults = extractDefaults(schemaProps);
+    expect(defaults).toEqual({ enabled: true });
+    expect(diffAgainstDefaults({ enabled: false, extra: 1 }, defaults, schemaProps)).toEqual([
+      "  enabled: false (overridden, default: true)",
+      "  extra: 1 (extra - not in schema)",
+    ]);
+  });
+});
+
+describe("validateConfig", () => {
+  it("reports type mismatches and unknown keys", () => {
+    expect(validateConfig({ level: "3", extra: 1 }, schemaProps, false)).toEqual([
+      'Unknown property "extra" (not in schema)',
+      '"level": expected number, got string',
+    ]);
+    expect(validateConfig({ extra: 1 }, schemaProps, true)).toEqual([]);
+  });
+});
+
+describe("loadPluginManifest / findPluginDir", () => {
+  it("finds a plugin by directory name or manifest id", () => {
+    const dir = path.join(tmpWorkspace, "openclaw-demo");
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, "openclaw.plugin.json"), JSON.stringify({ id: "demo-plugin" }));
+
+    expect(loadPluginManifest("openclaw-demo", tmpWorkspace)?.id).toBe("demo-plugin");
+    expect(loadPluginManifest("demo-plugin", tmpWorkspace)?.id).toBe("demo-plugin");
+    expect(findPluginDir("demo-plugin", tmpWorkspace)).toBe(dir);
+    expect(findPluginDir("missing", tmpWorkspace)).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Plugin manifest and config helpers for /config and /plugin-health.
+ *
+ * Loads a plugin's openclaw.plugin.json from the workspace, finds its
+ * active config, and checks that config against the manifest's
+ * configSchema (a lightweight type and unknown-key check, not a full
+ * JSON Schema validator).
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { readJsonSafe, getProfile } from "./utils.js";
+
+/** Manifest-level fields that are not plugin config. */
+export const MANIFEST_FIELDS = ["id", "name", "version", "description", "configSchema", "$schema"];
+
+/** Config values without manifest-level fields. */
+export function stripManifestFields(config: Record<string, any>): Record<string, any> {
+  const values: Record<string, any> = {};
+  for (const [key, value] of Object.entries(config)) {
+    if (!MANIFEST_FIELDS.includes(key)) values[key] = value;
+  }
+  return values;
+}
+
+/**
+ * Extract default values from a JSON Schema `properties` block.
+ * Returns a flat object of { propertyName: defaultValue }.
+ */
+export function extractDefaults(properties: Record<string, any>): Record<string, any> {
+  const defaults: Record<string, any> = {};
+  for (const [key, schema] of Object.entries(properties)) {
+    if (schema && "default" in schema) {
+      defaults[key] = schema.default;
+    }
+  }
+  return defaults;
+}
+
+/**
+ * Compare actual config values against schema defaults and return
+ * lines describing each property's state (default, overridden, or extra).
+ */
+export function diffAgainstDefaults(
+  config: Record<string, any>,
+  defaults: Record<string, any>,
+  schemaProps: Record<string, any>,
+): string[] {
+  const lines: string[] = [];
+  const allKeys = new Set([...Object.keys(defaults), ...Object.keys(config)]);
+
+  for (const key of [...allKeys].sort()) {
+    const hasDefault = key in defaults;
+    const hasValue = key in config;
+    const inSchema = key in schemaProps;
+
+    if (hasValue && hasDefault) {
+      const actual = config[key];
+      const def = defaults[key];
+      if (JSON.stringify(actual) === JSON.stringify(def)) {
+        lines.push(`  ${key}: ${JSON.stringify(actual)} (default)`);
+      } else {
+        lines.push(`  ${key}: ${JSON.stringify(actual)} (overridden, default: ${JSON.stringify(def)})`);
+      }
+    } else if (hasValue && !hasDefault && inSchema) {
+      lines.push(`  ${key}: ${JSON.stringify(config[key])} (no default in schema)`);
+    } else if (hasValue && !inSchema) {
+      lines.push(`  ${key}: ${JSON.stringify(config[key])} (extra - not in schema)`);
+    } else if (!hasValue && hasDefault) {
+      lines.push(`  ${key}: (not set, default: ${JSON.stringify(defaults[key])})`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Validate config against schema properties. Returns a list of warnings.
+ * This is a lightweight check - validates types and required-ness, not a
+ * full JSON Schema validator.
+ */
+export function validateConfig(
+  config: Record<string, any>,
+  schemaProps: Record<string, any>,
+  additionalProperties: boolean,
+): string[] {
+  const warnings: string[] = [];
+
+  // Check for unknown keys (when additionalProperties is false)
+  if (!additionalProperties) {
+    for (const key of Object.keys(config)) {
+      if (!(key in schemaProps)) {
+        warnings.push(`Unknown property "${key}" (not in schema)`);
+      }
+    }
+  }
+
+  // Type-check known properties
+  for (const [key, schema] of Object.entries(schemaProps)) {
+    if (!(key in config)) continue;
+    const value = config[key];
+    const expectedType = (schema as any)?.type;
+    if (!expectedType) continue;
+
+    const actualType = Array.isArray(value) ? "array" : typeof value;
+    if (expectedType !== actualType) {
+      warnings.push(`"${key}": expected ${expectedType}, got ${actualType}`);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Find and read the plugin config for a given plugin name.
+ * Searches the openclaw config directory for plugin configs.
+ */
+export function loadPluginConfig(
+  pluginName: string,
+  workspace: string,
+): { config: Record<string, any> | null; source: string } {
+  // Check the main openclaw config file
+  const mainConfigPath = getProfile("default").configPath;
+  const mainConfig = readJsonSafe<Record<string, any> | null>(mainConfigPath, null);
+
+  if (mainConfig?.plugins?.[pluginName]) {
+    return { config: mainConfig.plugins[pluginName], source: mainConfigPath };
+  }
+
+  // Check plugin's own config
+  const pluginDir = path.join(workspace, pluginName);
+  const pluginConfigPath = path.join(pluginDir, "openclaw.plugin.json");
+  if (fs.existsSync(pluginConfigPath)) {
+    const manifest = readJsonSafe<Record<string, any>>(pluginConfigPath, {});
+    return { config: manifest, source: pluginConfigPath };
+  }
+
+  return { config: null, source: "(not found)" };
+}
+
+/**
+ * Load the plugin manifest (openclaw.plugin.json) for a specific plugin
+ * from the workspace.
+ */
+export function loadPluginManifest(
+  pluginName: string,
+  workspace: string,
+): Record<string, any> | null {
+  // Direct match
+  const direct = path.join(workspace, pluginName, "openclaw.plugin.json");
+  if (fs.existsSync(direct)) {
+    return readJsonSafe<Record<string, any> | null>(direct, null);
+  }
+
+  // Scan workspace for matching plugin
+  try {
+    const dirs = fs.readdirSync(workspace).filter((d) => d.startsWith("openclaw-"));
+    for (const dir of dirs) {
+      const manifestPath = path.join(workspace, dir, "openclaw.plugin.json");
+      if (!fs.existsSync(manifestPath)) continue;
+      const manifest = readJsonSafe<Record<string, any> | null>(manifestPath, null);
+      if (manifest?.id === pluginName || dir === pluginName) {
+        return manifest;
+      }
+    }
+  } catch {
+    // workspace not readable
+  }
+
+  return null;
+}
+
+/** Find the absolute path for a plugin directory in the workspace. */
+export function findPluginDir(pluginName: string, workspace: string): string | null {
+  const direct = path.join(workspace, pluginName);
+  if (fs.existsSync(path.join(direct, "openclaw.plugin.json"))) {
+    return direct;
+  }
+
+  try {
+    const dirs = fs.readdirSync(workspace).filter((d) => d.startsWith("openclaw-"));
+    for (const dir of dirs) {
+      const manifestPath = path.join(workspace, dir, "openclaw.plugin.json");
+      if (!fs.existsSync(manifestPath)) continue;
+      const manifest = readJsonSafe<Record<string, any> | null>(manifestPath, null);
+      if (manifest?.id === pluginName) {
+        return path.join(workspace, dir);
+      }
+    }
+  } catch {
+    // workspace not readable
+  }
+
+  return null;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  worstVerdict,
+  checkInstall,
+  attributeEvents,
+  collectPluginHealth,
+  renderPluginHealth,
+} from "./plugin-health.js";
+import type { EventLogEntry } from "./observer-log.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-plugin-health-" + process.pid);
+const pluginId = "openclaw-ops-test-health-" + process.pid;
+const profile = "ops-test-plugin-health-" + process.pid;
+const stateDir = path.join(os.homedir(), `.openclaw-${profile}`);
+
+function event(overrides: Partial<EventLogEntry>): EventLogEntry {
+  return { ts: new Date().toISOString(), type: "message", sessionId: "s1", ...overrides };
+}
+
+describe("worstVerdict / checkInstall", () => {
+  it("picks the worst verdict", () => {
+    expect(worstVerdict([])).toBe("pass");
+    expect(worstVerdict(["pass", "warn", "pass"])).toBe("warn");
+    expect(worstVerdict(["warn", "fail", "pass"])).toBe("fail");
+  });
+
+  it("passes when installed, warns when disabled or unknown, fails when missing", () => {
+    const plugin = { id: "openclaw-a", version: "1.0.0", sourcePath: "/ext/a", enabled: true, profile: "default" };
+    const inventory = { profile: "default", source: "cli" as const, plugins: [plugin] };
+    expect(checkInstall(["a", "openclaw-a"], inventory)).toMatchObject({
+      verdict: "pass",
+      summary: "installed as openclaw-a v1.0.0",
+      details: ["/ext/a"],
+    });
+    expect(checkInstall(["a", "openclaw-a"], { ...inventory, plugins: [{ ...plugin, enabled: false }] }).verdict).toBe("warn");
+    expect(checkInstall(["b"], inventory)).toMatchObject({ verdict: "fail", summary: "not installed in profile default" });
+    expect(checkInstall(["a"], null).verdict).toBe("warn");
+  });
+});
+
+describe("attributeEvents", () => {
+  it("matches commands, slash messages, tools and tags", () => {
+    const events = [
+      event({ type: "command", command: "ping" }),
+      event({ preview: "/ping now" }),
+      event({ preview: "/pingpong" }),
+      event({ type: "tool_call", tool: "openclaw-x_search" }),
+      event({ type: "memory_write", tags: ["OpenClaw-X"] }),
+      event({ type: "command", command: "other" }),
+    ];
+    const matched = attributeEvents(events, ["openclaw-x"], [{ name: "ping", description: "" }]);
+    expect(matched).toHaveLength(4);
+    expect(matched.map((e) => e.type)).toEqual(["command", "message", "tool_call", "memory_write"]);
+  });
+});
+
+describe("collectPluginHealth", () => {
+  beforeEach(() => {
+    const dir = path.join(tmpWorkspace, pluginId);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, "openclaw.plugin.json"),
+      JSON.stringify({
+        id: pluginId,
+        version: "1.2.0",
+        stray: true,
+        configSchema: { type: "object", additionalProperties: false, properties: { level: { type: "number" } } },
+      }),
+    );
+    fs.writeFileSync(
+      path.join(dir, "index.ts"),
+      'api.registerCommand({ name: "hp-ping", description: "Ping", acceptsArgs: false, handler: async () => ({ text: "" }) });\n',
+    );
+    fs.mkdirSync(path.join(tmpWorkspace, "observer"), { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpWorkspace, "observer", "events.jsonl"),
+      JSON.stringify(event({ preview: "/hp-ping" })) + "\n" + JSON.stringify(event({ preview: "hello" })) + "\n",
+    );
+    fs.mkdirSync(path.join(stateDir, "logs"), { recursive: true });
+    const now = new Date().toISOString();
+    fs.writeFileSync(
+      path.join(stateDir, "logs", "gateway.log"),
+      [
+        `${now} [ERROR] ${pluginId}: handler crashed`,
+        `${now} [ERROR] some-other-plugin: failed`,
+        `${now} [INFO] ${pluginId}: loaded`,
+      ].join("\n") + "\n",
+    );
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+    try { fs.rmSync(stateDir, { recursive: true, force: true }); } catch {}
+  });
+
+  it("judges every area", async () => {
+    const report = await collectPluginHealth(pluginId, tmpWorkspace);
+    const byArea = Object.fromEntries(report.areas.map((a) => [a.area, a]));
+
+    // The openclaw CLI is not available in tests
+    expect(byArea.install.verdict).not.toBe("pass");
+    expect(byArea.manifest).toMatchObject({ verdict: "pass", summary: `${pluginId} v1.2.0` });
+    expect(byArea.config.verdict).toBe("warn");
+    expect(byArea.config.details).toEqual(['Unknown property "stray" (not in schema)']);
+    expect(byArea.commands).toMatchObject({ verdict: "pass", details: ["/hp-ping"] });
+    expect(byArea.logs.summary).toBe("1 error line(s)");
+    expect(byArea.logs.details[0]).toContain(`[${profile}]`);
+    expect(byArea.activity).toMatchObject({ verdict: "pass" });
+    expect(byArea.activity.summary).toMatch(/^1 event\(s\)/);
+    expect(report.verdict).not.toBe("pass");
+  });
+
+  it("counts errors in the plugin's own log, not other plugins' logs", async () => {
+    const logs = path.join(stateDir, "logs");
+    const hourAgo = new Date(Date.now() - 3_600_000);
+    const ownLog = path.join(logs, `${pluginId}.log`);
+    fs.writeFileSync(ownLog, `${hourAgo.toISOString()} [FATAL] socket closed\n`);
+    fs.utimesSync(ownLog, hourAgo, hourAgo);
+    fs.writeFileSync(path.join(logs, "openclaw-other.log"), `${new Date().toISOString()} [ERROR] ${pluginId} did not answer\n`);
+
+    const report = await collectPluginHealth(pluginId, tmpWorkspace);
+    const logsArea = report.areas.find((a) => a.area === "logs")!;
+    expect(logsArea).toMatchObject({ verdict: "fail", summary: "2 error line(s), including fatal" });
+    expect(logsArea.details.some((d) => d.includes("socket closed"))).toBe(true);
+    expect(logsArea.details.some((d) => d.includes("did not answer"))).toBe(false);
+  });
+
+  it("fails manifest, config and commands for an unknown plugin", async () => {
+    const report = await collectPluginHealth("openclaw-does-not-exist", tmpWorkspace);
+    expect(report.verdict).toBe("fail");
+    const text = renderPluginHealth(report);
+    expect(text).toContain("Plugin health: openclaw-does-not-exist ✗ FAIL");
+    expect(text).toContain("✗ manifest: openclaw.plugin.json not found in workspace");
+    expect(text).toContain("⚠ activity: no observer events attributed to this plugin");
+  });
+});
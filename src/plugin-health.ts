@@ -0,0 +1,259 @@
+/**
+ * Single-plugin diagnostics for /plugin-health.
+ *
+ * Pulls together what /plugins, /config, /skills, /logs and /activity show
+ * separately and judges each area pass/warn/fail:
+ *
+ *   install   in the plugin inventory, and enabled
+ *   manifest  openclaw.plugin.json found in the workspace, with id and version
+ *   config    active config checked against the manifest's configSchema
+ *   commands  commands the skills scanner finds in the plugin source
+ *   logs      error lines in the plugin's own log files, and gateway log
+ *             lines naming it, in any profile
+ *   activity  observer events attributed to the plugin
+ *
+ * The overall verdict is the worst area verdict.
+ */
+
+import path from "node:path";
+import { discoverProfiles, formatIsoCompact } from "./utils.js";
+import { listServiceLogFiles, groupLogFilesByService, logServiceName, parseLogLine, queryLogs } from "./log-query.js";
+import { readEventLog, readMemoryFiles, observerLogPath } from "./observer-log.js";
+import type { EventLogEntry } from "./observer-log.js";
+import { loadPluginInventory, findInstalledPlugin } from "./plugin-inventory.js";
+import type { PluginInventory } from "./plugin-inventory.js";
+import { extractCommandsFromSource } from "./skills-scan.js";
+import type { PluginCommand } from "./skills-scan.js";
+import {
+  validateConfig,
+  loadPluginConfig,
+  loadPluginManifest,
+  findPluginDir,
+  stripManifestFields,
+} from "./plugin-config.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PluginHealthVerdict = "pass" | "warn" | "fail";
+
+export type PluginHealthAreaName = "install" | "manifest" | "config" | "commands" | "logs" | "activity";
+
+export interface PluginHealthArea {
+  area: PluginHealthAreaName;
+  verdict: PluginHealthVerdict;
+  summary: string;
+  /** Extra lines shown under the area (error samples, command names, ...). */
+  details: string[];
+}
+
+export interface PluginHealthReport {
+  /** Name as given by the user. */
+  plugin: string;
+  /** Manifest id, or the given name when no manifest was found. */
+  id: string;
+  dir: string | null;
+  /** Start of the log and activity window, epoch ms. */
+  sinceMs: number;
+  areas: PluginHealthArea[];
+  verdict: PluginHealthVerdict;
+}
+
+/** How far back log errors and observer events are considered. */
+export const PLUGIN_HEALTH_WINDOW_MS = 24 * 3_600_000;
+
+/** Error lines read per log service and profile. */
+const MAX_ERROR_LINES = 200;
+
+/** Samples shown under the logs and activity areas. */
+const SAMPLE_LIMIT = 5;
+
+const VERDICT_RANK: Record<PluginHealthVerdict, number> = { pass: 0, warn: 1, fail: 2 };
+
+const VERDICT_ICONS: Record<PluginHealthVerdict, string> = { pass: "✓", warn: "⚠", fail: "✗" };
+
+// ---------------------------------------------------------------------------
+// Area checks
+// ---------------------------------------------------------------------------
+
+/** The worst of the given verdicts; `pass` for none. */
+export function worstVerdict(verdicts: PluginHealthVerdict[]): PluginHealthVerdict {
+  return verdicts.reduce<PluginHealthVerdict>((worst, v) => (VERDICT_RANK[v] > VERDICT_RANK[worst] ? v : worst), "pass");
+}
+
+/**
+ * Install status from the plugin inventory; `inventory` is `null` when
+ * neither the CLI nor the profile's state could be read. Installed but
+ * disabled plugins warn.
+ */
+export function checkInstall(names: string[], inventory: PluginInventory | null): PluginHealthArea {
+  if (inventory === null) {
+    return { area: "install", verdict: "warn", summary: "unable to read the plugin inventory", details: [] };
+  }
+  const found = findInstalledPlugin(inventory, names);
+  if (!found) {
+    return { area: "install", verdict: "fail", summary: `not installed in profile ${inventory.profile}`, details: [] };
+  }
+  const summary = `installed as ${found.id}${found.version ? ` v${found.version}` : ""}`;
+  const details = found.sourcePath ? [found.sourcePath] : [];
+  return found.enabled
+    ? { area: "install", verdict: "pass", summary, details }
+    : { area: "install", verdict: "warn", summary: `${summary}, but disabled`, details };
+}
+
+function checkManifest(manifest: Record<string, any> | null, dir: string | null): PluginHealthArea {
+  if (!manifest || !dir) {
+    return { area: "manifest", verdict: "fail", summary: "openclaw.plugin.json not found in workspace", details: [] };
+  }
+  const missing = ["id", "version"].filter((key) => !manifest[key]);
+  if (missing.length > 0) {
+    return { area: "manifest", verdict: "warn", summary: `missing ${missing.join(", ")}`, details: [dir] };
+  }
+  return { area: "manifest", verdict: "pass", summary: `${manifest.id} v${manifest.version}`, details: [dir] };
+}
+
+function checkConfig(manifest: Record<string, any> | null, workspace: string): PluginHealthArea {
+  if (!manifest) return { area: "config", verdict: "fail", summary: "no manifest to validate against", details: [] };
+  const schema = manifest.configSchema;
+  if (!schema?.properties) {
+    return { area: "config", verdict: "warn", summary: "no configSchema defined in manifest", details: [] };
+  }
+  const { config, source } = loadPluginConfig(manifest.id, workspace);
+  const warnings = validateConfig(
+    stripManifestFields(config ?? {}),
+    schema.properties,
+    schema.additionalProperties !== false,
+  );
+  return warnings.length === 0
+    ? { area: "config", verdict: "pass", summary: `valid (${source})`, details: [] }
+    : { area: "config", verdict: "warn", summary: `${warnings.length} schema warning(s) (${source})`, details: warnings };
+}
+
+function checkCommands(dir: string | null, commands: PluginCommand[]): PluginHealthArea {
+  if (!dir) return { area: "commands", verdict: "fail", summary: "plugin directory not found", details: [] };
+  if (commands.length === 0) {
+    return { area: "commands", verdict: "warn", summary: "no registerCommand() calls found in source", details: [] };
+  }
+  return {
+    area: "commands",
+    verdict: "pass",
+    summary: `${commands.length} command(s)`,
+    details: [commands.map((c) => `/${c.name}`).join(", ")],
+  };
+}
+
+/**
+ * Error lines since `sinceMs` from the plugin's own logs (any file whose
+ * service is one of `names`) and gateway log lines naming it. Each service
+ * is queried on its own; other services' logs are not read. Fatal lines
+ * fail the area.
+ */
+async function checkLogs(names: string[], sinceMs: number): Promise<PluginHealthArea> {
+  const grep = new RegExp(names.map((n) => n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|"), "i");
+  const lowerNames = names.map((n) => n.toLowerCase());
+  const samples: string[] = [];
+  let count = 0;
+  let fatal = false;
+
+  for (const profile of discoverProfiles()) {
+    for (const files of groupLogFilesByService(listServiceLogFiles(profile.logDir, ".log"))) {
+      const service = logServiceName(files[0]).toLowerCase();
+      const own = lowerNames.includes(service);
+      if (!own && service !== "gateway") continue;
+      const result = await queryLogs(files, { level: "error", ...(own ? {} : { grep }), sinceMs, lines: MAX_ERROR_LINES });
+      for (const line of result.matches) {
+        const level = parseLogLine(line.raw).level;
+        if (level !== "error" && level !== "fatal") continue;
+        count++;
+        fatal = fatal || level === "fatal";
+        samples.push(`[${profile.name}] ${line.raw}`);
+      }
+    }
+  }
+
+  if (count === 0) return { area: "logs", verdict: "pass", summary: "no errors", details: [] };
+  return {
+    area: "logs",
+    verdict: fatal ? "fail" : "warn",
+    summary: `${count} error line(s)${fatal ? ", including fatal" : ""}`,
+    details: samples.slice(-SAMPLE_LIMIT),
+  };
+}
+
+/**
+ * Observer events that belong to a plugin: command events for one of its
+ * commands, tool calls named after it, messages starting with one of its
+ * slash commands, and memory writes tagged with its id.
+ */
+export function attributeEvents(events: EventLogEntry[], names: string[], commands: PluginCommand[]): EventLogEntry[] {
+  const commandNames = new Set(commands.map((c) => c.name));
+  const lowerNames = names.map((n) => n.toLowerCase());
+  return events.filter((e) => {
+    if (e.command && commandNames.has(e.command.replace(/^\//, ""))) return true;
+    if (e.tool && lowerNames.some((n) => e.tool!.toLowerCase().startsWith(n))) return true;
+    if (e.tags?.some((t) => lowerNames.includes(t.toLowerCase()))) return true;
+    const slash = e.preview?.match(/^\/([\w-]+)/);
+    return Boolean(slash && commandNames.has(slash[1]));
+  });
+}
+
+function checkActivity(events: EventLogEntry[], sinceMs: number): PluginHealthArea {
+  const recent = events
+    .filter((e) => Date.parse(e.ts) >= sinceMs)
+    .sort((a, b) => a.ts.localeCompare(b.ts));
+  if (recent.length === 0) {
+    return { area: "activity", verdict: "warn", summary: "no observer events attributed to this plugin", details: [] };
+  }
+  return {
+    area: "activity",
+    verdict: "pass",
+    summary: `${recent.length} event(s), last ${formatIsoCompact(Date.parse(recent[recent.length - 1].ts))} UTC`,
+    details: recent
+      .slice(-SAMPLE_LIMIT)
+      .map((e) => `${formatIsoCompact(Date.parse(e.ts))} ${e.type} ${e.command ?? e.tool ?? e.preview ?? ""}`.trimEnd()),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+/** Run every area check for one plugin. */
+export async function collectPluginHealth(
+  name: string,
+  workspace: string,
+  opts: { now?: number; windowMs?: number } = {},
+): Promise<PluginHealthReport> {
+  const sinceMs = (opts.now ?? Date.now()) - (opts.windowMs ?? PLUGIN_HEALTH_WINDOW_MS);
+  const manifest = loadPluginManifest(name, workspace);
+  const dir = findPluginDir(manifest?.id ?? name, workspace) ?? findPluginDir(name, workspace);
+  const id: string = manifest?.id ?? name;
+  const names = [...new Set([id, name, ...(dir ? [path.basename(dir)] : [])])];
+  const commands = dir ? extractCommandsFromSource(dir) : [];
+
+  const events = [...readEventLog(observerLogPath(workspace)), ...readMemoryFiles(workspace)];
+
+  const areas = [
+    checkInstall(names, loadPluginInventory()),
+    checkManifest(manifest, dir),
+    checkConfig(manifest, workspace),
+    checkCommands(dir, commands),
+    await checkLogs(names, sinceMs),
+    checkActivity(attributeEvents(events, names, commands), sinceMs),
+  ];
+  return { plugin: name, id, dir, sinceMs, areas, verdict: worstVerdict(areas.map((a) => a.verdict)) };
+}
+
+/** Render a report: overall verdict, then one line per area with details. */
+export function renderPluginHealth(report: PluginHealthReport): string {
+  const lines: string[] = [];
+  lines.push(`Plugin health: ${report.id} ${VERDICT_ICONS[report.verdict]} ${report.verdict.toUpperCase()}`);
+  lines.push(`Window: since ${formatIsoCompact(report.sinceMs)} UTC`);
+  lines.push("");
+  for (const area of report.areas) {
+    lines.push(`${VERDICT_ICONS[area.verdict]} ${area.area}: ${area.summary}`);
+    for (const detail of area.details) lines.push(`    ${detail}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  parsePluginListJson,
+  isPluginEnabled,
+  readInstalledPluginsFromDisk,
+  loadPluginInventory,
+  findInstalledPlugin,
+} from "./plugin-inventory.js";
+
+const tmpDir = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-inventory-" + process.pid);
+const profile = "ops-test-inventory-" + process.pid;
+const stateDir = path.join(os.homedir(), `.openclaw-${profile}`);
+
+afterEach(() => {
+  try { fs.rmSync(tmpDir, { recursive: true, force: true }); } catch {}
+  try { fs.rmSync(stateDir, { recursive: true, force: true }); } catch {}
+});
+
+function writePluginDir(dir: string, id: string, version: string): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "openclaw.plugin.json"), JSON.stringify({ id }));
+  fs.writeFileSync(path.join(dir, "package.json"), JSON.stringify({ name: id, version }));
+}
+
+describe("parsePluginListJson", () => {
+  it("reads a plugins array, ignoring surrounding noise", () => {
+    const out = [
+      "[plugins] loading",
+      JSON.stringify({
+        plugins: [
+          { id: "openclaw-b", version: "2.0.0", source: "/ext/b", enabled: false },
+          { name: "openclaw-a", status: "loaded", rootDir: "/ext/a" },
+          { version: "1.0.0" },
+        ],
+      }),
+      "warning: something on stderr",
+    ].join("\n");
+    expect(parsePluginListJson(out, "staging")).toEqual([
+      { id: "openclaw-a", version: null, sourcePath: "/ext/a", enabled: true, profile: "staging" },
+      { id: "openclaw-b", version: "2.0.0", sourcePath: "/ext/b", enabled: false, profile: "staging" },
+    ]);
+  });
+
+  it("accepts a bare array and rejects the plain-text list", () => {
+    expect(parsePluginListJson('[{"id":"x","status":"disabled"}]', "default")?.[0].enabled).toBe(false);
+    expect(parsePluginListJson("Installed plugins:\n- openclaw-a (1.0.0)", "default")).toBeNull();
+    expect(parsePluginListJson("{not json}", "default")).toBeNull();
+  });
+});
+
+describe("isPluginEnabled", () => {
+  it("applies deny, entries and allow", () => {
+    expect(isPluginEnabled(null, "a")).toBe(true);
+    expect(isPluginEnabled({ plugins: { allow: ["a"] } }, "b")).toBe(false);
+    expect(isPluginEnabled({ plugins: { allow: ["a"], deny: ["a"] } }, "a")).toBe(false);
+    expect(isPluginEnabled({ plugins: { entries: { a: { enabled: false } } } }, "a")).toBe(false);
+    expect(isPluginEnabled({ plugins: { enabled: false } }, "a")).toBe(false);
+  });
+});
+
+describe("readInstalledPluginsFromDisk", () => {
+  const p = () => ({ name: "t", stateDir: tmpDir, configPath: path.join(tmpDir, "config.json"), logDir: path.join(tmpDir, "logs") });
+
+  it("returns null without any state", () => {
+    expect(readInstalledPluginsFromDisk(p())).toBeNull();
+  });
+
+  it("merges install records, load paths and extension dirs", () => {
+    writePluginDir(path.join(tmpDir, "extensions", "openclaw-a"), "openclaw-a", "1.0.0");
+    writePluginDir(path.join(tmpDir, "linked", "openclaw-b"), "openclaw-b", "0.3.0");
+    fs.writeFileSync(
+      path.join(tmpDir, "config.json"),
+      JSON.stringify({
+        plugins: {
+          installs: { "openclaw-a": { source: "npm", installPath: path.join(tmpDir, "extensions", "openclaw-a"), version: "1.0.1" } },
+          load: { paths: [path.join(tmpDir, "linked", "openclaw-b")] },
+          entries: { "openclaw-b": { enabled: false } },
+        },
+      }),
+    );
+    expect(readInstalledPluginsFromDisk(p())).toEqual([
+      { id: "openclaw-a", version: "1.0.1", sourcePath: path.join(tmpDir, "extensions", "openclaw-a"), enabled: true, profile: "t" },
+      { id: "openclaw-b", version: "0.3.0", sourcePath: path.join(tmpDir, "linked", "openclaw-b"), enabled: false, profile: "t" },
+    ]);
+  });
+});
+
+describe("loadPluginInventory", () => {
+  it("falls back to the profile's state when the CLI is unavailable", () => {
+    writePluginDir(path.join(stateDir, "extensions", "openclaw-c"), "openclaw-c", "4.0.0");
+    const inventory = loadPluginInventory(profile)!;
+    // The openclaw CLI is not available in tests
+    expect(inventory.source).toBe("disk");
+    expect(inventory.cliError).toBeTruthy();
+    expect(findInstalledPlugin(inventory, ["c", "openclaw-c"])).toMatchObject({ version: "4.0.0", profile });
+  });
+
+  it("returns null for a profile without state", () => {
+    expect(loadPluginInventory(`${profile}-missing`)).toBeNull();
+  });
+});
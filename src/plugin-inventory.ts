@@ -0,0 +1,196 @@
+/**
+ * Installed-plugin inventory for /health, /plugins, /profiles and
+ * /plugin-health.
+ *
+ * Prefers the CLI's structured output (`openclaw plugins list --json`).
+ * When the CLI is missing, fails, or prints something that is not JSON,
+ * falls back to the profile's own installed-plugin state:
+ *
+ *   config.json  plugins.installs.<id>   install records (version, path)
+ *                plugins.load.paths      linked plugin directories
+ *                plugins.entries / allow / deny / enabled
+ *   <stateDir>/extensions/<dir>          installed plugin directories
+ *
+ * Both paths produce the same typed records, so callers never parse the
+ * human-readable list.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { runCmd, readJsonSafe, getProfile, expandHome } from "./utils.js";
+import type { OpenClawProfile } from "./utils.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface InstalledPlugin {
+  id: string;
+  /** `null` when neither the CLI nor the plugin's package.json reports one. */
+  version: string | null;
+  /** Directory the plugin is loaded from, when known. */
+  sourcePath: string | null;
+  enabled: boolean;
+  profile: string;
+}
+
+export type InventorySource = "cli" | "disk";
+
+export interface PluginInventory {
+  profile: string;
+  source: InventorySource;
+  /** Sorted by id. */
+  plugins: InstalledPlugin[];
+  /** First line of the CLI failure, when the on-disk state was used. */
+  cliError?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Structured CLI output
+// ---------------------------------------------------------------------------
+
+function str(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Parse `openclaw plugins list --json` output: an array of plugin objects,
+ * or an object with a `plugins` array. Returns `null` when the output holds
+ * no such JSON (older CLIs without `--json` print the plain list).
+ */
+export function parsePluginListJson(out: string, profile: string): InstalledPlugin[] | null {
+  // stderr is appended to stdout and log lines may start with "[", so try
+  // each line that could open the JSON block
+  const end = Math.max(out.lastIndexOf("}"), out.lastIndexOf("]"));
+  let parsed: unknown;
+  const startRe = /^[[{]/gm;
+  let start: RegExpExecArray | null;
+  while (parsed === undefined && (start = startRe.exec(out)) !== null && start.index < end) {
+    try {
+      parsed = JSON.parse(out.slice(start.index, end + 1));
+    } catch {
+      // not the start of the JSON block
+    }
+  }
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { plugins?: unknown })?.plugins;
+  if (!Array.isArray(entries)) return null;
+
+  const plugins: InstalledPlugin[] = [];
+  for (const entry of entries) {
+    if (!entry || typeof entry !== "object") continue;
+    const e = entry as Record<string, unknown>;
+    const id = str(e.id) ?? str(e.name);
+    if (!id) continue;
+    plugins.push({
+      id,
+      version: str(e.version),
+      sourcePath: str(e.sourcePath) ?? str(e.source) ?? str(e.rootDir) ?? str(e.path),
+      enabled: typeof e.enabled === "boolean" ? e.enabled : str(e.status) !== "disabled",
+      profile,
+    });
+  }
+  return plugins.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// ---------------------------------------------------------------------------
+// On-disk state
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether config.json lets a plugin load: not denied, not disabled in
+ * `plugins.entries`, and in `plugins.allow` when an allow list is set.
+ */
+export function isPluginEnabled(config: Record<string, any> | null, id: string): boolean {
+  const plugins = config?.plugins;
+  if (!plugins || typeof plugins !== "object") return true;
+  if (plugins.enabled === false) return false;
+  if (Array.isArray(plugins.deny) && plugins.deny.includes(id)) return false;
+  if (plugins.entries?.[id]?.enabled === false) return false;
+  if (Array.isArray(plugins.allow) && !plugins.allow.includes(id)) return false;
+  return true;
+}
+
+/** Manifest id and package.json version of a plugin directory. */
+function readPluginDir(dir: string): { id: string | null; version: string | null } {
+  const manifest = readJsonSafe<{ id?: unknown } | null>(path.join(dir, "openclaw.plugin.json"), null);
+  const pkg = readJsonSafe<{ version?: unknown } | null>(path.join(dir, "package.json"), null);
+  return { id: str(manifest?.id), version: str(pkg?.version) };
+}
+
+/**
+ * Installed plugins from a profile's state directory, or `null` when the
+ * profile has neither a config.json nor an extensions directory.
+ */
+export function readInstalledPluginsFromDisk(profile: OpenClawProfile): InstalledPlugin[] | null {
+  const config = readJsonSafe<Record<string, any> | null>(profile.configPath, null);
+  const extensionsDir = path.join(profile.stateDir, "extensions");
+  let extensionDirs: string[] | null = null;
+  try {
+    extensionDirs = fs
+      .readdirSync(extensionsDir, { withFileTypes: true })
+      .filter((d) => d.isDirectory())
+      .map((d) => path.join(extensionsDir, d.name));
+  } catch {
+    // no extensions installed
+  }
+  if (!config && !extensionDirs) return null;
+
+  const found = new Map<string, { version: string | null; sourcePath: string | null }>();
+  const add = (id: string, version: string | null, sourcePath: string | null) => {
+    const known = found.get(id);
+    found.set(id, { version: known?.version ?? version, sourcePath: known?.sourcePath ?? sourcePath });
+  };
+
+  const installs = config?.plugins?.installs;
+  if (installs && typeof installs === "object") {
+    for (const [id, record] of Object.entries<any>(installs)) {
+      const dir = str(record?.installPath) ?? str(record?.sourcePath);
+      add(id, str(record?.version) ?? (dir ? readPluginDir(expandHome(dir)).version : null), dir ? expandHome(dir) : null);
+    }
+  }
+
+  const loadPaths = config?.plugins?.load?.paths;
+  for (const raw of Array.isArray(loadPaths) ? loadPaths : []) {
+    if (!str(raw)) continue;
+    const dir = expandHome(String(raw));
+    const info = readPluginDir(dir);
+    add(info.id ?? path.basename(dir), info.version, dir);
+  }
+
+  for (const dir of extensionDirs ?? []) {
+    const info = readPluginDir(dir);
+    add(info.id ?? path.basename(dir), info.version, dir);
+  }
+
+  return [...found.entries()]
+    .map(([id, rec]) => ({ id, ...rec, enabled: isPluginEnabled(config, id), profile: profile.name }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// ---------------------------------------------------------------------------
+// Inventory
+// ---------------------------------------------------------------------------
+
+/**
+ * Installed plugins of a profile: from the CLI's JSON output when
+ * available, otherwise from the profile's state directory. Returns `null`
+ * when neither source has anything to say.
+ */
+export function loadPluginInventory(profile = "default"): PluginInventory | null {
+  const profileArg = profile === "default" ? [] : ["--profile", profile];
+  const res = runCmd("openclaw", [...profileArg, "plugins", "list", "--json"], 15_000);
+  if (res.code === 0) {
+    const plugins = parsePluginListJson(res.out, profile);
+    if (plugins) return { profile, source: "cli", plugins };
+  }
+
+  const plugins = readInstalledPluginsFromDisk(getProfile(profile));
+  if (!plugins) return null;
+  const cliError = res.code === 0 ? "no JSON in `openclaw plugins list --json` output" : res.out.split("\n")[0] || `exit ${res.code}`;
+  return { profile, source: "disk", plugins, cliError };
+}
+
+/** The plugin with one of the given ids, if installed. */
+export function findInstalledPlugin(inventory: PluginInventory, ids: string[]): InstalledPlugin | null {
+  return inventory.plugins.find((p) => ids.includes(p.id)) ?? null;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { spawnSync } from "node:child_process";
+import {
+  classifyDrift,
+  describeGitRevision,
+  collectPluginVersions,
+  renderWorkspaceVersions,
+  renderOutdatedPlugins,
+} from "./plugin-versions.js";
+import type { PluginInventory } from "./plugin-inventory.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-plugin-versions-" + process.pid);
+
+afterEach(() => {
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+});
+
+function writeRepo(dir: string, id: string, version: string): string {
+  const full = path.join(tmpWorkspace, dir);
+  fs.mkdirSync(full, { recursive: true });
+  fs.writeFileSync(path.join(full, "openclaw.plugin.json"), JSON.stringify({ id }));
+  fs.writeFileSync(path.join(full, "package.json"), JSON.stringify({ name: id, version }));
+  return full;
+}
+
+function git(dir: string, ...args: string[]): void {
+  spawnSync("git", ["-C", dir, "-c", "user.name=t", "-c", "user.email=t@example.com", ...args], { stdio: "ignore" });
+}
+
+function inventory(profile: string, plugins: Array<[string, string | null]>): PluginInventory {
+  return {
+    profile,
+    source: "disk",
+    plugins: plugins.map(([id, version]) => ({ id, version, sourcePath: null, enabled: true, profile })),
+  };
+}
+
+describe("classifyDrift", () => {
+  it("classifies the direction of the difference", () => {
+    expect(classifyDrift("1.2.0", "1.1.0")).toBe("workspace-ahead");
+    expect(classifyDrift("1.1.0", "1.2.0")).toBe("installed-ahead");
+    expect(classifyDrift("1.2.0", "1.2.0")).toBe("current");
+    expect(classifyDrift("1.2.0", null)).toBe("unknown");
+    expect(classifyDrift("dev", "dev")).toBe("current");
+  });
+});
+
+describe("describeGitRevision", () => {
+  it("describes tags, commits past a tag, and dirty trees", () => {
+    const repo = writeRepo("openclaw-a", "openclaw-a", "1.0.0");
+    expect(describeGitRevision(repo)).toBeNull();
+
+    git(repo, "init", "-q");
+    git(repo, "add", "-A");
+    git(repo, "commit", "-q", "-m", "init");
+    expect(describeGitRevision(repo)).toMatch(/^[0-9a-f]{7,}$/);
+    git(repo, "tag", "v1.0.0");
+    expect(describeGitRevision(repo)).toBe("v1.0.0");
+    fs.writeFileSync(path.join(repo, "package.json"), JSON.stringify({ version: "1.1.0" }));
+    expect(describeGitRevision(repo)).toBe("v1.0.0-dirty");
+  });
+});
+
+describe("collectPluginVersions", () => {
+  it("compares each workspace repo with every profile's inventory", () => {
+    writeRepo("openclaw-a", "openclaw-a", "1.2.0");
+    writeRepo("openclaw-b", "b-plugin", "0.3.0");
+    const versions = collectPluginVersions(tmpWorkspace, [
+      inventory("default", [["openclaw-a", "1.1.0"], ["b-plugin", "0.3.0"]]),
+      inventory("staging", [["openclaw-a", "1.3.0"]]),
+    ]);
+    expect(versions.map((v) => [v.dir, v.id, v.version, v.git])).toEqual([
+      ["openclaw-a", "openclaw-a", "1.2.0", null],
+      ["openclaw-b", "b-plugin", "0.3.0", null],
+    ]);
+    expect(versions[0].installs.map((i) => i.drift)).toEqual(["workspace-ahead", "installed-ahead"]);
+    expect(versions[1].installs.map((i) => i.drift)).toEqual(["current", "not-installed"]);
+
+    const section = renderWorkspaceVersions(versions).join("\n");
+    expect(section).toContain("- openclaw-a v1.2.0 (no git)");
+    expect(section).toContain("  default: v1.1.0 ⚠ workspace ahead of installed");
+    expect(section).toContain("  staging: v1.3.0 ⚠ installed ahead of workspace");
+    expect(section).toContain("  staging: not installed");
+
+    const outdated = renderOutdatedPlugins(versions, ["default", "staging"]);
+    expect(outdated).toContain("Outdated plugins (1)");
+    expect(outdated).not.toContain("openclaw-b");
+  });
+
+  it("says when nothing is outdated", () => {
+    expect(renderOutdatedPlugins([], [])).toContain("All installed workspace plugins match their workspace version.");
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Workspace vs installed plugin versions for /plugins and /plugins outdated.
+ *
+ * For every openclaw-* repo in the workspace, compares its package.json
+ * version with the version installed in each profile's plugin inventory,
+ * and describes the repo's git state (`git describe --tags --always
+ * --dirty`). Everything is read locally: no registry or remote lookups.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { runCmd, readJsonSafe, listWorkspacePluginDirs } from "./utils.js";
+import { compareVersions } from "./semver.js";
+import { findInstalledPlugin } from "./plugin-inventory.js";
+import type { PluginInventory } from "./plugin-inventory.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type VersionDrift = "current" | "workspace-ahead" | "installed-ahead" | "unknown" | "not-installed";
+
+export interface ProfileInstallVersion {
+  profile: string;
+  /** Installed version; `null` when not installed or not reported. */
+  version: string | null;
+  drift: VersionDrift;
+}
+
+export interface WorkspacePluginVersion {
+  /** Workspace directory name, e.g. `openclaw-ops-elvatis`. */
+  dir: string;
+  /** Manifest id, or the directory name without one. */
+  id: string;
+  /** package.json version, falling back to the manifest's. */
+  version: string | null;
+  /** `git describe` output, or `null` when the repo is not a git checkout. */
+  git: string | null;
+  /** One entry per profile whose inventory could be read. */
+  installs: ProfileInstallVersion[];
+}
+
+const DRIFT_LABELS: Record<VersionDrift, string> = {
+  current: "✓ up to date",
+  "workspace-ahead": "⚠ workspace ahead of installed",
+  "installed-ahead": "⚠ installed ahead of workspace",
+  unknown: "? version unknown",
+  "not-installed": "not installed",
+};
+
+// ---------------------------------------------------------------------------
+// Version comparison
+// ---------------------------------------------------------------------------
+
+/** How an installed version relates to the workspace version. */
+export function classifyDrift(workspaceVersion: string | null, installedVersion: string | null): VersionDrift {
+  if (!workspaceVersion || !installedVersion) return "unknown";
+  const cmp = compareVersions(workspaceVersion, installedVersion);
+  if (cmp === null) return workspaceVersion === installedVersion ? "current" : "unknown";
+  return cmp > 0 ? "workspace-ahead" : cmp < 0 ? "installed-ahead" : "current";
+}
+
+// ---------------------------------------------------------------------------
+// Data gathering
+// ---------------------------------------------------------------------------
+
+/**
+ * `git describe --tags --always --dirty` for a repo, e.g. `v1.2.0`,
+ * `v1.2.0-3-g1a2b3c4` or `1a2b3c4-dirty`. Only repos with their own `.git`
+ * count, so a plugin inside a larger checkout is not described by its parent.
+ */
+export function describeGitRevision(dir: string): string | null {
+  if (!fs.existsSync(path.join(dir, ".git"))) return null;
+  const res = runCmd("git", ["-C", dir, "describe", "--tags", "--always", "--dirty"], 5000);
+  return res.code === 0 && res.out ? res.out.split("\n")[0].trim() : null;
+}
+
+/** Versions of every workspace plugin repo against each readable inventory. */
+export function collectPluginVersions(workspace: string, inventories: PluginInventory[]): WorkspacePluginVersion[] {
+  return listWorkspacePluginDirs(workspace).map((dir) => {
+    const full = path.join(workspace, dir);
+    const manifest = readJsonSafe<{ id?: string; version?: string } | null>(path.join(full, "openclaw.plugin.json"), null);
+    const pkg = readJsonSafe<{ version?: string } | null>(path.join(full, "package.json"), null);
+    const id = manifest?.id ?? dir;
+    const version = pkg?.version ?? manifest?.version ?? null;
+
+    const installs = inventories.map((inventory) => {
+      const installed = findInstalledPlugin(inventory, [id, dir]);
+      if (!installed) return { profile: inventory.profile, version: null, drift: "not-installed" as const };
+      return { profile: inventory.profile, version: installed.version, drift: classifyDrift(version, installed.version) };
+    });
+    return { dir, id, version, git: describeGitRevision(full), installs };
+  });
+}
+
+/** Whether an install differs from the workspace version in either direction. */
+export function isOutdated(install: ProfileInstallVersion): boolean {
+  return install.drift === "workspace-ahead" || install.drift === "installed-ahead";
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function formatWorkspaceHeader(p: WorkspacePluginVersion): string {
+  return `- ${p.dir}${p.version ? ` v${p.version}` : ""} (${p.git ?? "no git"})`;
+}
+
+function formatInstall(install: ProfileInstallVersion): string {
+  if (install.drift === "not-installed") return `  ${install.profile}: not installed`;
+  return `  ${install.profile}: ${install.version ? `v${install.version}` : "(no version)"} ${DRIFT_LABELS[install.drift]}`;
+}
+
+/** The WORKSPACE section of /plugins: every repo with its per-profile installs. */
+export function renderWorkspaceVersions(versions: WorkspacePluginVersion[]): string[] {
+  const lines: string[] = [`WORKSPACE (${versions.length})`];
+  if (versions.length === 0) lines.push("- (no openclaw-* plugins in workspace)");
+  for (const p of versions) {
+    lines.push(formatWorkspaceHeader(p));
+    for (const install of p.installs) lines.push(formatInstall(install));
+  }
+  return lines;
+}
+
+/** `/plugins outdated`: only installs whose version differs from the workspace. */
+export function renderOutdatedPlugins(versions: WorkspacePluginVersion[], profiles: string[]): string {
+  const outdated = versions.filter((p) => p.installs.some(isOutdated));
+  const lines: string[] = [];
+  lines.push(`Outdated plugins (${outdated.length})`);
+  lines.push(`Profiles checked: ${profiles.length > 0 ? profiles.join(", ") : "(none readable)"}`);
+  lines.push("");
+
+  if (outdated.length === 0) {
+    lines.push("All installed workspace plugins match their workspace version.");
+    return lines.join("\n");
+  }
+  for (const p of outdated) {
+    lines.push(formatWorkspaceHeader(p));
+    for (const install of p.installs.filter(isOutdated)) lines.push(formatInstall(install));
+  }
+  return lines.join("\n");
+}
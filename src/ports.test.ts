@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { checkPortBindings, formatPortBinding } from "./ports.js";
+import type { ProfilePortInput } from "./ports.js";
+import type { ListeningSocket } from "./procfs.js";
+
+const fakeProc = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-ports-" + process.pid);
+
+/** Minimal /proc/<pid>/stat so listDescendantPids sees the parent link. */
+function addProcess(pid: number, name: string, ppid: number) {
+  const fields = ["S", ppid, pid, pid, 0, -1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 20, 0, 1, 0, 0, 0, 1];
+  fs.mkdirSync(path.join(fakeProc, String(pid)), { recursive: true });
+  fs.writeFileSync(path.join(fakeProc, String(pid), "stat"), `${pid} (${name}) ${fields.join(" ")}\n`);
+}
+
+function socket(port: number, pid: number | null, name: string | null = null, address = "127.0.0.1"): ListeningSocket {
+  return { address, port, inode: port * 10 + (pid ?? 0), pid, name };
+}
+
+function input(profile: string, port: number, state: "running" | "stopped", pid?: number): ProfilePortInput {
+  return { profile, configured: true, status: { running: state === "running", state, port, ...(pid !== undefined ? { pid } : {}) } };
+}
+
+afterEach(() => {
+  try { fs.rmSync(fakeProc, { recursive: true, force: true }); } catch {}
+});
+
+describe("checkPortBindings", () => {
+  it("accepts a port held by the gateway or one of its children", () => {
+    addProcess(100, "openclaw", 1);
+    addProcess(101, "node", 100);
+    const [binding] = checkPortBindings([input("default", 18789, "running", 100)], [socket(18789, 101, "node")], fakeProc);
+    expect(binding.listeners).toHaveLength(1);
+    expect(binding.conflicts).toEqual([]);
+  });
+
+  it("flags a foreign process on the port", () => {
+    addProcess(100, "openclaw", 1);
+    addProcess(500, "python3", 1);
+    const [binding] = checkPortBindings([input("default", 18789, "running", 100)], [socket(18789, 500, "python3")], fakeProc);
+    expect(binding.conflicts).toEqual(["Port 18789 is held by foreign process PID 500 (python3)"]);
+  });
+
+  it("flags a listener while the gateway is stopped", () => {
+    fs.mkdirSync(fakeProc, { recursive: true });
+    const [binding] = checkPortBindings([input("default", 18789, "stopped")], [socket(18789, 500, "nc")], fakeProc);
+    expect(binding.conflicts).toEqual(["Port 18789 is held by foreign process PID 500 (nc)"]);
+  });
+
+  it("flags profiles sharing a port and names the gateway holding it", () => {
+    addProcess(100, "openclaw", 1);
+    const bindings = checkPortBindings(
+      [input("default", 18789, "running", 100), input("staging", 18789, "stopped")],
+      [socket(18789, 100, "openclaw")],
+      fakeProc,
+    );
+    expect(bindings[0].conflicts).toEqual(["Port 18789 is also used by profile staging"]);
+    expect(bindings[1].conflicts).toEqual([
+      "Port 18789 is also used by profile default",
+      "Port 18789 is held by the default gateway (PID 100 (openclaw))",
+    ]);
+  });
+
+  it("does not judge ownership of a running gateway with unknown PID", () => {
+    fs.mkdirSync(fakeProc, { recursive: true });
+    const [binding] = checkPortBindings([input("default", 18789, "running")], [socket(18789, 500, "node")], fakeProc);
+    expect(binding.conflicts).toEqual([]);
+  });
+});
+
+describe("formatPortBinding", () => {
+  it("groups addresses per owner and marks the default port", () => {
+    const lines = formatPortBinding({
+      profile: "default",
+      port: 18789,
+      configured: false,
+      listeners: [socket(18789, 100, "node"), socket(18789, 100, "node", "::1"), socket(18789, null)],
+      conflicts: ["Port 18789 is also used by profile staging"],
+    });
+    expect(lines).toEqual([
+      "  Port: 18789 (default)",
+      "  Bound by: PID 100 (node) on 127.0.0.1, ::1",
+      "  Bound by: (owner not visible) on 127.0.0.1",
+      "  ⚠ Port 18789 is also used by profile staging",
+    ]);
+  });
+
+  it("shows an unbound port", () => {
+    const lines = formatPortBinding({ profile: "staging", port: 18790, configured: true, listeners: [], conflicts: [] });
+    expect(lines).toEqual(["  Port: 18790", "  Bound by: (not listening)"]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Gateway port bindings and conflict detection for /services.
+ *
+ * Each profile's effective port (configured, or the default 18789) is
+ * matched against the listening sockets in /proc/net/tcp and tcp6. A port
+ * is in conflict when two profiles resolve to the same port, or when the
+ * process listening on it is neither the profile's gateway nor one of its
+ * children.
+ */
+
+import { DEFAULT_PROC_ROOT, listDescendantPids } from "./procfs.js";
+import type { ListeningSocket } from "./procfs.js";
+import { DEFAULT_GATEWAY_PORT } from "./utils.js";
+import type { GatewayStatus } from "./utils.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ProfilePortInput {
+  profile: string;
+  /** Gateway status; `port` is the effective port. */
+  status: GatewayStatus;
+  /** Whether the port comes from the profile config rather than the default. */
+  configured: boolean;
+}
+
+export interface PortBinding {
+  profile: string;
+  port: number;
+  configured: boolean;
+  /** Sockets listening on the port, on any address. */
+  listeners: ListeningSocket[];
+  /** Human-readable conflicts; empty when the binding looks right. */
+  conflicts: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Analysis
+// ---------------------------------------------------------------------------
+
+function describeOwner(socket: ListeningSocket): string {
+  return `PID ${socket.pid}${socket.name ? ` (${socket.name})` : ""}`;
+}
+
+/**
+ * Match each profile's port against the listening sockets and flag shared
+ * ports and foreign listeners.
+ */
+export function checkPortBindings(
+  profiles: ProfilePortInput[],
+  sockets: ListeningSocket[],
+  procRoot = DEFAULT_PROC_ROOT,
+): PortBinding[] {
+  // pid -> profile whose gateway process tree it belongs to
+  const gatewayPids = new Map<number, string>();
+  for (const { profile, status } of profiles) {
+    if (status.pid === undefined) continue;
+    gatewayPids.set(status.pid, profile);
+    for (const child of listDescendantPids(status.pid, procRoot)) gatewayPids.set(child, profile);
+  }
+
+  const portOf = (status: GatewayStatus) => status.port ?? DEFAULT_GATEWAY_PORT;
+
+  return profiles.map(({ profile, status, configured }) => {
+    const port = portOf(status);
+    const listeners = sockets.filter((s) => s.port === port);
+    const conflicts: string[] = [];
+
+    const sharing = profiles.filter((p) => p.profile !== profile && portOf(p.status) === port).map((p) => p.profile);
+    if (sharing.length > 0) conflicts.push(`Port ${port} is also used by profile ${sharing.join(", ")}`);
+
+    // Ownership can only be judged when we know which process is the gateway
+    const ownerKnown = status.pid !== undefined || status.state === "stopped";
+    const reported = new Set<number | null>();
+    for (const socket of listeners) {
+      if (reported.has(socket.pid)) continue;
+      reported.add(socket.pid);
+      if (socket.pid === null) {
+        if (status.state === "stopped") {
+          conflicts.push(`Port ${port} is held by a process that is not visible (another user?) while the gateway is stopped`);
+        }
+        continue;
+      }
+      const owner = gatewayPids.get(socket.pid);
+      if (owner === profile) continue;
+      if (owner !== undefined) {
+        conflicts.push(`Port ${port} is held by the ${owner} gateway (${describeOwner(socket)})`);
+      } else if (ownerKnown) {
+        conflicts.push(`Port ${port} is held by foreign process ${describeOwner(socket)}`);
+      }
+    }
+
+    return { profile, port, configured, listeners, conflicts };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/** Port lines for a profile in /services. */
+export function formatPortBinding(binding: PortBinding): string[] {
+  const lines = [`  Port: ${binding.port}${binding.configured ? "" : " (default)"}`];
+
+  if (binding.listeners.length === 0) {
+    lines.push("  Bound by: (not listening)");
+  } else {
+    // One entry per owning process, with every address it listens on
+    const byOwner = new Map<string, string[]>();
+    for (const socket of binding.listeners) {
+      const owner = socket.pid !== null ? describeOwner(socket) : "(owner not visible)";
+      byOwner.set(owner, [...(byOwner.get(owner) ?? []), socket.address]);
+    }
+    for (const [owner, addresses] of byOwner) {
+      lines.push(`  Bound by: ${owner} on ${addresses.join(", ")}`);
+    }
+  }
+
+  for (const conflict of binding.conflicts) lines.push(`  ⚠ ${conflict}`);
+  return lines;
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  parseProcStat,
+  readProcessStats,
+  listDescendantPids,
+  readProcessTree,
+  hasProcfs,
+  parseProcNetTcp,
+  listListeningSockets,
+} from "./procfs.js";
+
+const fakeProc = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-procfs-" + process.pid);
+
+/** Build a /proc/<pid>/stat line; utime/stime in clock ticks, rss in pages. */
+function statLine(pid: number, name: string, ppid: number, utime: number, stime: number, threads: number, rssPages: number): string {
+  const fields = [
+    "S", ppid, pid, pid, 0, -1, 4194560, 100, 0, 0, 0,
+    utime, stime, 0, 0, 20, 0, threads, 0, 12345, 1_000_000, rssPages,
+  ];
+  return `${pid} (${name}) ${fields.join(" ")}\n`;
+}
+
+function addProcess(pid: number, opts: { name: string; ppid: number; utime?: number; stime?: number; threads?: number; rssKb?: number; fds?: number }) {
+  const dir = path.join(fakeProc, String(pid));
+  fs.mkdirSync(path.join(dir, "fd"), { recursive: true });
+  fs.writeFileSync(path.join(dir, "stat"), statLine(pid, opts.name, opts.ppid, opts.utime ?? 0, opts.stime ?? 0, opts.threads ?? 1, 1));
+  if (opts.rssKb !== undefined) {
+    fs.writeFileSync(path.join(dir, "status"), `Name:\t${opts.name}\nVmRSS:\t  ${opts.rssKb} kB\nThreads:\t${opts.threads ?? 1}\n`);
+  }
+  for (let i = 0; i < (opts.fds ?? 0); i++) fs.writeFileSync(path.join(dir, "fd", String(i)), "");
+}
+
+afterEach(() => {
+  try { fs.rmSync(fakeProc, { recursive: true, force: true }); } catch {}
+});
+
+// ---------------------------------------------------------------------------
+// parseProcStat
+// ---------------------------------------------------------------------------
+describe("parseProcStat", () => {
+  it("parses fields after the command name", () => {
+    expect(parseProcStat(statLine(42, "node", 1, 250, 50, 11, 2048))).toEqual({
+      name: "node", state: "S", ppid: 1, utime: 250, stime: 50, threads: 11, rssPages: 2048,
+    });
+  });
+
+  it("handles command names with spaces and parentheses", () => {
+    expect(parseProcStat(statLine(7, "openclaw (gw) x", 1, 0, 0, 1, 1))?.name).toBe("openclaw (gw) x");
+  });
+
+  it("returns null for malformed input", () => {
+    expect(parseProcStat("garbage")).toBeNull();
+    expect(parseProcStat("1 (x) S 0")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// readProcessStats / readProcessTree
+// ---------------------------------------------------------------------------
+describe("readProcessStats", () => {
+  it("reads RSS from status, CPU time, threads and fds", () => {
+    addProcess(100, { name: "openclaw-gateway", ppid: 1, utime: 1234, stime: 66, threads: 12, rssKb: 204800, fds: 3 });
+    expect(readProcessStats(100, fakeProc)).toEqual({
+      pid: 100,
+      ppid: 1,
+      name: "openclaw-gateway",
+      state: "S",
+      rssBytes: 204800 * 1024,
+      userSec: 12.34,
+      systemSec: 0.66,
+      threads: 12,
+      fds: 3,
+    });
+  });
+
+  it("falls back to stat RSS pages without a status file", () => {
+    addProcess(101, { name: "x", ppid: 1 });
+    expect(readProcessStats(101, fakeProc)?.rssBytes).toBe(4096);
+  });
+
+  it("returns null for a missing process", () => {
+    expect(readProcessStats(999, fakeProc)).toBeNull();
+  });
+
+  it("reads the current process from the real /proc", () => {
+    if (!hasProcfs()) return;
+    const stats = readProcessStats(process.pid);
+    expect(stats?.rssBytes).toBeGreaterThan(0);
+    expect(stats?.threads).toBeGreaterThan(0);
+  });
+});
+
+describe("readProcessTree", () => {
+  it("collects direct and indirect children and sums RSS", () => {
+    addProcess(100, { name: "gateway", ppid: 1, rssKb: 1000 });
+    addProcess(200, { name: "worker", ppid: 100, rssKb: 300 });
+    addProcess(300, { name: "helper", ppid: 200, rssKb: 200 });
+    addProcess(400, { name: "unrelated", ppid: 1, rssKb: 5000 });
+
+    expect(listDescendantPids(100, fakeProc).sort()).toEqual([200, 300]);
+    const tree = readProcessTree(100, fakeProc)!;
+    expect(tree.children.map((c) => c.name).sort()).toEqual(["helper", "worker"]);
+    expect(tree.treeRssBytes).toBe(1500 * 1024);
+  });
+
+  it("returns null for a missing process", () => {
+    expect(readProcessTree(999, fakeProc)).toBeNull();
+  });
+});
+
+describe("hasProcfs", () => {
+  it("is false for a directory without process entries", () => {
+    fs.mkdirSync(fakeProc, { recursive: true });
+    expect(hasProcfs(fakeProc)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Sockets
+// ---------------------------------------------------------------------------
+const TCP_HEADER = "  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode\n";
+
+/** Build a /proc/net/tcp row. */
+function tcpRow(local: string, state: string, inode: number): string {
+  return `   0: ${local} 00000000:0000 ${state} 00000000:00000000 00:00000000 00000000  1000        0 ${inode} 1 0000000000000000 100 0 0 10 0\n`;
+}
+
+describe("parseProcNetTcp", () => {
+  it("decodes listening IPv4 sockets and skips other states", () => {
+    const raw = TCP_HEADER + tcpRow("0100007F:4965", "0A", 111) + tcpRow("00000000:0016", "0A", 222) + tcpRow("0100007F:9C40", "01", 333);
+    expect(parseProcNetTcp(raw)).toEqual([
+      { address: "127.0.0.1", port: 18789, inode: 111 },
+      { address: "0.0.0.0", port: 22, inode: 222 },
+    ]);
+  });
+
+  it("decodes IPv6 addresses", () => {
+    const raw =
+      TCP_HEADER +
+      tcpRow("00000000000000000000000000000000:4965", "0A", 1) +
+      tcpRow("00000000000000000000000001000000:4965", "0A", 2) +
+      tcpRow("0000000000000000FFFF00000100007F:4965", "0A", 3);
+    expect(parseProcNetTcp(raw).map((s) => s.address)).toEqual(["::", "::1", "::ffff:7f00:1"]);
+  });
+});
+
+describe("listListeningSockets", () => {
+  it("finds the owning process through fd socket links", () => {
+    addProcess(100, { name: "node", ppid: 1 });
+    fs.symlinkSync("socket:[111]", path.join(fakeProc, "100", "fd", "7"));
+    fs.mkdirSync(path.join(fakeProc, "net"), { recursive: true });
+    fs.writeFileSync(path.join(fakeProc, "net", "tcp"), TCP_HEADER + tcpRow("0100007F:4965", "0A", 111) + tcpRow("00000000:0016", "0A", 222));
+
+    expect(listListeningSockets(fakeProc)).toEqual([
+      { address: "127.0.0.1", port: 18789, inode: 111, pid: 100, name: "node" },
+      { address: "0.0.0.0", port: 22, inode: 222, pid: null, name: null },
+    ]);
+  });
+
+  it("returns nothing without /proc/net", () => {
+    fs.mkdirSync(fakeProc, { recursive: true });
+    expect(listListeningSockets(fakeProc)).toEqual([]);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Per-process resource readers backed by Linux /proc.
+ *
+ * Used by /resources to break host-wide usage down per gateway process:
+ * resident memory, CPU time, open file descriptors, threads, and child
+ * processes. /services uses the socket readers to find which process
+ * listens on a gateway port. Every reader takes an optional `procRoot` so
+ * tests can point it at a fake /proc tree. On platforms without /proc the
+ * readers return `null` / empty results.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ProcessStats {
+  pid: number;
+  ppid: number;
+  name: string;
+  /** Single-letter state from /proc/<pid>/stat (R, S, D, Z, ...). */
+  state: string;
+  rssBytes: number;
+  /** CPU time spent in user mode, in seconds. */
+  userSec: number;
+  /** CPU time spent in kernel mode, in seconds. */
+  systemSec: number;
+  threads: number;
+  /** Open file descriptors; `null` when /proc/<pid>/fd is not readable. */
+  fds: number | null;
+}
+
+export interface ProcessTreeStats extends ProcessStats {
+  /** Direct and indirect children of the process. */
+  children: ProcessStats[];
+  /** RSS of the process plus all descendants. */
+  treeRssBytes: number;
+}
+
+// ---------------------------------------------------------------------------
+// Readers
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_PROC_ROOT = "/proc";
+
+/** Clock ticks per second used by /proc/<pid>/stat (USER_HZ, 100 on Linux). */
+const CLOCK_TICKS = 100;
+
+/** Whether a /proc filesystem is available at `procRoot`. */
+export function hasProcfs(procRoot = DEFAULT_PROC_ROOT): boolean {
+  return fs.existsSync(path.join(procRoot, "self")) || fs.existsSync(path.join(procRoot, "1"));
+}
+
+/**
+ * Parse the contents of /proc/<pid>/stat. The command name is wrapped in
+ * parentheses and may itself contain spaces or parentheses, so fields are
+ * split only after the last `)`.
+ */
+export function parseProcStat(raw: string): {
+  name: string;
+  state: string;
+  ppid: number;
+  utime: number;
+  stime: number;
+  threads: number;
+  rssPages: number;
+} | null {
+  const open = raw.indexOf("(");
+  const close = raw.lastIndexOf(")");
+  if (open === -1 || close < open) return null;
+  const fields = raw.slice(close + 2).trim().split(/\s+/);
+  // fields[0] is field 3 (state) in proc(5) numbering
+  if (fields.length < 22) return null;
+  return {
+    name: raw.slice(open + 1, close),
+    state: fields[0],
+    ppid: parseInt(fields[1], 10),
+    utime: parseInt(fields[11], 10),
+    stime: parseInt(fields[12], 10),
+    threads: parseInt(fields[17], 10),
+    rssPages: parseInt(fields[21], 10),
+  };
+}
+
+/** Read `VmRSS` from /proc/<pid>/status in bytes, or null if absent. */
+function readStatusRss(pid: number, procRoot: string): number | null {
+  try {
+    const status = fs.readFileSync(path.join(procRoot, String(pid), "status"), "utf-8");
+    const match = status.match(/^VmRSS:\s+(\d+)\s*kB/m);
+    return match ? parseInt(match[1], 10) * 1024 : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Count open file descriptors, or null when the fd directory is unreadable. */
+function countFds(pid: number, procRoot: string): number | null {
+  try {
+    return fs.readdirSync(path.join(procRoot, String(pid), "fd")).length;
+  } catch {
+    return null;
+  }
+}
+
+/** Read resource stats for a single process. Returns null if it does not exist. */
+export function readProcessStats(pid: number, procRoot = DEFAULT_PROC_ROOT): ProcessStats | null {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(path.join(procRoot, String(pid), "stat"), "utf-8");
+  } catch {
+    return null;
+  }
+  const stat = parseProcStat(raw);
+  if (!stat) return null;
+
+  return {
+    pid,
+    ppid: stat.ppid,
+    name: stat.name,
+    state: stat.state,
+    // VmRSS is in kB and avoids assuming the page size
+    rssBytes: readStatusRss(pid, procRoot) ?? stat.rssPages * 4096,
+    userSec: stat.utime / CLOCK_TICKS,
+    systemSec: stat.stime / CLOCK_TICKS,
+    threads: stat.threads,
+    fds: countFds(pid, procRoot),
+  };
+}
+
+/** Return every process as pid -> parent pid. */
+function readParentMap(procRoot: string): Map<number, number> {
+  const parents = new Map<number, number>();
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(procRoot);
+  } catch {
+    return parents;
+  }
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      const stat = parseProcStat(fs.readFileSync(path.join(procRoot, entry, "stat"), "utf-8"));
+      if (stat) parents.set(parseInt(entry, 10), stat.ppid);
+    } catch {
+      // process exited while scanning
+    }
+  }
+  return parents;
+}
+
+/** Pids of all descendants of `pid`, breadth first. */
+export function listDescendantPids(pid: number, procRoot = DEFAULT_PROC_ROOT): number[] {
+  const parents = readParentMap(procRoot);
+  const result: number[] = [];
+  const queue = [pid];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [child, parent] of parents) {
+      if (parent === current && !result.includes(child)) {
+        result.push(child);
+        queue.push(child);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Read stats for a process and all of its descendants.
+ * Returns null if the process does not exist.
+ */
+export function readProcessTree(pid: number, procRoot = DEFAULT_PROC_ROOT): ProcessTreeStats | null {
+  const root = readProcessStats(pid, procRoot);
+  if (!root) return null;
+  const children = listDescendantPids(pid, procRoot)
+    .map((child) => readProcessStats(child, procRoot))
+    .filter((s): s is ProcessStats => s !== null);
+  const treeRssBytes = children.reduce((sum, c) => sum + c.rssBytes, root.rssBytes);
+  return { ...root, children, treeRssBytes };
+}
+
+// ---------------------------------------------------------------------------
+// Sockets
+// ---------------------------------------------------------------------------
+
+/** A listening TCP socket from /proc/net/tcp or /proc/net/tcp6. */
+export interface ListeningSocket {
+  /** Local address, e.g. `127.0.0.1`, `0.0.0.0` or `::`. */
+  address: string;
+  port: number;
+  inode: number;
+  /** Owning process; `null` when no readable fd table references the socket. */
+  pid: number | null;
+  name: string | null;
+}
+
+/** TCP state code for LISTEN in /proc/net/tcp. */
+const TCP_LISTEN = "0A";
+
+/** Decode a /proc/net/tcp hex address (little-endian 32-bit words). */
+function decodeProcAddress(hex: string): string {
+  const bytes: number[] = [];
+  for (let w = 0; w < hex.length; w += 8) {
+    const word = hex.slice(w, w + 8);
+    for (let b = 6; b >= 0; b -= 2) bytes.push(parseInt(word.slice(b, b + 2), 16));
+  }
+  if (bytes.length === 4) return bytes.join(".");
+
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  // Compress the longest run of zero groups
+  let best = { start: -1, len: 0 };
+  for (let i = 0; i < groups.length; ) {
+    if (groups[i] !== "0") {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < groups.length && groups[j] === "0") j++;
+    if (j - i > best.len) best = { start: i, len: j - i };
+    i = j;
+  }
+  if (best.len < 2) return groups.join(":");
+  return `${groups.slice(0, best.start).join(":")}::${groups.slice(best.start + best.len).join(":")}`;
+}
+
+/** Parse listening sockets out of /proc/net/tcp or /proc/net/tcp6 contents. */
+export function parseProcNetTcp(raw: string): Array<{ address: string; port: number; inode: number }> {
+  const result: Array<{ address: string; port: number; inode: number }> = [];
+  for (const line of raw.split("\n").slice(1)) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 10 || fields[3] !== TCP_LISTEN) continue;
+    const [addrHex, portHex] = fields[1].split(":");
+    if (!addrHex || !portHex) continue;
+    result.push({ address: decodeProcAddress(addrHex), port: parseInt(portHex, 16), inode: parseInt(fields[9], 10) });
+  }
+  return result;
+}
+
+/** Map socket inodes to the pid holding them, from /proc/<pid>/fd links. */
+function findSocketOwners(inodes: Set<number>, procRoot: string): Map<number, number> {
+  const owners = new Map<number, number>();
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(procRoot);
+  } catch {
+    return owners;
+  }
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) continue;
+    const fdDir = path.join(procRoot, entry, "fd");
+    let fds: string[];
+    try {
+      fds = fs.readdirSync(fdDir);
+    } catch {
+      continue; // another user's process
+    }
+    for (const fd of fds) {
+      let target: string;
+      try {
+        target = fs.readlinkSync(path.join(fdDir, fd));
+      } catch {
+        continue;
+      }
+      const m = target.match(/^socket:\[(\d+)\]$/);
+      if (m && inodes.has(parseInt(m[1], 10)) && !owners.has(parseInt(m[1], 10))) {
+        owners.set(parseInt(m[1], 10), parseInt(entry, 10));
+      }
+    }
+  }
+  return owners;
+}
+
+/** Every listening TCP socket (IPv4 and IPv6) with its owning process when visible. */
+export function listListeningSockets(procRoot = DEFAULT_PROC_ROOT): ListeningSocket[] {
+  const sockets: Array<{ address: string; port: number; inode: number }> = [];
+  for (const file of ["tcp", "tcp6"]) {
+    try {
+      sockets.push(...parseProcNetTcp(fs.readFileSync(path.join(procRoot, "net", file), "utf-8")));
+    } catch {
+      // no IPv6, or no /proc
+    }
+  }
+  const owners = findSocketOwners(new Set(sockets.map((s) => s.inode).filter((i) => i > 0)), procRoot);
+  return sockets.map((s) => {
+    const pid = owners.get(s.inode) ?? null;
+    return { ...s, pid, name: pid !== null ? readProcessStats(pid, procRoot)?.name ?? null : null };
+  });
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { diffConfigs, formatDiffEntry, findLastUsed, renderProfilesText } from "./profiles.js";
+import type { ProfileSummary } from "./profiles.js";
+
+const tmpDir = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-profiles-" + process.pid);
+
+afterEach(() => {
+  try { fs.rmSync(tmpDir, { recursive: true, force: true }); } catch {}
+});
+
+describe("diffConfigs", () => {
+  it("reports added, removed and changed keys by dotted path", () => {
+    const base = { gateway: { port: 18789, bind: "loopback" }, plugins: { allow: ["a", "b"] }, old: true };
+    const other = { gateway: { port: 18790, bind: "loopback" }, plugins: { allow: ["a"] }, extra: 1 };
+    expect(diffConfigs(base, other)).toEqual([
+      { path: "extra", kind: "added", value: 1 },
+      { path: "gateway.port", kind: "changed", base: 18789, value: 18790 },
+      { path: "old", kind: "removed", base: true },
+      { path: "plugins.allow", kind: "changed", base: ["a", "b"], value: ["a"] },
+    ]);
+  });
+
+  it("returns nothing for identical configs", () => {
+    expect(diffConfigs({ a: { b: [1, 2] } }, { a: { b: [1, 2] } })).toEqual([]);
+  });
+
+  it("treats a type change as a changed value", () => {
+    expect(diffConfigs({ a: { b: 1 } }, { a: "x" })).toEqual([{ path: "a", kind: "changed", base: { b: 1 }, value: "x" }]);
+  });
+});
+
+describe("formatDiffEntry", () => {
+  it("masks secrets in values", () => {
+    expect(formatDiffEntry({ path: "gateway.token", kind: "added", value: "abcdefgh" })).toBe('+ gateway.token: "abcd****"');
+    expect(formatDiffEntry({ path: "auth", kind: "removed", base: { apiKey: "12345678" } })).toBe('- auth: {"apiKey":"1234****"}');
+  });
+
+  it("notes secrets that differ but mask the same", () => {
+    expect(formatDiffEntry({ path: "token", kind: "changed", base: "abcd-one", value: "abcd-two" })).toBe(
+      '~ token: "abcd****" -> "abcd****" (values differ)',
+    );
+  });
+});
+
+describe("findLastUsed", () => {
+  it("picks the newest file among state files and logs", () => {
+    const profile = { name: "x", stateDir: tmpDir, configPath: path.join(tmpDir, "config.json"), logDir: path.join(tmpDir, "logs") };
+    fs.mkdirSync(profile.logDir, { recursive: true });
+    fs.writeFileSync(profile.configPath, "{}");
+    fs.writeFileSync(path.join(profile.logDir, "gateway.log"), "x\n");
+    fs.utimesSync(profile.configPath, new Date(1_000_000), new Date(1_000_000));
+    fs.utimesSync(path.join(profile.logDir, "gateway.log"), new Date(2_000_000), new Date(2_000_000));
+    expect(findLastUsed(profile)).toEqual({ ms: 2_000_000, source: path.join("logs", "gateway.log") });
+  });
+
+  it("returns null for a missing state dir", () => {
+    expect(findLastUsed({ name: "x", stateDir: tmpDir, configPath: "", logDir: path.join(tmpDir, "logs") })).toBeNull();
+  });
+});
+
+describe("renderProfilesText", () => {
+  function summary(name: string, drift: ProfileSummary["drift"]): ProfileSummary {
+    return {
+      profile: { name, stateDir: `/home/u/.openclaw-${name}`, configPath: "", logDir: "" },
+      configExists: true,
+      gateway: { running: false, state: "stopped" },
+      lastUsed: null,
+      plugins: [
+        { id: "ops", version: "1.0.0", sourcePath: null, enabled: true, profile: name },
+        { id: "cortex", version: null, sourcePath: null, enabled: false, profile: name },
+      ],
+      allow: null,
+      drift,
+    };
+  }
+
+  it("caps drift in the overview and lists it all in full mode", () => {
+    const drift = Array.from({ length: 12 }, (_, i) => ({ path: `k${i}`, kind: "added" as const, value: i }));
+    const overview = renderProfilesText([summary("staging", drift)]);
+    expect(overview).toContain("■ staging: Stopped");
+    expect(overview).toContain("Plugins (2): ops, cortex (disabled)");
+    expect(overview).toContain("plugins.allow: (not set)");
+    expect(overview).toContain("Config drift vs default (12):");
+    expect(overview).toContain("... 2 more (/profiles staging)");
+    expect(renderProfilesText([summary("staging", drift)], { full: true })).toContain("+ k11: 11");
+  });
+
+  it("says when a profile matches default", () => {
+    expect(renderProfilesText([summary("staging", [])])).toContain("Config drift: none (matches default)");
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Profile dashboard and config drift detection for /profiles.
+ *
+ * Summarises every discovered profile: gateway state, when it was last
+ * used, installed plugins and `plugins.allow`, plus a key-by-key diff of
+ * its config.json against the default profile. Drift between staging and
+ * default is the point: a setting changed in one and forgotten in the
+ * other shows up here before it ships.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { readJsonSafe, checkGatewayStatus, discoverProfiles, formatIsoCompact } from "./utils.js";
+import type { GatewayStatus, OpenClawProfile } from "./utils.js";
+import { isSecretKey, maskValue, maskSecrets } from "./secrets.js";
+import { formatGatewayStatusLine } from "./gateway-restart.js";
+import { loadPluginInventory } from "./plugin-inventory.js";
+import type { InstalledPlugin } from "./plugin-inventory.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ConfigDiffEntry {
+  /** Dotted key path, e.g. `gateway.port`. */
+  path: string;
+  kind: "added" | "removed" | "changed";
+  /** Value in the base (default) config, for removed and changed keys. */
+  base?: unknown;
+  /** Value in the compared config, for added and changed keys. */
+  value?: unknown;
+}
+
+export interface ProfileSummary {
+  profile: OpenClawProfile;
+  configExists: boolean;
+  gateway: GatewayStatus;
+  /** Newest mtime among config, top-level state files and logs. */
+  lastUsed: { ms: number; source: string } | null;
+  /** Installed plugins from the plugin inventory; `null` when it could not be read. */
+  plugins: InstalledPlugin[] | null;
+  /** `plugins.allow` from config.json; `null` when not set. */
+  allow: string[] | null;
+  /** Differences against the default profile's config; empty for default. */
+  drift: ConfigDiffEntry[];
+}
+
+/** Drift entries shown per profile in the overview. */
+const OVERVIEW_DRIFT_LIMIT = 10;
+
+// ---------------------------------------------------------------------------
+// Config diff
+// ---------------------------------------------------------------------------
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Diff two config objects key by key. Nested objects are walked; arrays and
+ * scalars are compared as whole values. Entries are sorted by path.
+ */
+export function diffConfigs(base: unknown, other: unknown, prefix = ""): ConfigDiffEntry[] {
+  if (!isPlainObject(base) || !isPlainObject(other)) {
+    if (JSON.stringify(base) === JSON.stringify(other)) return [];
+    return [{ path: prefix || "(root)", kind: "changed", base, value: other }];
+  }
+
+  const entries: ConfigDiffEntry[] = [];
+  const keys = [...new Set([...Object.keys(base), ...Object.keys(other)])].sort();
+  for (const key of keys) {
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    if (!(key in other)) {
+      entries.push({ path: keyPath, kind: "removed", base: base[key] });
+    } else if (!(key in base)) {
+      entries.push({ path: keyPath, kind: "added", value: other[key] });
+    } else {
+      entries.push(...diffConfigs(base[key], other[key], keyPath));
+    }
+  }
+  return entries;
+}
+
+/** A diff value as JSON, with secrets masked the same way /config does. */
+function formatDiffValue(keyPath: string, value: unknown): string {
+  const key = keyPath.split(".").pop() ?? "";
+  if (isSecretKey(key) && typeof value === "string" && value.length > 0) return JSON.stringify(maskValue(value));
+  return JSON.stringify(maskSecrets(value));
+}
+
+/** One diff entry, e.g. `~ gateway.port: 18789 -> 18790`. */
+export function formatDiffEntry(entry: ConfigDiffEntry): string {
+  if (entry.kind === "added") return `+ ${entry.path}: ${formatDiffValue(entry.path, entry.value)}`;
+  if (entry.kind === "removed") return `- ${entry.path}: ${formatDiffValue(entry.path, entry.base)}`;
+  const before = formatDiffValue(entry.path, entry.base);
+  const after = formatDiffValue(entry.path, entry.value);
+  // Two secrets sharing a prefix mask to the same text
+  return `~ ${entry.path}: ${before} -> ${after}${before === after ? " (values differ)" : ""}`;
+}
+
+// ---------------------------------------------------------------------------
+// Data gathering
+// ---------------------------------------------------------------------------
+
+/** Newest mtime among config.json, top-level files in the state dir, and logs. */
+export function findLastUsed(profile: OpenClawProfile): { ms: number; source: string } | null {
+  let newest: { ms: number; source: string } | null = null;
+  const consider = (file: string) => {
+    try {
+      const st = fs.statSync(file);
+      if (st.isFile() && (!newest || st.mtimeMs > newest.ms)) {
+        newest = { ms: st.mtimeMs, source: path.relative(profile.stateDir, file) };
+      }
+    } catch {
+      // vanished while scanning
+    }
+  };
+
+  for (const dir of [profile.stateDir, profile.logDir]) {
+    try {
+      for (const name of fs.readdirSync(dir)) consider(path.join(dir, name));
+    } catch {
+      // directory missing
+    }
+  }
+  return newest;
+}
+
+function readAllowList(config: Record<string, any> | null): string[] | null {
+  const allow = config?.plugins?.allow;
+  return Array.isArray(allow) ? allow.map(String) : null;
+}
+
+/** Summaries for every discovered profile, or only `only` when given. */
+export async function collectProfileSummaries(only?: string): Promise<ProfileSummary[]> {
+  const profiles = discoverProfiles();
+  const baseConfig = readJsonSafe<Record<string, any> | null>(profiles[0].configPath, null);
+
+  const summaries: ProfileSummary[] = [];
+  for (const profile of profiles) {
+    if (only !== undefined && profile.name !== only) continue;
+    const config = readJsonSafe<Record<string, any> | null>(profile.configPath, null);
+    summaries.push({
+      profile,
+      configExists: fs.existsSync(profile.configPath),
+      gateway: await checkGatewayStatus(profile.name),
+      lastUsed: findLastUsed(profile),
+      plugins: loadPluginInventory(profile.name)?.plugins ?? null,
+      allow: readAllowList(config),
+      drift: profile.name === "default" ? [] : diffConfigs(baseConfig ?? {}, config ?? {}),
+    });
+  }
+  return summaries;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/**
+ * Render profile summaries. With `full`, every drift entry is listed;
+ * otherwise the first OVERVIEW_DRIFT_LIMIT per profile.
+ */
+export function renderProfilesText(summaries: ProfileSummary[], opts: { full?: boolean } = {}): string {
+  const lines: string[] = [];
+  lines.push(`Profiles (${summaries.length})`);
+
+  for (const s of summaries) {
+    const icon = s.gateway.state === "running" ? "▶" : s.gateway.state === "unresponsive" ? "⚠" : "■";
+    lines.push("");
+    lines.push(`${icon} ${s.profile.name}: ${formatGatewayStatusLine(s.gateway)}`);
+    lines.push(`  State dir: ${s.profile.stateDir}`);
+    lines.push(`  Last used: ${s.lastUsed ? `${formatIsoCompact(s.lastUsed.ms)} UTC (${s.lastUsed.source})` : "(never)"}`);
+    lines.push(
+      s.plugins === null
+        ? "  Plugins: (unable to list)"
+        : `  Plugins (${s.plugins.length}): ${
+            s.plugins.length > 0 ? s.plugins.map((p) => (p.enabled ? p.id : `${p.id} (disabled)`)).join(", ") : "(none)"
+          }`,
+    );
+    lines.push(`  plugins.allow: ${s.allow === null ? "(not set)" : s.allow.length > 0 ? s.allow.join(", ") : "(empty)"}`);
+
+    if (s.profile.name === "default") continue;
+    if (!s.configExists) {
+      lines.push("  Config drift: config.json missing");
+      continue;
+    }
+    if (s.drift.length === 0) {
+      lines.push("  Config drift: none (matches default)");
+      continue;
+    }
+    lines.push(`  Config drift vs default (${s.drift.length}):`);
+    const shown = opts.full ? s.drift : s.drift.slice(0, OVERVIEW_DRIFT_LIMIT);
+    for (const entry of shown) lines.push(`    ${formatDiffEntry(entry)}`);
+    if (shown.length < s.drift.length) {
+      lines.push(`    ... ${s.drift.length - shown.length} more (/profiles ${s.profile.name})`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { isSecretKey, maskValue, maskSecrets } from "./secrets.js";
+
+describe("isSecretKey", () => {
+  it("matches credential-like key names", () => {
+    for (const key of ["apiKey", "api_key", "clientSecret", "botToken", "password", "authHeader", "privateKey"]) {
+      expect(isSecretKey(key)).toBe(true);
+    }
+    expect(isSecretKey("port")).toBe(false);
+  });
+});
+
+describe("maskValue", () => {
+  it("keeps the first 4 characters of long values", () => {
+    expect(maskValue("sk-abcdef")).toBe("sk-a****");
+    expect(maskValue("abcd")).toBe("****");
+  });
+});
+
+describe("maskSecrets", () => {
+  it("masks nested secrets without mutating the input", () => {
+    const config = { gateway: { port: 18789, token: "abcdefgh" }, list: [{ apiKey: "12345678" }], empty: { password: "" } };
+    expect(maskSecrets(config)).toEqual({
+      gateway: { port: 18789, token: "abcd****" },
+      list: [{ apiKey: "1234****" }],
+      empty: { password: "" },
+    });
+    expect(config.gateway.token).toBe("abcdefgh");
+  });
+});
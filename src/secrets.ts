@@ -0,0 +1,51 @@
+/**
+ * Secret masking for command output.
+ *
+ * /config and /profiles print config files into chat. Values under keys
+ * that look like credentials are cut down to their first 4 characters so
+ * they can be told apart without being leaked.
+ */
+
+/** Patterns that indicate a value should be masked in output. */
+const SECRET_KEY_PATTERNS = [
+  /api[_-]?key/i,
+  /secret/i,
+  /token/i,
+  /password/i,
+  /credential/i,
+  /auth/i,
+  /private[_-]?key/i,
+];
+
+/** Check whether a key name looks like it holds a secret. */
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERNS.some((re) => re.test(key));
+}
+
+/** Mask a string value, showing only the first 4 chars if long enough. */
+export function maskValue(value: string): string {
+  if (value.length <= 4) return "****";
+  return value.slice(0, 4) + "****";
+}
+
+/**
+ * Recursively walk a config object and mask values whose keys match
+ * secret patterns. Returns a new object (does not mutate the original).
+ */
+export function maskSecrets(obj: any): any {
+  if (obj === null || obj === undefined) return obj;
+  if (typeof obj !== "object") return obj;
+  if (Array.isArray(obj)) return obj.map((v) => maskSecrets(v));
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (isSecretKey(key) && typeof value === "string" && value.length > 0) {
+      result[key] = maskValue(value);
+    } else if (typeof value === "object" && value !== null) {
+      result[key] = maskSecrets(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { compareVersions, isCaretCompatible, satisfiesRange } from "./semver.js";
+
+describe("compareVersions", () => {
+  it("orders semver versions including prereleases", () => {
+    expect(compareVersions("1.2.0", "1.10.0")).toBeLessThan(0);
+    expect(compareVersions("v2.0.0", "1.99.99")).toBeGreaterThan(0);
+    expect(compareVersions("1.0.0", "1.0.0+build.5")).toBe(0);
+    expect(compareVersions("1.0.0-beta.2", "1.0.0")).toBeLessThan(0);
+    expect(compareVersions("1.0.0-beta.2", "1.0.0-beta.10")).toBeLessThan(0);
+    expect(compareVersions("1.0.0-alpha", "1.0.0-1")).toBeGreaterThan(0);
+    expect(compareVersions("latest", "1.0.0")).toBeNull();
+  });
+});
+
+describe("isCaretCompatible", () => {
+  it("follows caret rules for 0.x versions", () => {
+    expect(isCaretCompatible("3.22.4", "3.23.8")).toBe(true);
+    expect(isCaretCompatible("17.0.2", "18.2.0")).toBe(false);
+    expect(isCaretCompatible("0.3.1", "0.3.9")).toBe(true);
+    expect(isCaretCompatible("0.3.1", "0.4.0")).toBe(false);
+    expect(isCaretCompatible("0.0.1", "0.0.2")).toBe(false);
+    expect(isCaretCompatible("1.0.0", "next")).toBeNull();
+  });
+});
+
+describe("satisfiesRange", () => {
+  it.each([
+    ["1.4.2", "^1.2.0", true],
+    ["2.0.0", "^1.2.0", false],
+    ["2.0.0-beta.1", "^1.2.0", false],
+    ["0.2.5", "^0.2.3", true],
+    ["0.3.0", "^0.2.3", false],
+    ["0.0.4", "^0.0.3", false],
+    ["1.2.9", "~1.2.3", true],
+    ["1.3.0", "~1.2.3", false],
+    ["1.9.0", "~1", true],
+    ["20.19.5", ">=18", true],
+    ["16.20.0", ">=18", false],
+    ["20.19.5", ">= 18.17.0 < 21", true],
+    ["21.0.0", ">=18.17.0 <21", false],
+    ["20.3.0", "^18.17.0 || >=20.3.0", true],
+    ["19.0.0", "^18.17.0 || >=20.3.0", false],
+    ["1.5.0", "1.x", true],
+    ["2.0.0", "1.2 - 1.9", false],
+    ["1.9.9", "1.2 - 1.9", true],
+    ["1.2.9", "<=1.2", true],
+    ["1.3.0", ">1.2", true],
+    ["1.2.5", ">1.2", false],
+    ["5.0.0", "*", true],
+    ["5.0.0", "", true],
+    ["1.2.3", "1.2.3", true],
+    ["1.2.4", "=1.2.3", false],
+  ])("%s in %s is %s", (version, range, expected) => {
+    expect(satisfiesRange(version, range)).toBe(expected);
+  });
+
+  it("returns null for what it does not understand", () => {
+    expect(satisfiesRange("1.0.0", "latest")).toBeNull();
+    expect(satisfiesRange("1.0.0", "npm:other@^1")).toBeNull();
+    expect(satisfiesRange("1.0.0", "workspace:*")).toBeNull();
+    expect(satisfiesRange("next", "^1")).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Minimal semver helpers for /plugins and /deps.
+ *
+ * Covers what package.json and package-lock.json use in practice: plain
+ * versions, caret and tilde ranges, comparison operators, x-ranges,
+ * hyphen ranges and `||`. Prerelease versions are compared by precedence
+ * only; npm's rule that a prerelease only matches comparators on the same
+ * version is not applied. Anything else (tags, URLs, `npm:` aliases,
+ * `workspace:`) is reported as not understood rather than guessed at.
+ */
+
+// ---------------------------------------------------------------------------
+// Versions
+// ---------------------------------------------------------------------------
+
+const SEMVER_RE = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/** Whether a string is a full semver version, e.g. `1.2.3` or `v1.2.3-beta.1`. */
+export function isSemver(version: string): boolean {
+  return SEMVER_RE.test(version.trim());
+}
+
+/**
+ * Compare two semver strings: negative when `a` is older, positive when
+ * newer, 0 when equal. Build metadata is ignored; a prerelease sorts before
+ * its release. Returns `null` when either is not a semver version.
+ */
+export function compareVersions(a: string, b: string): number | null {
+  const ma = SEMVER_RE.exec(a.trim());
+  const mb = SEMVER_RE.exec(b.trim());
+  if (!ma || !mb) return null;
+
+  for (let i = 1; i <= 3; i++) {
+    const diff = Number(ma[i]) - Number(mb[i]);
+    if (diff !== 0) return diff;
+  }
+  const pa = ma[4];
+  const pb = mb[4];
+  if (pa === pb) return 0;
+  if (pa === undefined) return 1;
+  if (pb === undefined) return -1;
+
+  const ia = pa.split(".");
+  const ib = pb.split(".");
+  for (let i = 0; i < Math.max(ia.length, ib.length); i++) {
+    if (ia[i] === undefined) return -1;
+    if (ib[i] === undefined) return 1;
+    const na = /^\d+$/.test(ia[i]) ? Number(ia[i]) : null;
+    const nb = /^\d+$/.test(ib[i]) ? Number(ib[i]) : null;
+    if (na !== null && nb !== null) {
+      if (na !== nb) return na - nb;
+    } else if (na !== null || nb !== null) {
+      // Numeric identifiers sort before alphanumeric ones
+      return na !== null ? -1 : 1;
+    } else if (ia[i] !== ib[i]) {
+      return ia[i] < ib[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Whether two versions fall in the same caret range, i.e. one could
+ * satisfy a `^` dependency on the other: same major, or same minor for
+ * 0.x, or same patch for 0.0.x. `null` when either is not semver.
+ */
+export function isCaretCompatible(a: string, b: string): boolean | null {
+  const ma = SEMVER_RE.exec(a.trim());
+  const mb = SEMVER_RE.exec(b.trim());
+  if (!ma || !mb) return null;
+  if (ma[1] !== mb[1]) return false;
+  if (ma[1] !== "0") return true;
+  if (ma[2] !== mb[2]) return false;
+  return ma[2] !== "0" || ma[3] === mb[3];
+}
+
+// ---------------------------------------------------------------------------
+// Ranges
+// ---------------------------------------------------------------------------
+
+type Operator = "<" | "<=" | ">" | ">=" | "=";
+
+interface Comparator {
+  op: Operator;
+  version: string;
+}
+
+const PARTIAL_RE = /^(<=|>=|<|>|=|\^|~>?)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+interface Partial {
+  major: number | null;
+  minor: number | null;
+  patch: number | null;
+  pre?: string;
+}
+
+function num(part: string | undefined): number | null {
+  return part === undefined || /^[xX*]$/.test(part) ? null : Number(part);
+}
+
+function parsePartial(match: RegExpExecArray): Partial {
+  const major = num(match[2]);
+  const minor = major === null ? null : num(match[3]);
+  const patch = minor === null ? null : num(match[4]);
+  return { major, minor, patch, pre: patch === null ? undefined : match[5] };
+}
+
+function ver(major: number, minor: number, patch: number, pre?: string): string {
+  return `${major}.${minor}.${patch}${pre ? `-${pre}` : ""}`;
+}
+
+/** The smallest version above everything a partial covers, e.g. `1.2` -> `1.3.0-0`. */
+function upperBound(p: Partial): string {
+  if (p.minor === null) return ver(p.major! + 1, 0, 0, "0");
+  if (p.patch === null) return ver(p.major!, p.minor + 1, 0, "0");
+  return ver(p.major!, p.minor, p.patch + 1, "0");
+}
+
+function lowerBound(p: Partial): string {
+  return ver(p.major ?? 0, p.minor ?? 0, p.patch ?? 0, p.pre);
+}
+
+/** Comparators for one range token, or `null` when it is not understood. */
+function parseComparator(token: string): Comparator[] | null {
+  const match = PARTIAL_RE.exec(token);
+  if (!match) return null;
+  const op = match[1] ?? "";
+  const p = parsePartial(match);
+  if (p.major === null) return op === "" || op === "=" || op === ">=" || op === "<=" ? [] : null;
+
+  const low = lowerBound(p);
+  switch (op) {
+    case "^": {
+      const bound =
+        p.major > 0 || p.minor === null
+          ? ver(p.major + 1, 0, 0, "0")
+          : p.minor > 0 || p.patch === null
+            ? ver(0, p.minor + 1, 0, "0")
+            : ver(0, 0, p.patch + 1, "0");
+      return [{ op: ">=", version: low }, { op: "<", version: bound }];
+    }
+    case "~":
+    case "~>":
+      return [
+        { op: ">=", version: low },
+        { op: "<", version: p.minor === null ? ver(p.major + 1, 0, 0, "0") : ver(p.major, p.minor + 1, 0, "0") },
+      ];
+    case ">=":
+      return [{ op: ">=", version: low }];
+    case "<":
+      return [{ op: "<", version: p.patch === null ? ver(p.major, p.minor ?? 0, 0, "0") : low }];
+    case ">":
+      return p.patch === null ? [{ op: ">=", version: upperBound(p) }] : [{ op: ">", version: low }];
+    case "<=":
+      return p.patch === null ? [{ op: "<", version: upperBound(p) }] : [{ op: "<=", version: low }];
+    default:
+      return p.patch === null ? [{ op: ">=", version: low }, { op: "<", version: upperBound(p) }] : [{ op: "=", version: low }];
+  }
+}
+
+/** Comparator sets of a range (any set may match), or `null` when not understood. */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+  for (const raw of range.split("||")) {
+    const part = raw.trim().replace(/(<=|>=|<|>|=|\^|~>?)\s+/g, "$1");
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(part);
+    const tokens = hyphen ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`] : part.split(/\s+/).filter(Boolean);
+    const set: Comparator[] = [];
+    for (const token of tokens) {
+      const comparators = parseComparator(token);
+      if (!comparators) return null;
+      set.push(...comparators);
+    }
+    sets.push(set);
+  }
+  return sets;
+}
+
+function test(version: string, c: Comparator): boolean {
+  const cmp = compareVersions(version, c.version)!;
+  switch (c.op) {
+    case "<":
+      return cmp < 0;
+    case "<=":
+      return cmp <= 0;
+    case ">":
+      return cmp > 0;
+    case ">=":
+      return cmp >= 0;
+    default:
+      return cmp === 0;
+  }
+}
+
+/**
+ * Whether `version` satisfies an npm range such as `^1.2.0`,
+ * `>=18 <21` or `1.x || 2.x`. Returns `null` when the version is not
+ * semver or the range is not understood.
+ */
+export function satisfiesRange(version: string, range: string): boolean | null {
+  if (!isSemver(version)) return null;
+  const sets = parseRange(range.trim() === "" ? "*" : range);
+  if (!sets) return null;
+  return sets.some((set) => set.every((c) => test(version, c)));
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { extractCommandsFromSource, scanInstalledPlugins } from "./skills-scan.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-skills-scan-" + process.pid);
+
+afterEach(() => {
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+});
+
+function writePlugin(dirName: string, manifest: Record<string, unknown>, source: string): string {
+  const dir = path.join(tmpWorkspace, dirName);
+  fs.mkdirSync(path.join(dir, "node_modules", "dep"), { recursive: true });
+  fs.writeFileSync(path.join(dir, "openclaw.plugin.json"), JSON.stringify(manifest));
+  fs.writeFileSync(path.join(dir, "index.ts"), source);
+  fs.writeFileSync(
+    path.join(dir, "node_modules", "dep", "index.js"),
+    'api.registerCommand({ name: "vendored", description: "x" });\n',
+  );
+  return dir;
+}
+
+describe("extractCommandsFromSource", () => {
+  it("reads name, description and acceptsArgs, skipping node_modules", () => {
+    const dir = writePlugin(
+      "openclaw-demo",
+      { id: "demo" },
+      [
+        'api.registerCommand({ name: "ping", description: "Ping it", acceptsArgs: true, handler: async () => ({ text: "" }) });',
+        'api.registerCommand({\n  name: "pong",\n  handler: async () => ({ text: "" }),\n});',
+      ].join("\n"),
+    );
+    expect(extractCommandsFromSource(dir)).toEqual([
+      { name: "ping", description: "Ping it", acceptsArgs: true },
+      { name: "pong", description: "(no description)", acceptsArgs: false },
+    ]);
+  });
+});
+
+describe("scanInstalledPlugins", () => {
+  it("lists openclaw-* plugins with a manifest", () => {
+    writePlugin("openclaw-demo", { id: "demo", version: "1.0.0" }, 'api.registerCommand({ name: "ping", description: "p" });');
+    fs.mkdirSync(path.join(tmpWorkspace, "openclaw-no-manifest"), { recursive: true });
+
+    const plugins = scanInstalledPlugins(tmpWorkspace).filter((p) => p.dirPath.startsWith(tmpWorkspace));
+    expect(plugins.map((p) => [p.id, p.version, p.commands.length])).toEqual([["demo", "1.0.0", 1]]);
+  });
+});
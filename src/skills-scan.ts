@@ -0,0 +1,144 @@
+/**
+ * Plugin and command scanner for /skills, /shortcuts and /plugin-health.
+ *
+ * Finds openclaw-* plugin checkouts in the workspace (and its parent) and
+ * extracts the commands each one registers by reading its source files.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { readJsonSafe } from "./utils.js";
+
+export interface PluginCommand {
+  name: string;
+  description: string;
+  acceptsArgs?: boolean;
+}
+
+export interface PluginInfo {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  dirName: string;
+  dirPath: string;
+  commands: PluginCommand[];
+  installed: boolean;
+}
+
+/**
+ * Scan a plugin directory and extract all commands registered via api.registerCommand().
+ * Reads .ts / .js source files and parses name + description fields.
+ */
+export function extractCommandsFromSource(pluginPath: string): PluginCommand[] {
+  const commands: PluginCommand[] = [];
+  const seen = new Set<string>();
+
+  // Collect all .ts and .js files (excluding node_modules / dist / out)
+  function walk(dir: string): string[] {
+    const results: string[] = [];
+    try {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (["node_modules", "dist", "out", ".git"].includes(entry.name)) continue;
+          results.push(...walk(full));
+        } else if (entry.isFile() && (entry.name.endsWith(".ts") || entry.name.endsWith(".js")) && !entry.name.endsWith(".test.ts") && !entry.name.endsWith(".test.js")) {
+          results.push(full);
+        }
+      }
+    } catch { /* skip unreadable */ }
+    return results;
+  }
+
+  for (const file of walk(pluginPath)) {
+    let src = "";
+    try { src = fs.readFileSync(file, "utf-8"); } catch { continue; }
+
+    // Match registerCommand({ ... name: "xxx", ... description: "yyy" ... })
+    // Handles multi-line blocks
+    const blockRe = /registerCommand\s*\(\s*\{([^}]+(?:\{[^}]*\}[^}]*)*)\}/g;
+    let blockMatch: RegExpExecArray | null;
+    while ((blockMatch = blockRe.exec(src)) !== null) {
+      const block = blockMatch[1] ?? "";
+
+      const nameMatch = block.match(/name\s*:\s*["'`]([^"'`]+)["'`]/);
+      const descMatch = block.match(/description\s*:\s*["'`]([^"'`]+)["'`]/);
+      const argsMatch = block.match(/acceptsArgs\s*:\s*(true|false)/);
+
+      const cmdName = nameMatch?.[1]?.trim();
+      if (!cmdName || seen.has(cmdName)) continue;
+      seen.add(cmdName);
+
+      commands.push({
+        name: cmdName,
+        description: descMatch?.[1]?.trim() ?? "(no description)",
+        acceptsArgs: argsMatch?.[1] === "true",
+      });
+    }
+  }
+
+  return commands;
+}
+
+/**
+ * Scan workspace for all openclaw-* plugin directories and build a full PluginInfo list.
+ */
+export function scanInstalledPlugins(workspace: string): PluginInfo[] {
+  const plugins: PluginInfo[] = [];
+
+  // Also try the dev root (parent of workspace) — plugins may be checked out there
+  const roots = [workspace];
+  const devRoot = path.resolve(workspace, "..");
+  if (devRoot !== workspace) roots.push(devRoot);
+
+  const seen = new Set<string>();
+
+  for (const root of roots) {
+    let entries: fs.Dirent[] = [];
+    try { entries = fs.readdirSync(root, { withFileTypes: true }); } catch { continue; }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      if (!entry.name.startsWith("openclaw-")) continue;
+      if (seen.has(entry.name)) continue;
+
+      const pluginPath = path.join(root, entry.name);
+      const manifestPath = path.join(pluginPath, "openclaw.plugin.json");
+      if (!fs.existsSync(manifestPath)) continue;
+
+      seen.add(entry.name);
+
+      const manifest = readJsonSafe<Record<string, any>>(manifestPath, {});
+
+      // Read version from package.json if not in manifest
+      let version: string = manifest.version ?? "";
+      if (!version) {
+        const pkg = readJsonSafe<{ version?: string } | null>(path.join(pluginPath, "package.json"), null);
+        version = pkg?.version ?? "?";
+      }
+
+      const commands = extractCommandsFromSource(pluginPath);
+
+      plugins.push({
+        id: manifest.id ?? entry.name,
+        name: manifest.name ?? entry.name,
+        version,
+        description: manifest.description ?? "",
+        dirName: entry.name,
+        dirPath: pluginPath,
+        commands,
+        installed: true, // in workspace = available/installed
+      });
+    }
+  }
+
+  // Sort: openclaw-ops-elvatis first, then alphabetical
+  plugins.sort((a, b) => {
+    if (a.dirName === "openclaw-ops-elvatis") return -1;
+    if (b.dirName === "openclaw-ops-elvatis") return 1;
+    return a.dirName.localeCompare(b.dirName);
+  });
+
+  return plugins;
+}
@@ -0,0 +1,257 @@
+import { describe, it, expect } from "vitest";
+import {
+  isUnitName,
+  parseUnitList,
+  parseSystemctlShow,
+  toUnitStatus,
+  formatUnitStatus,
+  normalizeUnitName,
+  checkUnitAllowed,
+  verifyUnitAction,
+  renderUnitControlText,
+  hostUnitName,
+  isHostUnit,
+  controlUserUnit,
+  journalPriorityLevel,
+  parseJournalEntry,
+} from "./systemd.js";
+
+// ---------------------------------------------------------------------------
+// Units
+// ---------------------------------------------------------------------------
+describe("parseUnitList", () => {
+  it("takes the first column of plain list-units output", () => {
+    const out = [
+      "openclaw-gateway.service         loaded active running OpenClaw Gateway",
+      "● openclaw-staging.service       loaded failed failed  OpenClaw Gateway (staging)",
+      "",
+    ].join("\n");
+    expect(parseUnitList(out)).toEqual(["openclaw-gateway.service", "openclaw-staging.service"]);
+  });
+
+  it("ignores lines that are not units", () => {
+    expect(parseUnitList("0 loaded units listed.\n")).toEqual([]);
+  });
+});
+
+describe("isUnitName", () => {
+  it("recognises unit suffixes", () => {
+    expect(isUnitName("openclaw-gateway.service")).toBe(true);
+    expect(isUnitName("openclaw-backup.timer")).toBe(true);
+    expect(isUnitName("gateway")).toBe(false);
+  });
+});
+
+describe("parseSystemctlShow / toUnitStatus", () => {
+  const out = [
+    "Id=openclaw-gateway.service",
+    "Description=OpenClaw Gateway",
+    "LoadState=loaded",
+    "ActiveState=active",
+    "SubState=running",
+    "NRestarts=3",
+    "ExecMainStatus=1",
+    "ExecMainExitTimestampMonotonic=123456",
+    "Result=exit-code",
+    "MainPID=4242",
+    "",
+    "Id=openclaw-staging.service",
+    "LoadState=loaded",
+    "ActiveState=inactive",
+    "SubState=dead",
+    "NRestarts=0",
+    "ExecMainStatus=0",
+    "ExecMainExitTimestampMonotonic=0",
+    "Result=success",
+  ].join("\n");
+
+  it("splits records per unit", () => {
+    const records = parseSystemctlShow(out);
+    expect(records).toHaveLength(2);
+    expect(records[1].Id).toBe("openclaw-staging.service");
+  });
+
+  it("reads restarts and the last exit status", () => {
+    const [gateway, staging] = parseSystemctlShow(out).map(toUnitStatus);
+    expect(gateway).toMatchObject({ activeState: "active", subState: "running", restarts: 3, exitStatus: 1, result: "exit-code", mainPid: 4242 });
+    // Never exited: no exit status
+    expect(staging.exitStatus).toBeNull();
+    expect(staging.mainPid).toBeNull();
+  });
+
+  it("formats state, restarts and a failing exit", () => {
+    const [gateway, staging] = parseSystemctlShow(out).map(toUnitStatus);
+    expect(formatUnitStatus(gateway)).toEqual([
+      "▶ openclaw-gateway.service: active (running)",
+      "  Restarts: 3",
+      "  Last exit: 1 (exit-code)",
+    ]);
+    expect(formatUnitStatus(staging)).toEqual(["■ openclaw-staging.service: inactive (dead)", "  Restarts: 0"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Unit control
+// ---------------------------------------------------------------------------
+function unitStatus(activeState: string, subState: string, extra: Record<string, string> = {}) {
+  return toUnitStatus({ Id: "openclaw-gateway.service", LoadState: "loaded", ActiveState: activeState, SubState: subState, ...extra });
+}
+
+describe("normalizeUnitName / checkUnitAllowed", () => {
+  it("adds .service to bare names", () => {
+    expect(normalizeUnitName("openclaw-gateway")).toBe("openclaw-gateway.service");
+    expect(normalizeUnitName("openclaw-backup.timer")).toBe("openclaw-backup.timer");
+  });
+
+  it("allows only allowlisted openclaw units", () => {
+    const cfg = { allowedUnits: ["openclaw-gateway", "openclaw-backup.timer"] };
+    expect(checkUnitAllowed("openclaw-gateway.service", cfg)).toBeNull();
+    expect(checkUnitAllowed("openclaw-backup.timer", cfg)).toBeNull();
+    expect(checkUnitAllowed("openclaw-other.service", cfg)).toContain("not in serviceControl.allowedUnits");
+    expect(checkUnitAllowed("ssh.service", { allowedUnits: ["ssh.service"] })).toContain("Only openclaw* user units");
+    expect(checkUnitAllowed("openclaw-gateway.service")).toContain("No units are allowed");
+  });
+});
+
+describe("verifyUnitAction", () => {
+  it("expects start and restart to leave the unit active", () => {
+    expect(verifyUnitAction("start", null, unitStatus("active", "running"))).toBeNull();
+    expect(verifyUnitAction("start", null, unitStatus("failed", "failed"))).toBe("expected active, unit is failed (failed)");
+  });
+
+  it("detects a restart that kept the same invocation", () => {
+    const before = unitStatus("active", "running", { InvocationID: "aaa" });
+    expect(verifyUnitAction("restart", before, unitStatus("active", "running", { InvocationID: "bbb" }))).toBeNull();
+    expect(verifyUnitAction("restart", before, unitStatus("active", "running", { InvocationID: "aaa" }))).toContain("not restarted");
+  });
+
+  it("expects stop to leave the unit inactive", () => {
+    expect(verifyUnitAction("stop", null, unitStatus("inactive", "dead"))).toBeNull();
+    expect(verifyUnitAction("stop", null, unitStatus("deactivating", "stop-sigterm"))).toContain("expected inactive");
+  });
+
+  it("checks the unit file state for enable and disable", () => {
+    expect(verifyUnitAction("enable", null, unitStatus("active", "running", { UnitFileState: "enabled" }))).toBeNull();
+    expect(verifyUnitAction("disable", null, unitStatus("active", "running", { UnitFileState: "enabled" }))).toBe(
+      "expected disabled, unit file is enabled",
+    );
+  });
+});
+
+describe("hostUnitName / isHostUnit", () => {
+  it("finds the innermost service in the cgroup path", () => {
+    expect(hostUnitName("0::/user.slice/user-1000.slice/user@1000.service/app.slice/openclaw-gateway.service\n")).toBe(
+      "openclaw-gateway.service",
+    );
+    expect(hostUnitName("1:name=systemd:/user.slice/user-1000.slice/user@1000.service/openclaw-staging.service")).toBe(
+      "openclaw-staging.service",
+    );
+    expect(hostUnitName("0::/user.slice/user-1000.slice/user@1000.service/init.scope")).toBeNull();
+    expect(hostUnitName("0::/user.slice/user-1000.slice/session-2.scope")).toBeNull();
+    expect(hostUnitName(null)).toBeNull();
+  });
+
+  it("matches the unit we run in or whose main PID is ours", () => {
+    expect(isHostUnit("openclaw-gateway.service", null, "openclaw-gateway.service")).toBe(true);
+    expect(isHostUnit("openclaw-gateway.service", unitStatus("active", "running", { MainPID: String(process.pid) }), null)).toBe(true);
+    expect(isHostUnit("openclaw-gateway.service", unitStatus("active", "running", { MainPID: "1" }), "openclaw-other.service")).toBe(false);
+  });
+});
+
+describe("controlUserUnit on the host unit", () => {
+  const unit = "openclaw-ops-test-host.service";
+
+  it("refuses to stop it", async () => {
+    const detached: string[] = [];
+    const outcome = await controlUserUnit(unit, "stop", { hostUnit: unit, detach: (u) => detached.push(u) });
+    expect(outcome.ok).toBe(false);
+    expect(outcome.error).toContain(`Run systemctl --user stop ${unit} from a shell`);
+    expect(detached).toEqual([]);
+  });
+
+  it("hands a restart to a detached systemctl", async () => {
+    const detached: string[] = [];
+    const outcome = await controlUserUnit(unit, "restart", { hostUnit: unit, detach: (u) => detached.push(u) });
+    expect(outcome).toMatchObject({ ok: true, detached: true, after: null });
+    expect(detached).toEqual([unit]);
+    expect(renderUnitControlText(outcome)).toContain("↻ This unit runs the gateway handling this command");
+  });
+});
+
+describe("renderUnitControlText", () => {
+  it("shows before/after and the verification result", () => {
+    const text = renderUnitControlText({
+      unit: "openclaw-gateway.service",
+      action: "restart",
+      before: unitStatus("active", "running", { UnitFileState: "enabled" }),
+      after: unitStatus("active", "running", { UnitFileState: "enabled" }),
+      code: 0,
+      out: "",
+      ok: true,
+    });
+    expect(text).toContain("Before: active (running), enabled");
+    expect(text).toContain("✓ Verified: openclaw-gateway.service active (running), enabled");
+  });
+
+  it("includes systemctl output when the action failed", () => {
+    const text = renderUnitControlText({
+      unit: "openclaw-gateway.service",
+      action: "start",
+      before: null,
+      after: null,
+      code: 5,
+      out: "Unit openclaw-gateway.service not found.",
+      ok: false,
+      error: "systemctl start failed (exit 5)",
+    });
+    expect(text).toContain("After:  (not checked)");
+    expect(text).toContain("✗ systemctl start failed (exit 5)");
+    expect(text).toContain("Unit openclaw-gateway.service not found.");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// journald
+// ---------------------------------------------------------------------------
+describe("journalPriorityLevel", () => {
+  it("maps syslog priorities", () => {
+    expect(journalPriorityLevel("2")).toBe("fatal");
+    expect(journalPriorityLevel("3")).toBe("error");
+    expect(journalPriorityLevel(4)).toBe("warn");
+    expect(journalPriorityLevel("6")).toBe("info");
+    expect(journalPriorityLevel("7")).toBe("debug");
+    expect(journalPriorityLevel(undefined)).toBeNull();
+  });
+});
+
+describe("parseJournalEntry", () => {
+  const realtime = String(Date.parse("2026-03-01T12:00:00Z") * 1000);
+
+  it("formats entries like file log lines", () => {
+    const line = parseJournalEntry(JSON.stringify({ __REALTIME_TIMESTAMP: realtime, PRIORITY: "3", MESSAGE: "bind failed" }), "u.service");
+    expect(line).toEqual({
+      raw: "2026-03-01T12:00:00.000Z [ERROR] bind failed",
+      ts: Date.parse("2026-03-01T12:00:00Z"),
+      level: "error",
+      file: "u.service",
+      cursor: null,
+    });
+  });
+
+  it("keeps the journald cursor", () => {
+    const line = parseJournalEntry(JSON.stringify({ __CURSOR: "s=abc;i=1", MESSAGE: "x", PRIORITY: "6" }), "u.service");
+    expect(line?.cursor).toBe("s=abc;i=1");
+  });
+
+  it("prefers a level named in the message over the priority", () => {
+    const line = parseJournalEntry(JSON.stringify({ __REALTIME_TIMESTAMP: realtime, PRIORITY: "6", MESSAGE: "WARN slow start" }), "u.service");
+    expect(line?.level).toBe("warn");
+  });
+
+  it("decodes byte-array messages and rejects junk", () => {
+    const bytes = [...Buffer.from("hi")];
+    expect(parseJournalEntry(JSON.stringify({ MESSAGE: bytes, PRIORITY: "6" }), "u.service")?.raw).toBe("[INFO] hi");
+    expect(parseJournalEntry("not json", "u.service")).toBeNull();
+    expect(parseJournalEntry(JSON.stringify({ PRIORITY: "6" }), "u.service")).toBeNull();
+  });
+});
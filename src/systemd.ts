@@ -0,0 +1,504 @@
+/**
+ * systemd user units and journald for /services and /logs.
+ *
+ * OpenClaw gateways are often run as `systemctl --user` units. /services
+ * shows each `openclaw*` unit's state from `systemctl --user show`, and
+ * /logs can read a unit's journal (`journalctl --user -u <unit> -o json`)
+ * through the same query filters as file logs. /service starts, stops,
+ * restarts, enables or disables allowlisted units and verifies the result.
+ * The unit running this gateway (by MainPID or /proc/self/cgroup) cannot be
+ * stopped from here, and restarting it is handed to a detached
+ * `systemctl --user restart --no-block` a few seconds later.
+ *
+ * Everything degrades to "unavailable" on hosts without systemd or a user
+ * bus; nothing here throws for a missing systemctl.
+ */
+
+import fs from "node:fs";
+import { spawn } from "node:child_process";
+import readline from "node:readline";
+import { runCmd, runCmdAsync, spawnDetachedLater } from "./utils.js";
+import { DETACHED_RESTART_DELAY_MS } from "./gateway-restart.js";
+import { parseLogLine, matchesLogQuery } from "./log-query.js";
+import type { LogLevel, LogQuery, LogQueryResult, ParsedLogLine } from "./log-query.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SystemdUnitStatus {
+  unit: string;
+  description: string;
+  loadState: string;
+  /** e.g. active, inactive, failed, activating. */
+  activeState: string;
+  /** e.g. running, dead, exited, auto-restart. */
+  subState: string;
+  /** Automatic restarts since the unit was last started (NRestarts). */
+  restarts: number | null;
+  /** Exit status of the last main process, `null` if it never exited. */
+  exitStatus: number | null;
+  /** systemd's verdict on the last run: success, exit-code, signal, ... */
+  result: string | null;
+  /** enabled, disabled, static, ...; `null` when systemd did not report it. */
+  unitFileState: string | null;
+  /** Changes on every start; used to confirm a restart happened. */
+  invocationId: string | null;
+  /** PID of the main process, `null` when not running. */
+  mainPid: number | null;
+}
+
+/** A journal entry as a log line, with its journald cursor. */
+export interface JournalLine extends ParsedLogLine {
+  cursor: string | null;
+}
+
+/** Properties requested from `systemctl show`. */
+const SHOW_PROPERTIES = [
+  "Id",
+  "Description",
+  "LoadState",
+  "ActiveState",
+  "SubState",
+  "NRestarts",
+  "ExecMainStatus",
+  "ExecMainExitTimestampMonotonic",
+  "Result",
+  "UnitFileState",
+  "InvocationID",
+  "MainPID",
+];
+
+/** Maximum time a journalctl read may take before it is stopped. */
+const JOURNAL_TIMEOUT_MS = 15_000;
+
+// ---------------------------------------------------------------------------
+// Units
+// ---------------------------------------------------------------------------
+
+/** Whether a /logs source names a systemd unit rather than a log file. */
+export function isUnitName(name: string): boolean {
+  return /\.(service|socket|timer)$/.test(name);
+}
+
+/** Unit names from `systemctl list-units --no-legend --plain` output. */
+export function parseUnitList(out: string): string[] {
+  return out
+    .split("\n")
+    .map((l) => l.replace(/^\s*[●*]?\s*/, "").split(/\s+/)[0])
+    .filter((u) => u && isUnitName(u));
+}
+
+/**
+ * Parse `systemctl show` output (`Key=value` lines) into one record per
+ * unit. Units are separated by blank lines.
+ */
+export function parseSystemctlShow(out: string): Array<Record<string, string>> {
+  const records: Array<Record<string, string>> = [];
+  let current: Record<string, string> = {};
+  for (const line of out.split("\n")) {
+    if (!line.trim()) {
+      if (Object.keys(current).length > 0) records.push(current);
+      current = {};
+      continue;
+    }
+    const eq = line.indexOf("=");
+    if (eq > 0) current[line.slice(0, eq)] = line.slice(eq + 1);
+  }
+  if (Object.keys(current).length > 0) records.push(current);
+  return records;
+}
+
+function toInt(value: string | undefined): number | null {
+  if (value === undefined || value === "" || value === "[not set]") return null;
+  const n = parseInt(value, 10);
+  return isNaN(n) ? null : n;
+}
+
+/** Build a unit status from one `systemctl show` record. */
+export function toUnitStatus(props: Record<string, string>): SystemdUnitStatus {
+  // The main process never exited if no exit timestamp was recorded
+  const exited = (toInt(props.ExecMainExitTimestampMonotonic) ?? 0) > 0;
+  return {
+    unit: props.Id ?? "",
+    description: props.Description ?? "",
+    loadState: props.LoadState ?? "",
+    activeState: props.ActiveState ?? "unknown",
+    subState: props.SubState ?? "unknown",
+    restarts: toInt(props.NRestarts),
+    exitStatus: exited ? toInt(props.ExecMainStatus) : null,
+    result: props.Result || null,
+    unitFileState: props.UnitFileState || null,
+    invocationId: props.InvocationID || null,
+    mainPid: toInt(props.MainPID) || null,
+  };
+}
+
+/**
+ * List user units matching `pattern`, including inactive ones.
+ * Returns `null` when systemctl is unavailable or has no user bus.
+ */
+export function listUserUnits(pattern = "openclaw*"): string[] | null {
+  const res = runCmd(
+    "systemctl",
+    ["--user", "list-units", pattern, "--all", "--no-legend", "--plain", "--no-pager"],
+    10_000,
+  );
+  if (res.code !== 0) return null;
+  return parseUnitList(res.out);
+}
+
+/** Current state of each unit, skipping units systemd cannot find. */
+export async function showUserUnits(units: string[]): Promise<SystemdUnitStatus[]> {
+  if (units.length === 0) return [];
+  const res = await runCmdAsync("systemctl", ["--user", "show", ...units, "-p", SHOW_PROPERTIES.join(","), "--no-pager"], 10_000);
+  if (res.code !== 0) return [];
+  return parseSystemctlShow(res.out)
+    .map(toUnitStatus)
+    .filter((s) => s.unit && s.loadState !== "not-found");
+}
+
+/** Render a unit for /services, e.g. `▶ openclaw-gateway.service: active (running)`. */
+export function formatUnitStatus(status: SystemdUnitStatus): string[] {
+  const icon = status.activeState === "active" ? "▶" : status.activeState === "failed" ? "⚠" : "■";
+  const lines = [`${icon} ${status.unit}: ${status.activeState} (${status.subState})`];
+  if (status.restarts !== null) lines.push(`  Restarts: ${status.restarts}`);
+  if (status.exitStatus !== null) {
+    const verdict = status.result && status.result !== "success" ? ` (${status.result})` : "";
+    lines.push(`  Last exit: ${status.exitStatus}${verdict}`);
+  }
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Unit control
+// ---------------------------------------------------------------------------
+
+export const UNIT_ACTIONS = ["start", "stop", "restart", "enable", "disable"] as const;
+export type UnitAction = (typeof UNIT_ACTIONS)[number];
+
+export interface ServiceControlConfig {
+  /** Units /service may act on, e.g. `openclaw-gateway.service`. Empty allows none. */
+  allowedUnits?: string[];
+}
+
+export interface UnitControlOutcome {
+  unit: string;
+  action: UnitAction;
+  /** State before the action; `null` if systemd could not report it. */
+  before: SystemdUnitStatus | null;
+  /** State after the action settled; `null` if the action failed or was not checked. */
+  after: SystemdUnitStatus | null;
+  /** The unit runs this gateway; its restart was left to a detached systemctl. */
+  detached?: boolean;
+  /** Exit code and output of `systemctl --user <action>`. */
+  code: number;
+  out: string;
+  ok: boolean;
+  error?: string;
+}
+
+/** Time a unit gets to leave activating/deactivating before verification. */
+const UNIT_SETTLE_TIMEOUT_MS = 15_000;
+const UNIT_SETTLE_POLL_MS = 1_000;
+
+export function isUnitAction(value: string): value is UnitAction {
+  return (UNIT_ACTIONS as readonly string[]).includes(value);
+}
+
+/** Add `.service` to a bare unit name, e.g. `openclaw-gateway`. */
+export function normalizeUnitName(name: string): string {
+  return isUnitName(name) ? name : `${name}.service`;
+}
+
+/**
+ * Why `/service` may not act on a unit, or `null` when it may. Only
+ * `openclaw*` units that are listed in `allowedUnits` are allowed.
+ */
+export function checkUnitAllowed(unit: string, cfg: ServiceControlConfig = {}): string | null {
+  if (!/^openclaw[\w@.:-]*$/.test(unit)) return `Only openclaw* user units can be controlled (got ${unit})`;
+  const allowed = (cfg.allowedUnits ?? []).map(normalizeUnitName);
+  if (allowed.length === 0) return "No units are allowed. Add them to serviceControl.allowedUnits in the plugin config.";
+  if (!allowed.includes(unit)) return `${unit} is not in serviceControl.allowedUnits (allowed: ${allowed.join(", ")})`;
+  return null;
+}
+
+/** Whether a unit is still between states. */
+function isTransient(status: SystemdUnitStatus): boolean {
+  return status.activeState === "activating" || status.activeState === "deactivating" || status.activeState === "reloading";
+}
+
+/**
+ * Check that a unit ended up where the action should have put it. Returns
+ * the reason it did not, or `null` when verified.
+ */
+export function verifyUnitAction(
+  action: UnitAction,
+  before: SystemdUnitStatus | null,
+  after: SystemdUnitStatus,
+): string | null {
+  switch (action) {
+    case "start":
+      return after.activeState === "active" ? null : `expected active, unit is ${after.activeState} (${after.subState})`;
+    case "restart":
+      if (after.activeState !== "active") return `expected active, unit is ${after.activeState} (${after.subState})`;
+      if (before?.activeState === "active" && before.invocationId && before.invocationId === after.invocationId) {
+        return "unit is active but was not restarted (same invocation)";
+      }
+      return null;
+    case "stop":
+      return after.activeState === "active" || isTransient(after)
+        ? `expected inactive, unit is ${after.activeState} (${after.subState})`
+        : null;
+    case "enable":
+      return after.unitFileState === "enabled" ? null : `expected enabled, unit file is ${after.unitFileState ?? "unknown"}`;
+    case "disable":
+      return after.unitFileState === "disabled" ? null : `expected disabled, unit file is ${after.unitFileState ?? "unknown"}`;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Current state of one unit, or `null` if systemd cannot report it. */
+async function showUserUnit(unit: string): Promise<SystemdUnitStatus | null> {
+  return (await showUserUnits([unit]))[0] ?? null;
+}
+
+function readSelfCgroup(): string | null {
+  try {
+    return fs.readFileSync("/proc/self/cgroup", "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The service unit this process runs in, from /proc/self/cgroup (the
+ * innermost `*.service` of its cgroup path), or `null` outside one. The
+ * per-user manager `user@<uid>.service` does not count.
+ */
+export function hostUnitName(cgroup: string | null = readSelfCgroup()): string | null {
+  for (const line of (cgroup ?? "").split("\n")) {
+    const cgroupPath = line.split(":").slice(2).join(":");
+    const unit = cgroupPath.split("/").reverse().find((s) => s.endsWith(".service"));
+    if (unit && !/^user@\d+\.service$/.test(unit)) return unit;
+  }
+  return null;
+}
+
+/** Whether `unit` runs this gateway: its main PID is ours, or it is the unit we run in. */
+export function isHostUnit(unit: string, status: SystemdUnitStatus | null, hostUnit: string | null = hostUnitName()): boolean {
+  return status?.mainPid === process.pid || unit === hostUnit;
+}
+
+/** Restart a unit from a detached `systemctl --no-block` after DETACHED_RESTART_DELAY_MS. */
+export function startDetachedUnitRestart(unit: string): void {
+  spawnDetachedLater("systemctl", ["--user", "restart", "--no-block", unit], DETACHED_RESTART_DELAY_MS);
+}
+
+/**
+ * Run `systemctl --user <action> <unit>`, wait for the unit to settle, and
+ * verify the result with `systemctl --user show`. The caller checks the
+ * allowlist first. For the unit running this gateway, `stop` is refused
+ * and `restart` is handed to `detach` without verification.
+ */
+export async function controlUserUnit(
+  unit: string,
+  action: UnitAction,
+  opts: { hostUnit?: string | null; detach?: (unit: string) => void } = {},
+): Promise<UnitControlOutcome> {
+  const before = await showUserUnit(unit);
+  const hostUnit = opts.hostUnit === undefined ? hostUnitName() : opts.hostUnit;
+  if ((action === "stop" || action === "restart") && isHostUnit(unit, before, hostUnit)) {
+    const base = { unit, action, before, after: null, code: 0, out: "" };
+    if (action === "stop") {
+      return {
+        ...base,
+        ok: false,
+        error: `${unit} runs the gateway handling this command, so stopping it would leave no one to reply. Run systemctl --user stop ${unit} from a shell.`,
+      };
+    }
+    (opts.detach ?? startDetachedUnitRestart)(unit);
+    return { ...base, ok: true, detached: true };
+  }
+
+  const res = await runCmdAsync("systemctl", ["--user", action, unit, "--no-pager"], 60_000);
+  if (res.code !== 0) {
+    return {
+      unit,
+      action,
+      before,
+      after: null,
+      code: res.code,
+      out: res.out,
+      ok: false,
+      error: `systemctl ${action} failed (exit ${res.code})`,
+    };
+  }
+
+  const deadline = Date.now() + UNIT_SETTLE_TIMEOUT_MS;
+  let after = await showUserUnit(unit);
+  while (after && isTransient(after) && Date.now() < deadline) {
+    await sleep(UNIT_SETTLE_POLL_MS);
+    after = await showUserUnit(unit);
+  }
+  if (!after) {
+    return { unit, action, before, after: null, code: res.code, out: res.out, ok: false, error: "systemctl show returned no state" };
+  }
+  const problem = verifyUnitAction(action, before, after);
+  const outcome: UnitControlOutcome = { unit, action, before, after, code: res.code, out: res.out, ok: problem === null };
+  if (problem) outcome.error = problem;
+  return outcome;
+}
+
+/** Unit state for /service, e.g. `active (running), enabled`. */
+export function formatUnitState(status: SystemdUnitStatus): string {
+  return `${status.activeState} (${status.subState})${status.unitFileState ? `, ${status.unitFileState}` : ""}`;
+}
+
+/** Render a /service outcome with the before/after state. */
+export function renderUnitControlText(outcome: UnitControlOutcome): string {
+  const lines: string[] = [];
+  lines.push(`Service: ${outcome.action} ${outcome.unit}`);
+  lines.push("");
+  lines.push(`Before: ${outcome.before ? formatUnitState(outcome.before) : "(unknown)"}`);
+  lines.push(`After:  ${outcome.after ? formatUnitState(outcome.after) : "(not checked)"}`);
+  lines.push("");
+
+  if (outcome.detached) {
+    lines.push("↻ This unit runs the gateway handling this command, so it cannot check its own restart.");
+    lines.push(`systemctl --user restart starts in ${DETACHED_RESTART_DELAY_MS / 1000}s in a detached process; check /services once it is back.`);
+    return lines.join("\n");
+  }
+
+  if (outcome.ok) {
+    lines.push(`✓ Verified: ${outcome.unit} ${outcome.after ? formatUnitState(outcome.after) : ""}`.trimEnd());
+    return lines.join("\n");
+  }
+  lines.push(`✗ ${outcome.error}`);
+  if (outcome.code !== 0 && outcome.out) {
+    lines.push("```text");
+    lines.push(...outcome.out.split("\n").slice(-15));
+    lines.push("```");
+  }
+  lines.push("");
+  lines.push(`Check /logs ${outcome.unit} --since 10m`);
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// journald
+// ---------------------------------------------------------------------------
+
+/** Map a syslog PRIORITY (0 emerg .. 7 debug) to a log level. */
+export function journalPriorityLevel(priority: unknown): LogLevel | null {
+  const p = typeof priority === "string" ? parseInt(priority, 10) : typeof priority === "number" ? priority : NaN;
+  if (isNaN(p)) return null;
+  if (p <= 2) return "fatal";
+  if (p === 3) return "error";
+  if (p === 4) return "warn";
+  if (p <= 6) return "info";
+  return "debug";
+}
+
+/**
+ * Turn one `journalctl -o json` line into a log line shaped like a file
+ * log line (`<iso> [LEVEL] message`), so /logs renders both the same way.
+ * A level in the message itself wins over the journal priority, since most
+ * services log everything to stdout at one priority.
+ */
+export function parseJournalEntry(json: string, unit: string): JournalLine | null {
+  let entry: Record<string, unknown>;
+  try {
+    entry = JSON.parse(json) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+
+  let message = entry.MESSAGE;
+  // Non-UTF-8 messages are exported as byte arrays
+  if (Array.isArray(message)) message = Buffer.from(message as number[]).toString("utf-8");
+  if (typeof message !== "string") return null;
+
+  const micros = parseInt(String(entry.__REALTIME_TIMESTAMP ?? ""), 10);
+  const ts = isNaN(micros) ? null : Math.floor(micros / 1000);
+  const level = parseLogLine(message).level ?? journalPriorityLevel(entry.PRIORITY);
+
+  const prefix = [ts !== null ? new Date(ts).toISOString() : "", level ? `[${level.toUpperCase()}]` : ""]
+    .filter(Boolean)
+    .join(" ");
+  const cursor = typeof entry.__CURSOR === "string" ? entry.__CURSOR : null;
+  return { raw: prefix ? `${prefix} ${message}` : message, ts, level, file: unit, cursor };
+}
+
+/**
+ * Yield a unit's journal entries as journalctl prints them. Breaking out of
+ * the loop stops journalctl. Throws if journalctl cannot be started.
+ */
+async function* readJournal(unit: string, extraArgs: string[]): AsyncGenerator<JournalLine> {
+  const args = ["--user", "-u", unit, "-o", "json", "--no-pager", ...extraArgs];
+  const child = spawn("journalctl", args, { stdio: ["ignore", "pipe", "ignore"] });
+  const failure: { error?: Error } = {};
+  child.on("error", (err) => {
+    failure.error = err;
+  });
+  const timer = setTimeout(() => child.kill(), JOURNAL_TIMEOUT_MS);
+  timer.unref?.();
+
+  const rl = readline.createInterface({ input: child.stdout, crlfDelay: Infinity });
+  try {
+    for await (const line of rl) {
+      const entry = parseJournalEntry(line, unit);
+      if (entry) yield entry;
+    }
+  } finally {
+    clearTimeout(timer);
+    rl.close();
+    child.kill();
+  }
+  if (failure.error) throw failure.error;
+}
+
+/** Yield a unit's journal entries newest first, optionally within a time range. */
+export function readJournalReverse(
+  unit: string,
+  opts: { sinceMs?: number; untilMs?: number } = {},
+): AsyncGenerator<JournalLine> {
+  const args = ["--reverse"];
+  if (opts.sinceMs !== undefined) args.push("--since", `@${Math.floor(opts.sinceMs / 1000)}`);
+  if (opts.untilMs !== undefined) args.push("--until", `@${Math.ceil(opts.untilMs / 1000)}`);
+  return readJournal(unit, args);
+}
+
+/**
+ * Yield a unit's journal entries oldest first, starting after `afterCursor`
+ * or, without one, at `sinceMs`.
+ */
+export function readJournalForward(
+  unit: string,
+  opts: { afterCursor?: string | null; sinceMs?: number } = {},
+): AsyncGenerator<JournalLine> {
+  if (opts.afterCursor) return readJournal(unit, ["--after-cursor", opts.afterCursor]);
+  return readJournal(unit, opts.sinceMs !== undefined ? ["--since", `@${Math.floor(opts.sinceMs / 1000)}`] : []);
+}
+
+/**
+ * Run a /logs query against a unit's journal. Same result shape as
+ * queryLogs(), with the unit name in place of file names.
+ */
+export async function queryJournal(unit: string, query: LogQuery): Promise<LogQueryResult> {
+  // Collected newest first, reversed at the end
+  const collected: ParsedLogLine[] = [];
+  let truncated = false;
+  for await (const line of readJournalReverse(unit, query)) {
+    if (!matchesLogQuery(line, query)) continue;
+    if (collected.length >= query.lines) {
+      truncated = true;
+      break;
+    }
+    collected.push(line);
+  }
+  return { files: [unit], matches: collected.reverse(), truncated };
+}
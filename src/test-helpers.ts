@@ -5,6 +5,10 @@
  * allowing tests to verify command registration and invoke handlers.
  */
 
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
 export interface RegisteredCommand {
   name: string;
   description: string;
@@ -54,3 +58,35 @@ export async function invokeCommand(
   const result = await cmd.handler(args);
   return result.text;
 }
+
+/**
+ * Put an executable `openclaw` shell script first on PATH, so code that
+ * runs the CLI runs the script instead. Returns a function that restores
+ * PATH and removes the script.
+ */
+export function installFakeOpenclaw(script: string): () => void {
+  const binDir = path.join(os.tmpdir(), `openclaw-ops-elvatis-test-bin-${process.pid}`);
+  fs.mkdirSync(binDir, { recursive: true });
+  fs.writeFileSync(path.join(binDir, "openclaw"), `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+  const previousPath = process.env.PATH;
+  process.env.PATH = `${binDir}${path.delimiter}${previousPath ?? ""}`;
+  return () => {
+    process.env.PATH = previousPath;
+    fs.rmSync(binDir, { recursive: true, force: true });
+  };
+}
+
+/**
+ * Count how many times a 10 ms interval fires while `work` runs. A count
+ * near zero means `work` held the event loop the whole time.
+ */
+export async function countTicksDuring(work: () => Promise<unknown>): Promise<number> {
+  let ticks = 0;
+  const timer = setInterval(() => ticks++, 10);
+  try {
+    await work();
+  } finally {
+    clearInterval(timer);
+  }
+  return ticks;
+}
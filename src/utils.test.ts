@@ -2,22 +2,39 @@ import { describe, it, expect, vi, afterEach } from "vitest";
 import os from "node:os";
 import fs from "node:fs";
 import path from "node:path";
+import http from "node:http";
 import {
   expandHome,
   safeExec,
   runCmd,
+  runCmdAsync,
   latestFile,
   formatBytes,
+  formatCpuTime,
   loadActiveCooldowns,
   formatCooldownLine,
   formatIsoCompact,
   readJsonSafe,
   listWorkspacePluginDirs,
   getSystemResources,
+  getSystemResourceStats,
+  formatSystemResources,
+  getCommandArgs,
+  parseCommandFlags,
+  parseDuration,
   checkGatewayStatus,
+  probeGatewayPort,
+  profileStateDir,
+  getProfile,
+  discoverProfiles,
+  findProfile,
+  hostGatewayProfile,
+  getConfiguredGatewayPort,
+  DEFAULT_GATEWAY_PORT,
   detectWindowsDriveRoot,
 } from "./utils.js";
 import type { CooldownEntry } from "./utils.js";
+import { installFakeOpenclaw, countTicksDuring } from "./test-helpers.js";
 
 // ---------------------------------------------------------------------------
 // expandHome
@@ -92,6 +109,71 @@ describe("runCmd", () => {
   });
 });
 
+describe("runCmdAsync", () => {
+  it("returns exit code and combined output", async () => {
+    const result = await runCmdAsync("node", ["-e", "console.log('out'); console.error('err'); process.exit(3)"]);
+    expect(result.code).toBe(3);
+    expect(result.out).toContain("out");
+    expect(result.out).toContain("err");
+  });
+
+  it("returns code 1 when the executable does not exist", async () => {
+    expect((await runCmdAsync("nonexistent-binary-xyz-99999", [])).code).toBe(1);
+  });
+
+  it("kills the command after the timeout", async () => {
+    const result = await runCmdAsync("node", ["-e", "setTimeout(() => {}, 60000)"], 100);
+    expect(result.code).toBe(1);
+    expect(result.out).toContain("timed out after 100ms");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getCommandArgs
+// ---------------------------------------------------------------------------
+describe("getCommandArgs", () => {
+  it("returns a bare string argument trimmed", () => {
+    expect(getCommandArgs("  gateway 10 ")).toBe("gateway 10");
+  });
+
+  it("reads args from a context object", () => {
+    expect(getCommandArgs({ args: " --json" })).toBe("--json");
+  });
+
+  it("returns empty string for missing or non-string args", () => {
+    expect(getCommandArgs(undefined)).toBe("");
+    expect(getCommandArgs({})).toBe("");
+    expect(getCommandArgs({ args: 42 })).toBe("");
+  });
+});
+
+describe("parseCommandFlags", () => {
+  it("separates positional args from flags", () => {
+    expect(parseCommandFlags("gateway 100 --json")).toEqual({
+      positional: ["gateway", "100"],
+      flags: { json: true },
+    });
+  });
+
+  it("gives value flags the next token", () => {
+    expect(parseCommandFlags("--level error --since 2h gateway", ["level", "since"])).toEqual({
+      positional: ["gateway"],
+      flags: { level: "error", since: "2h" },
+    });
+  });
+
+  it("keeps quoted values together and supports --flag=value", () => {
+    expect(parseCommandFlags(`--grep "timed out" --lines=20`, ["grep"]).flags).toEqual({
+      grep: "timed out",
+      lines: "20",
+    });
+  });
+
+  it("treats a trailing value flag without a value as boolean", () => {
+    expect(parseCommandFlags("--grep", ["grep"]).flags).toEqual({ grep: true });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // formatBytes
 // ---------------------------------------------------------------------------
@@ -117,6 +199,17 @@ describe("formatBytes", () => {
   });
 });
 
+describe("formatCpuTime", () => {
+  it("formats sub-minute values with one decimal", () => {
+    expect(formatCpuTime(6.72)).toBe("6.7s");
+  });
+
+  it("formats minutes and hours with padded fields", () => {
+    expect(formatCpuTime(245)).toBe("4m 05s");
+    expect(formatCpuTime(3723)).toBe("1h 02m 03s");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // latestFile
 // ---------------------------------------------------------------------------
@@ -275,6 +368,30 @@ describe("formatIsoCompact", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// parseDuration
+// ---------------------------------------------------------------------------
+describe("parseDuration", () => {
+  it("parses seconds, minutes, hours, days, and weeks", () => {
+    expect(parseDuration("90s")).toBe(90_000);
+    expect(parseDuration("5m")).toBe(300_000);
+    expect(parseDuration("24h")).toBe(86_400_000);
+    expect(parseDuration("7d")).toBe(604_800_000);
+    expect(parseDuration("2w")).toBe(1_209_600_000);
+  });
+
+  it("accepts fractions and surrounding whitespace", () => {
+    expect(parseDuration(" 1.5h ")).toBe(5_400_000);
+  });
+
+  it("returns null for invalid input", () => {
+    expect(parseDuration("")).toBeNull();
+    expect(parseDuration("7")).toBeNull();
+    expect(parseDuration("7y")).toBeNull();
+    expect(parseDuration("abc")).toBeNull();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // readJsonSafe
 // ---------------------------------------------------------------------------
@@ -461,24 +578,236 @@ describe("getSystemResources", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// getSystemResourceStats / formatSystemResources
+// ---------------------------------------------------------------------------
+describe("getSystemResourceStats", () => {
+  it("returns numeric load averages and core count", () => {
+    const stats = getSystemResourceStats();
+    expect(typeof stats.cpu.load1).toBe("number");
+    expect(stats.cpu.cores).toBeGreaterThan(0);
+    expect(stats.cpu.percent).toBeGreaterThanOrEqual(0);
+  });
+
+  it("returns memory usage that adds up", () => {
+    const { memory } = getSystemResourceStats();
+    expect(memory.usedBytes).toBeLessThanOrEqual(memory.totalBytes);
+    expect(memory.percent).toBeGreaterThan(0);
+    expect(memory.percent).toBeLessThanOrEqual(100);
+  });
+
+  it("returns disk usage on Linux and macOS", () => {
+    const platform = os.platform();
+    if (platform !== "linux" && platform !== "darwin") return;
+    const { disk } = getSystemResourceStats();
+    expect(disk).not.toBeNull();
+    expect(disk!.root).toBe("/");
+    expect(disk!.usedBytes).toBeLessThanOrEqual(disk!.totalBytes);
+  });
+});
+
+describe("formatSystemResources", () => {
+  const stats = {
+    cpu: { load1: 1.5, load5: 0.75, load15: 0.2, cores: 4, percent: 37.5 },
+    memory: { usedBytes: 2 * 1024 ** 3, totalBytes: 8 * 1024 ** 3, percent: 25 },
+    disk: { usedBytes: 10 * 1024 ** 3, totalBytes: 40 * 1024 ** 3, percent: 25, root: "/" },
+  };
+
+  it("formats load, memory, and disk strings", () => {
+    const res = formatSystemResources(stats);
+    expect(res.cpu).toBe("1.50, 0.75, 0.20");
+    expect(res.memory).toBe("2.00GB / 8.00GB (25.0%)");
+    expect(res.disk).toBe("25.0% used (10.00GB / 40.00GB)");
+  });
+
+  it("appends the drive letter for Windows roots", () => {
+    const res = formatSystemResources({ ...stats, disk: { ...stats.disk, root: "E:\\" } });
+    expect(res.disk).toContain("[E:]");
+  });
+
+  it("shows N/A when disk is unknown", () => {
+    expect(formatSystemResources({ ...stats, disk: null }).disk).toBe("N/A");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // checkGatewayStatus
 // ---------------------------------------------------------------------------
 describe("checkGatewayStatus", () => {
-  it("returns an object with running boolean", () => {
+  it("returns an object with running boolean and state", async () => {
     // openclaw binary likely not installed in test env, so this should return not running
-    const result = checkGatewayStatus("default");
+    const result = await checkGatewayStatus("default");
     expect(typeof result.running).toBe("boolean");
+    expect(["running", "unresponsive", "stopped"]).toContain(result.state);
+  });
+
+  it("keeps the event loop running while the CLI answers", async () => {
+    const restore = installFakeOpenclaw("sleep 0.5; echo 'Gateway stopped'");
+    try {
+      let result: Awaited<ReturnType<typeof checkGatewayStatus>> | undefined;
+      const ticks = await countTicksDuring(async () => {
+        result = await checkGatewayStatus("nonexistent-profile-xyz");
+      });
+      expect(result?.state).toBe("stopped");
+      expect(ticks).toBeGreaterThan(10);
+    } finally {
+      restore();
+    }
   });
 
-  it("returns not running when openclaw binary is unavailable", () => {
-    const result = checkGatewayStatus("nonexistent-profile-xyz");
+  it("returns stopped when openclaw binary is unavailable", async () => {
+    const result = await checkGatewayStatus("nonexistent-profile-xyz");
     expect(result.running).toBe(false);
+    expect(result.state).toBe("stopped");
+  });
+
+  it("reports the default port when the profile has no config", async () => {
+    const result = await checkGatewayStatus("nonexistent-profile-xyz");
+    expect(result.port).toBe(DEFAULT_GATEWAY_PORT);
   });
 
-  it("pid and uptime are optional", () => {
-    const result = checkGatewayStatus();
+  it("pid and uptime are optional", async () => {
+    const result = await checkGatewayStatus();
     expect(result.pid === undefined || typeof result.pid === "number").toBe(true);
     expect(result.uptime === undefined || typeof result.uptime === "string").toBe(true);
   });
 });
+
+// ---------------------------------------------------------------------------
+// profileStateDir / getConfiguredGatewayPort
+// ---------------------------------------------------------------------------
+describe("profileStateDir", () => {
+  it("maps default to ~/.openclaw", () => {
+    expect(profileStateDir("default")).toBe(path.join(os.homedir(), ".openclaw"));
+  });
+
+  it("maps named profiles to ~/.openclaw-<name>", () => {
+    expect(profileStateDir("staging")).toBe(path.join(os.homedir(), ".openclaw-staging"));
+  });
+});
+
+describe("getProfile", () => {
+  it("derives config and log paths from the state dir", () => {
+    const stateDir = path.join(os.homedir(), ".openclaw-work");
+    expect(getProfile("work")).toEqual({
+      name: "work",
+      stateDir,
+      configPath: path.join(stateDir, "config.json"),
+      logDir: path.join(stateDir, "logs"),
+    });
+  });
+});
+
+describe("discoverProfiles", () => {
+  const profile = "ops-test-list-" + process.pid;
+  const dir = path.join(os.homedir(), `.openclaw-${profile}`);
+  const file = path.join(os.homedir(), `.openclaw-ops-test-file-${process.pid}`);
+
+  afterEach(() => {
+    try { fs.rmSync(dir, { recursive: true, force: true }); } catch {}
+    try { fs.rmSync(file, { force: true }); } catch {}
+  });
+
+  it("always starts with default", () => {
+    expect(discoverProfiles()[0]).toEqual(getProfile("default"));
+  });
+
+  it("includes profiles from ~/.openclaw-<name> directories only", () => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(file, "");
+    const names = discoverProfiles().map((p) => p.name);
+    expect(names).toContain(profile);
+    expect(names).not.toContain(`ops-test-file-${process.pid}`);
+  });
+
+  it("lists staging last when present", () => {
+    const names = discoverProfiles().map((p) => p.name);
+    if (names.includes("staging")) expect(names[names.length - 1]).toBe("staging");
+  });
+});
+
+describe("findProfile", () => {
+  it("returns discovered profiles only", () => {
+    expect(findProfile("default")).toEqual(getProfile("default"));
+    expect(findProfile(`ops-test-missing-${process.pid}`)).toBeNull();
+  });
+});
+
+describe("hostGatewayProfile", () => {
+  it("prefers OPENCLAW_PROFILE, then the state dir, then default", () => {
+    expect(hostGatewayProfile({ OPENCLAW_PROFILE: "staging", OPENCLAW_STATE_DIR: "~/.openclaw-work" })).toBe("staging");
+    expect(hostGatewayProfile({ OPENCLAW_STATE_DIR: "~/.openclaw-work" })).toBe("work");
+    expect(hostGatewayProfile({ OPENCLAW_STATE_DIR: "~/.openclaw" })).toBe("default");
+    expect(hostGatewayProfile({})).toBe("default");
+  });
+});
+
+describe("getConfiguredGatewayPort", () => {
+  const profile = "ops-test-port-" + process.pid;
+  const dir = path.join(os.homedir(), `.openclaw-${profile}`);
+
+  afterEach(() => {
+    try { fs.rmSync(dir, { recursive: true, force: true }); } catch {}
+  });
+
+  it("returns null when the profile has no config", () => {
+    expect(getConfiguredGatewayPort(profile)).toBeNull();
+  });
+
+  it("reads gateway.port before top-level port", () => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, "config.json"), JSON.stringify({ gateway: { port: "19001" }, port: 19002 }));
+    expect(getConfiguredGatewayPort(profile)).toBe(19001);
+  });
+
+  it("ignores invalid port values", () => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, "config.json"), JSON.stringify({ port: "not-a-port" }));
+    expect(getConfiguredGatewayPort(profile)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// probeGatewayPort
+// ---------------------------------------------------------------------------
+describe("probeGatewayPort", () => {
+  const servers: http.Server[] = [];
+
+  function listen(handler: http.RequestListener): Promise<number> {
+    return new Promise((resolve) => {
+      const server = http.createServer(handler);
+      servers.push(server);
+      server.listen(0, "127.0.0.1", () => resolve((server.address() as { port: number }).port));
+    });
+  }
+
+  afterEach(async () => {
+    for (const server of servers.splice(0)) {
+      server.closeAllConnections();
+      await new Promise((r) => server.close(r));
+    }
+  });
+
+  it("reports a responsive server with response time", async () => {
+    const port = await listen((_req, res) => res.writeHead(404).end());
+    const result = await probeGatewayPort(port, 2000);
+    expect(result.ok).toBe(true);
+    expect(typeof result.responseMs).toBe("number");
+  });
+
+  it("reports a hung server as unresponsive after the timeout", async () => {
+    const port = await listen(() => { /* never respond */ });
+    const result = await probeGatewayPort(port, 200);
+    expect(result.ok).toBe(false);
+    expect(result.error).toContain("no response");
+  });
+
+  it("reports a closed port as not ok", async () => {
+    const port = await listen(() => {});
+    const server = servers.pop()!;
+    await new Promise((r) => server.close(r));
+    const result = await probeGatewayPort(port, 1000);
+    expect(result.ok).toBe(false);
+    expect(result.error).toBe("ECONNREFUSED");
+  });
+});
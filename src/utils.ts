@@ -6,6 +6,7 @@
  *
  *   - Path helpers
  *   - Shell / process helpers
+ *   - Command helpers
  *   - Filesystem helpers
  *   - JSON helpers
  *   - Formatting helpers
@@ -17,7 +18,8 @@
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
-import { execSync, spawnSync } from "node:child_process";
+import http from "node:http";
+import { execSync, spawn, spawnSync } from "node:child_process";
 
 // ---------------------------------------------------------------------------
 // Path helpers
@@ -73,6 +75,122 @@ export function runCmd(
   }
 }
 
+/**
+ * Like {@link runCmd}, but with `spawn`, so the event loop keeps running
+ * while the command does. Use it for commands that may take many seconds
+ * inside the gateway process. Never rejects.
+ */
+export function runCmdAsync(
+  cmd: string,
+  args: string[],
+  timeoutMs = 120_000,
+): Promise<{ code: number; out: string }> {
+  return new Promise((resolve) => {
+    let out = "";
+    let settled = false;
+    const finish = (code: number, extra = "") => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve({ code, out: `${out}${extra}`.trim() });
+    };
+
+    let child: ReturnType<typeof spawn>;
+    try {
+      child = spawn(cmd, args, { stdio: ["ignore", "pipe", "pipe"] });
+    } catch (e: any) {
+      resolve({ code: 1, out: String(e?.message ?? e) });
+      return;
+    }
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      finish(1, `\n${cmd} timed out after ${timeoutMs}ms`);
+    }, timeoutMs);
+    child.stdout?.on("data", (chunk) => (out += chunk));
+    child.stderr?.on("data", (chunk) => (out += chunk));
+    child.on("error", (err) => finish(1, String(err.message)));
+    child.on("close", (code) => finish(code ?? 1));
+  });
+}
+
+/**
+ * Start `cmd` in its own process after `delayMs` and never wait for it.
+ * For commands that stop the gateway running them: the reply goes out
+ * first, and the child outlives the gateway.
+ */
+export function spawnDetachedLater(cmd: string, args: string[], delayMs: number): void {
+  const timer = setTimeout(() => {
+    try {
+      const child = spawn(cmd, args, { detached: true, stdio: "ignore" });
+      child.on("error", () => {});
+      child.unref();
+    } catch {
+      // Nothing left to report to: the reply has already gone out
+    }
+  }, delayMs);
+  timer.unref?.();
+}
+
+// ---------------------------------------------------------------------------
+// Command helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract the raw argument string from a command handler invocation.
+ *
+ * The gateway passes a context object carrying `args`; older handlers (and
+ * their tests) receive the argument string directly. Both are accepted.
+ */
+export function getCommandArgs(ctx: unknown): string {
+  if (typeof ctx === "string") return ctx.trim();
+  const args = (ctx as { args?: unknown } | null | undefined)?.args;
+  return typeof args === "string" ? args.trim() : "";
+}
+
+/** Result of parseCommandFlags. */
+export interface ParsedCommandArgs {
+  /** Arguments that are not flags or flag values, in order. */
+  positional: string[];
+  /** `--name value` / `--name=value` flags, and `true` for bare `--name`. */
+  flags: Record<string, string | true>;
+}
+
+/**
+ * Split a command argument string into positional arguments and `--flags`.
+ *
+ * Double- or single-quoted segments stay together (`--grep "timed out"`).
+ * Flags listed in `valueFlags` take the next token as their value; any other
+ * `--flag` is boolean. `--flag=value` always carries a value. Flag names are
+ * returned without the leading dashes.
+ */
+export function parseCommandFlags(input: string, valueFlags: string[] = []): ParsedCommandArgs {
+  const tokens: string[] = [];
+  const re = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(input)) !== null) tokens.push(m[1] ?? m[2] ?? m[3]);
+
+  const result: ParsedCommandArgs = { positional: [], flags: {} };
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!token.startsWith("--") || token.length === 2) {
+      result.positional.push(token);
+      continue;
+    }
+    const eq = token.indexOf("=");
+    if (eq !== -1) {
+      result.flags[token.slice(2, eq)] = token.slice(eq + 1);
+      continue;
+    }
+    const name = token.slice(2);
+    if (valueFlags.includes(name) && i + 1 < tokens.length) {
+      result.flags[name] = tokens[++i];
+    } else {
+      result.flags[name] = true;
+    }
+  }
+  return result;
+}
+
 // ---------------------------------------------------------------------------
 // Filesystem helpers
 // ---------------------------------------------------------------------------
@@ -134,6 +252,36 @@ export function formatBytes(bytes: number): string {
   return `${(bytes / 1024 ** 3).toFixed(2)}GB`;
 }
 
+/** Format CPU seconds as `1h 02m 03s`, `4m 05s`, or `6.7s`. */
+export function formatCpuTime(seconds: number): string {
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h > 0 ? `${h}h ${pad(m)}m ${pad(s)}s` : `${m}m ${pad(s)}s`;
+}
+
+/** Milliseconds per duration unit accepted by parseDuration. */
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse a compact duration such as `"90s"`, `"5m"`, `"24h"`, `"7d"`, or
+ * `"2w"` into milliseconds. Returns `null` for anything else.
+ */
+export function parseDuration(input: string): number | null {
+  const match = String(input ?? "").trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([smhdw])$/);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * DURATION_UNITS[match[2]]);
+}
+
 // ---------------------------------------------------------------------------
 // Cooldown / model-failover state helpers
 // ---------------------------------------------------------------------------
@@ -206,50 +354,85 @@ export function formatCooldownLine(entry: CooldownEntry): string {
 // System inspection helpers
 // ---------------------------------------------------------------------------
 
+/** Numeric CPU, memory, and disk figures for the current host. */
+export interface SystemResourceStats {
+  cpu: {
+    /** 1, 5, and 15 minute load averages. */
+    load1: number;
+    load5: number;
+    load15: number;
+    cores: number;
+    /** 1-minute load relative to the core count, as a percentage. */
+    percent: number;
+  };
+  memory: { usedBytes: number; totalBytes: number; percent: number };
+  /** `null` when disk usage could not be determined. */
+  disk: { usedBytes: number; totalBytes: number; percent: number; root: string } | null;
+}
+
 /**
- * Gather CPU load, memory usage, and disk usage for the current host.
+ * Gather CPU load, memory usage, and disk usage for the current host as
+ * raw numbers (for JSON output, thresholds, and history sampling).
  *
  * @param workspacePath - Optional workspace path used to detect the correct
  *   drive on Windows. When omitted, falls back to `process.cwd()`.
  */
-export function getSystemResources(workspacePath?: string): { cpu: string; memory: string; disk: string } {
-  const platform = os.platform();
-
-  // CPU load
-  const loadavg = os.loadavg();
-  const cpu = `${loadavg[0].toFixed(2)}, ${loadavg[1].toFixed(2)}, ${loadavg[2].toFixed(2)}`;
+export function getSystemResourceStats(workspacePath?: string): SystemResourceStats {
+  const [load1, load5, load15] = os.loadavg();
+  const cores = os.cpus().length || 1;
 
-  // Memory
   const totalMem = os.totalmem();
-  const freeMem = os.freemem();
-  const usedMem = totalMem - freeMem;
-  const memPercent = ((usedMem / totalMem) * 100).toFixed(1);
-  const memory = `${formatBytes(usedMem)} / ${formatBytes(totalMem)} (${memPercent}%)`;
+  const usedMem = totalMem - os.freemem();
 
-  // Disk (platform-specific)
-  let disk = "N/A";
+  let disk: SystemResourceStats["disk"] = null;
   try {
-    if (platform === "linux" || platform === "darwin") {
-      const df = safeExec("df -h /");
-      const lines = df.split("\n");
-      if (lines.length >= 2) {
-        const parts = lines[1].split(/\s+/);
-        disk = `${parts[4] || "N/A"} used (${parts[2] || "?"} / ${parts[1] || "?"})`;
-      }
-    } else if (platform === "win32") {
-      // Detect the drive letter from the workspace path (or cwd as fallback).
-      // This avoids hardcoding C: which may not be the workspace drive.
-      const probePath = workspacePath ?? process.cwd();
-      const driveRoot = detectWindowsDriveRoot(probePath);
-      const stats = fs.statfsSync(driveRoot);
-      const total = stats.bsize * stats.blocks;
-      const free = stats.bsize * stats.bavail;
-      const used = total - free;
-      const usedPercent = ((used / total) * 100).toFixed(1);
-      disk = `${usedPercent}% used (${formatBytes(used)} / ${formatBytes(total)}) [${driveRoot.replace("\\", "")}]`;
+    // Detect the drive letter on Windows from the workspace path (or cwd as
+    // fallback). This avoids hardcoding C: which may not be the workspace drive.
+    const root =
+      os.platform() === "win32" ? detectWindowsDriveRoot(workspacePath ?? process.cwd()) : "/";
+    const stats = fs.statfsSync(root);
+    const total = stats.bsize * stats.blocks;
+    const used = total - stats.bsize * stats.bavail;
+    if (total > 0) {
+      disk = { usedBytes: used, totalBytes: total, percent: round1((used / total) * 100), root };
     }
   } catch {
-    // Keep N/A
+    // Keep null
+  }
+
+  return {
+    cpu: { load1, load5, load15, cores, percent: round1((load1 / cores) * 100) },
+    memory: { usedBytes: usedMem, totalBytes: totalMem, percent: round1((usedMem / totalMem) * 100) },
+    disk,
+  };
+}
+
+/** Round to one decimal place. */
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/**
+ * Gather CPU load, memory usage, and disk usage for the current host,
+ * formatted for display.
+ *
+ * @param workspacePath - Optional workspace path used to detect the correct
+ *   drive on Windows. When omitted, falls back to `process.cwd()`.
+ */
+export function getSystemResources(workspacePath?: string): { cpu: string; memory: string; disk: string } {
+  return formatSystemResources(getSystemResourceStats(workspacePath));
+}
+
+/** Format numeric resource stats into the display strings used by /health. */
+export function formatSystemResources(stats: SystemResourceStats): { cpu: string; memory: string; disk: string } {
+  const { cpu: c, memory: m, disk: d } = stats;
+  const cpu = `${c.load1.toFixed(2)}, ${c.load5.toFixed(2)}, ${c.load15.toFixed(2)}`;
+  const memory = `${formatBytes(m.usedBytes)} / ${formatBytes(m.totalBytes)} (${m.percent.toFixed(1)}%)`;
+
+  let disk = "N/A";
+  if (d) {
+    disk = `${d.percent.toFixed(1)}% used (${formatBytes(d.usedBytes)} / ${formatBytes(d.totalBytes)})`;
+    if (d.root !== "/") disk += ` [${d.root.replace("\\", "")}]`;
   }
 
   return { cpu, memory, disk };
@@ -274,17 +457,169 @@ export function detectWindowsDriveRoot(filepath: string): string {
   return "C:\\";
 }
 
+/** Port the OpenClaw gateway listens on when config.json does not set one. */
+export const DEFAULT_GATEWAY_PORT = 18789;
+
+/** State directory for a profile: `~/.openclaw` or `~/.openclaw-<profile>`. */
+export function profileStateDir(profile = "default"): string {
+  return profile === "default" ? expandHome("~/.openclaw") : expandHome(`~/.openclaw-${profile}`);
+}
+
+/** An OpenClaw profile and the paths that belong to it. */
+export interface OpenClawProfile {
+  /** `default`, `staging`, or the suffix of `~/.openclaw-<name>`. */
+  name: string;
+  stateDir: string;
+  configPath: string;
+  logDir: string;
+}
+
+/** Build the profile record for a profile name. */
+export function getProfile(name = "default"): OpenClawProfile {
+  const stateDir = profileStateDir(name);
+  return {
+    name,
+    stateDir,
+    configPath: path.join(stateDir, "config.json"),
+    logDir: path.join(stateDir, "logs"),
+  };
+}
+
+/**
+ * Discover OpenClaw profiles from the state directories in the home
+ * directory: `default` always, then one per `~/.openclaw-<name>` directory
+ * in name order, with `staging` last.
+ *
+ * Single source of truth for every command that iterates profiles.
+ */
+export function discoverProfiles(): OpenClawProfile[] {
+  const names: string[] = [];
+  let hasStaging = false;
+  try {
+    for (const entry of fs.readdirSync(os.homedir(), { withFileTypes: true })) {
+      if (!entry.isDirectory() || !entry.name.startsWith(".openclaw-")) continue;
+      const name = entry.name.slice(".openclaw-".length);
+      if (!name) continue;
+      if (name === "staging") hasStaging = true;
+      else names.push(name);
+    }
+  } catch {
+    // Continue with default only
+  }
+  return ["default", ...names.sort(), ...(hasStaging ? ["staging"] : [])].map(getProfile);
+}
+
+/**
+ * Profile of the gateway this plugin runs in: `OPENCLAW_PROFILE` when set,
+ * else the profile whose state dir is `OPENCLAW_STATE_DIR`, else `default`.
+ * Commands that restart or stop a gateway use it to avoid acting on their
+ * own host as if it were another process.
+ */
+export function hostGatewayProfile(env: NodeJS.ProcessEnv = process.env): string {
+  const profile = env.OPENCLAW_PROFILE?.trim();
+  if (profile) return profile;
+  const stateDir = env.OPENCLAW_STATE_DIR?.trim();
+  if (stateDir) {
+    const base = path.basename(path.resolve(expandHome(stateDir)));
+    if (base.startsWith(".openclaw-") && base.length > ".openclaw-".length) return base.slice(".openclaw-".length);
+  }
+  return "default";
+}
+
+/** A discovered profile by name, or `null` if no such profile exists. */
+export function findProfile(name: string): OpenClawProfile | null {
+  return discoverProfiles().find((p) => p.name === name) ?? null;
+}
+
+/**
+ * Read the gateway port configured in a profile's config.json
+ * (`gateway.port`, then top-level `port`). Returns `null` when unset.
+ */
+export function getConfiguredGatewayPort(profile = "default"): number | null {
+  const config = readJsonSafe<{ gateway?: { port?: string | number }; port?: string | number } | null>(
+    getProfile(profile).configPath,
+    null,
+  );
+  const port = parseInt(String(config?.gateway?.port || config?.port || ""), 10);
+  return Number.isInteger(port) && port > 0 && port < 65536 ? port : null;
+}
+
+/** Result of an HTTP liveness probe against a gateway port. */
+export interface GatewayProbeResult {
+  ok: boolean;
+  /** Time until the first response byte, when the probe succeeded. */
+  responseMs?: number;
+  error?: string;
+}
+
+/**
+ * Probe a gateway port with an HTTP request on localhost. Any HTTP response
+ * (whatever the status code) counts as alive; a refused connection or no
+ * response within `timeoutMs` does not. A plain TCP connect is not enough
+ * because the kernel accepts connections even when the process is hung.
+ */
+export function probeGatewayPort(port: number, timeoutMs = 3000): Promise<GatewayProbeResult> {
+  return new Promise((resolve) => {
+    const started = Date.now();
+    let settled = false;
+    const finish = (result: GatewayProbeResult) => {
+      if (settled) return;
+      settled = true;
+      resolve(result);
+    };
+
+    const req = http.get({ host: "127.0.0.1", port, path: "/", timeout: timeoutMs }, (res) => {
+      finish({ ok: true, responseMs: Date.now() - started });
+      res.resume();
+      req.destroy();
+    });
+    req.on("timeout", () => {
+      finish({ ok: false, error: `no response within ${timeoutMs}ms` });
+      req.destroy();
+    });
+    req.on("error", (err: NodeJS.ErrnoException) => {
+      finish({ ok: false, error: err.code ?? err.message });
+    });
+  });
+}
+
+/**
+ * Gateway state as seen by /health and /services:
+ * - `running`: the CLI reports it running and the port answers
+ * - `unresponsive`: the CLI reports it running but the port does not answer
+ * - `stopped`: the CLI does not report it running
+ */
+export type GatewayState = "running" | "unresponsive" | "stopped";
+
+export interface GatewayStatus {
+  /** `true` only when the gateway is running and responsive. */
+  running: boolean;
+  state: GatewayState;
+  pid?: number;
+  uptime?: string;
+  /** Effective port (configured or default) used for the liveness probe. */
+  port?: number;
+  responseMs?: number;
+  /** Why the probe failed, for unresponsive gateways. */
+  probeError?: string;
+}
+
 /**
  * Check whether the OpenClaw gateway is running for a given profile.
- * Returns running state, optional PID, and optional uptime string.
+ *
+ * Reads `openclaw gateway status` for process state, PID, and uptime, then
+ * probes the profile's configured gateway port to tell a live gateway from
+ * a hung one.
  */
-export function checkGatewayStatus(
+export async function checkGatewayStatus(
   profile = "default",
-): { running: boolean; pid?: number; uptime?: string } {
+  opts: { probeTimeoutMs?: number } = {},
+): Promise<GatewayStatus> {
   const profileArg = profile === "default" ? [] : ["--profile", profile];
-  const result = runCmd("openclaw", [...profileArg, "gateway", "status"], 10_000);
+  // Async: the sampler, watchdog and /restart poll this from inside the gateway
+  const result = await runCmdAsync("openclaw", [...profileArg, "gateway", "status"], 10_000);
 
-  const running = result.code === 0 && result.out.toLowerCase().includes("running");
+  const processRunning = result.code === 0 && result.out.toLowerCase().includes("running");
 
   let pid: number | undefined;
   let uptime: string | undefined;
@@ -294,7 +629,16 @@ export function checkGatewayStatus(
   const uptimeMatch = result.out.match(/uptime[:\s]+(.+?)(?:\n|$)/i);
   if (uptimeMatch) uptime = uptimeMatch[1].trim();
 
-  return { running, pid, uptime };
+  const port = getConfiguredGatewayPort(profile) ?? DEFAULT_GATEWAY_PORT;
+  if (!processRunning) {
+    return { running: false, state: "stopped", pid, uptime, port };
+  }
+
+  const probe = await probeGatewayPort(port, opts.probeTimeoutMs);
+  if (!probe.ok) {
+    return { running: false, state: "unresponsive", pid, uptime, port, probeError: probe.error };
+  }
+  return { running: true, state: "running", pid, uptime, port, responseMs: probe.responseMs };
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  resolveWatchdogConfig,
+  backoffDelayMs,
+  checkProfile,
+  runWatchdogTick,
+  readWatchdogEvents,
+  loadWatchdogState,
+  appendWatchdogEvent,
+  pruneWatchdogEvents,
+  watchedProfiles,
+  DEFAULT_WATCHDOG_CONFIG,
+} from "./watchdog.js";
+import type { WatchdogProfileState, WatchdogRestart } from "./watchdog.js";
+import type { GatewayStatus } from "./utils.js";
+import type { RestartOutcome } from "./gateway-restart.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-watchdog-" + process.pid);
+
+const DOWN: GatewayStatus = { running: false, state: "stopped", port: 18789 };
+const UP: GatewayStatus = { running: true, state: "running", pid: 200, port: 18789 };
+
+function freshState(): WatchdogProfileState {
+  return { consecutiveFailures: 0, restartStreak: 0, nextRestartAt: 0, restarts: [] };
+}
+
+function restartStub(ok = true): WatchdogRestart & { calls: string[] } {
+  const calls: string[] = [];
+  const fn = async (profile: string, mode: "graceful" | "force"): Promise<RestartOutcome> => {
+    calls.push(mode);
+    return {
+      profile,
+      mode,
+      before: DOWN,
+      after: ok ? UP : DOWN,
+      steps: [],
+      ok,
+      waitedMs: 4200,
+      ...(ok ? {} : { error: "Gateway did not come back within 60s: gateway is stopped" }),
+    };
+  };
+  return Object.assign(fn, { calls });
+}
+
+afterEach(() => {
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+});
+
+describe("resolveWatchdogConfig / backoffDelayMs", () => {
+  it("falls back to defaults for missing or invalid values", () => {
+    expect(resolveWatchdogConfig()).toEqual(DEFAULT_WATCHDOG_CONFIG);
+    expect(resolveWatchdogConfig({ checkInterval: 2, failureThreshold: 0, profiles: [] })).toEqual(DEFAULT_WATCHDOG_CONFIG);
+    expect(DEFAULT_WATCHDOG_CONFIG.profiles).toEqual([]);
+    expect(resolveWatchdogConfig({ profiles: ["staging"], maxRestartsPerHour: 5 })).toMatchObject({ profiles: ["staging"], maxRestartsPerHour: 5 });
+  });
+
+  it("doubles the backoff per restart up to the maximum", () => {
+    const cfg = resolveWatchdogConfig({ backoffBase: 60, backoffMax: 200 });
+    expect([1, 2, 3, 4].map((n) => backoffDelayMs(cfg, n))).toEqual([60_000, 120_000, 200_000, 200_000]);
+  });
+});
+
+describe("checkProfile", () => {
+  const cfg = resolveWatchdogConfig({ failureThreshold: 2, backoffBase: 60, maxRestartsPerHour: 2 });
+
+  it("restarts only after the failure threshold", async () => {
+    const ps = freshState();
+    const restart = restartStub();
+    const first = await checkProfile("default", ps, cfg, async () => DOWN, restart, 1_000_000);
+    expect(first.map((e) => e.action)).toEqual(["unhealthy"]);
+    expect(restart.calls).toEqual([]);
+
+    const second = await checkProfile("default", ps, cfg, async () => DOWN, restart, 1_060_000);
+    expect(second.map((e) => e.action)).toEqual(["restart"]);
+    expect(second[0].detail).toContain("graceful restart after 2 failed checks (gateway is stopped); back after 4.2s");
+    expect(restart.calls).toEqual(["graceful"]);
+    expect(ps.restartStreak).toBe(1);
+    expect(ps.nextRestartAt).toBe(1_060_000 + 60_000);
+  });
+
+  it("waits out the backoff and forces later restarts of a streak", async () => {
+    const ps = { ...freshState(), consecutiveFailures: 5, restartStreak: 1, nextRestartAt: 2_000_000 };
+    const restart = restartStub(false);
+    expect(await checkProfile("default", ps, cfg, async () => DOWN, restart, 1_999_000)).toEqual([]);
+    expect(restart.calls).toEqual([]);
+
+    const events = await checkProfile("default", ps, cfg, async () => DOWN, restart, 2_000_000);
+    expect(restart.calls).toEqual(["force"]);
+    expect(events[0].action).toBe("restart-failed");
+    expect(events[0].detail).toContain("next restart not before");
+    expect(ps.nextRestartAt).toBe(2_000_000 + 120_000);
+  });
+
+  it("stops at the hourly cap and reports it once", async () => {
+    const now = 10_000_000;
+    const recent = [new Date(now - 10 * 60_000).toISOString(), new Date(now - 5 * 60_000).toISOString()];
+    const ps = { ...freshState(), consecutiveFailures: 3, restarts: recent };
+    const restart = restartStub();
+    const events = await checkProfile("default", ps, cfg, async () => DOWN, restart, now);
+    expect(events.map((e) => e.action)).toEqual(["capped"]);
+    expect(await checkProfile("default", ps, cfg, async () => DOWN, restart, now + 60_000)).toEqual([]);
+    expect(restart.calls).toEqual([]);
+  });
+
+  it("forgets restarts older than an hour", async () => {
+    const now = 10_000_000;
+    const ps = { ...freshState(), consecutiveFailures: 3, restarts: [new Date(now - 2 * 3_600_000).toISOString()] };
+    const restart = restartStub();
+    await checkProfile("default", ps, cfg, async () => DOWN, restart, now);
+    expect(restart.calls).toHaveLength(1);
+    expect(ps.restarts).toHaveLength(1);
+  });
+
+  it("resets the streak when the gateway is healthy again", async () => {
+    const ps = { ...freshState(), consecutiveFailures: 1, restartStreak: 2, nextRestartAt: 5_000_000 };
+    const events = await checkProfile("default", ps, cfg, async () => UP, restartStub(), 1_000_000);
+    expect(events.map((e) => e.action)).toEqual(["recovered"]);
+    expect(ps).toMatchObject({ consecutiveFailures: 0, restartStreak: 0, nextRestartAt: 0 });
+    expect(await checkProfile("default", ps, cfg, async () => UP, restartStub(), 1_060_000)).toEqual([]);
+  });
+});
+
+describe("runWatchdogTick", () => {
+  it("persists state and logs events per profile", async () => {
+    const cfg = resolveWatchdogConfig({ profiles: ["work", "staging"], failureThreshold: 1 });
+    const check = async (profile: string) => (profile === "staging" ? DOWN : UP);
+    const events = await runWatchdogTick(tmpWorkspace, cfg, check, restartStub());
+    expect(events.map((e) => `${e.profile}:${e.action}`)).toEqual(["staging:unhealthy", "staging:restart"]);
+    expect(readWatchdogEvents(tmpWorkspace)).toEqual(events);
+
+    const state = loadWatchdogState(tmpWorkspace);
+    expect(state.profiles.work.lastCheck?.state).toBe("running");
+    expect(state.profiles.staging.restarts).toHaveLength(1);
+  });
+
+  it("never checks or restarts the host gateway", async () => {
+    // Tests run without OPENCLAW_PROFILE, so the host profile is default
+    const cfg = resolveWatchdogConfig({ profiles: ["default", "staging"], failureThreshold: 1 });
+    expect(watchedProfiles(cfg)).toEqual(["staging"]);
+
+    const restart = restartStub();
+    const self = { ...DOWN, pid: process.pid };
+    const events = await runWatchdogTick(tmpWorkspace, cfg, async () => self, restart);
+    expect(events).toEqual([]);
+    expect(restart.calls).toEqual([]);
+    expect(loadWatchdogState(tmpWorkspace).profiles.default).toBeUndefined();
+  });
+});
+
+describe("pruneWatchdogEvents", () => {
+  it("drops events older than the retention", () => {
+    const now = Date.now();
+    appendWatchdogEvent(tmpWorkspace, { ts: new Date(now - 30 * 86_400_000).toISOString(), profile: "default", action: "restart", detail: "old" });
+    appendWatchdogEvent(tmpWorkspace, { ts: new Date(now).toISOString(), profile: "default", action: "restart", detail: "new" });
+    expect(pruneWatchdogEvents(tmpWorkspace, now)).toBe(1);
+    expect(readWatchdogEvents(tmpWorkspace).map((e) => e.detail)).toEqual(["new"]);
+  });
+});
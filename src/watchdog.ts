@@ -0,0 +1,372 @@
+/**
+ * Gateway watchdog: automatic restarts with backoff.
+ *
+ * When `watchdog.enabled` is set in the plugin config, register() starts a
+ * loop that checks each watched profile's gateway (process check plus
+ * liveness probe) every `watchdog.checkInterval` seconds. After
+ * `failureThreshold` consecutive failed checks the gateway is restarted
+ * through restartGateway(). Further restarts while it stays down wait
+ * `backoffBase * 2^(n-1)` seconds (capped at `backoffMax`), and no more than
+ * `maxRestartsPerHour` restarts happen per profile in any hour. The first
+ * restart of a streak is graceful, later ones use force mode.
+ *
+ * The gateway hosting the plugin is never watched: when it is down, so is
+ * the watchdog, and restarting it from inside would kill the watchdog too.
+ * Its profile is skipped and no profile is watched unless configured.
+ *
+ * State file: <workspace>/monitoring/watchdog.json
+ * Event log:  <workspace>/monitoring/watchdog.jsonl
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { checkGatewayStatus, formatIsoCompact } from "./utils.js";
+import type { GatewayState } from "./utils.js";
+import { restartGateway, isHostGateway } from "./gateway-restart.js";
+import type { GatewayStatusCheck, RestartMode, RestartOutcome } from "./gateway-restart.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Watchdog section of the plugin config. */
+export interface WatchdogConfig {
+  /** Start the watchdog (default false). */
+  enabled?: boolean;
+  /** Profiles to watch (default none); the host gateway's profile is skipped. */
+  profiles?: string[];
+  /** Seconds between checks (default 60). */
+  checkInterval?: number;
+  /** Consecutive failed checks before a restart (default 3). */
+  failureThreshold?: number;
+  /** Delay before the second restart of a streak, doubled after each (default 60s). */
+  backoffBase?: number;
+  /** Upper bound for the backoff delay in seconds (default 1800). */
+  backoffMax?: number;
+  /** Restarts allowed per profile in any hour (default 3). */
+  maxRestartsPerHour?: number;
+}
+
+export type ResolvedWatchdogConfig = Required<Omit<WatchdogConfig, "enabled">>;
+
+export interface WatchdogProfileState {
+  consecutiveFailures: number;
+  /** Restarts since the gateway was last seen healthy; drives the backoff. */
+  restartStreak: number;
+  /** Epoch ms before which no restart is attempted. */
+  nextRestartAt: number;
+  /** ISO timestamps of restarts within the last hour. */
+  restarts: string[];
+  /** When the hourly cap was last reported, so it is logged once per hour. */
+  cappedAt?: string;
+  lastCheck?: { ts: string; state: GatewayState };
+}
+
+export interface WatchdogState {
+  profiles: Record<string, WatchdogProfileState>;
+}
+
+export type WatchdogAction = "unhealthy" | "restart" | "restart-failed" | "capped" | "recovered";
+
+export interface WatchdogEvent {
+  ts: string;
+  profile: string;
+  action: WatchdogAction;
+  detail: string;
+}
+
+/** Restart used by the watchdog; replaceable in tests. */
+export type WatchdogRestart = (profile: string, mode: RestartMode) => Promise<RestartOutcome>;
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_WATCHDOG_CONFIG: ResolvedWatchdogConfig = {
+  profiles: [],
+  checkInterval: 60,
+  failureThreshold: 3,
+  backoffBase: 60,
+  backoffMax: 1800,
+  maxRestartsPerHour: 3,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Watchdog log entries older than this are pruned. */
+const EVENT_RETENTION_MS = 14 * 24 * HOUR_MS;
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Resolve the watchdog config; invalid values fall back to the defaults. */
+export function resolveWatchdogConfig(cfg: WatchdogConfig = {}): ResolvedWatchdogConfig {
+  const positive = (value: unknown, fallback: number, min = 1) =>
+    typeof value === "number" && Number.isFinite(value) && value >= min ? value : fallback;
+  const d = DEFAULT_WATCHDOG_CONFIG;
+  return {
+    profiles: Array.isArray(cfg.profiles) ? cfg.profiles.map(String) : d.profiles,
+    checkInterval: positive(cfg.checkInterval, d.checkInterval, 10),
+    failureThreshold: Math.floor(positive(cfg.failureThreshold, d.failureThreshold)),
+    backoffBase: positive(cfg.backoffBase, d.backoffBase),
+    backoffMax: positive(cfg.backoffMax, d.backoffMax),
+    maxRestartsPerHour: Math.floor(positive(cfg.maxRestartsPerHour, d.maxRestartsPerHour)),
+  };
+}
+
+/** Configured profiles the watchdog can act on: all but the host gateway's. */
+export function watchedProfiles(cfg: ResolvedWatchdogConfig): string[] {
+  return cfg.profiles.filter((p) => !isHostGateway(p));
+}
+
+/** Backoff after the `streak`-th restart of a streak, in ms. */
+export function backoffDelayMs(cfg: ResolvedWatchdogConfig, streak: number): number {
+  return Math.min(cfg.backoffBase * 2 ** Math.max(0, streak - 1), cfg.backoffMax) * 1000;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** Path of the watchdog state file for a workspace. */
+export function watchdogStatePath(workspace: string): string {
+  return path.join(workspace, "monitoring", "watchdog.json");
+}
+
+/** Path of the watchdog event log for a workspace. */
+export function watchdogLogPath(workspace: string): string {
+  return path.join(workspace, "monitoring", "watchdog.jsonl");
+}
+
+export function loadWatchdogState(workspace: string): WatchdogState {
+  try {
+    const st = JSON.parse(fs.readFileSync(watchdogStatePath(workspace), "utf-8")) as Partial<WatchdogState>;
+    return { profiles: st.profiles && typeof st.profiles === "object" ? st.profiles : {} };
+  } catch {
+    return { profiles: {} };
+  }
+}
+
+export function saveWatchdogState(workspace: string, state: WatchdogState): void {
+  const file = watchdogStatePath(workspace);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(state, null, 2) + "\n", "utf-8");
+}
+
+export function appendWatchdogEvent(workspace: string, event: WatchdogEvent): void {
+  const file = watchdogLogPath(workspace);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(event) + "\n", "utf-8");
+}
+
+/** Events recorded at or after `sinceMs`, oldest first. Malformed lines are skipped. */
+export function readWatchdogEvents(workspace: string, sinceMs = 0): WatchdogEvent[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(watchdogLogPath(workspace), "utf-8");
+  } catch {
+    return [];
+  }
+  const events: WatchdogEvent[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line) as WatchdogEvent;
+      if (Date.parse(event.ts) >= sinceMs) events.push(event);
+    } catch {
+      // skip malformed
+    }
+  }
+  return events;
+}
+
+/** Drop events older than EVENT_RETENTION_MS; rewrites the log only when needed. */
+export function pruneWatchdogEvents(workspace: string, now = Date.now()): number {
+  const all = readWatchdogEvents(workspace);
+  const kept = all.filter((e) => Date.parse(e.ts) >= now - EVENT_RETENTION_MS);
+  const removed = all.length - kept.length;
+  if (removed > 0) {
+    fs.writeFileSync(watchdogLogPath(workspace), kept.map((e) => JSON.stringify(e) + "\n").join(""), "utf-8");
+  }
+  return removed;
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+function emptyProfileState(): WatchdogProfileState {
+  return { consecutiveFailures: 0, restartStreak: 0, nextRestartAt: 0, restarts: [] };
+}
+
+const defaultRestart: WatchdogRestart = (profile, mode) => restartGateway(profile, { mode });
+
+/**
+ * Check one profile and restart it if the failure threshold, backoff and
+ * hourly cap allow. Updates `ps` in place and returns the events to log.
+ */
+export async function checkProfile(
+  profile: string,
+  ps: WatchdogProfileState,
+  cfg: ResolvedWatchdogConfig,
+  check: GatewayStatusCheck = checkGatewayStatus,
+  restart: WatchdogRestart = defaultRestart,
+  now = Date.now(),
+): Promise<WatchdogEvent[]> {
+  const ts = new Date(now).toISOString();
+  const event = (action: WatchdogAction, detail: string): WatchdogEvent => ({ ts, profile, action, detail });
+  const status = await check(profile);
+  // watchedProfiles() skips the host's profile; this catches a profile the host runs under by another name
+  if (status.pid === process.pid) return [];
+  ps.lastCheck = { ts, state: status.state };
+  ps.restarts = ps.restarts.filter((r) => now - Date.parse(r) < HOUR_MS);
+
+  if (status.running) {
+    const events: WatchdogEvent[] = [];
+    if (ps.consecutiveFailures > 0 || ps.restartStreak > 0) {
+      events.push(event("recovered", `healthy again after ${ps.consecutiveFailures} failed check(s)`));
+    }
+    Object.assign(ps, { consecutiveFailures: 0, restartStreak: 0, nextRestartAt: 0 });
+    return events;
+  }
+
+  ps.consecutiveFailures++;
+  const reason = status.state === "unresponsive" ? `not answering on port ${status.port}` : "gateway is stopped";
+  const events: WatchdogEvent[] = [];
+  if (ps.consecutiveFailures === 1) events.push(event("unhealthy", reason));
+  if (ps.consecutiveFailures < cfg.failureThreshold) return events;
+
+  if (ps.restarts.length >= cfg.maxRestartsPerHour) {
+    if (!ps.cappedAt || now - Date.parse(ps.cappedAt) >= HOUR_MS) {
+      ps.cappedAt = ts;
+      events.push(event("capped", `${ps.restarts.length} restarts in the last hour; not restarting (${reason})`));
+    }
+    return events;
+  }
+  if (now < ps.nextRestartAt) return events;
+
+  const mode: RestartMode = ps.restartStreak > 0 ? "force" : "graceful";
+  const outcome = await restart(profile, mode);
+  ps.restartStreak++;
+  ps.restarts.push(ts);
+  ps.nextRestartAt = now + backoffDelayMs(cfg, ps.restartStreak);
+  const after = `${mode} restart after ${ps.consecutiveFailures} failed checks (${reason})`;
+  if (outcome.ok) {
+    ps.consecutiveFailures = 0;
+    events.push(event("restart", `${after}; back after ${(outcome.waitedMs / 1000).toFixed(1)}s`));
+  } else {
+    const next = `next restart not before ${formatIsoCompact(ps.nextRestartAt)} UTC`;
+    events.push(event("restart-failed", `${after} failed: ${outcome.error}; ${next}`));
+  }
+  return events;
+}
+
+/** Run one watchdog pass over every watched profile and persist the result. */
+export async function runWatchdogTick(
+  workspace: string,
+  cfg: ResolvedWatchdogConfig,
+  check: GatewayStatusCheck = checkGatewayStatus,
+  restart: WatchdogRestart = defaultRestart,
+  now = Date.now(),
+): Promise<WatchdogEvent[]> {
+  const state = loadWatchdogState(workspace);
+  const events: WatchdogEvent[] = [];
+  for (const profile of watchedProfiles(cfg)) {
+    const ps = (state.profiles[profile] ??= emptyProfileState());
+    events.push(...(await checkProfile(profile, ps, cfg, check, restart, now)));
+  }
+  saveWatchdogState(workspace, state);
+  for (const e of events) appendWatchdogEvent(workspace, e);
+  return events;
+}
+
+export interface WatchdogOptions {
+  /** Called for every logged event. */
+  onEvent?: (event: WatchdogEvent) => void;
+  /** Called when a tick fails; the watchdog keeps running. */
+  onError?: (err: unknown) => void;
+}
+
+/**
+ * Start the watchdog loop. The timer is unref'd so it never keeps the
+ * process alive. Returns a function that stops it.
+ */
+export function startWatchdog(workspace: string, cfg: ResolvedWatchdogConfig, opts: WatchdogOptions = {}): () => void {
+  let lastPrune = 0;
+  let busy = false;
+
+  const tick = async () => {
+    // A restart can take a minute; never overlap ticks
+    if (busy) return;
+    busy = true;
+    try {
+      const events = await runWatchdogTick(workspace, cfg);
+      for (const e of events) opts.onEvent?.(e);
+      if (Date.now() - lastPrune >= HOUR_MS) {
+        pruneWatchdogEvents(workspace);
+        lastPrune = Date.now();
+      }
+    } catch (err) {
+      opts.onError?.(err);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const timer = setInterval(tick, cfg.checkInterval * 1000);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/** One event, e.g. `2026-01-01 10:00 default restart: graceful restart ...`. */
+export function formatWatchdogEvent(event: WatchdogEvent): string {
+  return `${formatIsoCompact(Date.parse(event.ts))} ${event.profile} ${event.action}: ${event.detail}`;
+}
+
+/** `/watchdog status`: config, per-profile state and recent events. */
+export function renderWatchdogStatus(
+  enabled: boolean,
+  cfg: ResolvedWatchdogConfig,
+  state: WatchdogState,
+  events: WatchdogEvent[],
+  now = Date.now(),
+): string {
+  const lines: string[] = [];
+  lines.push(
+    enabled
+      ? `Watchdog: enabled (every ${cfg.checkInterval}s, restart after ${cfg.failureThreshold} failed checks, max ${cfg.maxRestartsPerHour}/h)`
+      : "Watchdog: disabled (set watchdog.enabled in the plugin config)",
+  );
+
+  lines.push("");
+  lines.push("PROFILES");
+  if (cfg.profiles.length === 0) lines.push("- (none; list profiles in watchdog.profiles)");
+  const watched = watchedProfiles(cfg);
+  for (const profile of cfg.profiles) {
+    if (!watched.includes(profile)) {
+      lines.push(`- ${profile}: not watched (hosts this plugin; a watchdog cannot restart its own gateway)`);
+      continue;
+    }
+    const ps = state.profiles[profile];
+    if (!ps?.lastCheck) {
+      lines.push(`- ${profile}: not checked yet`);
+      continue;
+    }
+    const health = ps.lastCheck.state === "running" ? "healthy" : `${ps.lastCheck.state}, ${ps.consecutiveFailures} failed check(s)`;
+    lines.push(`- ${profile}: ${health} (checked ${formatIsoCompact(Date.parse(ps.lastCheck.ts))} UTC)`);
+    const lastHour = ps.restarts.filter((r) => now - Date.parse(r) < HOUR_MS).length;
+    lines.push(`  Restarts last hour: ${lastHour}/${cfg.maxRestartsPerHour}`);
+    if (ps.nextRestartAt > now) lines.push(`  Backoff until: ${formatIsoCompact(ps.nextRestartAt)} UTC`);
+  }
+
+  lines.push("");
+  lines.push("RECENT EVENTS");
+  if (events.length === 0) lines.push("- (none)");
+  for (const e of events.slice(-10).reverse()) lines.push(`- ${formatWatchdogEvent(e)}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  parseWatchSpec,
+  formatWatch,
+  addWatch,
+  removeWatch,
+  evaluateWatches,
+  loadWatchState,
+  saveWatchState,
+  startWatchEvaluator,
+  renderWatchesText,
+} from "./watches.js";
+import type { WatchSpec, WatchState } from "./watches.js";
+import type { AlertMetrics } from "./alerts.js";
+
+const tmpWorkspace = path.join(os.tmpdir(), "openclaw-ops-elvatis-test-watches-" + process.pid);
+
+const metrics = (overrides: Partial<AlertMetrics> = {}): AlertMetrics => ({
+  cpu: 10, memory: 40, disk: 50, cooldowns: 0, errors: 0, ...overrides,
+});
+const empty = (): WatchState => ({ nextId: 1, watches: [] });
+
+afterEach(() => {
+  vi.useRealTimers();
+  try { fs.rmSync(tmpWorkspace, { recursive: true, force: true }); } catch {}
+});
+
+// ---------------------------------------------------------------------------
+// parseWatchSpec
+// ---------------------------------------------------------------------------
+describe("parseWatchSpec", () => {
+  it("parses metric, operator and threshold", () => {
+    expect(parseWatchSpec("disk > 90")).toEqual({ metric: "disk", op: ">", threshold: 90, forMs: 0 });
+    expect(parseWatchSpec("cooldowns>=3")).toMatchObject({ metric: "cooldowns", op: ">=", threshold: 3 });
+  });
+
+  it("accepts a percent sign and a for window", () => {
+    expect(parseWatchSpec("Memory >= 85.5% for 5m")).toEqual({
+      metric: "memory", op: ">=", threshold: 85.5, forMs: 300_000, forLabel: "5m",
+    });
+  });
+
+  it("rejects unknown metrics, bad durations and malformed input", () => {
+    expect(parseWatchSpec("swap > 10")).toContain('Unknown metric "swap"');
+    expect(parseWatchSpec("disk > 90 for ever")).toContain('Invalid duration "ever"');
+    expect(parseWatchSpec("disk is high")).toContain("Expected <metric> <op> <threshold>");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// add / remove / format
+// ---------------------------------------------------------------------------
+describe("addWatch and removeWatch", () => {
+  it("assigns increasing ids and removes by id", () => {
+    const state = empty();
+    const a = addWatch(state, parseWatchSpec("disk > 90") as WatchSpec, { channel: "telegram" });
+    const b = addWatch(state, parseWatchSpec("cpu > 80 for 10m") as WatchSpec, {});
+    expect([a.id, b.id]).toEqual([1, 2]);
+    expect(formatWatch(b)).toBe("#2 cpu > 80 for 10m");
+    expect(removeWatch(state, 1)?.metric).toBe("disk");
+    expect(removeWatch(state, 1)).toBeNull();
+    expect(state.watches.map((w) => w.id)).toEqual([2]);
+  });
+
+  it("round-trips state through the workspace file", () => {
+    const state = empty();
+    addWatch(state, parseWatchSpec("errors >= 5") as WatchSpec, { channel: "discord", to: "u1" });
+    saveWatchState(tmpWorkspace, state);
+    expect(loadWatchState(tmpWorkspace)).toEqual(state);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// evaluateWatches
+// ---------------------------------------------------------------------------
+describe("evaluateWatches", () => {
+  it("trips immediately without a for window, once per breach", () => {
+    const state = empty();
+    addWatch(state, parseWatchSpec("disk > 90") as WatchSpec, {});
+    expect(evaluateWatches(state, metrics({ disk: 95 }))).toHaveLength(1);
+    expect(evaluateWatches(state, metrics({ disk: 96 }))).toHaveLength(0);
+    expect(state.watches[0].lastValue).toBe(96);
+  });
+
+  it("re-arms after the condition clears", () => {
+    const state = empty();
+    addWatch(state, parseWatchSpec("cooldowns >= 3") as WatchSpec, {});
+    evaluateWatches(state, metrics({ cooldowns: 3 }));
+    evaluateWatches(state, metrics({ cooldowns: 0 }));
+    expect(state.watches[0].tripped).toBe(false);
+    expect(evaluateWatches(state, metrics({ cooldowns: 4 }))).toHaveLength(1);
+  });
+
+  it("waits for the for window before tripping", () => {
+    const state = empty();
+    addWatch(state, parseWatchSpec("cpu > 80 for 5m") as WatchSpec, {});
+    const t0 = new Date("2026-03-01T12:00:00Z");
+    expect(evaluateWatches(state, metrics({ cpu: 90 }), t0)).toHaveLength(0);
+    expect(evaluateWatches(state, metrics({ cpu: 90 }), new Date(t0.getTime() + 120_000))).toHaveLength(0);
+    expect(evaluateWatches(state, metrics({ cpu: 90 }), new Date(t0.getTime() + 300_000))).toHaveLength(1);
+  });
+
+  it("skips metrics that are unknown", () => {
+    const state = empty();
+    addWatch(state, parseWatchSpec("disk < 100") as WatchSpec, {});
+    expect(evaluateWatches(state, metrics({ disk: null }))).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// startWatchEvaluator
+// ---------------------------------------------------------------------------
+describe("startWatchEvaluator", () => {
+  it("notifies tripped watches and persists their state", async () => {
+    vi.useFakeTimers();
+    const state = empty();
+    addWatch(state, parseWatchSpec("cooldowns >= 0") as WatchSpec, { channel: "telegram" });
+    saveWatchState(tmpWorkspace, state);
+
+    const onTrip = vi.fn();
+    const stop = startWatchEvaluator(tmpWorkspace, { intervalMs: 1000, onTrip });
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+    stop();
+
+    expect(onTrip).toHaveBeenCalledTimes(1);
+    expect(onTrip.mock.calls[0][0].target).toEqual({ channel: "telegram" });
+    expect(loadWatchState(tmpWorkspace).watches[0].tripped).toBe(true);
+  });
+
+  it("stops itself when no watches remain", async () => {
+    vi.useFakeTimers();
+    const onIdle = vi.fn();
+    startWatchEvaluator(tmpWorkspace, { intervalMs: 1000, onTrip: () => {}, onIdle });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderWatchesText
+// ---------------------------------------------------------------------------
+describe("renderWatchesText", () => {
+  it("explains how to add a watch when there are none", () => {
+    const text = renderWatchesText(empty());
+    expect(text).toContain("Watches (0)");
+    expect(text).toContain("/watch <metric> <op> <threshold>");
+  });
+
+  it("lists watches with their state and target", () => {
+    const state = empty();
+    addWatch(state, parseWatchSpec("disk > 90") as WatchSpec, { channel: "telegram", to: "12345" });
+    evaluateWatches(state, metrics({ disk: 93 }));
+    const text = renderWatchesText(state);
+    expect(text).toContain("⚠ #1 disk > 90 (now 93)");
+    expect(text).toMatch(/  Tripped: \d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC/);
+    expect(text).toContain("  Created from: telegram 12345");
+  });
+});
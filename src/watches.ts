@@ -0,0 +1,267 @@
+/**
+ * Ad-hoc metric watches for /watch.
+ *
+ * A watch is a single condition such as `disk > 90` or `cooldowns >= 3 for 5m`
+ * registered from a chat. A background evaluator checks every watch on an
+ * interval; when a condition has held for its `for` window the watch trips
+ * once, notifies the chat that created it through the host's channel
+ * runtime (falling back to the gateway log when the host cannot message
+ * that channel), and shows as tripped in `/watch list`. It re-arms after
+ * the condition clears.
+ *
+ * Metrics are the same ones the alert engine uses (see collectAlertMetrics).
+ *
+ * State file: <workspace>/monitoring/watches.json
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { parseDuration, formatIsoCompact } from "./utils.js";
+import { ALERT_RULES, collectAlertMetrics } from "./alerts.js";
+import type { AlertMetrics, AlertRule } from "./alerts.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type WatchMetric = AlertRule;
+
+export const WATCH_METRICS: WatchMetric[] = ALERT_RULES;
+
+export type WatchOp = ">" | ">=" | "<" | "<=" | "==" | "!=";
+
+/** Where a tripped watch is reported: the conversation that created it. */
+export interface WatchTarget {
+  channel?: string;
+  to?: string;
+  sessionId?: string;
+}
+
+export interface WatchSpec {
+  metric: WatchMetric;
+  op: WatchOp;
+  threshold: number;
+  /** How long the condition must hold before tripping (0 = immediately). */
+  forMs: number;
+  /** The `for` window as typed, e.g. "5m". */
+  forLabel?: string;
+}
+
+export interface Watch extends WatchSpec {
+  id: number;
+  createdAt: string;
+  target: WatchTarget;
+  /** When the condition started holding (cleared when it stops). */
+  breachedSince?: string;
+  /** `true` once reported for the current breach. */
+  tripped: boolean;
+  lastTrippedAt?: string;
+  lastValue?: number;
+}
+
+export interface WatchState {
+  nextId: number;
+  watches: Watch[];
+}
+
+// ---------------------------------------------------------------------------
+// Parsing / formatting
+// ---------------------------------------------------------------------------
+
+const SPEC_RE = /^(\w+)\s*(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?)%?(?:\s+for\s+(\S+))?$/i;
+
+/**
+ * Parse `<metric> <op> <threshold> [for <duration>]`.
+ * Returns the spec, or an error message for the user.
+ */
+export function parseWatchSpec(input: string): WatchSpec | string {
+  const m = input.trim().match(SPEC_RE);
+  if (!m) return "Expected <metric> <op> <threshold> [for <duration>], e.g. disk > 90 for 5m";
+
+  const metric = m[1].toLowerCase() as WatchMetric;
+  if (!WATCH_METRICS.includes(metric)) {
+    return `Unknown metric "${m[1]}". Metrics: ${WATCH_METRICS.join(", ")}`;
+  }
+
+  let forMs = 0;
+  if (m[4]) {
+    const parsed = parseDuration(m[4]);
+    if (parsed === null) return `Invalid duration "${m[4]}" (use e.g. 30s, 5m, 1h)`;
+    forMs = parsed;
+  }
+
+  return {
+    metric,
+    op: m[2] as WatchOp,
+    threshold: parseFloat(m[3]),
+    forMs,
+    ...(m[4] ? { forLabel: m[4] } : {}),
+  };
+}
+
+/** e.g. `#2 disk > 90 for 5m`. */
+export function formatWatch(watch: Watch): string {
+  return `#${watch.id} ${watch.metric} ${watch.op} ${watch.threshold}${watch.forLabel ? ` for ${watch.forLabel}` : ""}`;
+}
+
+function compare(value: number, op: WatchOp, threshold: number): boolean {
+  switch (op) {
+    case ">": return value > threshold;
+    case ">=": return value >= threshold;
+    case "<": return value < threshold;
+    case "<=": return value <= threshold;
+    case "==": return value === threshold;
+    case "!=": return value !== threshold;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** Path of the watch state file for a workspace. */
+export function watchStatePath(workspace: string): string {
+  return path.join(workspace, "monitoring", "watches.json");
+}
+
+export function loadWatchState(workspace: string): WatchState {
+  try {
+    const st = JSON.parse(fs.readFileSync(watchStatePath(workspace), "utf-8")) as Partial<WatchState>;
+    return {
+      nextId: typeof st.nextId === "number" ? st.nextId : 1,
+      watches: Array.isArray(st.watches) ? st.watches : [],
+    };
+  } catch {
+    return { nextId: 1, watches: [] };
+  }
+}
+
+export function saveWatchState(workspace: string, state: WatchState): void {
+  const file = watchStatePath(workspace);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(state, null, 2) + "\n", "utf-8");
+}
+
+/** Add a watch and return it. */
+export function addWatch(state: WatchState, spec: WatchSpec, target: WatchTarget, now = new Date()): Watch {
+  const watch: Watch = { ...spec, id: state.nextId++, createdAt: now.toISOString(), target, tripped: false };
+  state.watches.push(watch);
+  return watch;
+}
+
+/** Remove a watch by id. Returns the removed watch, or null if not found. */
+export function removeWatch(state: WatchState, id: number): Watch | null {
+  const idx = state.watches.findIndex((w) => w.id === id);
+  if (idx === -1) return null;
+  return state.watches.splice(idx, 1)[0];
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluate every watch against the metrics and update state in place.
+ * Returns the watches that tripped during this evaluation.
+ */
+export function evaluateWatches(state: WatchState, metrics: AlertMetrics, now = new Date()): Watch[] {
+  const tripped: Watch[] = [];
+  for (const watch of state.watches) {
+    const value = metrics[watch.metric];
+    if (value === null || value === undefined) continue;
+    watch.lastValue = value;
+
+    if (!compare(value, watch.op, watch.threshold)) {
+      // Condition cleared: re-arm
+      delete watch.breachedSince;
+      watch.tripped = false;
+      continue;
+    }
+
+    watch.breachedSince ??= now.toISOString();
+    const heldMs = now.getTime() - new Date(watch.breachedSince).getTime();
+    if (!watch.tripped && heldMs >= watch.forMs) {
+      watch.tripped = true;
+      watch.lastTrippedAt = now.toISOString();
+      tripped.push(watch);
+    }
+  }
+  return tripped;
+}
+
+// ---------------------------------------------------------------------------
+// Background evaluator
+// ---------------------------------------------------------------------------
+
+export interface WatchEvaluatorOptions {
+  intervalMs: number;
+  /** Called for every watch that trips. */
+  onTrip: (watch: Watch) => void | Promise<void>;
+  /** Called when a tick fails; the evaluator keeps running. */
+  onError?: (err: unknown) => void;
+  /** Called when the evaluator stops itself because no watches remain. */
+  onIdle?: () => void;
+}
+
+/**
+ * Evaluate persisted watches on an interval. The timer is unref'd and the
+ * evaluator stops itself once no watches remain. Returns a stop function.
+ */
+export function startWatchEvaluator(workspace: string, opts: WatchEvaluatorOptions): () => void {
+  let busy = false;
+
+  const tick = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      const state = loadWatchState(workspace);
+      if (state.watches.length === 0) {
+        stop();
+        opts.onIdle?.();
+        return;
+      }
+      const tripped = evaluateWatches(state, collectAlertMetrics(workspace));
+      saveWatchState(workspace, state);
+      for (const watch of tripped) await opts.onTrip(watch);
+    } catch (err) {
+      opts.onError?.(err);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const timer = setInterval(tick, opts.intervalMs);
+  timer.unref?.();
+  const stop = () => clearInterval(timer);
+  return stop;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/** `telegram 12345`, or `(unknown)` without a channel. */
+export function formatWatchTarget(target: WatchTarget): string {
+  if (!target.channel) return "(unknown)";
+  return `${target.channel}${target.to ? ` ${target.to}` : ""}`;
+}
+
+/** Render the `/watch list` text block. */
+export function renderWatchesText(state: WatchState): string {
+  const lines: string[] = [`Watches (${state.watches.length})`, ""];
+  if (state.watches.length === 0) {
+    lines.push("- (none)");
+    lines.push("");
+    lines.push("Add one with /watch <metric> <op> <threshold> [for <duration>]");
+    lines.push(`Metrics: ${WATCH_METRICS.join(", ")}`);
+    return lines.join("\n");
+  }
+  for (const w of state.watches) {
+    const icon = w.tripped ? "⚠" : w.breachedSince ? "○" : "✓";
+    const current = w.lastValue !== undefined ? ` (now ${w.lastValue})` : "";
+    lines.push(`${icon} ${formatWatch(w)}${current}`);
+    if (w.tripped && w.lastTrippedAt) lines.push(`  Tripped: ${formatIsoCompact(Date.parse(w.lastTrippedAt))} UTC`);
+    if (w.target.channel) lines.push(`  Created from: ${formatWatchTarget(w.target)}`);
+  }
+  return lines.join("\n");
+}